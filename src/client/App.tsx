@@ -6,6 +6,7 @@ import { HomePage } from './pages/HomePage.js';
 import { SchemaPage } from './pages/SchemaPage.js';
 import { VersionHistoryPage } from './pages/VersionHistoryPage.js';
 import { SettingsPage } from './pages/SettingsPage.js';
+import { RelationshipsPage } from './pages/RelationshipsPage.js';
 import { useSchemaStore } from './stores/schemaStore.js';
 import { useUiStore } from './stores/uiStore.js';
 import { api } from './services/client.js';
@@ -14,7 +15,7 @@ import type { GuiConfig } from '../shared/types.js';
 // Root component that handles initialization
 function Root(): React.ReactElement {
   const { loadSchemas } = useSchemaStore();
-  const { setCustomTypes } = useUiStore();
+  const { setCustomTypes, setLocales, setLintConfig } = useUiStore();
 
   useEffect(() => {
     loadSchemas();
@@ -23,8 +24,12 @@ function Root(): React.ReactElement {
       if (config.customTypes) {
         setCustomTypes(config.customTypes);
       }
+      if (config.locales) {
+        setLocales(config.locales, config.defaultLocale);
+      }
+      setLintConfig(config.lint ?? {});
     }).catch(console.error);
-  }, [loadSchemas, setCustomTypes]);
+  }, [loadSchemas, setCustomTypes, setLocales, setLintConfig]);
 
   return <Outlet />;
 }
@@ -39,6 +44,7 @@ const router = createBrowserRouter([
         children: [
           { path: '/', element: <HomePage /> },
           { path: '/schema/:name', element: <SchemaPage /> },
+          { path: '/relationships', element: <RelationshipsPage /> },
           { path: '/history', element: <VersionHistoryPage /> },
           { path: '/settings', element: <SettingsPage /> },
           { path: '*', element: <Navigate to="/" replace /> },
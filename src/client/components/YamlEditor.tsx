@@ -8,6 +8,10 @@ import { oneDark } from '@codemirror/theme-one-dark';
 import { EditorState } from '@codemirror/state';
 import { useEffect, useRef, useCallback } from 'react';
 import { useUiStore } from '../stores/uiStore.js';
+import { yamlSchemaHints } from '../utils/yamlEditorHints.js';
+import { yamlLint } from '../utils/yamlEditorLint.js';
+import type { YamlHintContext } from '../../shared/yamlCompletion.js';
+import type { YamlDiagnostic } from '../../shared/yamlDiagnostics.js';
 
 interface YamlEditorProps {
   value: string;
@@ -15,11 +19,15 @@ interface YamlEditorProps {
   error?: string | null;
   height?: string;
   readOnly?: boolean;
+  // Schema-aware key/value completion and hover docs (schema files only)
+  hints?: YamlHintContext;
+  // Inline lint markers, re-run after a pause in typing
+  diagnose?: (source: string) => Promise<YamlDiagnostic[]>;
 }
 
 /**
  * A CodeMirror-based YAML editor with syntax highlighting.
- * Supports dark mode and external value synchronization.
+ * Supports dark mode, external value synchronization, schema hints and diagnostics.
  */
 export function YamlEditor({
   value,
@@ -27,10 +35,18 @@ export function YamlEditor({
   error,
   height = '500px',
   readOnly = false,
+  hints,
+  diagnose,
 }: YamlEditorProps) {
   const editorRef = useRef<HTMLDivElement>(null);
   const viewRef = useRef<EditorView | null>(null);
   const darkMode = useUiStore((state) => state.darkMode);
+  const hintsRef = useRef(hints);
+  hintsRef.current = hints;
+  const hasHints = hints !== undefined;
+  const diagnoseRef = useRef(diagnose);
+  diagnoseRef.current = diagnose;
+  const hasDiagnostics = diagnose !== undefined;
 
   // Create editor on mount
   useEffect(() => {
@@ -48,6 +64,14 @@ export function YamlEditor({
       EditorState.readOnly.of(readOnly),
     ];
 
+    if (hasHints) {
+      extensions.push(yamlSchemaHints(() => hintsRef.current ?? { schemaNames: [], customTypes: [] }));
+    }
+
+    if (hasDiagnostics) {
+      extensions.push(yamlLint((source) => diagnoseRef.current?.(source) ?? Promise.resolve([])));
+    }
+
     // Add dark theme if in dark mode
     if (darkMode) {
       extensions.push(oneDark);
@@ -65,7 +89,7 @@ export function YamlEditor({
       view.destroy();
       viewRef.current = null;
     };
-  }, [darkMode, readOnly]); // Recreate editor when dark mode or readOnly changes
+  }, [darkMode, readOnly, hasHints, hasDiagnostics]); // Recreate editor when dark mode, readOnly, hints or diagnostics change
 
   // Sync external value changes
   const syncValue = useCallback((newValue: string) => {
@@ -17,6 +17,7 @@ import {
   Row,
   Col,
   Popconfirm,
+  Tabs,
   message,
 } from 'antd';
 import { useTranslation } from 'react-i18next';
@@ -32,6 +33,7 @@ import {
 import { versionsApi, type PendingChangesResult } from '../../services/versions.js';
 import { useSchemaStore } from '../../stores/schemaStore.js';
 import { ChangesList, countChangesByType } from './ChangesList.js';
+import { PendingMigrationView } from './PendingMigrationView.js';
 
 const { Title, Text } = Typography;
 
@@ -181,18 +183,34 @@ export function ChangesPreviewModal({
           style={{ marginBottom: 16 }}
         /> */}
 
-        {/* Changes list using shared component */}
-        <div
-          style={{
-            maxHeight: 400,
-            overflow: 'auto',
-            padding: 12,
-            background: token.colorBgLayout,
-            borderRadius: token.borderRadius,
-          }}
-        >
-          <ChangesList changes={pending.changes} />
-        </div>
+        {/* Changes list using shared component, and the SQL they imply */}
+        <Tabs
+          size="small"
+          items={[
+            {
+              key: 'changes',
+              label: t('changes.changesTab'),
+              children: (
+                <div
+                  style={{
+                    maxHeight: 400,
+                    overflow: 'auto',
+                    padding: 12,
+                    background: token.colorBgLayout,
+                    borderRadius: token.borderRadius,
+                  }}
+                >
+                  <ChangesList changes={pending.changes} />
+                </div>
+              ),
+            },
+            {
+              key: 'migration',
+              label: t('changes.migrationTab'),
+              children: <PendingMigrationView />,
+            },
+          ]}
+        />
       </div>
     );
   };
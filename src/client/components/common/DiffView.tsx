@@ -0,0 +1,78 @@
+/**
+ * Unified line diff of two texts
+ */
+
+import { useMemo } from 'react';
+import { theme } from 'antd';
+import { diffLines, type DiffLine } from '../../../shared/textDiff.js';
+
+/** Unchanged lines kept around each change */
+const CONTEXT_LINES = 3;
+
+interface DiffViewProps {
+  before: string;
+  after: string;
+  maxHeight?: number;
+}
+
+/**
+ * Keep changed lines and their context; null marks a folded run
+ */
+function foldContext(lines: DiffLine[]): (DiffLine | null)[] {
+  const keep = lines.map((line) => line.type !== 'equal');
+  lines.forEach((line, i) => {
+    if (line.type === 'equal') return;
+    for (let j = Math.max(0, i - CONTEXT_LINES); j <= Math.min(lines.length - 1, i + CONTEXT_LINES); j++) {
+      keep[j] = true;
+    }
+  });
+
+  const folded: (DiffLine | null)[] = [];
+  lines.forEach((line, i) => {
+    if (keep[i]) folded.push(line);
+    else if (folded[folded.length - 1] !== null) folded.push(null);
+  });
+  return folded;
+}
+
+export function DiffView({ before, after, maxHeight = 320 }: DiffViewProps): React.ReactElement {
+  const { token } = theme.useToken();
+  const lines = useMemo(() => foldContext(diffLines(before, after)), [before, after]);
+
+  const background: Record<DiffLine['type'], string> = {
+    equal: 'transparent',
+    add: token.colorSuccessBg,
+    remove: token.colorErrorBg,
+  };
+  const prefix: Record<DiffLine['type'], string> = { equal: ' ', add: '+', remove: '-' };
+  const gutter = { width: 36, textAlign: 'right' as const, color: token.colorTextQuaternary, userSelect: 'none' as const };
+
+  return (
+    <div
+      style={{
+        fontFamily: token.fontFamilyCode,
+        fontSize: 12,
+        lineHeight: '20px',
+        maxHeight,
+        overflow: 'auto',
+        border: `1px solid ${token.colorBorderSecondary}`,
+        borderRadius: token.borderRadius,
+      }}
+    >
+      {lines.map((line, i) =>
+        line ? (
+          <div key={i} style={{ display: 'flex', background: background[line.type], whiteSpace: 'pre' }}>
+            <span style={gutter}>{line.oldLine ?? ''}</span>
+            <span style={gutter}>{line.newLine ?? ''}</span>
+            <span style={{ width: 20, textAlign: 'center', color: token.colorTextSecondary }}>{prefix[line.type]}</span>
+            <span>{line.text}</span>
+          </div>
+        ) : (
+          <div key={i} style={{ color: token.colorTextQuaternary, background: token.colorFillQuaternary, paddingLeft: 92 }}>
+            ⋯
+          </div>
+        )
+      )}
+    </div>
+  );
+}
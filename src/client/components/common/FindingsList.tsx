@@ -0,0 +1,86 @@
+/**
+ * List of validation errors and lint findings, each linking to the schema or property it is about
+ */
+
+import { Button, Tag, Typography, theme } from 'antd';
+import { CloseCircleFilled, ThunderboltOutlined, WarningFilled } from '@ant-design/icons';
+import type { ValidationError } from '../../../shared/types.js';
+
+const { Text } = Typography;
+
+export interface FindingLocation {
+  schema: string;
+  property?: string | undefined;
+}
+
+/**
+ * Schema and property of a finding path (`Schema` or `Schema.property`)
+ */
+export function parseFindingPath(path: string): FindingLocation {
+  const [schema = path, property] = path.split('.');
+  return { schema, property };
+}
+
+interface FindingsListProps {
+  findings: ValidationError[];
+  // Show the schema name in front of each path (lists spanning several schemas)
+  showSchema?: boolean;
+  onSelect?: (location: FindingLocation) => void;
+  // Offer the quick fix of findings that carry one
+  onFix?: (finding: ValidationError) => void;
+}
+
+export function FindingsList({
+  findings,
+  showSchema = false,
+  onSelect,
+  onFix,
+}: FindingsListProps): React.ReactElement {
+  const { token } = theme.useToken();
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: token.marginXXS }}>
+      {findings.map((finding, i) => {
+        const location = parseFindingPath(finding.path);
+        const label = showSchema ? finding.path : (location.property ?? location.schema);
+        return (
+          <div key={`${finding.path}:${finding.rule ?? ''}:${i}`} style={{ display: 'flex', gap: token.marginXS }}>
+            {finding.severity === 'error' ? (
+              <CloseCircleFilled style={{ color: token.colorError, marginTop: 4 }} />
+            ) : (
+              <WarningFilled style={{ color: token.colorWarning, marginTop: 4 }} />
+            )}
+            <div style={{ flex: 1, minWidth: 0 }}>
+              {onSelect ? (
+                <a onClick={() => onSelect(location)}>
+                  <Text code>{label}</Text>
+                </a>
+              ) : (
+                <Text code>{label}</Text>
+              )}{' '}
+              <Text>{finding.message}</Text>
+              {onFix && finding.fix && (
+                <div>
+                  <Button
+                    type="link"
+                    size="small"
+                    icon={<ThunderboltOutlined />}
+                    style={{ paddingInline: 0 }}
+                    onClick={() => onFix(finding)}
+                  >
+                    {finding.fix.title}
+                  </Button>
+                </div>
+              )}
+            </div>
+            {finding.rule && (
+              <Tag style={{ margin: 0, alignSelf: 'flex-start' }} bordered={false}>
+                {finding.rule}
+              </Tag>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
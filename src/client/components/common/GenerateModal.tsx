@@ -0,0 +1,194 @@
+/**
+ * Generate Modal - runs code generation and writes the files picked after
+ * reviewing each one's diff against the working tree
+ */
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Alert, Button, Empty, Modal, Space, Spin, Switch, Tag, Typography, message, theme } from 'antd';
+import { useTranslation } from 'react-i18next';
+import { CodeOutlined } from '@ant-design/icons';
+import { generateApi } from '../../services/generate.js';
+import { ApiRequestError } from '../../services/client.js';
+import { DiffView } from './DiffView.js';
+import { GeneratedFilesList } from './GeneratedFilesList.js';
+import type { GeneratedFileStatus, GenerationPlan, PlannedFile } from '../../../shared/types.js';
+
+const { Text } = Typography;
+
+const STATUS_COLORS: Record<GeneratedFileStatus, string> = {
+  new: 'success',
+  changed: 'warning',
+  unchanged: 'default',
+  kept: 'processing',
+};
+
+/**
+ * Files written by default: new and changed ones
+ */
+function defaultSelection(files: PlannedFile[]): Set<string> {
+  return new Set(files.filter((f) => f.status === 'new' || f.status === 'changed').map((f) => f.path));
+}
+
+interface GenerateModalProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+export function GenerateModal({ open, onClose }: GenerateModalProps): React.ReactElement {
+  const { t } = useTranslation();
+  const { token } = theme.useToken();
+  const [plan, setPlan] = useState<GenerationPlan | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [writing, setWriting] = useState(false);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  const loadPlan = useCallback(async (): Promise<void> => {
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await generateApi.plan();
+      setPlan(data);
+      setSelected(defaultSelection(data.files));
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (open) void loadPlan();
+  }, [open, loadPlan]);
+
+  const counts = useMemo(() => {
+    const result: Record<GeneratedFileStatus, number> = { new: 0, changed: 0, unchanged: 0, kept: 0 };
+    for (const file of plan?.files ?? []) result[file.status]++;
+    return result;
+  }, [plan]);
+
+  const visibleFiles = useMemo(
+    () => (plan?.files ?? []).filter((f) => showUnchanged || f.status !== 'unchanged'),
+    [plan, showUnchanged]
+  );
+
+  const handleSelect = (path: string, checked: boolean): void => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(path);
+      else next.delete(path);
+      return next;
+    });
+  };
+
+  const handleWrite = async (): Promise<void> => {
+    if (!plan) return;
+    setWriting(true);
+    try {
+      const result = await generateApi.write(plan.files.filter((f) => selected.has(f.path)));
+      void message.success(t('generate.written', { count: result.written.length }));
+      onClose();
+    } catch (e) {
+      if (e instanceof ApiRequestError && e.code === 'STALE') {
+        // Schemas changed since the review: show the new output instead of writing it unseen
+        void message.warning(t('generate.stale'));
+        await loadPlan();
+      } else {
+        void message.error((e as Error).message);
+      }
+    } finally {
+      setWriting(false);
+    }
+  };
+
+  const renderContent = (file: PlannedFile): React.ReactNode => {
+    if (file.status === 'unchanged') return <Text type="secondary">{t('generate.noDifferences')}</Text>;
+    if (file.status === 'kept') {
+      return (
+        <Space direction="vertical" style={{ width: '100%' }}>
+          <Text type="secondary">{t('generate.keptHint')}</Text>
+          {file.previous !== undefined && <DiffView before={file.previous} after={file.content} />}
+        </Space>
+      );
+    }
+    return <DiffView before={file.previous ?? ''} after={file.content} />;
+  };
+
+  const renderBody = (): React.ReactNode => {
+    if (error) return <Alert type="error" showIcon message={t('generate.errorLoading')} description={error} />;
+    if (!plan) return null;
+
+    return (
+      <Space direction="vertical" size="middle" style={{ width: '100%' }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+          <Space size={4}>
+            {(['new', 'changed', 'unchanged', 'kept'] as const).map((status) => (
+              <Tag key={status} color={STATUS_COLORS[status]}>
+                {t(`generate.status.${status}`)}: {counts[status]}
+              </Tag>
+            ))}
+          </Space>
+          <Space size={4}>
+            <Text type="secondary">{t('generate.showUnchanged')}</Text>
+            <Switch size="small" checked={showUnchanged} onChange={setShowUnchanged} />
+          </Space>
+        </div>
+
+        {plan.errors.map((e, i) => (
+          <Alert
+            key={i}
+            type="warning"
+            showIcon
+            message={`${e.plugin}${e.generator ? ` / ${e.generator}` : ''}`}
+            description={e.message}
+          />
+        ))}
+
+        {visibleFiles.length > 0 ? (
+          <div style={{ maxHeight: 480, overflow: 'auto' }}>
+            <GeneratedFilesList
+              files={visibleFiles}
+              selected={selected}
+              onSelect={handleSelect}
+              canSelect={(file) => file.status !== 'kept'}
+              renderTags={(file) => <Tag color={STATUS_COLORS[file.status]}>{t(`generate.status.${file.status}`)}</Tag>}
+              renderContent={renderContent}
+            />
+          </div>
+        ) : (
+          <Empty
+            image={Empty.PRESENTED_IMAGE_SIMPLE}
+            description={plan.files.length > 0 ? t('generate.upToDate') : t('generate.noFiles')}
+          />
+        )}
+      </Space>
+    );
+  };
+
+  return (
+    <Modal
+      title={
+        <Space>
+          <CodeOutlined />
+          <span>{t('generate.title')}</span>
+        </Space>
+      }
+      open={open}
+      onCancel={onClose}
+      width={900}
+      footer={
+        <Space>
+          <Button onClick={onClose}>{t('common.cancel')}</Button>
+          <Button type="primary" disabled={selected.size === 0 || loading} loading={writing} onClick={handleWrite}>
+            {t('generate.write', { count: selected.size })}
+          </Button>
+        </Space>
+      }
+    >
+      <Spin spinning={loading}>
+        <div style={{ minHeight: token.controlHeightLG * 2 }}>{renderBody()}</div>
+      </Spin>
+    </Modal>
+  );
+}
@@ -0,0 +1,88 @@
+/**
+ * Generated files grouped by plugin, each expandable to its content,
+ * optionally with a checkbox to pick the files to write
+ */
+
+import { useMemo } from 'react';
+import { Checkbox, Collapse, Space, Tag, Typography, theme } from 'antd';
+import { useTranslation } from 'react-i18next';
+import { groupGeneratedFiles } from '../../../shared/generation.js';
+import type { GeneratedFile } from '../../../shared/types.js';
+
+const { Text } = Typography;
+
+interface GeneratedFilesListProps<T extends GeneratedFile> {
+  files: T[];
+  // Paths of the checked files; checkboxes are shown when set
+  selected?: ReadonlySet<string>;
+  onSelect?: (path: string, checked: boolean) => void;
+  // Files whose checkbox is enabled (all by default)
+  canSelect?: (file: T) => boolean;
+  // Tags shown after the path, and the expanded content (the file content by default)
+  renderTags?: (file: T) => React.ReactNode;
+  renderContent?: (file: T) => React.ReactNode;
+}
+
+export function GeneratedFilesList<T extends GeneratedFile>({
+  files,
+  selected,
+  onSelect,
+  canSelect,
+  renderTags,
+  renderContent,
+}: GeneratedFilesListProps<T>): React.ReactElement {
+  const { t } = useTranslation();
+  const { token } = theme.useToken();
+  const groups = useMemo(() => groupGeneratedFiles(files), [files]);
+
+  return (
+    <Space direction="vertical" size="middle" style={{ width: '100%' }}>
+      {groups.map((group) => (
+        <div key={group.plugin}>
+          <Space size={4} style={{ marginBottom: token.marginXXS }}>
+            <Text strong>{group.plugin}</Text>
+            <Tag>{t('generate.fileCount', { count: group.files.length })}</Tag>
+          </Space>
+          <Collapse
+            size="small"
+            destroyInactivePanel
+            items={group.files.map((file) => ({
+              key: file.path,
+              label: (
+                <Space size={4}>
+                  {selected && (
+                    <Checkbox
+                      checked={selected.has(file.path)}
+                      disabled={canSelect ? !canSelect(file) : false}
+                      onClick={(e) => e.stopPropagation()}
+                      onChange={(e) => onSelect?.(file.path, e.target.checked)}
+                    />
+                  )}
+                  <Text code>{file.path}</Text>
+                  <Tag bordered={false}>{file.generator}</Tag>
+                  {file.skipIfExists && <Tag color="default">{t('generate.skipIfExists')}</Tag>}
+                  {renderTags?.(file)}
+                </Space>
+              ),
+              children: renderContent ? (
+                renderContent(file)
+              ) : (
+                <pre
+                  style={{
+                    margin: 0,
+                    fontFamily: token.fontFamilyCode,
+                    fontSize: 12,
+                    maxHeight: 400,
+                    overflow: 'auto',
+                  }}
+                >
+                  {file.content}
+                </pre>
+              ),
+            }))}
+          />
+        </div>
+      ))}
+    </Space>
+  );
+}
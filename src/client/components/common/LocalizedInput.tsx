@@ -0,0 +1,99 @@
+/**
+ * Editor for localized text with one input per project locale
+ */
+
+import { Input, Tag, Tooltip, Typography, theme } from 'antd';
+import { WarningOutlined } from '@ant-design/icons';
+import { useTranslation } from 'react-i18next';
+import { useUiStore } from '../../stores/uiStore.js';
+import {
+  localizedText,
+  setLocalizedText,
+  localizedLocales,
+  missingLocales,
+  resolveLocalized,
+} from '../../../shared/localized.js';
+import type { LocalizedString } from '../../../shared/types.js';
+
+const { Text } = Typography;
+
+interface LocalizedInputProps {
+  value?: LocalizedString | undefined;
+  onChange?: (value: LocalizedString | undefined) => void;
+  placeholder?: string;
+  multiline?: boolean;
+}
+
+/**
+ * Form control for a LocalizedString (use as the child of a Form.Item)
+ */
+export function LocalizedInput({ value, onChange, placeholder, multiline = false }: LocalizedInputProps): React.ReactElement {
+  const { t } = useTranslation();
+  const { token } = theme.useToken();
+  const { locales, defaultLocale } = useUiStore();
+  const missing = missingLocales(value, locales, defaultLocale);
+
+  const handleChange = (locale: string, text: string): void => {
+    onChange?.(setLocalizedText(value, locale, text, defaultLocale));
+  };
+
+  return (
+    <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(160px, 1fr))', gap: token.marginXS }}>
+      {localizedLocales(value, locales).map((locale) => {
+        const text = localizedText(value, locale, defaultLocale) ?? '';
+        const status = missing.includes(locale) ? 'warning' : undefined;
+        const inputPlaceholder = status ? t('localized.missing') : placeholder;
+
+        return multiline ? (
+          <div key={locale}>
+            <Tag style={{ marginBottom: token.marginXXS }}>{locale}</Tag>
+            <Input.TextArea
+              value={text}
+              status={status}
+              placeholder={inputPlaceholder}
+              rows={2}
+              onChange={(e) => handleChange(locale, e.target.value)}
+            />
+          </div>
+        ) : (
+          <Input
+            key={locale}
+            addonBefore={locale}
+            value={text}
+            status={status}
+            placeholder={inputPlaceholder}
+            onChange={(e) => handleChange(locale, e.target.value)}
+          />
+        );
+      })}
+    </div>
+  );
+}
+
+interface LocalizedTextProps {
+  value: LocalizedString | undefined;
+  type?: 'secondary';
+}
+
+/**
+ * Localized text in the UI language, flagged when translations are missing
+ */
+export function LocalizedText({ value, type }: LocalizedTextProps): React.ReactElement | null {
+  const { t } = useTranslation();
+  const { token } = theme.useToken();
+  const { language, locales, defaultLocale } = useUiStore();
+  const text = resolveLocalized(value, language);
+  if (!text) return null;
+
+  const missing = missingLocales(value, locales, defaultLocale);
+  return (
+    <Text type={type}>
+      {text}
+      {missing.length > 0 && (
+        <Tooltip title={t('localized.missingLocales', { locales: missing.join(', ') })}>
+          <WarningOutlined style={{ color: token.colorWarning, marginLeft: token.marginXXS }} />
+        </Tooltip>
+      )}
+    </Text>
+  );
+}
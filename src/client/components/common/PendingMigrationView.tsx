@@ -0,0 +1,95 @@
+/**
+ * SQL migration of the pending changes, up and down, in a chosen dialect
+ */
+
+import { useEffect, useState } from 'react';
+import { Alert, Empty, Select, Space, Spin, Typography, theme } from 'antd';
+import { useTranslation } from 'react-i18next';
+import { versionsApi } from '../../services/versions.js';
+import { useUiStore, DATABASE_LABELS } from '../../stores/uiStore.js';
+import { SQL_DIALECTS } from '../../../shared/constants.js';
+import type { AlterMigration } from '../../../shared/alterMigration.js';
+import type { SqlDialect } from '../../../shared/types.js';
+
+const { Text } = Typography;
+
+export function PendingMigrationView(): React.ReactElement {
+  const { t } = useTranslation();
+  const { token } = theme.useToken();
+  const databaseType = useUiStore((state) => state.databaseType);
+  const [dialect, setDialect] = useState<SqlDialect>(databaseType);
+  const [migration, setMigration] = useState<AlterMigration | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    void versionsApi.getPendingMigration(dialect).then(
+      (result) => {
+        if (cancelled) return;
+        setMigration(result);
+        setLoading(false);
+      },
+      (e: Error) => {
+        if (cancelled) return;
+        setError(e.message);
+        setLoading(false);
+      }
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [dialect]);
+
+  const renderSql = (sql: string): React.ReactNode =>
+    sql ? (
+      <pre
+        style={{
+          margin: 0,
+          padding: token.paddingXS,
+          fontFamily: token.fontFamilyCode,
+          fontSize: 12,
+          maxHeight: 260,
+          overflow: 'auto',
+          background: token.colorFillQuaternary,
+          border: `1px solid ${token.colorBorderSecondary}`,
+          borderRadius: token.borderRadius,
+        }}
+      >
+        {sql}
+      </pre>
+    ) : (
+      <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description={t('changes.noDdl')} />
+    );
+
+  return (
+    <Space direction="vertical" size="small" style={{ width: '100%' }}>
+      <Space>
+        <Text type="secondary">{t('settings.databaseType')}</Text>
+        <Select
+          size="small"
+          value={dialect}
+          onChange={setDialect}
+          options={SQL_DIALECTS.map((value) => ({ value, label: DATABASE_LABELS[value] }))}
+          style={{ width: 140 }}
+        />
+      </Space>
+      {error ? (
+        <Alert type="error" showIcon message={error} />
+      ) : (
+        <Spin spinning={loading}>
+          {migration && (
+            <Space direction="vertical" size="small" style={{ width: '100%' }}>
+              <Text strong>{t('changes.migrationUp')}</Text>
+              {renderSql(migration.up)}
+              <Text strong>{t('changes.migrationDown')}</Text>
+              {renderSql(migration.down)}
+            </Space>
+          )}
+        </Spin>
+      )}
+    </Space>
+  );
+}
@@ -0,0 +1,307 @@
+/**
+ * Association modal - create or edit an association from the ER diagram
+ *
+ * Wraps the schema editor's PropertyModal and can declare the inverse side
+ * on the target schema with `inversedBy`/`mappedBy` wired up.
+ */
+
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Form, Checkbox, Input, Divider, message } from 'antd';
+import { useSchemaStore } from '../../stores/schemaStore.js';
+import { PropertyModal, PivotFieldModal, type GuiPivotField, type PropertyFormData } from '../schema/index.js';
+import { propertyFromForm, propertyToForm } from '../../utils/schemaForm.js';
+import { createInverseAssociation, getInverseRelation } from '../../../shared/relationships.js';
+import { pluralize } from '../../../shared/naming.js';
+import type { GuiPropertyDefinition, GuiSchema } from '../../../shared/types.js';
+
+/** Inverse relations that hold a collection on the target side */
+const TO_MANY_RELATIONS = ['OneToMany', 'ManyToMany', 'MorphToMany', 'MorphedByMany'];
+
+export interface AssociationDraft {
+  /** Schema that receives the association property */
+  from: string;
+  to: string;
+  /** Existing property being edited (when opened from an edge) */
+  property?: string;
+}
+
+interface AssociationModalProps {
+  draft: AssociationDraft | null;
+  onClose: () => void;
+}
+
+function lowerFirst(value: string): string {
+  return value.charAt(0).toLowerCase() + value.slice(1);
+}
+
+/**
+ * Suggest a property name on `schema` pointing at `target`
+ */
+function suggestName(target: string, relation: string | undefined): string {
+  if (relation === 'MorphTo') return `${lowerFirst(target)}able`;
+  const name = lowerFirst(target);
+  return relation && TO_MANY_RELATIONS.includes(relation) ? pluralize(name) : name;
+}
+
+/**
+ * Replace (or rename) one property while keeping the declaration order
+ */
+function setProperty(
+  schema: GuiSchema,
+  oldName: string | undefined,
+  name: string,
+  prop: GuiPropertyDefinition
+): GuiSchema {
+  const properties: Record<string, GuiPropertyDefinition> = {};
+  let placed = false;
+  for (const [key, value] of Object.entries(schema.properties ?? {})) {
+    if (key === oldName || key === name) {
+      if (!placed) properties[name] = prop;
+      placed = true;
+    } else {
+      properties[key] = value;
+    }
+  }
+  if (!placed) properties[name] = prop;
+  return { ...schema, properties };
+}
+
+export function AssociationModal({ draft, onClose }: AssociationModalProps): React.ReactElement {
+  const { t } = useTranslation();
+  const { schemas, updateSchema } = useSchemaStore();
+  const [form] = Form.useForm();
+  const [pivotFieldForm] = Form.useForm();
+  const [pivotFields, setPivotFields] = useState<GuiPivotField[]>([]);
+  const [pivotFieldModalOpen, setPivotFieldModalOpen] = useState(false);
+  const [editingPivotFieldIndex, setEditingPivotFieldIndex] = useState<number | null>(null);
+
+  const relation = Form.useWatch('relation', form) as string | undefined;
+  const target = Form.useWatch('target', form) as string | undefined;
+  const createInverse = Form.useWatch('createInverse', form) as boolean | undefined;
+
+  const existing = draft?.property ? schemas[draft.from]?.properties?.[draft.property] : undefined;
+  const inverseTarget = relation === 'MorphTo' ? undefined : target;
+  const canCreateInverse =
+    !!inverseTarget && !!relation && !!getInverseRelation(relation) && !existing?.inversedBy && !existing?.mappedBy;
+
+  useEffect(() => {
+    if (!draft) return;
+    form.resetFields();
+    if (existing) {
+      form.setFieldsValue({ name: draft.property, ...existing, createInverse: false });
+      setPivotFields(
+        Object.entries(existing.pivotFields ?? {}).map(([name, field]) => ({
+          name,
+          type: field.type,
+          nullable: field.nullable,
+          default: field.default !== undefined ? String(field.default) : undefined,
+        }))
+      );
+    } else {
+      form.setFieldsValue({
+        name: suggestName(draft.to, 'ManyToOne'),
+        type: 'Association',
+        relation: 'ManyToOne',
+        target: draft.to,
+        createInverse: true,
+      });
+      setPivotFields([]);
+    }
+  }, [draft]); // Only reset when a new draft is opened
+
+  // Keep the suggested inverse name in sync with the relation kind
+  useEffect(() => {
+    if (!draft || !relation) return;
+    const inverseRelation = getInverseRelation(relation);
+    if (!inverseRelation) return;
+    form.setFieldValue(
+      'inverseName',
+      inverseRelation === 'MorphTo'
+        ? suggestName(inverseTarget ?? draft.to, 'MorphTo')
+        : suggestName(draft.from, inverseRelation)
+    );
+  }, [draft, relation, inverseTarget, form]);
+
+  const buildProperty = (name: string, values: Record<string, unknown>): GuiPropertyDefinition => {
+    const targets = Array.isArray(values.targets) && values.targets.length > 0 ? (values.targets as string[]) : undefined;
+    const hasPivot = pivotFields.length > 0 && ['ManyToMany', 'MorphToMany'].includes(values.relation as string);
+    const row: PropertyFormData = {
+      // Keys the modal does not show keep their current values
+      ...(existing ? propertyToForm(name, existing) : { name, type: 'Association' }),
+      ...(values as Partial<PropertyFormData>),
+      name,
+      type: 'Association',
+      target: targets ? undefined : (values.target as string | undefined),
+      targets,
+      pivotFields: hasPivot
+        ? Object.fromEntries(
+          pivotFields.map((f) => [
+            f.name,
+            {
+              type: f.type,
+              ...(f.nullable ? { nullable: true } : {}),
+              ...(f.default ? { default: f.default } : {}),
+            },
+          ])
+        )
+        : undefined,
+    };
+    return propertyFromForm(row);
+  };
+
+  const handleOk = async (): Promise<void> => {
+    if (!draft) return;
+    let values: Record<string, unknown>;
+    try {
+      values = await form.validateFields();
+    } catch {
+      return;
+    }
+
+    const source = schemas[draft.from];
+    if (!source) return;
+    const name = values.name as string;
+    if (name !== draft.property && source.properties?.[name]) {
+      void message.error(t('relationships.propertyExists', { schema: draft.from, property: name }));
+      return;
+    }
+
+    let prop = buildProperty(name, values);
+    let inverseSchema: GuiSchema | undefined;
+
+    if (canCreateInverse && values.createInverse) {
+      const inverseName = values.inverseName as string;
+      const result = createInverseAssociation(draft.from, name, prop, inverseName);
+      const targetSchema = inverseTarget ? schemas[inverseTarget] : undefined;
+      if (result && targetSchema) {
+        const current = targetSchema.properties?.[inverseName];
+        if (current && !(current.relation === 'MorphTo' && result.inverse.relation === 'MorphTo')) {
+          void message.error(
+            t('relationships.propertyExists', { schema: targetSchema.name, property: inverseName })
+          );
+          return;
+        }
+        // Another MorphOne/MorphMany already uses this MorphTo: add the owner to its targets
+        const inverse = current
+          ? { ...current, targets: [...new Set([...(current.targets ?? []), draft.from])] }
+          : result.inverse;
+        prop = result.property;
+        inverseSchema = setProperty(targetSchema, undefined, inverseName, inverse);
+      }
+    }
+
+    try {
+      // A self-referencing association puts both sides on the same schema
+      if (inverseSchema?.name === draft.from) {
+        await updateSchema(draft.from, setProperty(inverseSchema, draft.property, name, prop));
+      } else {
+        await updateSchema(draft.from, setProperty(source, draft.property, name, prop));
+        if (inverseSchema) await updateSchema(inverseSchema.name, inverseSchema);
+      }
+      void message.success(t('relationships.associationSaved'));
+      onClose();
+    } catch (e) {
+      void message.error((e as Error).message);
+    }
+  };
+
+  // Pivot field handlers
+  const openAddPivotFieldModal = (): void => {
+    setEditingPivotFieldIndex(null);
+    pivotFieldForm.resetFields();
+    pivotFieldForm.setFieldsValue({ name: '', type: 'String', nullable: false, default: '' });
+    setPivotFieldModalOpen(true);
+  };
+
+  const openEditPivotFieldModal = (index: number): void => {
+    const field = pivotFields[index];
+    if (!field) return;
+    setEditingPivotFieldIndex(index);
+    pivotFieldForm.setFieldsValue({
+      name: field.name,
+      type: field.type,
+      nullable: field.nullable ?? false,
+      default: field.default ?? '',
+    });
+    setPivotFieldModalOpen(true);
+  };
+
+  const handlePivotFieldModalOk = async (): Promise<void> => {
+    try {
+      const values = await pivotFieldForm.validateFields();
+      const idx = editingPivotFieldIndex ?? pivotFields.length;
+      if (pivotFields.some((f, i) => i !== idx && f.name === values.name)) {
+        void message.error(t('validation.duplicate', { field: values.name }));
+        return;
+      }
+      const newField: GuiPivotField = {
+        name: values.name,
+        type: values.type,
+        nullable: values.nullable || undefined,
+        default: values.default || undefined,
+      };
+      const updated = [...pivotFields];
+      updated[idx] = newField;
+      setPivotFields(updated);
+      setPivotFieldModalOpen(false);
+    } catch {
+      // Validation failed
+    }
+  };
+
+  const schemaNames = Object.keys(schemas).sort();
+
+  return (
+    <>
+      <PropertyModal
+        open={draft !== null}
+        form={form}
+        editingIndex={draft?.property ? 0 : null}
+        customTypes={[]}
+        schemaNames={schemaNames}
+        schemas={schemas}
+        inlineEnumValues={[]}
+        pivotFields={pivotFields}
+        onOk={handleOk}
+        onCancel={onClose}
+        onAddEnumValue={() => undefined}
+        onEditEnumValue={() => undefined}
+        onRemoveEnumValue={() => undefined}
+        onAddPivotField={openAddPivotFieldModal}
+        onEditPivotField={openEditPivotFieldModal}
+        onRemovePivotField={(index) => setPivotFields(pivotFields.filter((_, i) => i !== index))}
+        typeLocked
+      >
+        {canCreateInverse && (
+          <>
+            <Divider style={{ margin: '8px 0 16px' }} />
+            <Form.Item name="createInverse" valuePropName="checked" wrapperCol={{ offset: 6, span: 18 }}>
+              <Checkbox>{t('relationships.createInverse', { schema: inverseTarget })}</Checkbox>
+            </Form.Item>
+            {createInverse && (
+              <Form.Item
+                name="inverseName"
+                label={t('relationships.inverseName')}
+                rules={[
+                  { required: true, message: t('validation.required', { field: t('relationships.inverseName') }) },
+                  { pattern: /^[a-zA-Z_][a-zA-Z0-9_]*$/, message: t('validation.invalidName') },
+                ]}
+              >
+                <Input />
+              </Form.Item>
+            )}
+          </>
+        )}
+      </PropertyModal>
+
+      <PivotFieldModal
+        open={pivotFieldModalOpen}
+        form={pivotFieldForm}
+        editingIndex={editingPivotFieldIndex}
+        onOk={handlePivotFieldModalOk}
+        onCancel={() => setPivotFieldModalOpen(false)}
+      />
+    </>
+  );
+}
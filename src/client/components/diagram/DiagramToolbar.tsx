@@ -0,0 +1,194 @@
+/**
+ * Diagram toolbar - arrange, collapse and color-group the selected node
+ */
+
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button, Space, Select, Switch, Popover, Input, Popconfirm, Typography, theme } from 'antd';
+import { PlusOutlined, AppstoreOutlined, CheckOutlined } from '@ant-design/icons';
+import type { DiagramLayout, DiagramLayoutNode } from '../../../shared/types.js';
+
+const { Text } = Typography;
+
+/** Light colors so node titles stay readable in both themes */
+const GROUP_COLORS = [
+  '#ffd8bf',
+  '#fff1b8',
+  '#d9f7be',
+  '#b5f5ec',
+  '#bae0ff',
+  '#d3adf7',
+  '#ffd6e7',
+  '#e8e8e8',
+];
+
+interface DiagramToolbarProps {
+  layout: DiagramLayout;
+  selected: string | null;
+  saving: boolean;
+  onLayoutChange: (layout: DiagramLayout) => void;
+}
+
+export function DiagramToolbar({
+  layout,
+  selected,
+  saving,
+  onLayoutChange,
+}: DiagramToolbarProps): React.ReactElement {
+  const { t } = useTranslation();
+  const { token } = theme.useToken();
+  const [groupLabel, setGroupLabel] = useState('');
+  const [groupColor, setGroupColor] = useState(GROUP_COLORS[0]!);
+  const [groupFormOpen, setGroupFormOpen] = useState(false);
+
+  const selectedNode = selected ? layout.nodes[selected] : undefined;
+
+  const updateSelected = (patch: Partial<DiagramLayoutNode>): void => {
+    if (!selected) return;
+    // Unsaved nodes are placed by the canvas; only patch what the user changed
+    const current = layout.nodes[selected] ?? {};
+    onLayoutChange({ ...layout, nodes: { ...layout.nodes, [selected]: { ...current, ...patch } } });
+  };
+
+  const handleCreateGroup = (): void => {
+    const label = groupLabel.trim();
+    if (!label) return;
+    const id = `group-${Date.now().toString(36)}`;
+    const nodes = selected
+      ? { ...layout.nodes, [selected]: { ...layout.nodes[selected], group: id } }
+      : layout.nodes;
+    onLayoutChange({ nodes, groups: [...layout.groups, { id, label, color: groupColor }] });
+    setGroupLabel('');
+    setGroupFormOpen(false);
+  };
+
+  const handleAutoArrange = (): void => {
+    // Keep collapsed state and groups, forget positions
+    const nodes: Record<string, DiagramLayoutNode> = {};
+    for (const [name, node] of Object.entries(layout.nodes)) {
+      nodes[name] = {
+        ...(node.collapsed ? { collapsed: true } : {}),
+        ...(node.group ? { group: node.group } : {}),
+      };
+    }
+    onLayoutChange({ ...layout, nodes });
+  };
+
+  const groupForm = (
+    <Space direction="vertical" style={{ width: 220 }}>
+      <Input
+        size="small"
+        placeholder={t('relationships.groupName')}
+        value={groupLabel}
+        onChange={(e) => setGroupLabel(e.target.value)}
+        onPressEnter={handleCreateGroup}
+      />
+      <Space size={4} wrap>
+        {GROUP_COLORS.map((color) => (
+          <div
+            key={color}
+            onClick={() => setGroupColor(color)}
+            style={{
+              width: 20,
+              height: 20,
+              borderRadius: token.borderRadiusSM,
+              background: color,
+              cursor: 'pointer',
+              border: `1px solid ${token.colorBorder}`,
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              fontSize: 10,
+            }}
+          >
+            {color === groupColor && <CheckOutlined />}
+          </div>
+        ))}
+      </Space>
+      <Button size="small" type="primary" block disabled={!groupLabel.trim()} onClick={handleCreateGroup}>
+        {t('common.add')}
+      </Button>
+    </Space>
+  );
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: token.margin,
+        marginBottom: token.marginXS,
+        minHeight: 32,
+      }}
+    >
+      <Popconfirm
+        title={t('relationships.autoArrangeConfirm')}
+        onConfirm={handleAutoArrange}
+        okText={t('common.yes')}
+        cancelText={t('common.no')}
+      >
+        <Button size="small" icon={<AppstoreOutlined />}>
+          {t('relationships.autoArrange')}
+        </Button>
+      </Popconfirm>
+
+      {selected ? (
+        <Space>
+          <Text strong>{selected}</Text>
+          <Space size={4}>
+            <Text type="secondary">{t('relationships.collapsed')}</Text>
+            <Switch
+              size="small"
+              checked={selectedNode?.collapsed === true}
+              onChange={(collapsed) => updateSelected({ collapsed })}
+            />
+          </Space>
+          <Select
+            size="small"
+            allowClear
+            style={{ width: 180 }}
+            placeholder={t('relationships.group')}
+            value={selectedNode?.group}
+            onChange={(group?: string) => updateSelected({ group })}
+            options={layout.groups.map((g) => ({
+              value: g.id,
+              label: (
+                <Space size={6}>
+                  <span
+                    style={{
+                      display: 'inline-block',
+                      width: 10,
+                      height: 10,
+                      borderRadius: 2,
+                      background: g.color,
+                    }}
+                  />
+                  {g.label}
+                </Space>
+              ),
+            }))}
+          />
+          <Popover
+            trigger="click"
+            open={groupFormOpen}
+            onOpenChange={setGroupFormOpen}
+            content={groupForm}
+            title={t('relationships.newGroup')}
+          >
+            <Button size="small" icon={<PlusOutlined />}>
+              {t('relationships.newGroup')}
+            </Button>
+          </Popover>
+        </Space>
+      ) : (
+        <Text type="secondary">{t('relationships.selectHint')}</Text>
+      )}
+
+      {saving && (
+        <Text type="secondary" style={{ marginLeft: 'auto', fontSize: 12 }}>
+          {t('relationships.savingLayout')}
+        </Text>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,462 @@
+/**
+ * Interactive entity-relationship diagram with pan, zoom and draggable nodes
+ */
+
+import { useState, useRef, useMemo, useCallback, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button, Space, Tooltip, theme } from 'antd';
+import { ZoomInOutlined, ZoomOutOutlined, ExpandOutlined } from '@ant-design/icons';
+import type { GuiSchema, DiagramLayout, DiagramLayoutNode } from '../../../shared/types.js';
+import { extractRelationships, type Relationship } from '../../../shared/relationships.js';
+import {
+  layoutDiagram,
+  routeEdges,
+  createEmptyLayout,
+  getDiagramBounds,
+  getCardinalityMarker,
+  NODE_HEADER_HEIGHT,
+  NODE_ROW_HEIGHT,
+  NODE_PADDING,
+  type DiagramEdge,
+  type DiagramNode,
+  type DiagramPoint,
+  type MarkerShape,
+} from '../../../shared/diagramLayout.js';
+
+const MIN_SCALE = 0.2;
+const MAX_SCALE = 2.5;
+const FIT_MARGIN = 40;
+const DRAG_THRESHOLD = 3;
+/** Header text on group colors, which are always light */
+const GROUP_HEADER_TEXT = '#1f1f1f';
+
+interface Viewport {
+  x: number;
+  y: number;
+  scale: number;
+}
+
+interface NodeDrag {
+  name: string;
+  startX: number;
+  startY: number;
+  originX: number;
+  originY: number;
+  moved: boolean;
+}
+
+interface ErDiagramProps {
+  schemas: readonly GuiSchema[];
+  layout?: DiagramLayout;
+  selected?: string | null;
+  height?: number | string;
+  onOpenSchema?: (name: string) => void;
+  onSelect?: (name: string | null) => void;
+  /** Called with every node's position materialized when the user arranges the diagram */
+  onLayoutChange?: (layout: DiagramLayout) => void;
+  /** Enables connect handles; called when a handle is dropped on a schema */
+  onConnect?: (from: string, to: string) => void;
+  onEdgeClick?: (relationship: Relationship) => void;
+}
+
+function clampScale(scale: number): number {
+  return Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+}
+
+const EMPTY_LAYOUT = createEmptyLayout();
+
+export function ErDiagram({
+  schemas,
+  layout = EMPTY_LAYOUT,
+  selected = null,
+  height = 600,
+  onOpenSchema,
+  onSelect,
+  onLayoutChange,
+  onConnect,
+  onEdgeClick,
+}: ErDiagramProps): React.ReactElement {
+  const { t } = useTranslation();
+  const { token } = theme.useToken();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const panRef = useRef<{ startX: number; startY: number; origin: Viewport; moved: boolean } | null>(null);
+  const dragRef = useRef<NodeDrag | null>(null);
+  const [viewport, setViewport] = useState<Viewport>({ x: FIT_MARGIN, y: FIT_MARGIN, scale: 1 });
+  const [hovered, setHovered] = useState<string | null>(null);
+  const [dragPosition, setDragPosition] = useState<{ name: string; x: number; y: number } | null>(null);
+  const [connecting, setConnecting] = useState<{ from: string; start: DiagramPoint; end: DiagramPoint } | null>(null);
+
+  // Apply the in-progress drag on top of the saved layout
+  const effectiveLayout = useMemo((): DiagramLayout => {
+    if (!dragPosition) return layout;
+    const { name, x, y } = dragPosition;
+    return { ...layout, nodes: { ...layout.nodes, [name]: { ...layout.nodes[name], x, y } } };
+  }, [layout, dragPosition]);
+
+  const nodes = useMemo(() => layoutDiagram(schemas, effectiveLayout), [schemas, effectiveLayout]);
+  const edges = useMemo(() => {
+    const byName = Object.fromEntries(schemas.map((s) => [s.name, s]));
+    return routeEdges(extractRelationships(byName), nodes);
+  }, [schemas, nodes]);
+
+  const fitView = useCallback((): void => {
+    const container = containerRef.current;
+    if (!container || nodes.length === 0) return;
+    const bounds = getDiagramBounds(nodes);
+    const scale = clampScale(Math.min(
+      (container.clientWidth - FIT_MARGIN * 2) / bounds.width,
+      (container.clientHeight - FIT_MARGIN * 2) / bounds.height,
+      1
+    ));
+    setViewport({
+      x: FIT_MARGIN - bounds.x * scale,
+      y: FIT_MARGIN - bounds.y * scale,
+      scale,
+    });
+  }, [nodes]);
+
+  // Fit once the diagram first has content; later schema updates keep the view
+  const fittedRef = useRef(false);
+  useEffect(() => {
+    if (!fittedRef.current && nodes.length > 0) {
+      fittedRef.current = true;
+      fitView();
+    }
+  }, [nodes.length, fitView]);
+
+  const zoomAt = (factor: number, clientX?: number, clientY?: number): void => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    setViewport((v) => {
+      const scale = clampScale(v.scale * factor);
+      // Keep the point under the cursor (or the center) stationary
+      const px = clientX !== undefined && rect ? clientX - rect.left : (rect?.width ?? 0) / 2;
+      const py = clientY !== undefined && rect ? clientY - rect.top : (rect?.height ?? 0) / 2;
+      return {
+        scale,
+        x: px - ((px - v.x) * scale) / v.scale,
+        y: py - ((py - v.y) * scale) / v.scale,
+      };
+    });
+  };
+
+  const handleWheel = (e: React.WheelEvent): void => {
+    zoomAt(e.deltaY < 0 ? 1.1 : 1 / 1.1, e.clientX, e.clientY);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent): void => {
+    if (e.button !== 0) return;
+    panRef.current = { startX: e.clientX, startY: e.clientY, origin: viewport, moved: false };
+    (e.currentTarget as Element).setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent): void => {
+    const pan = panRef.current;
+    if (!pan) return;
+    const dx = e.clientX - pan.startX;
+    const dy = e.clientY - pan.startY;
+    if (!pan.moved && Math.abs(dx) + Math.abs(dy) < DRAG_THRESHOLD) return;
+    pan.moved = true;
+    setViewport({ ...pan.origin, x: pan.origin.x + dx, y: pan.origin.y + dy });
+  };
+
+  const handlePointerUp = (): void => {
+    const pan = panRef.current;
+    panRef.current = null;
+    // A click on the empty canvas clears the selection
+    if (pan && !pan.moved) onSelect?.(null);
+  };
+
+  /**
+   * Save the current arrangement, materializing auto-placed nodes so adding
+   * schemas later does not shuffle what the team already arranged
+   */
+  const commitNode = (name: string, patch: Partial<DiagramLayoutNode>): void => {
+    if (!onLayoutChange) return;
+    const layoutNodes: Record<string, DiagramLayoutNode> = {};
+    for (const node of nodes) {
+      layoutNodes[node.name] = { ...layout.nodes[node.name], x: node.x, y: node.y };
+    }
+    layoutNodes[name] = { ...layoutNodes[name]!, ...patch };
+    onLayoutChange({ ...layout, nodes: layoutNodes });
+  };
+
+  const handleNodePointerDown = (e: React.PointerEvent, node: DiagramNode): void => {
+    e.stopPropagation();
+    if (e.button !== 0) return;
+    dragRef.current = {
+      name: node.name,
+      startX: e.clientX,
+      startY: e.clientY,
+      originX: node.x,
+      originY: node.y,
+      moved: false,
+    };
+    (e.currentTarget as Element).setPointerCapture(e.pointerId);
+  };
+
+  const handleNodePointerMove = (e: React.PointerEvent): void => {
+    const drag = dragRef.current;
+    if (!drag || !onLayoutChange) return;
+    const dx = (e.clientX - drag.startX) / viewport.scale;
+    const dy = (e.clientY - drag.startY) / viewport.scale;
+    if (!drag.moved && Math.abs(dx) + Math.abs(dy) < DRAG_THRESHOLD) return;
+    drag.moved = true;
+    setDragPosition({ name: drag.name, x: drag.originX + dx, y: drag.originY + dy });
+  };
+
+  const handleNodePointerUp = (): void => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (!drag) return;
+    if (drag.moved && dragPosition) {
+      commitNode(drag.name, { x: dragPosition.x, y: dragPosition.y });
+    } else {
+      onSelect?.(drag.name);
+    }
+    setDragPosition(null);
+  };
+
+  const toDiagramPoint = (clientX: number, clientY: number): DiagramPoint => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    return {
+      x: (clientX - (rect?.left ?? 0) - viewport.x) / viewport.scale,
+      y: (clientY - (rect?.top ?? 0) - viewport.y) / viewport.scale,
+    };
+  };
+
+  const nodeAt = (point: DiagramPoint): DiagramNode | undefined =>
+    nodes.find(
+      (n) => point.x >= n.x && point.x <= n.x + n.width && point.y >= n.y && point.y <= n.y + n.height
+    );
+
+  const handleConnectPointerDown = (e: React.PointerEvent, node: DiagramNode): void => {
+    e.stopPropagation();
+    if (e.button !== 0) return;
+    const start = { x: node.x + node.width, y: node.y + NODE_HEADER_HEIGHT / 2 };
+    setConnecting({ from: node.name, start, end: start });
+    (e.currentTarget as Element).setPointerCapture(e.pointerId);
+  };
+
+  const handleConnectPointerMove = (e: React.PointerEvent): void => {
+    if (!connecting) return;
+    setConnecting({ ...connecting, end: toDiagramPoint(e.clientX, e.clientY) });
+  };
+
+  const handleConnectPointerUp = (e: React.PointerEvent): void => {
+    if (!connecting) return;
+    const target = nodeAt(toDiagramPoint(e.clientX, e.clientY));
+    setConnecting(null);
+    if (target) onConnect?.(connecting.from, target.name);
+  };
+
+  const isEdgeActive = (edge: DiagramEdge): boolean =>
+    hovered !== null && (edge.relationship.from === hovered || edge.relationship.to === hovered);
+
+  const renderMarker = (shapes: MarkerShape[], color: string, key: string): React.ReactNode =>
+    shapes.map((shape, i) =>
+      shape.kind === 'line' ? (
+        <line key={`${key}-${i}`} x1={shape.x1} y1={shape.y1} x2={shape.x2} y2={shape.y2} stroke={color} strokeWidth={1.5} />
+      ) : (
+        <circle key={`${key}-${i}`} cx={shape.cx} cy={shape.cy} r={shape.r} fill={token.colorBgContainer} stroke={color} strokeWidth={1.5} />
+      )
+    );
+
+  const renderEdge = (edge: DiagramEdge, index: number): React.ReactNode => {
+    const active = isEdgeActive(edge);
+    const color = active ? token.colorPrimary : token.colorTextTertiary;
+    const { relationship } = edge;
+    const key = `${relationship.from}.${relationship.property}->${relationship.to}`;
+    return (
+      <g key={`${key}-${index}`} opacity={hovered && !active ? 0.25 : 1}>
+        <path
+          d={edge.path}
+          fill="none"
+          stroke={color}
+          strokeWidth={active ? 2 : 1.5}
+          strokeDasharray={relationship.polymorphic ? '6 4' : undefined}
+        >
+          <title>{`${relationship.from}.${relationship.property} (${relationship.relation}) → ${relationship.to}`}</title>
+        </path>
+        {onEdgeClick && (
+          // Wide invisible stroke makes thin edges easy to click
+          <path
+            d={edge.path}
+            fill="none"
+            stroke="transparent"
+            strokeWidth={12}
+            style={{ cursor: 'pointer' }}
+            onPointerDown={(e) => e.stopPropagation()}
+            onClick={() => onEdgeClick(relationship)}
+          />
+        )}
+        {renderMarker(getCardinalityMarker(edge.start, relationship.fromCardinality), color, `${key}-s`)}
+        {renderMarker(getCardinalityMarker(edge.end, relationship.toCardinality), color, `${key}-e`)}
+      </g>
+    );
+  };
+
+  const renderNode = (node: DiagramNode): React.ReactNode => {
+    const active = hovered === node.name;
+    const isSelected = selected === node.name;
+    const headerText = node.color ? GROUP_HEADER_TEXT : token.colorText;
+    return (
+      <g
+        key={node.name}
+        transform={`translate(${node.x}, ${node.y})`}
+        onPointerEnter={() => setHovered(node.name)}
+        onPointerLeave={() => setHovered(null)}
+        onPointerDown={(e) => handleNodePointerDown(e, node)}
+        onPointerMove={handleNodePointerMove}
+        onPointerUp={handleNodePointerUp}
+        onPointerCancel={handleNodePointerUp}
+        onDoubleClick={() => onOpenSchema?.(node.name)}
+        style={{ cursor: onLayoutChange ? 'move' : onOpenSchema ? 'pointer' : 'default' }}
+      >
+        <rect
+          width={node.width}
+          height={node.height}
+          rx={token.borderRadius}
+          fill={token.colorBgContainer}
+          stroke={active || isSelected ? token.colorPrimary : token.colorBorder}
+          strokeWidth={isSelected ? 2.5 : active ? 2 : 1}
+        />
+        <rect
+          width={node.width}
+          height={NODE_HEADER_HEIGHT}
+          rx={token.borderRadius}
+          fill={node.color ?? token.colorPrimaryBg}
+        />
+        <text
+          x={12}
+          y={NODE_HEADER_HEIGHT / 2}
+          dominantBaseline="central"
+          fontWeight={600}
+          fontSize={13}
+          fill={headerText}
+        >
+          {node.name}
+          {node.displayName && (
+            <tspan fontWeight={400} fontSize={11} fill={node.color ? GROUP_HEADER_TEXT : token.colorTextSecondary}>
+              {`  ${node.displayName}`}
+            </tspan>
+          )}
+        </text>
+        {onLayoutChange && (
+          <text
+            x={node.width - 14}
+            y={NODE_HEADER_HEIGHT / 2}
+            dominantBaseline="central"
+            textAnchor="middle"
+            fontSize={14}
+            fill={headerText}
+            style={{ cursor: 'pointer' }}
+            onPointerDown={(e) => e.stopPropagation()}
+            onClick={() => commitNode(node.name, { collapsed: !node.collapsed })}
+          >
+            {node.collapsed ? '+' : '−'}
+            <title>{node.collapsed ? t('relationships.expand') : t('relationships.collapse')}</title>
+          </text>
+        )}
+        {onConnect && (
+          <circle
+            cx={node.width}
+            cy={NODE_HEADER_HEIGHT / 2}
+            r={6}
+            fill={token.colorPrimary}
+            stroke={token.colorBgContainer}
+            strokeWidth={2}
+            opacity={active || connecting?.from === node.name ? 1 : 0}
+            style={{ cursor: 'crosshair' }}
+            onPointerDown={(e) => handleConnectPointerDown(e, node)}
+            onPointerMove={handleConnectPointerMove}
+            onPointerUp={handleConnectPointerUp}
+          >
+            <title>{t('relationships.connectHint')}</title>
+          </circle>
+        )}
+        {!node.collapsed &&
+          node.rows.map((row, i) => {
+            const y = NODE_HEADER_HEIGHT + NODE_PADDING + i * NODE_ROW_HEIGHT + NODE_ROW_HEIGHT / 2;
+            return (
+              <g key={row.name}>
+                <text
+                  x={12}
+                  y={y}
+                  dominantBaseline="central"
+                  fontSize={12}
+                  fontWeight={row.primaryKey ? 600 : 400}
+                  fill={row.association ? token.colorPrimary : token.colorText}
+                >
+                  {row.name}
+                </text>
+                <text
+                  x={node.width - 12}
+                  y={y}
+                  dominantBaseline="central"
+                  textAnchor="end"
+                  fontSize={11}
+                  fill={token.colorTextSecondary}
+                >
+                  {row.type}
+                </text>
+              </g>
+            );
+          })}
+      </g>
+    );
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      style={{
+        position: 'relative',
+        height,
+        overflow: 'hidden',
+        background: token.colorBgLayout,
+        borderRadius: token.borderRadius,
+        border: `1px solid ${token.colorBorderSecondary}`,
+      }}
+    >
+      <svg
+        width="100%"
+        height="100%"
+        onWheel={handleWheel}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        style={{ cursor: 'grab', touchAction: 'none', userSelect: 'none' }}
+      >
+        <g transform={`translate(${viewport.x}, ${viewport.y}) scale(${viewport.scale})`}>
+          {edges.map(renderEdge)}
+          {nodes.map(renderNode)}
+          {connecting && (
+            <line
+              x1={connecting.start.x}
+              y1={connecting.start.y}
+              x2={connecting.end.x}
+              y2={connecting.end.y}
+              stroke={token.colorPrimary}
+              strokeWidth={2}
+              strokeDasharray="4 4"
+              pointerEvents="none"
+            />
+          )}
+        </g>
+      </svg>
+
+      <Space style={{ position: 'absolute', top: token.paddingSM, right: token.paddingSM }}>
+        <Tooltip title={t('relationships.zoomIn')}>
+          <Button size="small" icon={<ZoomInOutlined />} onClick={() => zoomAt(1.2)} />
+        </Tooltip>
+        <Tooltip title={t('relationships.zoomOut')}>
+          <Button size="small" icon={<ZoomOutOutlined />} onClick={() => zoomAt(1 / 1.2)} />
+        </Tooltip>
+        <Tooltip title={t('relationships.fitView')}>
+          <Button size="small" icon={<ExpandOutlined />} onClick={fitView} />
+        </Tooltip>
+      </Space>
+    </div>
+  );
+}
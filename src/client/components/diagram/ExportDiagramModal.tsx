@@ -0,0 +1,149 @@
+/**
+ * ER diagram export modal - Mermaid, PlantUML, DBML and SVG
+ */
+
+import { useState, useEffect } from 'react';
+import { Modal, Button, Space, Select, Segmented, Alert, Spin, Typography, theme, message } from 'antd';
+import { CopyOutlined, DownloadOutlined } from '@ant-design/icons';
+import { useTranslation } from 'react-i18next';
+import { diagramApi } from '../../services/diagram.js';
+import {
+  DIAGRAM_EXPORT_FORMATS,
+  type DiagramExportFormat,
+  type DiagramExportResult,
+} from '../../../shared/diagramExport.js';
+
+const { Text } = Typography;
+
+const FORMAT_LABELS: Record<DiagramExportFormat, string> = {
+  mermaid: 'Mermaid',
+  plantuml: 'PlantUML',
+  dbml: 'DBML',
+  svg: 'SVG',
+};
+
+interface ExportDiagramModalProps {
+  open: boolean;
+  schemaNames: string[];
+  onClose: () => void;
+}
+
+export function ExportDiagramModal({
+  open,
+  schemaNames,
+  onClose,
+}: ExportDiagramModalProps): React.ReactElement {
+  const { t } = useTranslation();
+  const { token } = theme.useToken();
+  const [format, setFormat] = useState<DiagramExportFormat>('mermaid');
+  const [selected, setSelected] = useState<string[]>([]);
+  const [result, setResult] = useState<DiagramExportResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setLoading(true);
+    setError(null);
+    diagramApi
+      .export(format, selected)
+      .then(setResult)
+      .catch((e: Error) => {
+        setResult(null);
+        setError(e.message);
+      })
+      .finally(() => setLoading(false));
+  }, [open, format, selected]);
+
+  const handleCopy = async (): Promise<void> => {
+    if (!result) return;
+    await navigator.clipboard.writeText(result.content);
+    void message.success(t('relationships.copied'));
+  };
+
+  const handleDownload = (): void => {
+    if (!result) return;
+    const url = URL.createObjectURL(new Blob([result.content], { type: result.mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = result.fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Modal
+      title={t('relationships.exportTitle')}
+      open={open}
+      onCancel={onClose}
+      width={800}
+      footer={
+        <Space>
+          <Button icon={<CopyOutlined />} disabled={!result} onClick={handleCopy}>
+            {t('relationships.copy')}
+          </Button>
+          <Button type="primary" icon={<DownloadOutlined />} disabled={!result} onClick={handleDownload}>
+            {t('relationships.download')}
+          </Button>
+        </Space>
+      }
+    >
+      <Space direction="vertical" style={{ width: '100%' }} size="middle">
+        <Segmented
+          value={format}
+          onChange={(value) => setFormat(value as DiagramExportFormat)}
+          options={DIAGRAM_EXPORT_FORMATS.map((f) => ({ value: f, label: FORMAT_LABELS[f] }))}
+        />
+        <div>
+          <Text type="secondary" style={{ display: 'block', marginBottom: token.marginXXS }}>
+            {t('relationships.exportSchemas')}
+          </Text>
+          <Select
+            mode="multiple"
+            allowClear
+            style={{ width: '100%' }}
+            placeholder={t('relationships.allSchemas')}
+            value={selected}
+            onChange={setSelected}
+            options={schemaNames.map((name) => ({ value: name, label: name }))}
+          />
+        </div>
+
+        {error && <Alert type="error" showIcon message={error} />}
+
+        <Spin spinning={loading}>
+          {result?.format === 'svg' ? (
+            <div
+              style={{
+                maxHeight: 420,
+                overflow: 'auto',
+                border: `1px solid ${token.colorBorderSecondary}`,
+                borderRadius: token.borderRadius,
+              }}
+            >
+              <img
+                alt={result.fileName}
+                src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(result.content)}`}
+              />
+            </div>
+          ) : (
+            <pre
+              style={{
+                fontSize: 12,
+                background: token.colorBgLayout,
+                padding: 12,
+                borderRadius: token.borderRadius,
+                overflow: 'auto',
+                maxHeight: 420,
+                minHeight: 120,
+                margin: 0,
+              }}
+            >
+              {result?.content}
+            </pre>
+          )}
+        </Spin>
+      </Space>
+    </Modal>
+  );
+}
@@ -0,0 +1,235 @@
+/**
+ * Command palette (Ctrl/Cmd+K) - jump to any schema, property, enum value or index, or run a command
+ */
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Modal, Input, Tag, Typography, Empty, theme } from 'antd';
+import type { InputRef } from 'antd';
+import {
+  SearchOutlined,
+  FileOutlined,
+  OrderedListOutlined,
+  FieldStringOutlined,
+  TagOutlined,
+  ThunderboltOutlined,
+  PlusOutlined,
+  CloudUploadOutlined,
+  HistoryOutlined,
+  ApartmentOutlined,
+  SettingOutlined,
+  BulbOutlined,
+  CodeOutlined,
+} from '@ant-design/icons';
+import { useNavigate } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { useSchemaStore } from '../../stores/schemaStore.js';
+import { useUiStore } from '../../stores/uiStore.js';
+import { searchSchemas, type SchemaSearchResult } from '../../../shared/schemaSearch.js';
+import { resolveLocalized } from '../../../shared/localized.js';
+
+const { Text } = Typography;
+
+const MAX_RESULTS = 50;
+
+interface PaletteItem {
+  key: string;
+  icon: React.ReactNode;
+  title: React.ReactNode;
+  // Secondary text shown on the right
+  hint?: React.ReactNode;
+  run: () => void;
+}
+
+interface CommandPaletteProps {
+  open: boolean;
+  onClose: () => void;
+  // Opens the publish version dialog
+  onPublish: () => void;
+  // Opens the generate dialog
+  onGenerate: () => void;
+}
+
+const RESULT_ICONS: Record<SchemaSearchResult['kind'], React.ReactNode> = {
+  schema: <FileOutlined />,
+  property: <FieldStringOutlined />,
+  enumValue: <OrderedListOutlined />,
+  index: <ThunderboltOutlined />,
+};
+
+/**
+ * Location of a search result: the schema page, with the property or enum value highlighted
+ */
+function resultPath(result: SchemaSearchResult): string {
+  const path = `/schema/${encodeURIComponent(result.schema)}`;
+  if (result.kind === 'property' && result.target) return `${path}?property=${encodeURIComponent(result.target)}`;
+  if (result.kind === 'enumValue' && result.target) return `${path}?value=${encodeURIComponent(result.target)}`;
+  return path;
+}
+
+export function CommandPalette({ open, onClose, onPublish, onGenerate }: CommandPaletteProps): React.ReactElement {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const { schemas } = useSchemaStore();
+  const { language, toggleDarkMode } = useUiStore();
+  const { token } = theme.useToken();
+  const [query, setQuery] = useState('');
+  const [active, setActive] = useState(0);
+  const inputRef = useRef<InputRef>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setQuery('');
+    setActive(0);
+  }, [open]);
+
+  const commands = useMemo<PaletteItem[]>(
+    () => [
+      { key: 'new-schema', icon: <PlusOutlined />, title: t('palette.newSchema'), run: () => navigate('/schema/new') },
+      { key: 'new-enum', icon: <PlusOutlined />, title: t('palette.newEnum'), run: () => navigate('/schema/new?kind=enum') },
+      { key: 'publish', icon: <CloudUploadOutlined />, title: t('palette.publishVersion'), run: onPublish },
+      { key: 'generate', icon: <CodeOutlined />, title: t('palette.generate'), run: onGenerate },
+      { key: 'history', icon: <HistoryOutlined />, title: t('palette.openHistory'), run: () => navigate('/history') },
+      {
+        key: 'relationships',
+        icon: <ApartmentOutlined />,
+        title: t('palette.openRelationships'),
+        run: () => navigate('/relationships'),
+      },
+      { key: 'settings', icon: <SettingOutlined />, title: t('palette.openSettings'), run: () => navigate('/settings') },
+      { key: 'dark-mode', icon: <BulbOutlined />, title: t('palette.toggleDarkMode'), run: toggleDarkMode },
+    ],
+    [t, navigate, onPublish, onGenerate, toggleDarkMode]
+  );
+
+  const items = useMemo<PaletteItem[]>(() => {
+    const q = query.trim().toLowerCase();
+    const matchingCommands = commands.filter((c) => String(c.title).toLowerCase().includes(q));
+    if (!q) return matchingCommands;
+
+    const results = searchSchemas(Object.values(schemas), q, MAX_RESULTS).map((result): PaletteItem => {
+      const schema = schemas[result.schema];
+      const displayName = schema ? resolveLocalized(schema.displayName, language) : undefined;
+      const type = result.kind === 'property' ? schema?.properties?.[result.target ?? '']?.type : undefined;
+      return {
+        key: `${result.kind}:${result.schema}:${result.target ?? ''}`,
+        icon: result.kind === 'schema' && schema?.kind === 'enum' ? <TagOutlined /> : RESULT_ICONS[result.kind],
+        title:
+          result.kind === 'schema' ? (
+            <>
+              <Text strong>{result.schema}</Text>
+              {displayName && displayName !== result.schema && <Text type="secondary"> {displayName}</Text>}
+            </>
+          ) : (
+            <>
+              <Text type="secondary">{result.schema} › </Text>
+              <Text strong>{result.target}</Text>
+              {type && <Tag style={{ marginLeft: token.marginXS }}>{type}</Tag>}
+            </>
+          ),
+        hint: (
+          <>
+            {result.field !== 'name' && result.matched !== type && <Text type="secondary">{result.matched} · </Text>}
+            <Text type="secondary">{t(`palette.kind.${result.kind}`)}</Text>
+          </>
+        ),
+        run: () => navigate(resultPath(result)),
+      };
+    });
+    return [...matchingCommands, ...results];
+  }, [query, commands, schemas, language, navigate, t, token.marginXS]);
+
+  // Keep the active row valid and visible while typing or moving
+  useEffect(() => {
+    if (active >= items.length) setActive(Math.max(0, items.length - 1));
+  }, [items.length, active]);
+
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-index="${active}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [active]);
+
+  const runItem = (item: PaletteItem | undefined): void => {
+    if (!item) return;
+    onClose();
+    item.run();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent): void => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActive((i) => Math.min(i + 1, items.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActive((i) => Math.max(i - 1, 0));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      runItem(items[active]);
+    }
+  };
+
+  return (
+    <Modal
+      open={open}
+      onCancel={onClose}
+      footer={null}
+      closable={false}
+      width={640}
+      style={{ top: 80 }}
+      styles={{ content: { padding: 0 } }}
+      afterOpenChange={(visible) => visible && inputRef.current?.focus()}
+      destroyOnClose
+    >
+      <Input
+        ref={inputRef}
+        size="large"
+        variant="borderless"
+        prefix={<SearchOutlined style={{ color: token.colorTextTertiary }} />}
+        placeholder={t('palette.placeholder')}
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setActive(0);
+        }}
+        onKeyDown={handleKeyDown}
+        style={{ padding: `${token.paddingSM}px ${token.padding}px` }}
+      />
+      <div
+        ref={listRef}
+        style={{
+          maxHeight: 400,
+          overflow: 'auto',
+          borderTop: `1px solid ${token.colorBorderSecondary}`,
+          padding: token.paddingXXS,
+        }}
+      >
+        {items.length === 0 ? (
+          <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description={t('palette.noResults')} />
+        ) : (
+          items.map((item, i) => (
+            <div
+              key={item.key}
+              data-index={i}
+              onMouseMove={() => setActive(i)}
+              onClick={() => runItem(item)}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: token.marginSM,
+                padding: `${token.paddingXS}px ${token.paddingSM}px`,
+                borderRadius: token.borderRadiusSM,
+                cursor: 'pointer',
+                background: i === active ? token.colorPrimaryBg : undefined,
+              }}
+            >
+              <span style={{ color: token.colorTextSecondary }}>{item.icon}</span>
+              <span style={{ flex: 1, minWidth: 0, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                {item.title}
+              </span>
+              {item.hint && <span style={{ flexShrink: 0, fontSize: token.fontSizeSM }}>{item.hint}</span>}
+            </div>
+          ))
+        )}
+      </div>
+    </Modal>
+  );
+}
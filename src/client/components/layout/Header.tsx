@@ -2,10 +2,11 @@
  * Fixed top header bar with change tracking
  */
 
-import { useState, useEffect } from 'react';
-import { Layout, Space, Switch, Badge, theme, Tooltip, Button, Tag, Dropdown } from 'antd';
+import { useState, useEffect, useCallback } from 'react';
+import { Layout, Space, Switch, Badge, theme, Tooltip, Button, Tag, Dropdown, Popover } from 'antd';
 import type { MenuProps } from 'antd';
 import { useTranslation } from 'react-i18next';
+import { useNavigate } from 'react-router-dom';
 import {
   SunOutlined,
   MoonOutlined,
@@ -15,22 +16,32 @@ import {
   DiffOutlined,
   CheckCircleOutlined,
   GlobalOutlined,
+  SearchOutlined,
+  CodeOutlined,
 } from '@ant-design/icons';
 import { useUiStore, type Language } from '../../stores/uiStore.js';
 import { useWsStore } from '../../stores/wsStore.js';
 import { useSchemaStore } from '../../stores/schemaStore.js';
 import { versionsApi, type PendingChangesResult } from '../../services/versions.js';
+import { schemasApi } from '../../services/schemas.js';
 import { ChangesPreviewModal } from '../common/ChangesPreviewModal.js';
+import { GenerateModal } from '../common/GenerateModal.js';
+import { CommandPalette } from './CommandPalette.js';
+import { FindingsList } from '../common/FindingsList.js';
 import { LANGUAGE_OPTIONS } from '../../i18n/index.js';
+import type { ValidationError } from '../../../shared/types.js';
 
 const { Header: AntHeader } = Layout;
 
+const IS_MAC = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
 export function Header(): React.ReactElement {
   const { t } = useTranslation();
   const { darkMode, toggleDarkMode, language, setLanguage } = useUiStore();
   const { connected } = useWsStore();
   const { validationErrors, schemas } = useSchemaStore();
   const { token } = theme.useToken();
+  const navigate = useNavigate();
 
   const languageMenuItems: MenuProps['items'] = LANGUAGE_OPTIONS.map((opt) => ({
     key: opt.value,
@@ -41,15 +52,21 @@ export function Header(): React.ReactElement {
 
   const [pendingData, setPendingData] = useState<PendingChangesResult | null>(null);
   const [changesModalOpen, setChangesModalOpen] = useState(false);
+  const [generateModalOpen, setGenerateModalOpen] = useState(false);
   const [publishing, setPublishing] = useState(false);
+  const [paletteOpen, setPaletteOpen] = useState(false);
+  const [lintFindings, setLintFindings] = useState<ValidationError[]>([]);
 
-  const errorCount = validationErrors.length;
+  const findings = [...validationErrors, ...lintFindings];
+  const errorCount = findings.filter((e) => e.severity === 'error').length;
+  const warningCount = findings.length - errorCount;
   const pendingCount = pendingData?.changes.length ?? 0;
   const hasChanges = pendingData?.hasChanges ?? false;
 
-  // Load pending changes whenever schemas change
+  // Load pending changes and lint findings whenever schemas change
   useEffect(() => {
     loadPendingChanges();
+    schemasApi.lint().then(setLintFindings).catch(() => setLintFindings([]));
   }, [schemas]);
 
   const loadPendingChanges = async (): Promise<void> => {
@@ -61,6 +78,21 @@ export function Header(): React.ReactElement {
     }
   };
 
+  // Ctrl/Cmd+K opens the command palette from anywhere
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent): void => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setPaletteOpen(true);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const openPublish = useCallback(() => setChangesModalOpen(true), []);
+  const openGenerate = useCallback(() => setGenerateModalOpen(true), []);
+
   const handlePublishVersion = async (): Promise<void> => {
     setPublishing(true);
     try {
@@ -134,15 +166,54 @@ export function Header(): React.ReactElement {
             </Tag>
           )}
 
-          {errorCount > 0 && (
-            <Badge count={errorCount}>
-              <Tag color="error">{t('header.validationErrors')}</Tag>
-            </Badge>
+          {findings.length > 0 && (
+            <Popover
+              trigger="click"
+              placement="bottomLeft"
+              title={t('lint.title')}
+              content={
+                <div style={{ width: 480, maxHeight: 360, overflow: 'auto' }}>
+                  <FindingsList
+                    findings={findings}
+                    showSchema
+                    onSelect={({ schema, property }) => {
+                      if (!schemas[schema]) return;
+                      navigate(property ? `/schema/${schema}?property=${encodeURIComponent(property)}` : `/schema/${schema}`);
+                    }}
+                  />
+                </div>
+              }
+            >
+              <Space size="middle" style={{ cursor: 'pointer' }}>
+                {errorCount > 0 && (
+                  <Badge count={errorCount}>
+                    <Tag color="error">{t('header.validationErrors')}</Tag>
+                  </Badge>
+                )}
+
+                {warningCount > 0 && (
+                  <Badge count={warningCount} color={token.colorWarning}>
+                    <Tag color="warning">{t('header.validationWarnings')}</Tag>
+                  </Badge>
+                )}
+              </Space>
+            </Popover>
           )}
         </Space>
 
         {/* Right: Actions */}
         <Space size="middle">
+          <Button size="small" icon={<SearchOutlined />} onClick={() => setPaletteOpen(true)}>
+            {t('palette.search')}
+            <Tag style={{ margin: 0, marginLeft: token.marginXXS, fontSize: 11, lineHeight: '16px' }}>
+              {IS_MAC ? '⌘K' : 'Ctrl K'}
+            </Tag>
+          </Button>
+
+          <Button size="small" icon={<CodeOutlined />} onClick={openGenerate}>
+            {t('header.generate')}
+          </Button>
+
           {/* Publish Version Button */}
           {hasChanges && (
             <Button
@@ -192,6 +263,15 @@ export function Header(): React.ReactElement {
         onClose={() => setChangesModalOpen(false)}
         onConfirm={handlePublishVersion}
       />
+
+      <GenerateModal open={generateModalOpen} onClose={() => setGenerateModalOpen(false)} />
+
+      <CommandPalette
+        open={paletteOpen}
+        onClose={() => setPaletteOpen(false)}
+        onPublish={openPublish}
+        onGenerate={openGenerate}
+      />
     </>
   );
 }
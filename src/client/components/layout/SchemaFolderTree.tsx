@@ -0,0 +1,209 @@
+/**
+ * Schema folder tree for the sidebar - drag schemas onto folders to move them
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { useNavigate, useLocation } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { Tree, Button, Modal, Input, Tooltip, Typography, theme, message } from 'antd';
+import type { TreeDataNode, TreeProps } from 'antd';
+import {
+  FileOutlined,
+  OrderedListOutlined,
+  FolderAddOutlined,
+  PlusOutlined,
+} from '@ant-design/icons';
+import { useSchemaStore } from '../../stores/schemaStore.js';
+import { isValidFolderPath } from '../../../shared/validation.js';
+import type { GuiSchema } from '../../../shared/types.js';
+
+const { Text } = Typography;
+
+const FOLDER_PREFIX = 'folder:';
+const SCHEMA_PREFIX = 'schema:';
+
+/**
+ * Folder of a schema file, "" for the schemas directory itself
+ */
+function schemaFolder(schema: GuiSchema): string {
+  const path = schema.relativePath ?? '';
+  const slash = path.lastIndexOf('/');
+  return slash === -1 ? '' : path.slice(0, slash);
+}
+
+/**
+ * Build the tree: folders first, then schemas, both sorted by name.
+ * Empty folders from `folders` are included.
+ */
+function buildTree(schemas: GuiSchema[], folders: string[], rootTitle: string): TreeDataNode {
+  const root: TreeDataNode = { key: FOLDER_PREFIX, title: rootTitle, children: [] };
+  const nodes = new Map<string, TreeDataNode>([['', root]]);
+
+  const folderNode = (path: string): TreeDataNode => {
+    const existing = nodes.get(path);
+    if (existing) return existing;
+    const slash = path.lastIndexOf('/');
+    const parent = folderNode(slash === -1 ? '' : path.slice(0, slash));
+    const node: TreeDataNode = { key: FOLDER_PREFIX + path, title: path.slice(slash + 1), children: [] };
+    parent.children!.push(node);
+    nodes.set(path, node);
+    return node;
+  };
+
+  [...folders].sort().forEach(folderNode);
+  for (const schema of [...schemas].sort((a, b) => a.name.localeCompare(b.name))) {
+    folderNode(schemaFolder(schema)).children!.push({
+      key: SCHEMA_PREFIX + schema.name,
+      title: schema.name,
+      isLeaf: true,
+      icon: schema.kind === 'enum' ? <OrderedListOutlined /> : <FileOutlined />,
+    });
+  }
+
+  // Folders before schemas at every level
+  for (const node of nodes.values()) {
+    node.children!.sort((a, b) => Number(Boolean(a.isLeaf)) - Number(Boolean(b.isLeaf)));
+  }
+  return root;
+}
+
+export function SchemaFolderTree(): React.ReactElement {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { token } = theme.useToken();
+  const { schemas, folders, loadFolders, moveSchema, createFolder } = useSchemaStore();
+  const [selectedFolder, setSelectedFolder] = useState('');
+  const [collapsedKeys, setCollapsedKeys] = useState<string[]>([]);
+  const [folderModalOpen, setFolderModalOpen] = useState(false);
+  const [newFolder, setNewFolder] = useState('');
+
+  useEffect(() => {
+    void loadFolders();
+  }, [schemas, loadFolders]);
+
+  const tree = useMemo(
+    () => buildTree(Object.values(schemas), folders, t('folders.root')),
+    [schemas, folders, t]
+  );
+
+  const folderKeys = useMemo(() => {
+    const keys: string[] = [];
+    const walk = (node: TreeDataNode): void => {
+      if (node.isLeaf) return;
+      keys.push(String(node.key));
+      node.children?.forEach(walk);
+    };
+    walk(tree);
+    return keys;
+  }, [tree]);
+  const expandedKeys = folderKeys.filter((k) => !collapsedKeys.includes(k));
+
+  const selectedSchema = location.pathname.startsWith('/schema/')
+    ? decodeURIComponent(location.pathname.slice('/schema/'.length))
+    : null;
+  const selectedKeys = selectedSchema && schemas[selectedSchema]
+    ? [SCHEMA_PREFIX + selectedSchema]
+    : [FOLDER_PREFIX + selectedFolder];
+
+  const handleSelect: TreeProps['onSelect'] = (_keys, { node }) => {
+    const key = String(node.key);
+    if (key.startsWith(SCHEMA_PREFIX)) {
+      navigate(`/schema/${key.slice(SCHEMA_PREFIX.length)}`);
+    } else {
+      setSelectedFolder(key.slice(FOLDER_PREFIX.length));
+    }
+  };
+
+  const handleDrop: TreeProps['onDrop'] = async ({ node, dragNode }) => {
+    const name = String(dragNode.key).slice(SCHEMA_PREFIX.length);
+    const folder = String(node.key).slice(FOLDER_PREFIX.length);
+    if (schemaFolder(schemas[name]!) === folder) return;
+    try {
+      await moveSchema(name, folder);
+      void message.success(t('folders.moved', { name, folder: folder || t('folders.root') }));
+    } catch (e) {
+      void message.error((e as Error).message);
+    }
+  };
+
+  const trimmedFolder = newFolder.trim();
+  const folderValid = trimmedFolder !== '' && isValidFolderPath(trimmedFolder);
+
+  const handleCreateFolder = async (): Promise<void> => {
+    try {
+      await createFolder(trimmedFolder);
+      setSelectedFolder(trimmedFolder);
+      setFolderModalOpen(false);
+      void message.success(t('folders.created', { folder: trimmedFolder }));
+    } catch (e) {
+      void message.error((e as Error).message);
+    }
+  };
+
+  return (
+    <div style={{ padding: `0 ${token.paddingXS}px` }}>
+      <div style={{ display: 'flex', justifyContent: 'flex-end', gap: token.marginXXS }}>
+        <Tooltip title={t('folders.newSchemaHere')}>
+          <Button
+            type="text"
+            size="small"
+            icon={<PlusOutlined />}
+            onClick={() =>
+              navigate(selectedFolder ? `/schema/new?folder=${encodeURIComponent(selectedFolder)}` : '/schema/new')
+            }
+          />
+        </Tooltip>
+        <Tooltip title={t('folders.newFolder')}>
+          <Button
+            type="text"
+            size="small"
+            icon={<FolderAddOutlined />}
+            onClick={() => {
+              setNewFolder(selectedFolder ? `${selectedFolder}/` : '');
+              setFolderModalOpen(true);
+            }}
+          />
+        </Tooltip>
+      </div>
+
+      <Tree.DirectoryTree
+        treeData={[tree]}
+        selectedKeys={selectedKeys}
+        expandedKeys={expandedKeys}
+        onExpand={(keys) => setCollapsedKeys(folderKeys.filter((k) => !keys.includes(k)))}
+        expandAction="doubleClick"
+        onSelect={handleSelect}
+        draggable={{ icon: false, nodeDraggable: (node) => String(node.key).startsWith(SCHEMA_PREFIX) }}
+        allowDrop={({ dropNode, dropPosition }) =>
+          dropPosition === 0 && String(dropNode.key).startsWith(FOLDER_PREFIX)
+        }
+        onDrop={handleDrop}
+        style={{ background: 'transparent' }}
+      />
+
+      <Modal
+        title={t('folders.newFolder')}
+        open={folderModalOpen}
+        onOk={handleCreateFolder}
+        onCancel={() => setFolderModalOpen(false)}
+        okButtonProps={{ disabled: !folderValid }}
+        destroyOnClose
+      >
+        <Input
+          autoFocus
+          value={newFolder}
+          placeholder="e.g., billing/invoices"
+          status={trimmedFolder && !folderValid ? 'error' : undefined}
+          onChange={(e) => setNewFolder(e.target.value)}
+          onPressEnter={() => folderValid && void handleCreateFolder()}
+        />
+        {trimmedFolder && !folderValid && (
+          <Text type="danger" style={{ fontSize: 12 }}>
+            {t('folders.invalidPath')}
+          </Text>
+        )}
+      </Modal>
+    </div>
+  );
+}
@@ -5,7 +5,7 @@
 import { useState } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
-import { Layout, Menu, theme } from 'antd';
+import { Layout, Menu, Segmented, theme } from 'antd';
 import {
   HomeOutlined,
   FileOutlined,
@@ -15,9 +15,13 @@ import {
   OrderedListOutlined,
   LeftOutlined,
   RightOutlined,
+  ApartmentOutlined,
+  AppstoreOutlined,
+  FolderOutlined,
 } from '@ant-design/icons';
 import { useSchemaStore } from '../../stores/schemaStore.js';
-import { useUiStore } from '../../stores/uiStore.js';
+import { useUiStore, type SidebarView } from '../../stores/uiStore.js';
+import { SchemaFolderTree } from './SchemaFolderTree.js';
 
 const { Sider } = Layout;
 
@@ -28,7 +32,7 @@ export function Sidebar(): React.ReactElement {
   const navigate = useNavigate();
   const location = useLocation();
   const { schemas } = useSchemaStore();
-  const { sidebarCollapsed, toggleSidebar } = useUiStore();
+  const { sidebarCollapsed, toggleSidebar, sidebarView, setSidebarView } = useUiStore();
   const { token } = theme.useToken();
   const [openKeys, setOpenKeys] = useState<string[]>(['objects', 'enums']);
 
@@ -36,12 +40,10 @@ export function Sidebar(): React.ReactElement {
   const objectSchemas = schemaList.filter((s) => s.kind === 'object').sort((a, b) => a.name.localeCompare(b.name));
   const enumSchemas = schemaList.filter((s) => s.kind === 'enum').sort((a, b) => a.name.localeCompare(b.name));
 
-  const menuItems = [
-    {
-      key: '/',
-      icon: <HomeOutlined />,
-      label: t('nav.home'),
-    },
+  // Schemas are listed by kind in the menu, or in the folder tree below it
+  const showFolders = sidebarView === 'folders' && !sidebarCollapsed;
+
+  const schemaGroups = [
     {
       key: 'objects',
       icon: <FileOutlined />,
@@ -74,6 +76,20 @@ export function Sidebar(): React.ReactElement {
         })),
       ],
     },
+  ];
+
+  const menuItems = [
+    {
+      key: '/',
+      icon: <HomeOutlined />,
+      label: t('nav.home'),
+    },
+    ...(showFolders ? [] : schemaGroups),
+    {
+      key: '/relationships',
+      icon: <ApartmentOutlined />,
+      label: t('nav.relationships'),
+    },
     {
       key: '/history',
       icon: <HistoryOutlined />,
@@ -110,6 +126,19 @@ export function Sidebar(): React.ReactElement {
     >
       <div style={{ display: 'flex', flexDirection: 'column', height: '100%' }}>
       <div style={{ flex: 1, overflow: 'auto', minHeight: 0 }}>
+        {!sidebarCollapsed && (
+          <Segmented<SidebarView>
+            block
+            size="small"
+            value={sidebarView}
+            onChange={setSidebarView}
+            options={[
+              { value: 'kind', icon: <AppstoreOutlined />, label: t('folders.byKind') },
+              { value: 'folders', icon: <FolderOutlined />, label: t('folders.byFolder') },
+            ]}
+            style={{ margin: token.marginXS }}
+          />
+        )}
         <Menu
           mode="inline"
           selectedKeys={[location.pathname]}
@@ -119,6 +148,7 @@ export function Sidebar(): React.ReactElement {
           style={{ border: 'none' }}
           inlineCollapsed={sidebarCollapsed}
         />
+        {showFolders && <SchemaFolderTree />}
       </div>
       {/* Collapse trigger at bottom */}
       <div
@@ -0,0 +1,75 @@
+/**
+ * Apply Fix Modal - previews the YAML changes of a quick fix before applying it
+ */
+
+import { useMemo } from 'react';
+import { Modal, Alert, Collapse, Typography, theme } from 'antd';
+import { useTranslation } from 'react-i18next';
+import { DiffView } from '../common/DiffView.js';
+import { schemaToYaml } from '../../utils/yamlConverter.js';
+import type { GuiSchema, SchemaFix } from '../../../shared/types.js';
+
+const { Text } = Typography;
+
+interface ApplyFixModalProps {
+  fix: SchemaFix | null;
+  // Schemas before and after the fix, keyed by name (the edited schema as currently edited)
+  before: Record<string, GuiSchema>;
+  after: Record<string, GuiSchema>;
+  // Name of the schema being edited: the fix stays unsaved in the editor until it is saved
+  editing: string;
+  onApply: () => void;
+  onCancel: () => void;
+}
+
+export function ApplyFixModal({
+  fix,
+  before,
+  after,
+  editing,
+  onApply,
+  onCancel,
+}: ApplyFixModalProps): React.ReactElement {
+  const { t } = useTranslation();
+  const { token } = theme.useToken();
+
+  const files = useMemo(
+    () =>
+      Object.entries(after).map(([name, schema]) => ({
+        name,
+        before: before[name] ? schemaToYaml(before[name]) : '',
+        after: schemaToYaml(schema),
+      })),
+    [before, after]
+  );
+  const otherSchemas = files.filter((file) => file.name !== editing).map((file) => file.name);
+
+  return (
+    <Modal
+      title={t('fixes.previewTitle', { title: fix?.title ?? '' })}
+      open={fix !== null}
+      onCancel={onCancel}
+      onOk={onApply}
+      okText={t('fixes.apply')}
+      width={760}
+    >
+      {otherSchemas.length > 0 && (
+        <Alert
+          type="info"
+          showIcon
+          style={{ marginBottom: token.marginSM }}
+          message={t('fixes.otherSchemasOnSave', { names: otherSchemas.join(', ') })}
+        />
+      )}
+      <Collapse
+        size="small"
+        defaultActiveKey={files.map((file) => file.name)}
+        items={files.map((file) => ({
+          key: file.name,
+          label: <Text code>{file.name}</Text>,
+          children: <DiffView before={file.before} after={file.after} maxHeight={400} />,
+        }))}
+      />
+    </Modal>
+  );
+}
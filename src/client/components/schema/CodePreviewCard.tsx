@@ -0,0 +1,177 @@
+/**
+ * Code Preview Card component showing the code generated from the saved schema,
+ * with SQL for the selected database or every dialect side by side, and what the
+ * configured plugins would write for the project
+ */
+
+import { useEffect, useState } from 'react';
+import { Alert, Card, Col, Empty, Row, Space, Spin, Switch, Tabs, Tag, Typography, theme } from 'antd';
+import { useTranslation } from 'react-i18next';
+import { schemasApi } from '../../services/schemas.js';
+import { generateApi } from '../../services/generate.js';
+import { GeneratedFilesList } from '../common/GeneratedFilesList.js';
+import { useUiStore, DATABASE_LABELS } from '../../stores/uiStore.js';
+import { SQL_DIALECTS } from '../../../shared/constants.js';
+import type { DryRunResult, PreviewResult, PreviewType, SqlDialect } from '../../../shared/types.js';
+
+const { Text } = Typography;
+
+interface PreviewOutput {
+  dialect?: SqlDialect | undefined;
+  preview?: PreviewResult | undefined;
+  error?: string | undefined;
+}
+
+type PreviewTab = PreviewType | 'plugins';
+
+interface CodePreviewCardProps {
+  schemaName: string;
+  // Changes when the schema file is saved, to regenerate the preview
+  version: string | undefined;
+}
+
+export function CodePreviewCard({ schemaName, version }: CodePreviewCardProps): React.ReactElement {
+  const { t } = useTranslation();
+  const { token } = theme.useToken();
+  const databaseType = useUiStore((state) => state.databaseType);
+  const [type, setType] = useState<PreviewTab>('sql');
+  const [compare, setCompare] = useState(false);
+  const [outputs, setOutputs] = useState<PreviewOutput[]>([]);
+  const [dryRun, setDryRun] = useState<{ result?: DryRunResult; error?: string }>({});
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (type === 'plugins') {
+      let cancelled = false;
+      setLoading(true);
+      void generateApi.dryRun().then(
+        (result) => {
+          if (cancelled) return;
+          setDryRun({ result });
+          setLoading(false);
+        },
+        (error: Error) => {
+          if (cancelled) return;
+          setDryRun({ error: error.message });
+          setLoading(false);
+        }
+      );
+      return () => {
+        cancelled = true;
+      };
+    }
+
+    const dialects: (SqlDialect | undefined)[] =
+      type !== 'sql' ? [undefined] : compare ? [...SQL_DIALECTS] : [databaseType];
+    let cancelled = false;
+    setLoading(true);
+
+    // Dialects fail independently: a generator may not support every database
+    void Promise.all(
+      dialects.map((dialect) =>
+        schemasApi.preview(type, schemaName, dialect).then(
+          ([preview]): PreviewOutput => ({ dialect, preview }),
+          (error: Error): PreviewOutput => ({ dialect, error: error.message })
+        )
+      )
+    ).then((results) => {
+      if (cancelled) return;
+      setOutputs(results);
+      setLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [schemaName, version, type, compare, databaseType]);
+
+  const renderOutput = (output: PreviewOutput): React.ReactNode => {
+    if (output.error) return <Alert type="error" showIcon message={output.error} />;
+    if (!output.preview?.content) return <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description={t('preview.noPreview')} />;
+    return (
+      <pre
+        style={{
+          margin: 0,
+          padding: token.paddingXS,
+          fontFamily: token.fontFamilyCode,
+          fontSize: 12,
+          maxHeight: 400,
+          overflow: 'auto',
+          background: token.colorFillQuaternary,
+          border: `1px solid ${token.colorBorderSecondary}`,
+          borderRadius: token.borderRadius,
+        }}
+      >
+        {output.preview.content}
+      </pre>
+    );
+  };
+
+  const renderDryRun = (): React.ReactNode => {
+    if (dryRun.error) return <Alert type="error" showIcon message={dryRun.error} />;
+    if (!dryRun.result) return null;
+    const { files, errors } = dryRun.result;
+    return (
+      <Space direction="vertical" size="small" style={{ width: '100%' }}>
+        <Text type="secondary">{t('generate.dryRunHint')}</Text>
+        {errors.map((error, i) => (
+          <Alert
+            key={i}
+            type="warning"
+            showIcon
+            message={`${error.plugin}${error.generator ? ` / ${error.generator}` : ''}`}
+            description={error.message}
+          />
+        ))}
+        {files.length > 0 ? (
+          <GeneratedFilesList files={files} />
+        ) : (
+          <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description={t('generate.noFiles')} />
+        )}
+      </Space>
+    );
+  };
+
+  const content =
+    type === 'plugins' ? (
+      renderDryRun()
+    ) : type === 'sql' && compare ? (
+      <Row gutter={[token.marginSM, token.marginSM]}>
+        {outputs.map((output) => (
+          <Col key={output.dialect} xs={24} xl={12}>
+            <Tag style={{ marginBottom: token.marginXXS }}>{DATABASE_LABELS[output.dialect!]}</Tag>
+            {renderOutput(output)}
+          </Col>
+        ))}
+      </Row>
+    ) : (
+      outputs[0] && renderOutput(outputs[0])
+    );
+
+  return (
+    <Card
+      title={t('preview.title')}
+      size="small"
+      extra={
+        type === 'sql' && (
+          <Space size={4}>
+            {!compare && <Tag>{DATABASE_LABELS[databaseType]}</Tag>}
+            <Text type="secondary">{t('preview.compareDialects')}</Text>
+            <Switch size="small" checked={compare} onChange={setCompare} />
+          </Space>
+        )
+      }
+    >
+      <Tabs
+        size="small"
+        activeKey={type}
+        onChange={(key) => setType(key as PreviewTab)}
+        items={(['sql', 'laravel', 'typescript', 'plugins'] as const).map((key) => ({ key, label: t(`preview.${key}`) }))}
+      />
+      <Spin spinning={loading}>{content}</Spin>
+      <Text type="secondary" style={{ display: 'block', marginTop: token.marginXS, fontSize: 12 }}>
+        {t('preview.savedOnly')}
+      </Text>
+    </Card>
+  );
+}
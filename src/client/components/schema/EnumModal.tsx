@@ -6,6 +6,7 @@ import { Modal, Form, Input, Divider, Button, Space, Typography, theme } from 'a
 import { PlusOutlined, MinusCircleOutlined } from '@ant-design/icons';
 import type { FormInstance } from 'antd';
 import { useTranslation } from 'react-i18next';
+import { LocalizedInput } from '../common/LocalizedInput.js';
 import { isValidIdentifier } from '../../../shared/validation.js';
 
 const { Text } = Typography;
@@ -71,7 +72,7 @@ export function EnumModal({
         </Form.Item>
 
         <Form.Item name="label" label={t('enum.displayLabel')}>
-          <Input placeholder="e.g., Active Status, In Progress" />
+          <LocalizedInput placeholder="e.g., Active Status, In Progress" />
         </Form.Item>
 
         <Divider style={{ margin: `${token.marginSM}px 0` }} />
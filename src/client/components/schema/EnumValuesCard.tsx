@@ -3,9 +3,10 @@
  */
 
 import { Card, Table, Button, Space, Tag, Tooltip, Popconfirm, Typography } from 'antd';
-import { PlusOutlined, EditOutlined, DeleteOutlined } from '@ant-design/icons';
+import { PlusOutlined, EditOutlined, DeleteOutlined, ArrowUpOutlined, ArrowDownOutlined } from '@ant-design/icons';
 import { useTranslation } from 'react-i18next';
-import type { GuiEnumValue } from '../../../shared/types.js';
+import { LocalizedText } from '../common/LocalizedInput.js';
+import type { GuiEnumValue, LocalizedString } from '../../../shared/types.js';
 
 const { Text } = Typography;
 
@@ -16,6 +17,9 @@ interface EnumValuesCardProps {
   onAdd: () => void;
   onEdit: (index: number) => void;
   onRemove: (index: number) => void;
+  onMove: (index: number, delta: number) => void;
+  // Value to highlight (opened from the command palette)
+  highlightedValue?: string | undefined;
 }
 
 export function EnumValuesCard({
@@ -25,6 +29,8 @@ export function EnumValuesCard({
   onAdd,
   onEdit,
   onRemove,
+  onMove,
+  highlightedValue,
 }: EnumValuesCardProps): React.ReactElement {
   const { t } = useTranslation();
 
@@ -45,9 +51,10 @@ export function EnumValuesCard({
         size="small"
         locale={{ emptyText: t('enum.noValues') }}
         rowClassName={(record) => {
-          if (isEnumValueNew(record._idx)) return 'row-new';
-          if (isEnumValueChanged(record._idx)) return 'row-changed';
-          return '';
+          const highlight = record.value === highlightedValue ? ' row-highlight' : '';
+          if (isEnumValueNew(record._idx)) return 'row-new' + highlight;
+          if (isEnumValueChanged(record._idx)) return 'row-changed' + highlight;
+          return highlight;
         }}
         columns={[
           {
@@ -60,7 +67,7 @@ export function EnumValuesCard({
             title: t('enum.label'),
             dataIndex: 'label',
             key: 'label',
-            render: (val: string | undefined) => val || <Text type="secondary">-</Text>,
+            render: (val: LocalizedString | undefined) => (val ? <LocalizedText value={val} /> : <Text type="secondary">-</Text>),
           },
           {
             title: t('enum.extra'),
@@ -80,9 +87,23 @@ export function EnumValuesCard({
           {
             title: t('common.actions'),
             key: 'actions',
-            width: 100,
+            width: 160,
             render: (_: unknown, record: GuiEnumValue & { _idx: number }) => (
               <Space>
+                <Button
+                  type="text"
+                  size="small"
+                  icon={<ArrowUpOutlined />}
+                  disabled={record._idx === 0}
+                  onClick={() => onMove(record._idx, -1)}
+                />
+                <Button
+                  type="text"
+                  size="small"
+                  icon={<ArrowDownOutlined />}
+                  disabled={record._idx === enumValues.length - 1}
+                  onClick={() => onMove(record._idx, 1)}
+                />
                 <Button
                   type="text"
                   size="small"
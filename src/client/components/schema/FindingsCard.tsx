@@ -0,0 +1,35 @@
+/**
+ * Findings Card component listing validation errors and lint findings of the schema being edited
+ */
+
+import { Card, Tag } from 'antd';
+import { useTranslation } from 'react-i18next';
+import { FindingsList, type FindingLocation } from '../common/FindingsList.js';
+import type { ValidationError } from '../../../shared/types.js';
+
+interface FindingsCardProps {
+  findings: ValidationError[];
+  onSelect: (location: FindingLocation) => void;
+  onFix: (finding: ValidationError) => void;
+}
+
+export function FindingsCard({ findings, onSelect, onFix }: FindingsCardProps): React.ReactElement {
+  const { t } = useTranslation();
+  const errorCount = findings.filter((f) => f.severity === 'error').length;
+  const warningCount = findings.length - errorCount;
+
+  return (
+    <Card
+      title={t('lint.title')}
+      size="small"
+      extra={
+        <>
+          {errorCount > 0 && <Tag color="error">{t('lint.errors', { count: errorCount })}</Tag>}
+          {warningCount > 0 && <Tag color="warning">{t('lint.warnings', { count: warningCount })}</Tag>}
+        </>
+      }
+    >
+      <FindingsList findings={findings} onSelect={onSelect} onFix={onFix} />
+    </Card>
+  );
+}
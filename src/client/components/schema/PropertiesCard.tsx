@@ -19,6 +19,8 @@ interface PropertiesCardProps {
   isPropertyNew: (index: number) => boolean;
   isPropertyChanged: (index: number) => boolean;
   onAdd: () => void;
+  // Property to highlight (opened from the command palette)
+  highlightedProperty?: string | undefined;
 }
 
 export function PropertiesCard({
@@ -27,6 +29,7 @@ export function PropertiesCard({
   isPropertyNew,
   isPropertyChanged,
   onAdd,
+  highlightedProperty,
 }: PropertiesCardProps): React.ReactElement {
   const { t } = useTranslation();
 
@@ -48,10 +51,11 @@ export function PropertiesCard({
         size="small"
         locale={{ emptyText: t('property.noProperties') }}
         rowClassName={(record) => {
-          if (record._isVirtual || record._idx === undefined || record._idx < 0) return '';
-          if (isPropertyNew(record._idx)) return 'row-new';
-          if (isPropertyChanged(record._idx)) return 'row-changed';
-          return '';
+          const highlight = record.name === highlightedProperty ? ' row-highlight' : '';
+          if (record._isVirtual || record._idx === undefined || record._idx < 0) return highlight;
+          if (isPropertyNew(record._idx)) return 'row-new' + highlight;
+          if (isPropertyChanged(record._idx)) return 'row-changed' + highlight;
+          return highlight;
         }}
       />
     </Card>
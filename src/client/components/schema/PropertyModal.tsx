@@ -29,7 +29,9 @@ import {
   POLYMORPHIC_RELATION_TYPES,
   REFERENTIAL_ACTIONS,
 } from '../../../shared/constants.js';
+import { LocalizedInput } from '../common/LocalizedInput.js';
 import { validateDefaultValueUI } from '../../../shared/validation.js';
+import { resolveLocalized } from '../../../shared/localized.js';
 import type { GuiEnumValue } from '../../../shared/types.js';
 import { RELATION_TYPE_CONFIGS, STRING_TYPES, NUMERIC_TYPES, type GuiPivotField } from './types.js';
 
@@ -52,6 +54,10 @@ interface PropertyModalProps {
   onAddPivotField: () => void;
   onEditPivotField: (index: number) => void;
   onRemovePivotField: (index: number) => void;
+  /** Keep the type fixed, e.g. when creating an association from the diagram */
+  typeLocked?: boolean;
+  /** Extra form items rendered at the end of the form */
+  children?: React.ReactNode;
 }
 
 export function PropertyModal({
@@ -71,6 +77,8 @@ export function PropertyModal({
   onAddPivotField,
   onEditPivotField,
   onRemovePivotField,
+  typeLocked = false,
+  children,
 }: PropertyModalProps): React.ReactElement {
   const { t } = useTranslation();
   const { token } = theme.useToken();
@@ -102,7 +110,7 @@ export function PropertyModal({
     if (selectedType === 'Enum') {
       return inlineEnumValues.map((v) => ({
         value: v.value,
-        label: v.label ?? v.value,
+        label: resolveLocalized(v.label) ?? v.value,
       }));
     }
     if (selectedType === 'EnumRef' && typeof selectedEnumRef === 'string') {
@@ -110,7 +118,7 @@ export function PropertyModal({
       if (refSchema?.kind === 'enum') {
         return refSchema.values?.map((v) => ({
           value: v.value,
-          label: v.label ?? v.value,
+          label: resolveLocalized(v.label) ?? v.value,
         })) ?? [];
       }
     }
@@ -155,6 +163,7 @@ export function PropertyModal({
               { value: 'Association', label: 'Association (Relation)' },
             ]}
             showSearch
+            disabled={typeLocked}
           />
         </Form.Item>
 
@@ -630,12 +639,14 @@ export function PropertyModal({
         </Form.Item>
 
         <Form.Item name="displayName" label={t('schema.displayName')}>
-          <Input placeholder={t('schema.displayName')} />
+          <LocalizedInput placeholder={t('schema.displayName')} />
         </Form.Item>
 
         <Form.Item name="description" label={t('property.description')}>
-          <Input.TextArea placeholder={t('property.descriptionPlaceholder')} rows={2} />
+          <LocalizedInput placeholder={t('property.descriptionPlaceholder')} multiline />
         </Form.Item>
+
+        {children}
       </Form>
     </Modal>
   );
@@ -0,0 +1,145 @@
+/**
+ * Rename Schema Modal - previews every touched file before renaming
+ */
+
+import { useEffect, useState } from 'react';
+import { Modal, Input, Button, Space, Collapse, Alert, Typography, Tag, theme, message } from 'antd';
+import { useTranslation } from 'react-i18next';
+import { schemasApi } from '../../services/schemas.js';
+import { useSchemaStore } from '../../stores/schemaStore.js';
+import { DiffView } from '../common/DiffView.js';
+import { validateSchemaNameUI } from '../../../shared/validation.js';
+import type { RenamePreview } from '../../../shared/types.js';
+
+const { Text } = Typography;
+
+interface RenameSchemaModalProps {
+  open: boolean;
+  name: string;
+  onCancel: () => void;
+  onRenamed: (newName: string) => void;
+}
+
+export function RenameSchemaModal({
+  open,
+  name,
+  onCancel,
+  onRenamed,
+}: RenameSchemaModalProps): React.ReactElement {
+  const { t } = useTranslation();
+  const { token } = theme.useToken();
+  const { schemas, renameSchema } = useSchemaStore();
+  const [newName, setNewName] = useState(name);
+  const [preview, setPreview] = useState<RenamePreview | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [applying, setApplying] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setNewName(name);
+      setPreview(null);
+    }
+  }, [open, name]);
+
+  const trimmed = newName.trim();
+  const validation = validateSchemaNameUI(trimmed, Object.keys(schemas), name);
+  const canPreview = validation.valid && trimmed !== name;
+
+  const handlePreview = async (): Promise<void> => {
+    setLoading(true);
+    try {
+      setPreview(await schemasApi.previewRename(name, trimmed));
+    } catch (e) {
+      void message.error((e as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleApply = async (): Promise<void> => {
+    if (!preview) return;
+    setApplying(true);
+    try {
+      await renameSchema(name, preview.to);
+      void message.success(t('rename.renamed', { from: name, to: preview.to }));
+      onRenamed(preview.to);
+    } catch (e) {
+      void message.error((e as Error).message);
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  return (
+    <Modal
+      title={t('rename.title', { name })}
+      open={open}
+      onCancel={onCancel}
+      width={800}
+      footer={[
+        <Button key="cancel" onClick={onCancel}>
+          {t('common.cancel')}
+        </Button>,
+        <Button
+          key="apply"
+          type="primary"
+          loading={applying}
+          disabled={!preview || preview.to !== trimmed}
+          onClick={handleApply}
+        >
+          {t('rename.apply')}
+        </Button>,
+      ]}
+    >
+      <Space.Compact style={{ width: '100%', marginTop: token.margin }}>
+        <Input
+          value={newName}
+          status={trimmed !== name && !validation.valid ? 'error' : undefined}
+          onChange={(e) => {
+            setNewName(e.target.value);
+            setPreview(null);
+          }}
+          onPressEnter={() => canPreview && void handlePreview()}
+        />
+        <Button type="primary" ghost loading={loading} disabled={!canPreview} onClick={handlePreview}>
+          {t('rename.preview')}
+        </Button>
+      </Space.Compact>
+      {trimmed !== name && !validation.valid && (
+        <Text type="danger" style={{ fontSize: 12 }}>
+          {validation.error}
+        </Text>
+      )}
+
+      {preview && (
+        <div style={{ marginTop: token.margin }}>
+          <Alert
+            type="info"
+            showIcon
+            style={{ marginBottom: token.marginSM }}
+            message={t('rename.summary', { count: preview.files.length })}
+          />
+          <Collapse
+            size="small"
+            defaultActiveKey={preview.files.map((f) => f.relativePath)}
+            items={preview.files.map((file) => ({
+              key: file.relativePath,
+              label: (
+                <Space size={4}>
+                  <Text code>{file.relativePath}</Text>
+                  {file.newRelativePath && (
+                    <>
+                      →<Text code>{file.newRelativePath}</Text>
+                      <Tag color="processing">{t('rename.moved')}</Tag>
+                    </>
+                  )}
+                </Space>
+              ),
+              children: <DiffView before={file.before} after={file.after} />,
+            }))}
+          />
+        </div>
+      )}
+    </Modal>
+  );
+}
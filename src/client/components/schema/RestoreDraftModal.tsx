@@ -0,0 +1,72 @@
+/**
+ * Restore Draft Modal - offers unsaved edits left by a closed tab or server restart
+ */
+
+import { useMemo } from 'react';
+import { Modal, Alert, Button, Typography, theme } from 'antd';
+import { useTranslation } from 'react-i18next';
+import { DiffView } from '../common/DiffView.js';
+import { schemaToYaml } from '../../utils/yamlConverter.js';
+import type { GuiSchema, SchemaDraft } from '../../../shared/types.js';
+
+const { Text } = Typography;
+
+interface RestoreDraftModalProps {
+  draft: SchemaDraft | null;
+  // Schema currently on disk
+  current: GuiSchema | undefined;
+  onRestore: () => void;
+  onDiscard: () => void;
+  onCancel: () => void;
+}
+
+export function RestoreDraftModal({
+  draft,
+  current,
+  onRestore,
+  onDiscard,
+  onCancel,
+}: RestoreDraftModalProps): React.ReactElement {
+  const { t } = useTranslation();
+  const { token } = theme.useToken();
+
+  const [before, after] = useMemo(
+    () => [current ? schemaToYaml(current) : '', draft ? schemaToYaml(draft.schema) : ''],
+    [current, draft]
+  );
+  const baseChanged = Boolean(
+    draft?.base?.contentHash && current?.contentHash && draft.base.contentHash !== current.contentHash
+  );
+
+  return (
+    <Modal
+      title={t('drafts.title')}
+      open={draft !== null}
+      onCancel={onCancel}
+      width={760}
+      footer={[
+        <Button key="discard" danger onClick={onDiscard}>
+          {t('drafts.discard')}
+        </Button>,
+        <Button key="restore" type="primary" onClick={onRestore}>
+          {t('drafts.restore')}
+        </Button>,
+      ]}
+    >
+      {draft && (
+        <>
+          <p>
+            {t('drafts.message', { name: draft.name, time: new Date(draft.updatedAt).toLocaleString() })}
+          </p>
+          {baseChanged && (
+            <Alert type="warning" showIcon message={t('drafts.baseChanged')} style={{ marginBottom: token.margin }} />
+          )}
+          <Text type="secondary">{t('drafts.diffTitle')}</Text>
+          <div style={{ marginTop: token.marginXS }}>
+            <DiffView before={before} after={after} maxHeight={400} />
+          </div>
+        </>
+      )}
+    </Modal>
+  );
+}
@@ -0,0 +1,96 @@
+/**
+ * Schema Conflict Modal - resolves a save rejected because the file changed on disk
+ */
+
+import { useEffect, useState } from 'react';
+import { Modal, Alert, Radio, Typography, Empty, theme } from 'antd';
+import { useTranslation } from 'react-i18next';
+import { stringify } from 'yaml';
+import type { MergeConflict, MergeSide } from '../../../shared/schemaMerge.js';
+
+const { Text } = Typography;
+
+interface SchemaConflictModalProps {
+  open: boolean;
+  conflicts: MergeConflict[];
+  saving: boolean;
+  onResolve: (choices: MergeSide[]) => Promise<void>;
+  onCancel: () => void;
+}
+
+export function SchemaConflictModal({
+  open,
+  conflicts,
+  saving,
+  onResolve,
+  onCancel,
+}: SchemaConflictModalProps): React.ReactElement {
+  const { t } = useTranslation();
+  const { token } = theme.useToken();
+  const [choices, setChoices] = useState<MergeSide[]>([]);
+
+  useEffect(() => {
+    if (open) setChoices(conflicts.map(() => 'mine'));
+  }, [open, conflicts]);
+
+  const renderValue = (value: unknown): React.ReactNode =>
+    value === undefined ? (
+      <Text type="secondary" italic>{t('conflict.absent')}</Text>
+    ) : (
+      <pre style={{ margin: 0, fontSize: 12, whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
+        {stringify(value, { lineWidth: 0 }).trimEnd()}
+      </pre>
+    );
+
+  const column = (title: string, value: unknown, side?: MergeSide, selected?: boolean): React.ReactNode => (
+    <div
+      style={{
+        padding: token.paddingXS,
+        borderRadius: token.borderRadiusSM,
+        border: `1px solid ${selected ? token.colorPrimary : token.colorBorderSecondary}`,
+        background: side ? undefined : token.colorFillQuaternary,
+      }}
+    >
+      {side ? <Radio value={side}>{title}</Radio> : <Text type="secondary">{title}</Text>}
+      <div style={{ marginTop: token.marginXXS }}>{renderValue(value)}</div>
+    </div>
+  );
+
+  return (
+    <Modal
+      title={t('conflict.title')}
+      open={open}
+      onOk={() => onResolve(choices)}
+      onCancel={onCancel}
+      okText={t('conflict.saveMerged')}
+      confirmLoading={saving}
+      width={900}
+    >
+      <Alert type="warning" showIcon message={t('conflict.description')} style={{ marginBottom: token.margin }} />
+
+      {conflicts.length === 0 ? (
+        <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description={t('conflict.noConflicts')} />
+      ) : (
+        conflicts.map((conflict, i) => (
+          <div key={conflict.path.join('.')} style={{ marginBottom: token.margin }}>
+            <Text strong code>{conflict.path.join('.')}</Text>
+            <Radio.Group
+              value={choices[i]}
+              onChange={(e) => setChoices(choices.map((c, j) => (j === i ? (e.target.value as MergeSide) : c)))}
+              style={{
+                display: 'grid',
+                gridTemplateColumns: '1fr 1fr 1fr',
+                gap: token.marginXS,
+                marginTop: token.marginXS,
+              }}
+            >
+              {column(t('conflict.base'), conflict.base)}
+              {column(t('conflict.mine'), conflict.mine, 'mine', choices[i] === 'mine')}
+              {column(t('conflict.disk'), conflict.theirs, 'theirs', choices[i] === 'theirs')}
+            </Radio.Group>
+          </div>
+        ))
+      )}
+    </Modal>
+  );
+}
@@ -5,6 +5,7 @@
 import { Card, Descriptions, Typography, Tag, Space, Button } from 'antd';
 import { EditOutlined } from '@ant-design/icons';
 import { useTranslation } from 'react-i18next';
+import { LocalizedText } from '../common/LocalizedInput.js';
 import type { SchemaFormData } from './types.js';
 
 const { Text } = Typography;
@@ -45,7 +46,7 @@ export function SchemaInfoCard({
           <Text strong>{schemaData.name || '-'}</Text>
         </Descriptions.Item>
         <Descriptions.Item label={t('schema.displayName')}>
-          {schemaData.displayName || '-'}
+          {schemaData.displayName ? <LocalizedText value={schemaData.displayName} /> : '-'}
         </Descriptions.Item>
         <Descriptions.Item label={t('schema.kind')}>
           <Tag color={schemaData.kind === 'enum' ? 'purple' : 'blue'}>
@@ -5,6 +5,8 @@
 import { Modal, Form, Input, Select, Checkbox, Divider, AutoComplete, theme } from 'antd';
 import type { FormInstance } from 'antd';
 import { useTranslation } from 'react-i18next';
+import { LocalizedInput } from '../common/LocalizedInput.js';
+import { isValidFolderPath } from '../../../shared/validation.js';
 
 interface SchemaModalProps {
   open: boolean;
@@ -15,6 +17,7 @@ interface SchemaModalProps {
   autoTableName: string;
   propertyNames: string[];
   groupOptions: Array<{ value: string }>;
+  folderOptions: Array<{ value: string }>;
   onOk: () => Promise<void>;
   onCancel: () => void;
 }
@@ -28,6 +31,7 @@ export function SchemaModal({
   autoTableName,
   propertyNames,
   groupOptions,
+  folderOptions,
   onOk,
   onCancel,
 }: SchemaModalProps): React.ReactElement {
@@ -47,7 +51,7 @@ export function SchemaModal({
     >
       <Form form={form} layout="horizontal" labelCol={{ span: 6 }} wrapperCol={{ span: 18 }} style={{ marginTop: token.margin }}>
         {/* Section 1: Basic Info */}
-        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 120px', gap: token.margin }}>
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 200px', gap: token.margin }}>
           <Form.Item
             name="name"
             label={t('schema.schemaName')}
@@ -56,10 +60,6 @@ export function SchemaModal({
             <Input placeholder="e.g., User, Post" disabled={!isNew} />
           </Form.Item>
 
-          <Form.Item name="displayName" label={t('schema.displayName')}>
-            <Input placeholder="e.g., User Account" />
-          </Form.Item>
-
           <Form.Item name="kind" label={t('schema.kind')}>
             <Select
               disabled={!isNew}
@@ -71,6 +71,10 @@ export function SchemaModal({
           </Form.Item>
         </div>
 
+        <Form.Item name="displayName" label={t('schema.displayName')}>
+          <LocalizedInput placeholder="e.g., User Account" />
+        </Form.Item>
+
         {/* Section 2: Organization - Group */}
         <Form.Item name="group" label={t('schema.group')}>
           <AutoComplete
@@ -82,6 +86,29 @@ export function SchemaModal({
           />
         </Form.Item>
 
+        {isNew && (
+          <Form.Item
+            name="folder"
+            label={t('folders.folder')}
+            rules={[
+              {
+                validator: (_, value?: string) =>
+                  !value || isValidFolderPath(value)
+                    ? Promise.resolve()
+                    : Promise.reject(new Error(t('folders.invalidPath'))),
+              },
+            ]}
+          >
+            <AutoComplete
+              options={folderOptions}
+              placeholder={t('folders.rootPlaceholder')}
+              filterOption={(inputValue, option) =>
+                option?.value.toLowerCase().includes(inputValue.toLowerCase()) ?? false
+              }
+            />
+          </Form.Item>
+        )}
+
         {schemaFormKind === 'object' && (
           <>
             {/* Section 3: Naming */}
@@ -0,0 +1,77 @@
+/**
+ * Used By Card component listing the schemas that reference this schema or enum
+ */
+
+import { Card, Table, Tag, Typography } from 'antd';
+import { useTranslation } from 'react-i18next';
+import type { SchemaUsage } from '../../../shared/schemaUsages.js';
+
+const { Text } = Typography;
+
+const KIND_COLORS: Record<SchemaUsage['kind'], string> = {
+  association: 'blue',
+  enumRef: 'purple',
+  joinTable: 'cyan',
+  titleIndex: 'default',
+};
+
+interface UsedByCardProps {
+  usages: SchemaUsage[];
+  onOpen: (usage: SchemaUsage) => void;
+}
+
+export function UsedByCard({ usages, onOpen }: UsedByCardProps): React.ReactElement {
+  const { t } = useTranslation();
+
+  return (
+    <Card
+      title={
+        <>
+          {t('usages.title')} <Tag style={{ marginLeft: 4 }}>{usages.length}</Tag>
+        </>
+      }
+      size="small"
+    >
+      <Table
+        dataSource={usages.map((usage, i) => ({ ...usage, _key: `${usage.kind}_${i}` }))}
+        rowKey="_key"
+        pagination={false}
+        size="small"
+        locale={{ emptyText: t('usages.none') }}
+        columns={[
+          {
+            title: t('usages.schema'),
+            dataIndex: 'schema',
+            key: 'schema',
+            render: (schema: string, usage) => <a onClick={() => onOpen(usage)}>{schema}</a>,
+          },
+          {
+            title: t('usages.property'),
+            dataIndex: 'property',
+            key: 'property',
+            render: (property: string | undefined) =>
+              property ? <Text code>{property}</Text> : <Text type="secondary">titleIndex</Text>,
+          },
+          {
+            title: t('usages.kind'),
+            dataIndex: 'kind',
+            key: 'kind',
+            render: (kind: SchemaUsage['kind'], usage) => (
+              <>
+                <Tag color={KIND_COLORS[kind]}>{t(`usages.kinds.${kind}`)}</Tag>
+                {usage.relation && <Tag>{usage.relation}</Tag>}
+              </>
+            ),
+          },
+          {
+            title: t('usages.joinTable'),
+            dataIndex: 'joinTable',
+            key: 'joinTable',
+            render: (joinTable: string | undefined) =>
+              joinTable ? <Text code>{joinTable}</Text> : <Text type="secondary">-</Text>,
+          },
+        ]}
+      />
+    </Card>
+  );
+}
@@ -6,12 +6,16 @@ import { Card, Space, Tag } from 'antd';
 import { CodeOutlined } from '@ant-design/icons';
 import { useTranslation } from 'react-i18next';
 import { YamlEditor } from '../YamlEditor.js';
+import type { YamlHintContext } from '../../../shared/yamlCompletion.js';
+import type { YamlDiagnostic } from '../../../shared/yamlDiagnostics.js';
 
 interface YamlEditorCardProps {
   schemaName: string;
   yamlContent: string;
   yamlError: string | null;
   onYamlChange: (value: string) => void;
+  hints: YamlHintContext;
+  diagnose: (source: string) => Promise<YamlDiagnostic[]>;
 }
 
 export function YamlEditorCard({
@@ -19,6 +23,8 @@ export function YamlEditorCard({
   yamlContent,
   yamlError,
   onYamlChange,
+  hints,
+  diagnose,
 }: YamlEditorCardProps): React.ReactElement {
   const { t } = useTranslation();
 
@@ -38,6 +44,8 @@ export function YamlEditorCard({
         onChange={onYamlChange}
         error={yamlError}
         height="calc(100vh - 200px)"
+        hints={hints}
+        diagnose={diagnose}
       />
     </Card>
   );
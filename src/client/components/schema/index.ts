@@ -11,6 +11,9 @@ export { EnumValuesCard } from './EnumValuesCard.js';
 export { PropertiesCard } from './PropertiesCard.js';
 export { IndexesCard } from './IndexesCard.js';
 export { YamlEditorCard } from './YamlEditorCard.js';
+export { UsedByCard } from './UsedByCard.js';
+export { FindingsCard } from './FindingsCard.js';
+export { CodePreviewCard } from './CodePreviewCard.js';
 
 // Modal components
 export { SchemaModal } from './SchemaModal.js';
@@ -19,3 +22,7 @@ export { IndexModal } from './IndexModal.js';
 export { EnumModal } from './EnumModal.js';
 export { PivotFieldModal } from './PivotFieldModal.js';
 export { UnsavedChangesModal } from './UnsavedChangesModal.js';
+export { RenameSchemaModal } from './RenameSchemaModal.js';
+export { SchemaConflictModal } from './SchemaConflictModal.js';
+export { RestoreDraftModal } from './RestoreDraftModal.js';
+export { ApplyFixModal } from './ApplyFixModal.js';
@@ -2,6 +2,8 @@
  * Types and constants for schema components
  */
 
+import type { GuiPropertyDefinition, GuiSchema, LocalizedString } from '../../../shared/types.js';
+
 // Relation type visual configs
 export const RELATION_TYPE_CONFIGS: Record<string, { icon: string; desc: string }> = {
   OneToOne: { icon: '1:1', desc: 'One to One' },
@@ -35,8 +37,8 @@ export interface PropertyFormData {
   primaryKey?: boolean | undefined;
   autoIncrement?: boolean | undefined;
   default?: string | undefined;
-  displayName?: string | undefined;
-  description?: string | undefined;
+  displayName?: LocalizedString | undefined;
+  description?: LocalizedString | undefined;
   // Association fields
   relation?: string | undefined;
   target?: string | undefined;
@@ -63,6 +65,8 @@ export interface PropertyFormData {
   maxFiles?: number | undefined;
   accept?: string[] | undefined;
   maxSize?: number | undefined;
+  // Definition the row was loaded from (keys the form does not edit are kept from it)
+  source?: GuiPropertyDefinition | undefined;
 }
 
 export interface IndexFormData {
@@ -70,16 +74,20 @@ export interface IndexFormData {
   columns: string[];
   unique?: boolean | undefined;
   type?: string | undefined;
+  // Unique key loaded from `options.unique` rather than `options.indexes`
+  constraint?: boolean | undefined;
 }
 
 export interface SchemaFormData {
   name: string;
   kind: 'object' | 'enum' | 'partial' | 'pivot';
-  displayName?: string | undefined;
+  displayName?: LocalizedString | undefined;
   singular?: string | undefined;
   plural?: string | undefined;
   titleIndex?: string | undefined;
   group?: string | undefined;
+  // Folder of a new schema, relative to the schemas directory
+  folder?: string | undefined;
   tableName?: string | undefined;
   primaryKey?: 'BigInt' | 'Int' | 'Uuid' | 'none';
   timestamps?: boolean | undefined;
@@ -89,11 +97,13 @@ export interface SchemaFormData {
   authenticatableLoginIdField?: string | undefined;
   authenticatablePasswordField?: string | undefined;
   authenticatableGuardName?: string | undefined;
+  // Schema the form was loaded from (keys the form does not edit are kept from it)
+  source?: GuiSchema | undefined;
 }
 
 export interface EnumFormData {
   value: string;
-  label?: string | undefined;
+  label?: LocalizedString | undefined;
 }
 
 export interface PivotFieldFormData {
@@ -28,9 +28,11 @@ export default {
     pendingChanges: 'Pending Changes',
     noChanges: 'No Changes',
     validationErrors: 'Validation Errors',
+    validationWarnings: 'Validation Warnings',
     publishVersion: 'Publish Version',
     connected: 'Connected',
     disconnected: 'Disconnected',
+    generate: 'Generate',
   },
 
   // Navigation
@@ -41,6 +43,7 @@ export default {
     enums: 'Enums',
     history: 'History',
     newEnum: 'New Enum',
+    relationships: 'Relationships',
   },
 
   // Home page
@@ -215,6 +218,8 @@ export default {
     pluginConfiguration: 'Configuration',
     savePluginConfig: 'Save Configuration',
     pluginConfigSaveError: 'Failed to save plugin configuration',
+    lintRules: 'Lint Rules',
+    lintRulesHint: 'Set rule severities (off, warning, error) in the lint.rules section of omnify.config.',
   },
 
   // Preview
@@ -226,6 +231,9 @@ export default {
     laravelMigration: 'Laravel Migration',
     rawSql: 'Raw SQL',
     noPreview: 'No preview available',
+    compareDialects: 'Compare dialects',
+    savedOnly: 'Generated from the saved file. Save to see your changes.',
+    plugins: 'Plugins',
   },
 
   // History
@@ -270,6 +278,11 @@ export default {
     discardYes: 'Discard',
     cancel: 'Cancel',
     discardSuccess: 'Restored {{restored}} schemas, deleted {{deleted}} new schemas',
+    changesTab: 'Changes',
+    migrationTab: 'Migration SQL',
+    migrationUp: 'Up',
+    migrationDown: 'Down',
+    noDdl: 'These changes need no DDL',
   },
 
   // Common errors
@@ -291,4 +304,194 @@ export default {
     leave: 'Leave',
     stay: 'Stay',
   },
+
+  // Relationships page
+  relationships: {
+    title: 'Relationships',
+    summary: '{{schemas}} schemas, {{relationships}} relationships',
+    diagram: 'Diagram',
+    list: 'List',
+    from: 'From',
+    to: 'To',
+    noRelationships: 'No relationships defined yet',
+    zoomIn: 'Zoom in',
+    zoomOut: 'Zoom out',
+    fitView: 'Fit to view',
+    export: 'Export',
+    exportTitle: 'Export Diagram',
+    exportSchemas: 'Schemas to include',
+    allSchemas: 'All schemas',
+    copy: 'Copy',
+    copied: 'Copied to clipboard',
+    download: 'Download',
+    diagramHint: 'Drag to pan, scroll to zoom, drag a schema to move it, double-click a schema to open it. Drag the handle on a schema onto another to create an association; click an edge to edit it.',
+    expand: 'Expand',
+    collapse: 'Collapse',
+    collapsed: 'Collapsed',
+    group: 'Color group',
+    newGroup: 'New group',
+    groupName: 'Group name',
+    autoArrange: 'Auto arrange',
+    autoArrangeConfirm: 'Reset all node positions?',
+    selectHint: 'Click a schema to collapse it or assign a color group.',
+    savingLayout: 'Saving layout...',
+    connectHint: 'Drag onto a schema to create an association',
+    createInverse: 'Also create the inverse property on {{schema}}',
+    inverseName: 'Inverse Name',
+    propertyExists: '{{schema}} already has a property named {{property}}',
+    associationSaved: 'Association saved',
+  },
+
+  // Rename
+  rename: {
+    rename: 'Rename',
+    title: 'Rename {{name}}',
+    preview: 'Preview',
+    apply: 'Rename',
+    summary: '{{count}} file(s) will be changed',
+    moved: 'moved',
+    renamed: 'Renamed {{from}} to {{to}}',
+    saveFirst: 'Save your changes before renaming',
+  },
+
+  // Schema folders
+  folders: {
+    folder: 'Folder',
+    root: 'Schemas',
+    rootPlaceholder: '(schemas root)',
+    byKind: 'By kind',
+    byFolder: 'By folder',
+    newFolder: 'New Folder',
+    newSchemaHere: 'New schema in selected folder',
+    invalidPath: 'Use folder names of letters, digits, "_", "-" or "." separated by "/"',
+    created: 'Folder "{{folder}}" created',
+    moved: '"{{name}}" moved to {{folder}}',
+  },
+
+  // Localized text
+  localized: {
+    missing: 'Missing translation',
+    missingLocales: 'Missing translations: {{locales}}',
+  },
+
+  // Save conflicts
+  conflict: {
+    title: 'Schema changed on disk',
+    description: 'This schema was changed on disk since you opened it. Changes that do not overlap were merged; choose which version to keep for each field below.',
+    changedOnDisk: 'This schema was changed on disk since you opened it. Saving will ask you to merge both versions.',
+    base: 'Original',
+    mine: 'My changes',
+    disk: 'On disk',
+    absent: '(not present)',
+    noConflicts: 'All changes were merged without conflicts.',
+    saveMerged: 'Save Merged',
+    merged: 'Merged changes saved',
+  },
+
+  // Editor undo/redo
+  editHistory: {
+    undo: 'Undo: {{label}} (Ctrl+Z)',
+    redo: 'Redo: {{label}} (Ctrl+Shift+Z)',
+    editSchema: 'Edit schema settings',
+    editYaml: 'Edit YAML',
+    addProperty: 'Add property {{name}}',
+    editProperty: 'Edit property {{name}}',
+    renameProperty: 'Rename property {{from}} to {{to}}',
+    removeProperty: 'Remove property {{name}}',
+    moveProperty: 'Move property {{name}}',
+    addIndex: 'Add index {{name}}',
+    editIndex: 'Edit index {{name}}',
+    removeIndex: 'Remove index {{name}}',
+    addEnumValue: 'Add value {{value}}',
+    editEnumValue: 'Edit value {{value}}',
+    removeEnumValue: 'Remove value {{value}}',
+    moveEnumValue: 'Move value {{value}}',
+  },
+
+  // Unsaved edit drafts
+  drafts: {
+    title: 'Restore unsaved changes?',
+    message: 'Unsaved changes to {{name}} from {{time}} were found. Restore them to continue editing, or discard them.',
+    diffTitle: 'Changes compared with the file on disk',
+    baseChanged: 'The file changed on disk after these edits were made. Saving them will ask you to merge both versions.',
+    restore: 'Restore',
+    discard: 'Discard Draft',
+    restored: 'Restore draft',
+  },
+
+  // Command palette
+  palette: {
+    search: 'Search',
+    placeholder: 'Search schemas, properties, enum values, indexes or commands…',
+    noResults: 'No matches',
+    newSchema: 'New schema',
+    newEnum: 'New enum',
+    publishVersion: 'Publish version',
+    openHistory: 'Open version history',
+    openRelationships: 'Open relationships',
+    openSettings: 'Open settings',
+    toggleDarkMode: 'Toggle dark mode',
+    generate: 'Generate files',
+    kind: {
+      schema: 'Schema',
+      property: 'Property',
+      enumValue: 'Enum value',
+      index: 'Index',
+    },
+  },
+
+  // Find usages
+  usages: {
+    title: 'Used By',
+    none: 'No other schema references this one',
+    schema: 'Schema',
+    property: 'Property',
+    kind: 'Usage',
+    joinTable: 'Join Table',
+    kinds: {
+      association: 'Association',
+      enumRef: 'EnumRef',
+      joinTable: 'Join table',
+      titleIndex: 'Title index',
+    },
+    deleteWarning: 'Still used in {{count}} place(s). Deleting it leaves these references dangling:',
+    more: 'and {{count}} more',
+  },
+
+  // Lint findings
+  lint: {
+    title: 'Problems',
+    errors: '{{count}} error(s)',
+    warnings: '{{count}} warning(s)',
+  },
+
+  // Quick fixes
+  fixes: {
+    previewTitle: 'Apply fix: {{title}}',
+    apply: 'Apply Fix',
+    otherSchemasOnSave: 'The changes to {{names}} are saved together with the schema being edited, when you save it.',
+  },
+
+  // Generation
+  generate: {
+    dryRunHint: 'Files omnify generate would write for the whole project, by the plugins in omnify.config.ts. Nothing is written.',
+    noFiles: 'The configured plugins generate no files',
+    fileCount: '{{count}} file(s)',
+    skipIfExists: 'Kept if exists',
+    title: 'Generate Files',
+    errorLoading: 'Error running generation',
+    status: {
+      new: 'New',
+      changed: 'Changed',
+      unchanged: 'Unchanged',
+      kept: 'Kept',
+    },
+    showUnchanged: 'Show unchanged',
+    noDifferences: 'Same as the file on disk',
+    keptHint: 'This file already exists and is only generated when missing, so it is never overwritten. The diff shows what generation would produce.',
+    upToDate: 'All generated files are up to date',
+    write: 'Write {{count}} file(s)',
+    written: 'Wrote {{count}} file(s)',
+    stale: 'The generated output changed since you reviewed it. Review the updated files and write again.',
+  },
 };
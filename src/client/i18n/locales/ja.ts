@@ -28,9 +28,11 @@ export default {
     pendingChanges: '保留中の変更',
     noChanges: '変更なし',
     validationErrors: '検証エラー',
+    validationWarnings: '検証警告',
     publishVersion: 'バージョン公開',
     connected: '接続済み',
     disconnected: '切断',
+    generate: '生成',
   },
 
   // Navigation
@@ -41,6 +43,7 @@ export default {
     enums: '列挙型',
     history: '履歴',
     newEnum: '新規列挙型',
+    relationships: 'リレーション',
   },
 
   // Home page
@@ -215,6 +218,8 @@ export default {
     pluginConfiguration: '設定',
     savePluginConfig: '設定を保存',
     pluginConfigSaveError: 'プラグイン設定の保存に失敗しました',
+    lintRules: 'Lint ルール',
+    lintRulesHint: 'ルールの重大度（off、warning、error）は omnify.config の lint.rules で設定します。',
   },
 
   // Preview
@@ -226,6 +231,9 @@ export default {
     laravelMigration: 'Laravelマイグレーション',
     rawSql: 'SQL生成',
     noPreview: 'プレビューがありません',
+    compareDialects: 'SQL方言を比較',
+    savedOnly: '保存済みのファイルから生成されます。変更を反映するには保存してください。',
+    plugins: 'プラグイン',
   },
 
   // History
@@ -270,6 +278,11 @@ export default {
     discardYes: '破棄',
     cancel: 'キャンセル',
     discardSuccess: '{{restored}}個のスキーマを復元、{{deleted}}個の新規スキーマを削除しました',
+    changesTab: '変更',
+    migrationTab: 'マイグレーションSQL',
+    migrationUp: 'Up',
+    migrationDown: 'Down',
+    noDdl: 'これらの変更にDDLは不要です',
   },
 
   // Common errors
@@ -291,4 +304,194 @@ export default {
     leave: '離れる',
     stay: '留まる',
   },
+
+  // Relationships page
+  relationships: {
+    title: 'リレーション',
+    summary: '{{schemas}} スキーマ、{{relationships}} リレーション',
+    diagram: 'ダイアグラム',
+    list: '一覧',
+    from: '参照元',
+    to: '参照先',
+    noRelationships: 'リレーションはまだ定義されていません',
+    zoomIn: '拡大',
+    zoomOut: '縮小',
+    fitView: '全体を表示',
+    export: 'エクスポート',
+    exportTitle: 'ダイアグラムをエクスポート',
+    exportSchemas: '含めるスキーマ',
+    allSchemas: 'すべてのスキーマ',
+    copy: 'コピー',
+    copied: 'クリップボードにコピーしました',
+    download: 'ダウンロード',
+    diagramHint: 'ドラッグで移動、スクロールでズーム、スキーマをドラッグで配置、ダブルクリックで開きます。ハンドルを別のスキーマへドラッグすると関連を作成し、線をクリックすると編集できます。',
+    expand: '展開',
+    collapse: '折りたたむ',
+    collapsed: '折りたたみ',
+    group: 'カラーグループ',
+    newGroup: '新規グループ',
+    groupName: 'グループ名',
+    autoArrange: '自動配置',
+    autoArrangeConfirm: 'すべてのノードの位置をリセットしますか？',
+    selectHint: 'スキーマをクリックすると折りたたみやカラーグループを設定できます。',
+    savingLayout: 'レイアウトを保存中...',
+    connectHint: 'スキーマへドラッグして関連を作成',
+    createInverse: '{{schema}} に逆側のプロパティも作成',
+    inverseName: '逆側の名前',
+    propertyExists: '{{schema}} には既にプロパティ {{property}} があります',
+    associationSaved: '関連を保存しました',
+  },
+
+  // Rename
+  rename: {
+    rename: '名前変更',
+    title: '{{name}} の名前を変更',
+    preview: 'プレビュー',
+    apply: '名前を変更',
+    summary: '{{count}} 個のファイルが変更されます',
+    moved: '移動',
+    renamed: '{{from}} を {{to}} に変更しました',
+    saveFirst: '名前を変更する前に変更を保存してください',
+  },
+
+  // Schema folders
+  folders: {
+    folder: 'フォルダ',
+    root: 'スキーマ',
+    rootPlaceholder: '(スキーマのルート)',
+    byKind: '種類別',
+    byFolder: 'フォルダ別',
+    newFolder: '新規フォルダ',
+    newSchemaHere: '選択中のフォルダに新規スキーマ',
+    invalidPath: '英数字、"_"、"-"、"." のフォルダ名を "/" で区切って入力してください',
+    created: 'フォルダ「{{folder}}」を作成しました',
+    moved: '「{{name}}」を {{folder}} に移動しました',
+  },
+
+  // Localized text
+  localized: {
+    missing: '翻訳がありません',
+    missingLocales: '翻訳がありません: {{locales}}',
+  },
+
+  // Save conflicts
+  conflict: {
+    title: 'スキーマがディスク上で変更されました',
+    description: '開いた後にこのスキーマがディスク上で変更されました。重複しない変更はマージ済みです。各フィールドで残すバージョンを選択してください。',
+    changedOnDisk: '開いた後にこのスキーマがディスク上で変更されました。保存時に両方のバージョンをマージします。',
+    base: '元の内容',
+    mine: '自分の変更',
+    disk: 'ディスク上',
+    absent: '(なし)',
+    noConflicts: 'すべての変更が競合なくマージされました。',
+    saveMerged: 'マージして保存',
+    merged: 'マージした変更を保存しました',
+  },
+
+  // Editor undo/redo
+  editHistory: {
+    undo: '元に戻す: {{label}} (Ctrl+Z)',
+    redo: 'やり直す: {{label}} (Ctrl+Shift+Z)',
+    editSchema: 'スキーマ設定を編集',
+    editYaml: 'YAMLを編集',
+    addProperty: 'プロパティ {{name}} を追加',
+    editProperty: 'プロパティ {{name}} を編集',
+    renameProperty: 'プロパティ {{from}} を {{to}} に名前変更',
+    removeProperty: 'プロパティ {{name}} を削除',
+    moveProperty: 'プロパティ {{name}} を移動',
+    addIndex: 'インデックス {{name}} を追加',
+    editIndex: 'インデックス {{name}} を編集',
+    removeIndex: 'インデックス {{name}} を削除',
+    addEnumValue: '値 {{value}} を追加',
+    editEnumValue: '値 {{value}} を編集',
+    removeEnumValue: '値 {{value}} を削除',
+    moveEnumValue: '値 {{value}} を移動',
+  },
+
+  // Unsaved edit drafts
+  drafts: {
+    title: '未保存の変更を復元しますか？',
+    message: '{{time}} の {{name}} の未保存の変更が見つかりました。復元して編集を続けるか、破棄してください。',
+    diffTitle: 'ディスク上のファイルとの差分',
+    baseChanged: 'この変更の後にディスク上のファイルが変更されました。保存時に両方のバージョンをマージします。',
+    restore: '復元',
+    discard: '下書きを破棄',
+    restored: '下書きを復元',
+  },
+
+  // Command palette
+  palette: {
+    search: '検索',
+    placeholder: 'スキーマ、プロパティ、列挙値、インデックス、コマンドを検索…',
+    noResults: '一致する項目がありません',
+    newSchema: '新規スキーマ',
+    newEnum: '新規列挙型',
+    publishVersion: 'バージョンを公開',
+    openHistory: 'バージョン履歴を開く',
+    openRelationships: 'リレーションを開く',
+    openSettings: '設定を開く',
+    toggleDarkMode: 'ダークモードを切り替え',
+    generate: 'ファイルを生成',
+    kind: {
+      schema: 'スキーマ',
+      property: 'プロパティ',
+      enumValue: '列挙値',
+      index: 'インデックス',
+    },
+  },
+
+  // Find usages
+  usages: {
+    title: '参照元',
+    none: 'このスキーマを参照している他のスキーマはありません',
+    schema: 'スキーマ',
+    property: 'プロパティ',
+    kind: '用途',
+    joinTable: '中間テーブル',
+    kinds: {
+      association: '関連',
+      enumRef: 'EnumRef',
+      joinTable: '中間テーブル',
+      titleIndex: 'タイトルインデックス',
+    },
+    deleteWarning: '{{count}} 箇所で使用されています。削除するとこれらの参照が無効になります：',
+    more: '他 {{count}} 件',
+  },
+
+  // Lint findings
+  lint: {
+    title: '問題',
+    errors: 'エラー {{count}} 件',
+    warnings: '警告 {{count}} 件',
+  },
+
+  // Quick fixes
+  fixes: {
+    previewTitle: '修正を適用: {{title}}',
+    apply: '修正を適用',
+    otherSchemasOnSave: '{{names}} への変更は、編集中のスキーマを保存するときに一緒に保存されます。',
+  },
+
+  // Generation
+  generate: {
+    dryRunHint: 'omnify.config.ts のプラグインで omnify generate がプロジェクト全体に書き出すファイルです。実際には書き込まれません。',
+    noFiles: '設定されたプラグインが生成するファイルはありません',
+    fileCount: '{{count}} ファイル',
+    skipIfExists: '既存なら保持',
+    title: 'ファイル生成',
+    errorLoading: '生成の実行中にエラーが発生しました',
+    status: {
+      new: '新規',
+      changed: '変更',
+      unchanged: '変更なし',
+      kept: '保持',
+    },
+    showUnchanged: '変更なしも表示',
+    noDifferences: 'ディスク上のファイルと同じです',
+    keptHint: 'このファイルは既に存在し、存在しない場合にのみ生成されるため上書きされません。差分は生成される内容を示します。',
+    upToDate: '生成されるファイルはすべて最新です',
+    write: '{{count}} ファイルを書き込む',
+    written: '{{count}} ファイルを書き込みました',
+    stale: '確認後に生成結果が変わりました。更新されたファイルを確認してから再度書き込んでください。',
+  },
 };
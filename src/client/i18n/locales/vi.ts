@@ -28,9 +28,11 @@ export default {
     pendingChanges: 'Thay đổi đang chờ',
     noChanges: 'Không có thay đổi',
     validationErrors: 'Lỗi xác thực',
+    validationWarnings: 'Cảnh báo xác thực',
     publishVersion: 'Xuất bản phiên bản',
     connected: 'Đã kết nối',
     disconnected: 'Mất kết nối',
+    generate: 'Sinh mã',
   },
 
   // Navigation
@@ -41,6 +43,7 @@ export default {
     enums: 'Enum',
     history: 'Lịch sử',
     newEnum: 'Enum mới',
+    relationships: 'Quan hệ',
   },
 
   // Home page
@@ -215,6 +218,8 @@ export default {
     pluginConfiguration: 'Cấu hình',
     savePluginConfig: 'Lưu cấu hình',
     pluginConfigSaveError: 'Không thể lưu cấu hình plugin',
+    lintRules: 'Quy tắc lint',
+    lintRulesHint: 'Đặt mức độ của quy tắc (off, warning, error) trong mục lint.rules của omnify.config.',
   },
 
   // Preview
@@ -226,6 +231,9 @@ export default {
     laravelMigration: 'Laravel Migration',
     rawSql: 'SQL thuần',
     noPreview: 'Không có bản xem trước',
+    compareDialects: 'So sánh các phương ngữ SQL',
+    savedOnly: 'Được tạo từ tệp đã lưu. Hãy lưu để xem các thay đổi của bạn.',
+    plugins: 'Plugin',
   },
 
   // History
@@ -270,6 +278,11 @@ export default {
     discardYes: 'Hủy',
     cancel: 'Bỏ qua',
     discardSuccess: 'Đã khôi phục {{restored}} schema, xóa {{deleted}} schema mới',
+    changesTab: 'Thay đổi',
+    migrationTab: 'SQL migration',
+    migrationUp: 'Up',
+    migrationDown: 'Down',
+    noDdl: 'Các thay đổi này không cần DDL',
   },
 
   // Common errors
@@ -291,4 +304,194 @@ export default {
     leave: 'Rời đi',
     stay: 'Ở lại',
   },
+
+  // Relationships page
+  relationships: {
+    title: 'Quan hệ',
+    summary: '{{schemas}} schema, {{relationships}} quan hệ',
+    diagram: 'Sơ đồ',
+    list: 'Danh sách',
+    from: 'Từ',
+    to: 'Đến',
+    noRelationships: 'Chưa có quan hệ nào được định nghĩa',
+    zoomIn: 'Phóng to',
+    zoomOut: 'Thu nhỏ',
+    fitView: 'Vừa khung nhìn',
+    export: 'Xuất',
+    exportTitle: 'Xuất sơ đồ',
+    exportSchemas: 'Schema cần xuất',
+    allSchemas: 'Tất cả schema',
+    copy: 'Sao chép',
+    copied: 'Đã sao chép vào clipboard',
+    download: 'Tải xuống',
+    diagramHint: 'Kéo để di chuyển, cuộn để phóng to, kéo schema để sắp xếp, nhấp đúp để mở. Kéo tay nắm của schema sang schema khác để tạo liên kết; nhấp vào đường nối để sửa.',
+    expand: 'Mở rộng',
+    collapse: 'Thu gọn',
+    collapsed: 'Thu gọn',
+    group: 'Nhóm màu',
+    newGroup: 'Nhóm mới',
+    groupName: 'Tên nhóm',
+    autoArrange: 'Tự động sắp xếp',
+    autoArrangeConfirm: 'Đặt lại vị trí tất cả các nút?',
+    selectHint: 'Nhấp vào schema để thu gọn hoặc gán nhóm màu.',
+    savingLayout: 'Đang lưu bố cục...',
+    connectHint: 'Kéo vào một schema để tạo liên kết',
+    createInverse: 'Tạo thêm thuộc tính ngược trên {{schema}}',
+    inverseName: 'Tên thuộc tính ngược',
+    propertyExists: '{{schema}} đã có thuộc tính {{property}}',
+    associationSaved: 'Đã lưu liên kết',
+  },
+
+  // Rename
+  rename: {
+    rename: 'Đổi tên',
+    title: 'Đổi tên {{name}}',
+    preview: 'Xem trước',
+    apply: 'Đổi tên',
+    summary: '{{count}} tệp sẽ được thay đổi',
+    moved: 'di chuyển',
+    renamed: 'Đã đổi tên {{from}} thành {{to}}',
+    saveFirst: 'Hãy lưu thay đổi trước khi đổi tên',
+  },
+
+  // Schema folders
+  folders: {
+    folder: 'Thư mục',
+    root: 'Schemas',
+    rootPlaceholder: '(thư mục gốc)',
+    byKind: 'Theo loại',
+    byFolder: 'Theo thư mục',
+    newFolder: 'Thư mục mới',
+    newSchemaHere: 'Schema mới trong thư mục đã chọn',
+    invalidPath: 'Tên thư mục gồm chữ, số, "_", "-" hoặc ".", phân cách bằng "/"',
+    created: 'Đã tạo thư mục "{{folder}}"',
+    moved: 'Đã chuyển "{{name}}" vào {{folder}}',
+  },
+
+  // Localized text
+  localized: {
+    missing: 'Thiếu bản dịch',
+    missingLocales: 'Thiếu bản dịch: {{locales}}',
+  },
+
+  // Save conflicts
+  conflict: {
+    title: 'Schema đã thay đổi trên đĩa',
+    description: 'Schema này đã bị thay đổi trên đĩa kể từ khi bạn mở. Các thay đổi không chồng lấn đã được gộp; hãy chọn phiên bản giữ lại cho từng trường bên dưới.',
+    changedOnDisk: 'Schema này đã bị thay đổi trên đĩa kể từ khi bạn mở. Khi lưu, bạn sẽ được yêu cầu gộp hai phiên bản.',
+    base: 'Ban đầu',
+    mine: 'Thay đổi của tôi',
+    disk: 'Trên đĩa',
+    absent: '(không có)',
+    noConflicts: 'Tất cả thay đổi đã được gộp không có xung đột.',
+    saveMerged: 'Lưu bản gộp',
+    merged: 'Đã lưu các thay đổi đã gộp',
+  },
+
+  // Editor undo/redo
+  editHistory: {
+    undo: 'Hoàn tác: {{label}} (Ctrl+Z)',
+    redo: 'Làm lại: {{label}} (Ctrl+Shift+Z)',
+    editSchema: 'Sửa cài đặt schema',
+    editYaml: 'Sửa YAML',
+    addProperty: 'Thêm thuộc tính {{name}}',
+    editProperty: 'Sửa thuộc tính {{name}}',
+    renameProperty: 'Đổi tên thuộc tính {{from}} thành {{to}}',
+    removeProperty: 'Xóa thuộc tính {{name}}',
+    moveProperty: 'Di chuyển thuộc tính {{name}}',
+    addIndex: 'Thêm index {{name}}',
+    editIndex: 'Sửa index {{name}}',
+    removeIndex: 'Xóa index {{name}}',
+    addEnumValue: 'Thêm giá trị {{value}}',
+    editEnumValue: 'Sửa giá trị {{value}}',
+    removeEnumValue: 'Xóa giá trị {{value}}',
+    moveEnumValue: 'Di chuyển giá trị {{value}}',
+  },
+
+  // Unsaved edit drafts
+  drafts: {
+    title: 'Khôi phục thay đổi chưa lưu?',
+    message: 'Tìm thấy thay đổi chưa lưu của {{name}} lúc {{time}}. Khôi phục để tiếp tục chỉnh sửa, hoặc hủy bỏ.',
+    diffTitle: 'Khác biệt so với tệp trên đĩa',
+    baseChanged: 'Tệp trên đĩa đã thay đổi sau khi thực hiện các chỉnh sửa này. Khi lưu, bạn sẽ được yêu cầu gộp hai phiên bản.',
+    restore: 'Khôi phục',
+    discard: 'Hủy bản nháp',
+    restored: 'Khôi phục bản nháp',
+  },
+
+  // Command palette
+  palette: {
+    search: 'Tìm kiếm',
+    placeholder: 'Tìm schema, thuộc tính, giá trị enum, chỉ mục hoặc lệnh…',
+    noResults: 'Không có kết quả',
+    newSchema: 'Schema mới',
+    newEnum: 'Enum mới',
+    publishVersion: 'Phát hành phiên bản',
+    openHistory: 'Mở lịch sử phiên bản',
+    openRelationships: 'Mở quan hệ',
+    openSettings: 'Mở cài đặt',
+    toggleDarkMode: 'Bật/tắt chế độ tối',
+    generate: 'Sinh tệp',
+    kind: {
+      schema: 'Schema',
+      property: 'Thuộc tính',
+      enumValue: 'Giá trị enum',
+      index: 'Chỉ mục',
+    },
+  },
+
+  // Find usages
+  usages: {
+    title: 'Được sử dụng bởi',
+    none: 'Không có schema nào khác tham chiếu đến schema này',
+    schema: 'Schema',
+    property: 'Thuộc tính',
+    kind: 'Cách dùng',
+    joinTable: 'Bảng trung gian',
+    kinds: {
+      association: 'Quan hệ',
+      enumRef: 'EnumRef',
+      joinTable: 'Bảng trung gian',
+      titleIndex: 'Chỉ mục tiêu đề',
+    },
+    deleteWarning: 'Vẫn được dùng ở {{count}} chỗ. Xóa sẽ làm các tham chiếu này bị hỏng:',
+    more: 'và {{count}} mục khác',
+  },
+
+  // Lint findings
+  lint: {
+    title: 'Vấn đề',
+    errors: '{{count}} lỗi',
+    warnings: '{{count}} cảnh báo',
+  },
+
+  // Quick fixes
+  fixes: {
+    previewTitle: 'Áp dụng sửa lỗi: {{title}}',
+    apply: 'Áp dụng sửa lỗi',
+    otherSchemasOnSave: 'Các thay đổi đối với {{names}} được lưu cùng với schema đang chỉnh sửa khi bạn lưu nó.',
+  },
+
+  // Generation
+  generate: {
+    dryRunHint: 'Các tệp mà omnify generate sẽ ghi cho toàn bộ dự án, theo các plugin trong omnify.config.ts. Không có tệp nào được ghi.',
+    noFiles: 'Các plugin đã cấu hình không tạo tệp nào',
+    fileCount: '{{count}} tệp',
+    skipIfExists: 'Giữ nếu đã tồn tại',
+    title: 'Sinh tệp',
+    errorLoading: 'Lỗi khi chạy sinh mã',
+    status: {
+      new: 'Mới',
+      changed: 'Thay đổi',
+      unchanged: 'Không đổi',
+      kept: 'Giữ nguyên',
+    },
+    showUnchanged: 'Hiện tệp không đổi',
+    noDifferences: 'Giống tệp trên đĩa',
+    keptHint: 'Tệp này đã tồn tại và chỉ được tạo khi chưa có, nên không bao giờ bị ghi đè. Phần khác biệt cho thấy nội dung sẽ được tạo.',
+    upToDate: 'Tất cả tệp sinh ra đều đã cập nhật',
+    write: 'Ghi {{count}} tệp',
+    written: 'Đã ghi {{count}} tệp',
+    stale: 'Kết quả sinh mã đã thay đổi sau khi bạn xem. Hãy xem lại các tệp đã cập nhật rồi ghi lại.',
+  },
 };
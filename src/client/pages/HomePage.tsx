@@ -2,7 +2,7 @@
  * Home page - Schema list dashboard with Table view
  */
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { Table, Typography, Button, Empty, Spin, theme, Space, Tag, Badge, Popconfirm } from 'antd';
@@ -11,6 +11,8 @@ import { PlusOutlined, FileOutlined, EditOutlined, DeleteOutlined, OrderedListOu
 import { useSchemaStore } from '../stores/schemaStore.js';
 import { ChangesPreviewModal } from '../components/common/ChangesPreviewModal.js';
 import { versionsApi, type PendingChangesResult } from '../services/versions.js';
+import { resolveLocalized } from '../../shared/localized.js';
+import { findSchemaUsages, usageLocation, type SchemaUsage } from '../../shared/schemaUsages.js';
 import type { GuiSchema } from '../../shared/types.js';
 
 const { Title, Text } = Typography;
@@ -53,6 +55,12 @@ export function HomePage(): React.ReactElement {
   };
 
   const pendingCount = pendingData?.changes.length ?? 0;
+
+  // Deleting a schema other schemas use needs an explicit confirmation
+  const usagesBySchema = useMemo<Record<string, SchemaUsage[]>>(
+    () => Object.fromEntries(Object.keys(schemas).map((name) => [name, findSchemaUsages(schemas, name)])),
+    [schemas]
+  );
   const schemaList = Object.values(schemas);
 
   // Convert schemas to table rows
@@ -64,7 +72,7 @@ export function HomePage(): React.ReactElement {
     return {
       key: schema.name,
       name: schema.name,
-      displayName: schema.displayName ?? '',
+      displayName: resolveLocalized(schema.displayName) ?? '',
       kind: schema.kind ?? 'object',
       group,
       properties: schema.properties ? Object.keys(schema.properties).length : 0,
@@ -76,7 +84,25 @@ export function HomePage(): React.ReactElement {
   });
 
   const handleDelete = async (name: string): Promise<void> => {
-    await deleteSchema(name);
+    await deleteSchema(name, (usagesBySchema[name]?.length ?? 0) > 0);
+  };
+
+  const renderDeleteWarning = (name: string): React.ReactNode => {
+    const usages = usagesBySchema[name] ?? [];
+    if (usages.length === 0) return undefined;
+    return (
+      <div style={{ maxWidth: 320 }}>
+        <Text type="danger">{t('usages.deleteWarning', { count: usages.length })}</Text>
+        <div>
+          {usages.slice(0, 5).map((usage) => (
+            <div key={`${usage.kind}:${usageLocation(usage)}`}>
+              <Text code>{usageLocation(usage)}</Text>
+            </div>
+          ))}
+          {usages.length > 5 && <Text type="secondary">{t('usages.more', { count: usages.length - 5 })}</Text>}
+        </div>
+      </div>
+    );
   };
 
   const columns: TableColumnsType<SchemaRow> = [
@@ -177,6 +203,7 @@ export function HomePage(): React.ReactElement {
           />
           <Popconfirm
             title={t('home.deleteConfirm', { name: record.name })}
+            description={renderDeleteWarning(record.name)}
             onConfirm={() => handleDelete(record.name)}
             okText={t('common.delete')}
             okType="danger"
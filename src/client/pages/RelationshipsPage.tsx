@@ -2,84 +2,185 @@
  * Relationships visualization page
  */
 
-import { Card, Typography, Empty, theme } from 'antd';
+import { useMemo, useState, useEffect, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { Card, Typography, Empty, Table, Tabs, Tag, Space, Button, theme, message } from 'antd';
+import type { TableColumnsType } from 'antd';
+import { ApartmentOutlined, ExportOutlined } from '@ant-design/icons';
 import { useSchemaStore } from '../stores/schemaStore.js';
-import type { GuiPropertyDefinition } from '../../shared/types.js';
+import { ErDiagram } from '../components/diagram/ErDiagram.js';
+import { ExportDiagramModal } from '../components/diagram/ExportDiagramModal.js';
+import { DiagramToolbar } from '../components/diagram/DiagramToolbar.js';
+import { AssociationModal, type AssociationDraft } from '../components/diagram/AssociationModal.js';
+import { layoutApi } from '../services/layout.js';
+import { extractRelationships, type Relationship } from '../../shared/relationships.js';
+import { createEmptyLayout } from '../../shared/diagramLayout.js';
+import type { DiagramLayout } from '../../shared/types.js';
+
+const LAYOUT_SAVE_DELAY = 500;
 
 const { Title, Text } = Typography;
 
 export function RelationshipsPage(): React.ReactElement {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
   const { schemas } = useSchemaStore();
   const { token } = theme.useToken();
+  const [exportOpen, setExportOpen] = useState(false);
+  const [layout, setLayout] = useState<DiagramLayout>(createEmptyLayout);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [associationDraft, setAssociationDraft] = useState<AssociationDraft | null>(null);
+  const saveTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const pendingLayout = useRef<DiagramLayout | null>(null);
+
+  useEffect(() => {
+    layoutApi.get().then(setLayout).catch(console.error);
+    return () => {
+      // Leaving the page saves a layout still waiting for its debounce
+      if (saveTimer.current) clearTimeout(saveTimer.current);
+      if (pendingLayout.current) layoutApi.save(pendingLayout.current).catch(console.error);
+    };
+  }, []);
+
+  // Debounce saves so dragging several nodes in a row writes the sidecar once
+  const handleLayoutChange = (next: DiagramLayout): void => {
+    setLayout(next);
+    setSaving(true);
+    pendingLayout.current = next;
+    if (saveTimer.current) clearTimeout(saveTimer.current);
+    saveTimer.current = setTimeout(() => {
+      pendingLayout.current = null;
+      layoutApi
+        .save(next)
+        .catch((e: Error) => void message.error(e.message))
+        .finally(() => setSaving(false));
+    }, LAYOUT_SAVE_DELAY);
+  };
 
-  const schemaList = Object.values(schemas);
+  const schemaList = useMemo(() => Object.values(schemas), [schemas]);
+  const relationships = useMemo(() => extractRelationships(schemas), [schemas]);
 
-  // Find all relationships
-  const relationships: Array<{
-    from: string;
-    to: string;
-    type: string;
-    property: string;
-  }> = [];
+  const openSchema = (name: string): void => {
+    navigate(`/schema/${name}`);
+  };
 
-  for (const schema of schemaList) {
-    if (schema.properties) {
-      for (const [propName, prop] of Object.entries(schema.properties)) {
-        const typedProp = prop as GuiPropertyDefinition;
-        if (typedProp.type === 'Association' && typedProp.target) {
-          relationships.push({
-            from: schema.name,
-            to: typedProp.target,
-            type: typedProp.relation ?? 'Unknown',
-            property: propName,
-          });
-        }
-      }
-    }
-  }
+  const columns: TableColumnsType<Relationship> = [
+    {
+      title: t('relationships.from'),
+      key: 'from',
+      render: (_: unknown, rel) => (
+        <Space size={4}>
+          <a onClick={() => openSchema(rel.from)}>{rel.from}</a>
+          <Text code>.{rel.property}</Text>
+        </Space>
+      ),
+    },
+    {
+      title: t('association.relation'),
+      dataIndex: 'relation',
+      key: 'relation',
+      width: 160,
+      render: (relation: string, rel) => (
+        <Tag color={rel.polymorphic ? 'purple' : 'blue'}>{relation}</Tag>
+      ),
+    },
+    {
+      title: t('relationships.to'),
+      key: 'to',
+      render: (_: unknown, rel) => (
+        <Space size={4}>
+          <a onClick={() => openSchema(rel.to)}>{rel.to}</a>
+          {rel.inverseProperty && <Text code>.{rel.inverseProperty}</Text>}
+        </Space>
+      ),
+    },
+  ];
 
   return (
     <div>
-      <Title level={3}>Relationships</Title>
+      <div style={{ display: 'flex', alignItems: 'baseline', gap: token.margin, marginBottom: token.margin }}>
+        <Title level={3} style={{ margin: 0 }}>
+          <ApartmentOutlined style={{ marginRight: 8 }} />
+          {t('relationships.title')}
+        </Title>
+        <Text type="secondary">
+          {t('relationships.summary', { schemas: schemaList.length, relationships: relationships.length })}
+        </Text>
+        <Button
+          icon={<ExportOutlined />}
+          style={{ marginLeft: 'auto' }}
+          disabled={schemaList.length === 0}
+          onClick={() => setExportOpen(true)}
+        >
+          {t('relationships.export')}
+        </Button>
+      </div>
 
-      {relationships.length === 0 ? (
+      {schemaList.length === 0 ? (
         <Empty
           image={Empty.PRESENTED_IMAGE_SIMPLE}
-          description="No relationships defined yet"
+          description={t('relationships.noRelationships')}
         />
       ) : (
-        <Card>
-          <div style={{ display: 'flex', flexDirection: 'column', gap: token.margin }}>
-            {relationships.map((rel, index) => (
-              <div
-                key={index}
-                style={{
-                  padding: token.padding,
-                  background: token.colorBgLayout,
-                  borderRadius: token.borderRadius,
-                  display: 'flex',
-                  alignItems: 'center',
-                  gap: token.margin,
-                }}
-              >
-                <Text strong>{rel.from}</Text>
-                <Text type="secondary">→</Text>
-                <Text code>{rel.type}</Text>
-                <Text type="secondary">→</Text>
-                <Text strong>{rel.to}</Text>
-                <Text type="secondary">(via {rel.property})</Text>
-              </div>
-            ))}
-          </div>
-        </Card>
+        <Tabs
+          items={[
+            {
+              key: 'diagram',
+              label: t('relationships.diagram'),
+              children: (
+                <>
+                  <DiagramToolbar
+                    layout={layout}
+                    selected={selected}
+                    saving={saving}
+                    onLayoutChange={handleLayoutChange}
+                  />
+                  <ErDiagram
+                    schemas={schemaList}
+                    layout={layout}
+                    selected={selected}
+                    height="calc(100vh - 270px)"
+                    onOpenSchema={openSchema}
+                    onSelect={setSelected}
+                    onLayoutChange={handleLayoutChange}
+                    onConnect={(from, to) => setAssociationDraft({ from, to })}
+                    onEdgeClick={(rel) => setAssociationDraft({ from: rel.from, to: rel.to, property: rel.property })}
+                  />
+                  <Text type="secondary" style={{ display: 'block', marginTop: token.marginXS, fontSize: 12 }}>
+                    {t('relationships.diagramHint')}
+                  </Text>
+                </>
+              ),
+            },
+            {
+              key: 'list',
+              label: t('relationships.list'),
+              children: (
+                <Card size="small">
+                  <Table
+                    columns={columns}
+                    dataSource={relationships}
+                    rowKey={(rel) => `${rel.from}.${rel.property}->${rel.to}`}
+                    size="small"
+                    pagination={false}
+                    locale={{ emptyText: t('relationships.noRelationships') }}
+                  />
+                </Card>
+              ),
+            },
+          ]}
+        />
       )}
 
-      <Card style={{ marginTop: token.margin }}>
-        <Text type="secondary">
-          Relationship visualization diagram coming soon. Currently showing a list of all
-          defined relationships between schemas.
-        </Text>
-      </Card>
+      <ExportDiagramModal
+        open={exportOpen}
+        schemaNames={schemaList.map((s) => s.name).sort()}
+        onClose={() => setExportOpen(false)}
+      />
+
+      <AssociationModal draft={associationDraft} onClose={() => setAssociationDraft(null)} />
     </div>
   );
 }
@@ -2,7 +2,7 @@
  * Schema editor page with modal for property and index editing
  */
 
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { useParams, useNavigate, useSearchParams, useBlocker } from 'react-router-dom';
 import {
   Form,
@@ -16,6 +16,7 @@ import {
   Tooltip,
   Popconfirm,
   Segmented,
+  Alert,
 } from 'antd';
 import {
   SaveOutlined,
@@ -25,14 +26,40 @@ import {
   KeyOutlined,
   FormOutlined,
   CodeOutlined,
+  SwapOutlined,
+  UndoOutlined,
+  RedoOutlined,
+  ArrowUpOutlined,
+  ArrowDownOutlined,
 } from '@ant-design/icons';
 import { useTranslation } from 'react-i18next';
 import { useSchemaStore } from '../stores/schemaStore.js';
+import { schemasApi } from '../services/schemas.js';
+import { ApiRequestError } from '../services/client.js';
+import { draftsApi } from '../services/drafts.js';
 import { useUiStore, INDEX_TYPES_BY_DB } from '../stores/uiStore.js';
 import { RELATION_TYPES } from '../../shared/constants.js';
-import type { GuiSchema, GuiPropertyDefinition, GuiEnumValue } from '../../shared/types.js';
+import type {
+  GuiSchema,
+  GuiEnumValue,
+  LocalizedString,
+  SchemaDraft,
+  SchemaFix,
+  ValidationError,
+} from '../../shared/types.js';
 import { validateEnumValueUI } from '../../shared/validation.js';
+import { pluralize, toSnakeCase } from '../../shared/naming.js';
 import { schemaToYaml, yamlToSchema } from '../utils/yamlConverter.js';
+import { schemaToForm, schemaFromForm, type SchemaEditorForm } from '../utils/schemaForm.js';
+import { guiSchemaFromData, guiSchemaToData } from '../../shared/schemaSerialization.js';
+import { mergeSchemaData, applyMergeChoices, type MergeResult, type MergeSide } from '../../shared/schemaMerge.js';
+import { createHistory, recordEdit, undo, redo, undoLabel, redoLabel } from '../../shared/editHistory.js';
+import { isSameData } from '../../shared/yamlDocument.js';
+import { findSchemaUsages } from '../../shared/schemaUsages.js';
+import { lintSchemas } from '../../shared/lint.js';
+import { checkAssociationConsistency, isSchemaFinding } from '../../shared/associationConsistency.js';
+import { applySchemaFix } from '../../shared/schemaFix.js';
+import { findingDiagnostics, yamlSyntaxDiagnostics, type YamlDiagnostic } from '../../shared/yamlDiagnostics.js';
 import {
   type PropertyFormData,
   type IndexFormData,
@@ -50,17 +77,76 @@ import {
   EnumModal,
   PivotFieldModal,
   UnsavedChangesModal,
+  RenameSchemaModal,
+  SchemaConflictModal,
+  RestoreDraftModal,
+  ApplyFixModal,
+  UsedByCard,
+  FindingsCard,
+  CodePreviewCard,
 } from '../components/schema/index.js';
+import { LocalizedText } from '../components/common/LocalizedInput.js';
 
 const { Text } = Typography;
 
+// Unsaved edits are written to the schema's draft this long after the last change
+const DRAFT_AUTOSAVE_DELAY = 800;
+
+/**
+ * Relative path of a new schema created in the folder picked in the schema modal
+ */
+function newSchemaRelativePath(data: SchemaFormData): string | undefined {
+  const folder = data.folder?.trim();
+  return folder ? `${folder}/${data.name}.yaml` : undefined;
+}
+
+/**
+ * Editor state recorded in the undo history
+ */
+interface EditorSnapshot extends SchemaEditorForm {
+  propertyRenames: { from: string; to: string }[];
+  fixedSchemas: Record<string, GuiSchema>;
+}
+
+function isSameSnapshot(a: EditorSnapshot | null, b: EditorSnapshot | null): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Move a list item by `delta` positions (no-op at the ends)
+ */
+function moveItem<T>(items: T[], index: number, delta: number): T[] {
+  const target = index + delta;
+  if (target < 0 || target >= items.length) return items;
+  const moved = [...items];
+  [moved[index], moved[target]] = [moved[target]!, moved[index]!];
+  return moved;
+}
+
+/**
+ * Editor state of a schema as loaded
+ */
+function schemaToSnapshot(schema: GuiSchema): EditorSnapshot {
+  return { ...schemaToForm(schema), propertyRenames: [], fixedSchemas: {} };
+}
+
 export function SchemaPage(): React.ReactElement {
   const { t } = useTranslation();
   const { name } = useParams<{ name: string }>();
-  const [searchParams] = useSearchParams();
+  const [searchParams, setSearchParams] = useSearchParams();
   const navigate = useNavigate();
-  const { schemas, loading, createSchema, updateSchema, validateSchema } = useSchemaStore();
-  const { databaseType, customTypes } = useUiStore();
+  const {
+    schemas,
+    folders,
+    loading,
+    createSchema,
+    updateSchema,
+    validateSchema,
+    loadSchemas,
+    loadFolders,
+    validationErrors,
+  } = useSchemaStore();
+  const { databaseType, customTypes, lintConfig, previewPanelOpen } = useUiStore();
   const { token } = theme.useToken();
   const { message } = App.useApp();
 
@@ -82,14 +168,53 @@ export function SchemaPage(): React.ReactElement {
   const [isNew, setIsNew] = useState(false);
   const [isDirty, setIsDirty] = useState(false);
 
+  // Schema the form was loaded for: changes on disk do not reload a dirty form,
+  // they are merged on save instead
+  const loadedNameRef = useRef<string | undefined>(undefined);
+  const isDirtyRef = useRef(isDirty);
+  isDirtyRef.current = isDirty;
+
+  // Schema as last loaded from or saved to disk: the save precondition and merge base
+  const [baseSchema, setBaseSchema] = useState<GuiSchema | undefined>(undefined);
+
+  // Undo/redo history of visual editor edits, and the state last saved
+  const [history, setHistory] = useState(() =>
+    createHistory<EditorSnapshot>({
+      schemaData,
+      properties,
+      indexes,
+      enumValues,
+      propertyRenames: [],
+      fixedSchemas: {},
+    })
+  );
+  const savedSnapshotRef = useRef<EditorSnapshot | null>(null);
+
+  // Draft found when opening the schema, pending the restore prompt
+  const [draft, setDraft] = useState<SchemaDraft | null>(null);
+
+  // Save rejected because the file changed on disk, pending a merge
+  const [merge, setMerge] = useState<{ result: MergeResult; theirs: GuiSchema } | null>(null);
+  const [mergeSaving, setMergeSaving] = useState(false);
+
+  // Quick fix pending its preview, with the schemas it changes before and after
+  const [pendingFix, setPendingFix] = useState<{
+    fix: SchemaFix;
+    before: Record<string, GuiSchema>;
+    after: Record<string, GuiSchema>;
+  } | null>(null);
+
   // Original values for change highlighting
   const [originalSchemaData, setOriginalSchemaData] = useState<SchemaFormData | null>(null);
   const [originalProperties, setOriginalProperties] = useState<PropertyFormData[]>([]);
   const [originalIndexes, setOriginalIndexes] = useState<IndexFormData[]>([]);
   const [originalEnumValues, setOriginalEnumValues] = useState<GuiEnumValue[]>([]);
 
-  // Block navigation when there are unsaved changes
-  const blocker = useBlocker(isDirty);
+  // Block navigation away from the schema when there are unsaved changes
+  // (query changes such as ?property= highlights stay on the page)
+  const blocker = useBlocker(
+    ({ currentLocation, nextLocation }) => isDirty && currentLocation.pathname !== nextLocation.pathname
+  );
 
   // Helper to check if a property has changed (by index)
   const isPropertyChanged = (index: number): boolean => {
@@ -133,23 +258,20 @@ export function SchemaPage(): React.ReactElement {
 
   // Auto-computed values based on schema name
   const autoSingular = schemaData.name || '';
-  const autoPlural = autoSingular
-    ? autoSingular.endsWith('y')
-      ? autoSingular.slice(0, -1) + 'ies'
-      : autoSingular.endsWith('s')
-        ? autoSingular + 'es'
-        : autoSingular + 's'
-    : '';
-  const autoTableName = autoPlural
-    ? autoPlural.replace(/([A-Z])/g, '_$1').toLowerCase().replace(/^_/, '')
-    : '';
+  const autoPlural = pluralize(autoSingular);
+  const autoTableName = toSnakeCase(autoPlural);
 
   // Schema modal state
   const [schemaModalOpen, setSchemaModalOpen] = useState(false);
+  const [renameModalOpen, setRenameModalOpen] = useState(false);
 
   // Property modal state
   const [propertyModalOpen, setPropertyModalOpen] = useState(false);
   const [editingPropertyIndex, setEditingPropertyIndex] = useState<number | null>(null);
+  // Renames of saved properties, applied to other schemas on save
+  const [propertyRenames, setPropertyRenames] = useState<{ from: string; to: string }[]>([]);
+  // Other schemas changed by quick fixes, saved with this schema
+  const [fixedSchemas, setFixedSchemas] = useState<Record<string, GuiSchema>>({});
 
   // Index modal state
   const [indexModalOpen, setIndexModalOpen] = useState(false);
@@ -175,8 +297,11 @@ export function SchemaPage(): React.ReactElement {
   const [editorMode, setEditorMode] = useState<'visual' | 'code'>('visual');
   const [yamlContent, setYamlContent] = useState<string>('');
   const [yamlError, setYamlError] = useState<string | null>(null);
+  // YAML generated when entering code mode, to tell whether it was edited
+  const yamlOnEnterRef = useRef('');
 
   const schema = name && name !== 'new' ? schemas[name] : null;
+  const usages = useMemo(() => (schema ? findSchemaUsages(schemas, schema.name) : []), [schemas, schema]);
   const schemaNames = Object.keys(schemas).filter((n) => n !== name);
   const propertyNames = properties.map((p) => p.name).filter(Boolean);
 
@@ -187,6 +312,8 @@ export function SchemaPage(): React.ReactElement {
       .filter((g): g is string => Boolean(g))
   )].sort().map((g) => ({ value: g }));
 
+  const folderOptions = folders.map((f) => ({ value: f }));
+
   // Validate enum value using shared validation
   const getEnumValueError = (value: string | undefined, index: number): string | null => {
     const existingValues = enumValues.map((v) => v.value);
@@ -194,20 +321,31 @@ export function SchemaPage(): React.ReactElement {
     return result.valid ? null : (result.error ?? 'Invalid value');
   };
 
+  // Read as plain values so that highlight params (?property=, ?value=) do not reload the editor
+  const kindParam = searchParams.get('kind');
+  const folderParam = searchParams.get('folder');
+  const highlightedProperty = searchParams.get('property') ?? undefined;
+  const highlightedValue = searchParams.get('value') ?? undefined;
+
   useEffect(() => {
+    if (name === loadedNameRef.current && isDirtyRef.current) return;
+    loadedNameRef.current = name;
+
     // Reset editor mode and dirty state when switching schemas
     setEditorMode('visual');
     setYamlContent('');
     setYamlError(null);
     setIsDirty(false);
+    setPropertyRenames([]);
+    setFixedSchemas({});
 
     if (name === 'new') {
       setIsNew(true);
-      const kindParam = searchParams.get('kind');
       const defaultKind: 'object' | 'enum' = kindParam === 'enum' ? 'enum' : 'object';
       const defaultData: SchemaFormData = {
         name: '',
         kind: defaultKind,
+        folder: folderParam ?? undefined,
         primaryKey: 'BigInt',
         timestamps: true,
         softDelete: false,
@@ -219,90 +357,33 @@ export function SchemaPage(): React.ReactElement {
       setProperties([]);
       setIndexes([]);
       setEnumValues([]);
+      setBaseSchema(undefined);
+      const snapshot: EditorSnapshot = {
+        schemaData: defaultData,
+        properties: [],
+        indexes: [],
+        enumValues: [],
+        propertyRenames: [],
+        fixedSchemas: {},
+      };
+      setHistory(createHistory(snapshot));
+      savedSnapshotRef.current = snapshot;
       schemaForm.setFieldsValue(defaultData);
       setSchemaModalOpen(true);
+      void loadFolders();
     } else if (schema) {
       setIsNew(false);
-      const hasAutoId = schema.options?.id !== false;
-      const idType = schema.options?.idType ?? 'BigInt';
-      const primaryKey = hasAutoId ? (idType as 'BigInt' | 'Int' | 'Uuid') : 'none';
-
-      const data: SchemaFormData = {
-        name: schema.name,
-        kind: schema.kind,
-        displayName: schema.displayName,
-        singular: schema.singular,
-        plural: schema.plural,
-        titleIndex: schema.titleIndex,
-        group: schema.group,
-        primaryKey,
-        timestamps: schema.options?.timestamps ?? true,
-        softDelete: schema.options?.softDelete ?? false,
-        tableName: schema.options?.tableName,
-        translations: schema.options?.translations ?? false,
-        authenticatable: schema.options?.authenticatable ?? false,
-        authenticatableLoginIdField: schema.options?.authenticatableLoginIdField ?? 'email',
-        authenticatablePasswordField: schema.options?.authenticatablePasswordField ?? 'password',
-        authenticatableGuardName: schema.options?.authenticatableGuardName ?? 'web',
-      };
+      const snapshot = schemaToSnapshot(schema);
+      const { schemaData: data, properties: props, indexes: idxs, enumValues: enumVals } = snapshot;
       setSchemaData(data);
-
-      const props: PropertyFormData[] = Object.entries(schema.properties ?? {}).map(
-        ([propName, prop]) => ({
-          name: propName,
-          type: prop.type,
-          nullable: prop.nullable,
-          unique: prop.unique,
-          primaryKey: prop.primaryKey,
-          autoIncrement: prop.autoIncrement,
-          default: prop.default !== undefined ? String(prop.default) : undefined,
-          displayName: prop.displayName,
-          description: prop.description,
-          relation: prop.relation,
-          target: prop.target,
-          targets: prop.targets,
-          morphName: prop.morphName,
-          inversedBy: prop.inversedBy,
-          mappedBy: prop.mappedBy,
-          onDelete: prop.onDelete,
-          onUpdate: prop.onUpdate,
-          owning: prop.owning,
-          joinTable: prop.joinTable,
-          length: prop.length,
-          precision: prop.precision,
-          scale: prop.scale,
-          unsigned: prop.unsigned,
-          enum: prop.enum,
-          pivotFields: prop.pivotFields,
-        })
-      );
       setProperties(props);
-
-      const regularIndexes: IndexFormData[] = (schema.options?.indexes ?? []).map((idx) => ({
-        name: idx.name,
-        columns: [...idx.columns],
-        unique: idx.unique,
-        type: idx.type,
-      }));
-
-      let uniqueAsIndexes: IndexFormData[] = [];
-      if (schema.options?.unique) {
-        const rawUnique = schema.options.unique;
-        const normalized = Array.isArray(rawUnique[0])
-          ? (rawUnique as string[][])
-          : [rawUnique as string[]];
-        uniqueAsIndexes = normalized.map((cols) => ({
-          columns: [...cols],
-          unique: true,
-        }));
-      }
-
-      const idxs = [...regularIndexes, ...uniqueAsIndexes];
       setIndexes(idxs);
-
-      const enumVals = schema.values ? [...schema.values] : [];
       setEnumValues(enumVals);
 
+      setBaseSchema(schema);
+      setHistory(createHistory(snapshot));
+      savedSnapshotRef.current = snapshot;
+
       setOriginalSchemaData({ ...data });
       setOriginalProperties(props.map((p) => ({ ...p })));
       setOriginalIndexes(idxs.map((i) => ({ ...i, columns: [...i.columns] })));
@@ -313,7 +394,7 @@ export function SchemaPage(): React.ReactElement {
       setOriginalIndexes([]);
       setOriginalEnumValues([]);
     }
-  }, [name, schema, schemaForm, searchParams]);
+  }, [name, schema, schemaForm, kindParam, folderParam, loadFolders]);
 
   const handleSave = async (): Promise<void> => {
     try {
@@ -333,92 +414,18 @@ export function SchemaPage(): React.ReactElement {
         }
       }
 
-      const propsRecord: Record<string, GuiPropertyDefinition> = {};
-      for (const prop of properties) {
-        const propDef: GuiPropertyDefinition = {
-          type: prop.type,
-        };
-        if (prop.nullable) propDef.nullable = prop.nullable;
-        if (prop.unique) propDef.unique = prop.unique;
-        if (prop.default !== undefined && prop.default !== '') propDef.default = prop.default;
-        if (prop.displayName) propDef.displayName = prop.displayName;
-        if (prop.description) propDef.description = prop.description;
-        if (prop.relation) propDef.relation = prop.relation;
-        if (prop.target) propDef.target = prop.target;
-        if (prop.targets && prop.targets.length > 0) propDef.targets = prop.targets;
-        if (prop.morphName) propDef.morphName = prop.morphName;
-        if (prop.inversedBy) propDef.inversedBy = prop.inversedBy;
-        if (prop.mappedBy) propDef.mappedBy = prop.mappedBy;
-        if (prop.onDelete) propDef.onDelete = prop.onDelete;
-        if (prop.onUpdate) propDef.onUpdate = prop.onUpdate;
-        if (prop.owning !== undefined) propDef.owning = prop.owning;
-        if (prop.joinTable) propDef.joinTable = prop.joinTable;
-        if (prop.length !== undefined) propDef.length = prop.length;
-        if (prop.precision !== undefined) propDef.precision = prop.precision;
-        if (prop.scale !== undefined) propDef.scale = prop.scale;
-        if (prop.unsigned) propDef.unsigned = prop.unsigned;
-        if (prop.enum) propDef.enum = prop.enum;
-        if (prop.pivotFields && Object.keys(prop.pivotFields).length > 0) {
-          propDef.pivotFields = prop.pivotFields;
-        }
-
-        propsRecord[prop.name] = propDef;
-      }
-
       const schemaToSave: GuiSchema = {
-        name: schemaData.name,
-        kind: schemaData.kind,
+        ...buildCurrentSchema(),
         filePath: schema?.filePath,
-        relativePath: schema?.relativePath,
+        relativePath: schema?.relativePath ?? newSchemaRelativePath(schemaData),
+        contentHash: baseSchema?.contentHash,
       };
 
-      if (schemaData.displayName) schemaToSave.displayName = schemaData.displayName;
-      if (schemaData.singular) schemaToSave.singular = schemaData.singular;
-      if (schemaData.plural) schemaToSave.plural = schemaData.plural;
-      if (schemaData.titleIndex) schemaToSave.titleIndex = schemaData.titleIndex;
-      if (schemaData.group) schemaToSave.group = schemaData.group;
-
-      if (schemaData.kind === 'enum') {
-        schemaToSave.values = enumValues;
-      } else {
-        schemaToSave.properties = propsRecord;
-      }
-
-      schemaToSave.options = {};
-      if (schemaData.primaryKey === 'none') {
-        schemaToSave.options.id = false;
-      } else if (schemaData.primaryKey && schemaData.primaryKey !== 'BigInt') {
-        schemaToSave.options.idType = schemaData.primaryKey as 'BigInt' | 'Int' | 'Uuid';
-      }
-      if (schemaData.timestamps === false) schemaToSave.options.timestamps = false;
-      if (schemaData.softDelete) schemaToSave.options.softDelete = true;
-      if (schemaData.tableName) schemaToSave.options.tableName = schemaData.tableName;
-      if (schemaData.translations) schemaToSave.options.translations = schemaData.translations;
-      if (schemaData.authenticatable) {
-        schemaToSave.options.authenticatable = true;
-        if (schemaData.authenticatableLoginIdField) {
-          schemaToSave.options.authenticatableLoginIdField = schemaData.authenticatableLoginIdField;
-        }
-        if (schemaData.authenticatablePasswordField) {
-          schemaToSave.options.authenticatablePasswordField = schemaData.authenticatablePasswordField;
-        }
-        if (schemaData.authenticatableGuardName) {
-          schemaToSave.options.authenticatableGuardName = schemaData.authenticatableGuardName;
-        }
-      }
-      if (indexes.length > 0) {
-        schemaToSave.options.indexes = indexes.map((idx) => ({
-          columns: idx.columns,
-          unique: idx.unique,
-          name: idx.name,
-          type: idx.type as 'btree' | 'hash' | 'fulltext' | 'spatial' | 'gin' | 'gist' | undefined,
-        }));
-      }
-
       await validateSchema(schemaToSave);
 
       if (isNew) {
         await createSchema(schemaToSave);
+        await saveFixedSchemas();
         void message.success(`Schema "${schemaData.name}" created`);
         setIsDirty(false);
         setOriginalSchemaData({ ...schemaData });
@@ -427,7 +434,24 @@ export function SchemaPage(): React.ReactElement {
         setOriginalEnumValues(enumValues.map((v) => ({ ...v })));
         navigate(`/schema/${schemaData.name}`);
       } else {
-        await updateSchema(name!, schemaToSave);
+        let saved: GuiSchema;
+        try {
+          saved = await updateSchema(name!, schemaToSave);
+        } catch (error) {
+          if (openMerge(error, baseSchema, schemaToSave)) return;
+          throw error;
+        }
+        // Later saves are made against the content just written
+        setBaseSchema(saved);
+        const savedSnapshot = { ...currentSnapshot(), propertyRenames: [], fixedSchemas: {} };
+        savedSnapshotRef.current = savedSnapshot;
+        if (propertyRenames.length > 0 || Object.keys(fixedSchemas).length > 0) {
+          // Other schemas are saved now: undoing past them would not revert those
+          setHistory(createHistory(savedSnapshot));
+        }
+        await saveFixedSchemas();
+        await applyPropertyRenames();
+        discardDraft();
         void message.success(`Schema "${schemaData.name}" saved`);
         setIsDirty(false);
         setOriginalSchemaData({ ...schemaData });
@@ -440,93 +464,258 @@ export function SchemaPage(): React.ReactElement {
     }
   };
 
-  // Build current schema from state
-  const buildCurrentSchema = (): GuiSchema => {
-    const propsRecord: Record<string, GuiPropertyDefinition> = {};
-    for (const prop of properties) {
-      const propDef: GuiPropertyDefinition = { type: prop.type };
-      if (prop.nullable) propDef.nullable = prop.nullable;
-      if (prop.unique) propDef.unique = prop.unique;
-      if (prop.default !== undefined && prop.default !== '') propDef.default = prop.default;
-      if (prop.displayName) propDef.displayName = prop.displayName;
-      if (prop.description) propDef.description = prop.description;
-      if (prop.relation) propDef.relation = prop.relation;
-      if (prop.target) propDef.target = prop.target;
-      if (prop.targets && prop.targets.length > 0) propDef.targets = prop.targets;
-      if (prop.morphName) propDef.morphName = prop.morphName;
-      if (prop.inversedBy) propDef.inversedBy = prop.inversedBy;
-      if (prop.mappedBy) propDef.mappedBy = prop.mappedBy;
-      if (prop.onDelete) propDef.onDelete = prop.onDelete;
-      if (prop.onUpdate) propDef.onUpdate = prop.onUpdate;
-      if (prop.owning !== undefined) propDef.owning = prop.owning;
-      if (prop.joinTable) propDef.joinTable = prop.joinTable;
-      if (prop.length !== undefined) propDef.length = prop.length;
-      if (prop.precision !== undefined) propDef.precision = prop.precision;
-      if (prop.scale !== undefined) propDef.scale = prop.scale;
-      if (prop.unsigned) propDef.unsigned = prop.unsigned;
-      if (prop.primaryKey) propDef.primaryKey = prop.primaryKey;
-      if (prop.autoIncrement) propDef.autoIncrement = prop.autoIncrement;
-      if (prop.enum) propDef.enum = prop.enum;
-      if (prop.pivotFields && Object.keys(prop.pivotFields).length > 0) {
-        propDef.pivotFields = prop.pivotFields;
-      }
-      if (prop.multiple) propDef.multiple = prop.multiple;
-      if (prop.maxFiles) propDef.maxFiles = prop.maxFiles;
-      if (prop.accept && prop.accept.length > 0) propDef.accept = prop.accept;
-      if (prop.maxSize) propDef.maxSize = prop.maxSize;
+  // Undo/redo
+  const currentSnapshot = (): EditorSnapshot => ({
+    schemaData,
+    properties,
+    indexes,
+    enumValues,
+    propertyRenames,
+    fixedSchemas,
+  });
 
-      propsRecord[prop.name] = propDef;
-    }
+  const restoreSnapshot = (snapshot: EditorSnapshot): void => {
+    setSchemaData(snapshot.schemaData);
+    setProperties(snapshot.properties);
+    setIndexes(snapshot.indexes);
+    setEnumValues(snapshot.enumValues);
+    setPropertyRenames(snapshot.propertyRenames);
+    setFixedSchemas(snapshot.fixedSchemas);
+    setIsDirty(!isSameSnapshot(snapshot, savedSnapshotRef.current));
+  };
 
-    const schemaObj: GuiSchema = {
-      name: schemaData.name,
-      kind: schemaData.kind,
-    };
+  /**
+   * Apply an edit to the editor state and record it in the undo history
+   */
+  const applyEdit = (label: string, patch: Partial<EditorSnapshot>): void => {
+    const next = { ...currentSnapshot(), ...patch };
+    restoreSnapshot(next);
+    setHistory(recordEdit(history, next, label));
+  };
+
+  const handleUndo = (): void => {
+    if (editorMode !== 'visual' || undoLabel(history) === null) return;
+    const previous = undo(history);
+    setHistory(previous);
+    restoreSnapshot(previous.present.state);
+  };
 
-    if (schemaData.displayName) schemaObj.displayName = schemaData.displayName;
-    if (schemaData.singular) schemaObj.singular = schemaData.singular;
-    if (schemaData.plural) schemaObj.plural = schemaData.plural;
-    if (schemaData.titleIndex) schemaObj.titleIndex = schemaData.titleIndex;
-    if (schemaData.group) schemaObj.group = schemaData.group;
+  const handleRedo = (): void => {
+    if (editorMode !== 'visual' || redoLabel(history) === null) return;
+    const next = redo(history);
+    setHistory(next);
+    restoreSnapshot(next.present.state);
+  };
 
-    if (schemaData.kind === 'enum') {
-      schemaObj.values = enumValues;
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS), outside text fields and the code editor
+  const shortcutRef = useRef<(e: KeyboardEvent) => void>(() => {});
+  shortcutRef.current = (e: KeyboardEvent): void => {
+    if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+    const key = e.key.toLowerCase();
+    if (key !== 'z' && key !== 'y') return;
+    const target = e.target as HTMLElement | null;
+    if (target?.closest('input, textarea, [contenteditable="true"], .ant-modal')) return;
+
+    e.preventDefault();
+    if (key === 'y' || e.shiftKey) {
+      handleRedo();
     } else {
-      schemaObj.properties = propsRecord;
+      handleUndo();
     }
+  };
 
-    const hasAutoId = schemaData.primaryKey !== 'none';
-    schemaObj.options = {};
-    if (!hasAutoId) schemaObj.options.id = false;
-    if (hasAutoId && schemaData.primaryKey !== 'BigInt') {
-      schemaObj.options.idType = schemaData.primaryKey as 'BigInt' | 'Int' | 'Uuid';
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent): void => shortcutRef.current(e);
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  // Drafts: unsaved edits are autosaved so a closed tab or server restart does not lose them
+  const saveDraftRef = useRef<() => void>(() => {});
+  saveDraftRef.current = (): void => {
+    if (!name || isNew) return;
+    let edited: GuiSchema;
+    try {
+      edited = editorMode === 'code' ? yamlToSchema(yamlContent, schemaData.name) : buildCurrentSchema();
+    } catch {
+      return; // Invalid YAML: keep the last draft
     }
-    if (schemaData.timestamps === false) schemaObj.options.timestamps = false;
-    if (schemaData.softDelete) schemaObj.options.softDelete = true;
-    if (schemaData.tableName) schemaObj.options.tableName = schemaData.tableName;
-    if (schemaData.translations) schemaObj.options.translations = schemaData.translations;
-    if (schemaData.authenticatable) {
-      schemaObj.options.authenticatable = true;
-      if (schemaData.authenticatableLoginIdField) {
-        schemaObj.options.authenticatableLoginIdField = schemaData.authenticatableLoginIdField;
-      }
-      if (schemaData.authenticatablePasswordField) {
-        schemaObj.options.authenticatablePasswordField = schemaData.authenticatablePasswordField;
+    draftsApi.save(name, { schema: edited, base: baseSchema, propertyRenames }).catch(console.error);
+  };
+
+  useEffect(() => {
+    if (!isDirty) return;
+    const timer = setTimeout(() => saveDraftRef.current(), DRAFT_AUTOSAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [isDirty, schemaData, properties, indexes, enumValues, propertyRenames, yamlContent]);
+
+  // Offer the draft of a schema when it is opened, unless it matches the file
+  const hasSchema = Boolean(schema);
+  useEffect(() => {
+    if (!name || name === 'new' || !hasSchema) return;
+    let cancelled = false;
+    draftsApi.get(name).then((found) => {
+      if (cancelled || !found) return;
+      const onDisk = useSchemaStore.getState().schemas[name];
+      if (onDisk && isSameData(guiSchemaToData(found.schema), guiSchemaToData(onDisk))) {
+        void draftsApi.delete(name);
+        return;
       }
-      if (schemaData.authenticatableGuardName) {
-        schemaObj.options.authenticatableGuardName = schemaData.authenticatableGuardName;
+      setDraft(found);
+    }).catch(console.error);
+    return () => {
+      cancelled = true;
+    };
+  }, [name, hasSchema]);
+
+  // Bring the property or enum value opened from the command palette into view
+  useEffect(() => {
+    if (!hasSchema || (!highlightedProperty && !highlightedValue)) return;
+    const frame = requestAnimationFrame(() => {
+      document.querySelector('.row-highlight')?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [name, hasSchema, highlightedProperty, highlightedValue]);
+
+  const discardDraft = (): void => {
+    setDraft(null);
+    if (name && name !== 'new') draftsApi.delete(name).catch(console.error);
+  };
+
+  const handleRestoreDraft = (): void => {
+    if (!draft) return;
+    applyEdit(t('drafts.restored'), { ...schemaToSnapshot(draft.schema), propertyRenames: draft.propertyRenames });
+    // Saving compares against the file the draft was made from
+    if (draft.base) setBaseSchema(draft.base);
+    setDraft(null);
+  };
+
+  const saveFixedSchemas = async (): Promise<void> => {
+    for (const [other, fixed] of Object.entries(fixedSchemas)) {
+      await updateSchema(other, fixed);
+    }
+    setFixedSchemas({});
+  };
+
+  const applyPropertyRenames = async (): Promise<void> => {
+    if (propertyRenames.length === 0) return;
+    await schemasApi.renameProperties(name!, propertyRenames);
+    setPropertyRenames([]);
+    // Inverse sides in other schemas may have been rewritten
+    await loadSchemas();
+  };
+
+  /**
+   * Start a three-way merge when a save was rejected because the file changed
+   * on disk. Returns false for other errors.
+   */
+  const openMerge = (error: unknown, base: GuiSchema | undefined, mine: GuiSchema): boolean => {
+    if (!(error instanceof ApiRequestError) || error.code !== 'CONFLICT') return false;
+    const theirs = (error.details as { schema?: GuiSchema | null } | undefined)?.schema;
+    if (!theirs || !base) return false;
+
+    const result = mergeSchemaData(guiSchemaToData(base), guiSchemaToData(mine), guiSchemaToData(theirs));
+    setMerge({ result, theirs });
+    return true;
+  };
+
+  const handleMergeResolve = async (choices: MergeSide[]): Promise<void> => {
+    if (!merge) return;
+    const { result, theirs } = merge;
+    const merged = guiSchemaFromData(theirs.name, applyMergeChoices(result, choices), {
+      filePath: theirs.filePath,
+      relativePath: theirs.relativePath,
+      contentHash: theirs.contentHash,
+    });
+
+    setMergeSaving(true);
+    try {
+      // Reload the form from the merged schema once it is saved
+      loadedNameRef.current = undefined;
+      await updateSchema(name!, merged);
+      await saveFixedSchemas();
+      await applyPropertyRenames();
+      discardDraft();
+      setMerge(null);
+      void message.success(t('conflict.merged'));
+    } catch (error) {
+      loadedNameRef.current = name;
+      // The file changed again while merging: merge against the new version
+      if (!openMerge(error, theirs, merged)) {
+        void message.error((error as Error).message);
       }
+    } finally {
+      setMergeSaving(false);
     }
-    if (indexes.length > 0) {
-      schemaObj.options.indexes = indexes.map((idx) => ({
-        columns: idx.columns,
-        unique: idx.unique,
-        name: idx.name,
-        type: idx.type as 'btree' | 'hash' | 'fulltext' | 'spatial' | 'gin' | 'gist' | undefined,
-      }));
+  };
+
+  // Build current schema from state
+  const buildCurrentSchema = (): GuiSchema => schemaFromForm({ schemaData, properties, indexes, enumValues });
+
+  // Validation errors of the last save, plus association warnings and lint
+  // findings of the schema as currently edited
+  const editedSchema = buildCurrentSchema();
+  const isOwnFinding = (e: ValidationError): boolean => isSchemaFinding(e, schemaData.name);
+  const savedFindings = validationErrors.filter(isOwnFinding);
+  const findingKey = (e: ValidationError): string => `${e.severity}|${e.path}|${e.message}`;
+  const savedKeys = new Set(savedFindings.map(findingKey));
+  const findings = [
+    ...savedFindings,
+    ...checkAssociationConsistency({ ...schemas, ...fixedSchemas, [schemaData.name]: editedSchema }).filter(
+      (e) => isOwnFinding(e) && !savedKeys.has(findingKey(e))
+    ),
+    ...lintSchemas([editedSchema], lintConfig),
+  ];
+
+  // Completion context of the YAML code editor
+  const yamlHints = useMemo(
+    () => ({ schemaNames: Object.keys(schemas).sort(), customTypes }),
+    [schemas, customTypes]
+  );
+
+  /**
+   * Inline diagnostics of the code editor: syntax errors, or else the server
+   * validation of the schema as typed
+   */
+  const diagnoseYaml = async (source: string): Promise<YamlDiagnostic[]> => {
+    const syntax = yamlSyntaxDiagnostics(source);
+    if (syntax.length > 0) return syntax;
+    const name = schemaData.name;
+    try {
+      const result = await schemasApi.validate(yamlToSchema(source, name));
+      return findingDiagnostics(source, name, result.errors);
+    } catch (error) {
+      return findingDiagnostics(source, name, [{ path: name, message: (error as Error).message, severity: 'error' }]);
     }
+  };
 
-    return schemaObj;
+  // Preview a quick fix against the schema as currently edited
+  const openFix = (finding: ValidationError): void => {
+    if (!finding.fix) return;
+    const before = { ...schemas, ...fixedSchemas, [schemaData.name]: editedSchema };
+    setPendingFix({ fix: finding.fix, before, after: applySchemaFix(before, finding.fix) });
+  };
+
+  /**
+   * Apply the previewed fix as an undoable edit: other schemas it changes are
+   * saved with the rest of the changes, like property renames
+   */
+  const handleApplyFix = (): void => {
+    if (!pendingFix) return;
+    const { fix, after } = pendingFix;
+    const { [schemaData.name]: fixed, ...others } = after;
+    let renames = propertyRenames;
+    for (const edit of fix.edits) {
+      if (edit.op === 'renameKey' && edit.schema === schemaData.name && edit.path.join('.') === 'properties') {
+        renames = journalPropertyRename(renames, edit.from, edit.to);
+      }
+    }
+    applyEdit(fix.title, {
+      ...(fixed && schemaToForm(fixed)),
+      propertyRenames: renames,
+      fixedSchemas: { ...fixedSchemas, ...others },
+    });
+    setPendingFix(null);
   };
 
   // Handle editor mode change
@@ -535,90 +724,18 @@ export function SchemaPage(): React.ReactElement {
       const currentSchema = buildCurrentSchema();
       const yaml = schemaToYaml(currentSchema);
       setYamlContent(yaml);
+      yamlOnEnterRef.current = yaml;
       setYamlError(null);
       setEditorMode('code');
+    } else if (yamlContent === yamlOnEnterRef.current) {
+      // YAML untouched: keep the visual state (and its history) as it was
+      setYamlError(null);
+      setEditorMode('visual');
     } else {
       try {
         const parsedSchema = yamlToSchema(yamlContent, schemaData.name);
 
-        setSchemaData({
-          name: schemaData.name,
-          kind: parsedSchema.kind,
-          displayName: parsedSchema.displayName,
-          singular: parsedSchema.singular,
-          plural: parsedSchema.plural,
-          titleIndex: parsedSchema.titleIndex,
-          group: parsedSchema.group,
-          primaryKey: parsedSchema.options?.id === false ? 'none' : (parsedSchema.options?.idType ?? 'BigInt') as 'BigInt' | 'Int' | 'Uuid' | 'none',
-          timestamps: parsedSchema.options?.timestamps ?? true,
-          softDelete: parsedSchema.options?.softDelete ?? false,
-          tableName: parsedSchema.options?.tableName,
-          translations: parsedSchema.options?.translations,
-          authenticatable: parsedSchema.options?.authenticatable,
-          authenticatableLoginIdField: parsedSchema.options?.authenticatableLoginIdField,
-          authenticatablePasswordField: parsedSchema.options?.authenticatablePasswordField,
-          authenticatableGuardName: parsedSchema.options?.authenticatableGuardName,
-        });
-
-        if (parsedSchema.properties) {
-          const propsArray: PropertyFormData[] = Object.entries(parsedSchema.properties).map(
-            ([propName, prop]) => ({
-              name: propName,
-              type: prop.type,
-              nullable: prop.nullable,
-              unique: prop.unique,
-              default: prop.default !== undefined ? String(prop.default) : undefined,
-              displayName: prop.displayName,
-              description: prop.description,
-              relation: prop.relation,
-              target: prop.target,
-              targets: prop.targets,
-              morphName: prop.morphName,
-              inversedBy: prop.inversedBy,
-              mappedBy: prop.mappedBy,
-              onDelete: prop.onDelete,
-              onUpdate: prop.onUpdate,
-              owning: prop.owning,
-              joinTable: prop.joinTable,
-              length: prop.length,
-              precision: prop.precision,
-              scale: prop.scale,
-              unsigned: prop.unsigned,
-              enum: prop.enum,
-              pivotFields: prop.pivotFields,
-              multiple: prop.multiple,
-              maxFiles: prop.maxFiles,
-              accept: prop.accept,
-              maxSize: prop.maxSize,
-            })
-          );
-          setProperties(propsArray);
-        } else {
-          setProperties([]);
-        }
-
-        if (parsedSchema.values) {
-          setEnumValues(parsedSchema.values);
-        } else {
-          setEnumValues([]);
-        }
-
-        const regularIndexes: IndexFormData[] = (parsedSchema.options?.indexes ?? []).map((idx) => ({
-          columns: [...idx.columns],
-          unique: idx.unique,
-          name: idx.name,
-          type: idx.type,
-        }));
-
-        let uniqueAsIndexes: IndexFormData[] = [];
-        if (parsedSchema.options?.unique) {
-          uniqueAsIndexes = parsedSchema.options.unique.map((cols) => ({
-            columns: Array.isArray(cols) ? [...cols] : [cols],
-            unique: true,
-          }));
-        }
-
-        setIndexes([...regularIndexes, ...uniqueAsIndexes]);
+        applyEdit(t('editHistory.editYaml'), schemaToForm({ ...parsedSchema, name: schemaData.name }));
 
         setYamlError(null);
         setEditorMode('visual');
@@ -637,12 +754,8 @@ export function SchemaPage(): React.ReactElement {
   const handleSchemaModalOk = async (): Promise<void> => {
     try {
       const values = await schemaForm.validateFields();
-      setSchemaData({
-        ...schemaData,
-        ...values,
-      });
+      applyEdit(t('editHistory.editSchema'), { schemaData: { ...schemaData, ...values } });
       setSchemaModalOpen(false);
-      setIsDirty(true);
     } catch {
       // Validation failed
     }
@@ -667,7 +780,7 @@ export function SchemaPage(): React.ReactElement {
       const enumVals: GuiEnumValue[] = prop.enum.map((v) => {
         if (typeof v === 'string') return { value: v };
         if (typeof v === 'object' && v !== null && 'value' in v) {
-          const obj = v as { value: string; label?: string; extra?: Record<string, unknown> };
+          const obj = v as { value: string; label?: LocalizedString; extra?: Record<string, unknown> };
           return {
             value: obj.value,
             label: obj.label,
@@ -728,6 +841,8 @@ export function SchemaPage(): React.ReactElement {
         type: values.type,
         nullable: values.nullable,
         unique: values.unique,
+        primaryKey: values.primaryKey,
+        autoIncrement: values.autoIncrement,
         default: values.default,
         displayName: values.displayName,
         description: values.description,
@@ -764,25 +879,82 @@ export function SchemaPage(): React.ReactElement {
           ? values.accept.split(',').map((s: string) => s.trim()).filter(Boolean)
           : undefined,
         maxSize: values.type === 'File' ? values.maxSize : undefined,
+        source: editingPropertyIndex !== null ? properties[editingPropertyIndex]?.source : undefined,
       };
 
       if (editingPropertyIndex !== null) {
         const updated = [...properties];
+        const oldName = properties[editingPropertyIndex]?.name;
         updated[editingPropertyIndex] = newProp;
-        setProperties(updated);
+        if (oldName && oldName !== newProp.name) {
+          applyEdit(
+            t('editHistory.renameProperty', { from: oldName, to: newProp.name }),
+            renamePropertyEdit(updated, oldName, newProp.name)
+          );
+        } else {
+          applyEdit(t('editHistory.editProperty', { name: newProp.name }), { properties: updated });
+        }
       } else {
-        setProperties([...properties, newProp]);
+        applyEdit(t('editHistory.addProperty', { name: newProp.name }), { properties: [...properties, newProp] });
       }
       setPropertyModalOpen(false);
-      setIsDirty(true);
     } catch {
       // Validation failed
     }
   };
 
+  /**
+   * Rename a property and everything in this schema that refers to it.
+   * Renames of saved properties are sent to the server on save so the
+   * inverse sides in other schemas follow and the change is tracked as a rename.
+   */
+  const renamePropertyEdit = (updated: PropertyFormData[], from: string, to: string): Partial<EditorSnapshot> => {
+    const rename = (value: string | undefined): string | undefined => (value === from ? to : value);
+
+    const edit: Partial<EditorSnapshot> = {
+      properties: updated.map((p) =>
+        p.type === 'Association' && (p.target === schemaData.name || p.targets?.includes(schemaData.name))
+          ? { ...p, inversedBy: rename(p.inversedBy), mappedBy: rename(p.mappedBy) }
+          : p
+      ),
+      indexes: indexes.map((idx) => ({ ...idx, columns: idx.columns.map((c) => rename(c)!) })),
+      schemaData: {
+        ...schemaData,
+        titleIndex: rename(schemaData.titleIndex),
+        authenticatableLoginIdField: rename(schemaData.authenticatableLoginIdField),
+        authenticatablePasswordField: rename(schemaData.authenticatablePasswordField),
+      },
+    };
+
+    return { ...edit, propertyRenames: journalPropertyRename(propertyRenames, from, to) };
+  };
+
+  /**
+   * Rename journal with property `from` renamed to `to`, folding chained renames
+   */
+  const journalPropertyRename = (
+    renames: { from: string; to: string }[],
+    from: string,
+    to: string
+  ): { from: string; to: string }[] => {
+    if (!originalProperties.some((p) => p.name === from) && !renames.some((r) => r.to === from)) {
+      return renames; // Not saved yet, nothing else refers to it
+    }
+    const existing = renames.find((r) => r.to === from);
+    const original = existing?.from ?? from;
+    return [...renames.filter((r) => r !== existing), ...(original !== to ? [{ from: original, to }] : [])];
+  };
+
   const removeProperty = (index: number): void => {
-    setProperties(properties.filter((_, i) => i !== index));
-    setIsDirty(true);
+    applyEdit(t('editHistory.removeProperty', { name: properties[index]?.name }), {
+      properties: properties.filter((_, i) => i !== index),
+    });
+  };
+
+  const moveProperty = (index: number, delta: number): void => {
+    applyEdit(t('editHistory.moveProperty', { name: properties[index]?.name }), {
+      properties: moveItem(properties, index, delta),
+    });
   };
 
   // Index modal handlers
@@ -819,6 +991,8 @@ export function SchemaPage(): React.ReactElement {
         columns: values.columns,
         unique: values.unique,
         type: values.type || undefined,
+        // An edited unique key stays in `options.unique` while it has no name or type
+        constraint: editingIndexIndex !== null ? indexes[editingIndexIndex]?.constraint : undefined,
       };
 
       const newPosition = editingIndexIndex !== null ? editingIndexIndex : indexes.length;
@@ -838,20 +1012,24 @@ export function SchemaPage(): React.ReactElement {
       if (editingIndexIndex !== null) {
         const updated = [...indexes];
         updated[editingIndexIndex] = newIndex;
-        setIndexes(updated);
+        applyEdit(t('editHistory.editIndex', { name: generatedName }), { indexes: updated });
       } else {
-        setIndexes([...indexes, newIndex]);
+        applyEdit(t('editHistory.addIndex', { name: generatedName }), { indexes: [...indexes, newIndex] });
       }
       setIndexModalOpen(false);
-      setIsDirty(true);
     } catch {
       // Validation failed
     }
   };
 
   const removeIndex = (index: number): void => {
-    setIndexes(indexes.filter((_, i) => i !== index));
-    setIsDirty(true);
+    const removed = indexes[index];
+    applyEdit(
+      t('editHistory.removeIndex', {
+        name: removed ? generateIndexName(removed.columns, removed.unique, removed.name, index) : '',
+      }),
+      { indexes: indexes.filter((_, i) => i !== index) }
+    );
   };
 
   // Enum modal handlers
@@ -859,7 +1037,7 @@ export function SchemaPage(): React.ReactElement {
     setEnumEditMode(mode);
     setEditingEnumIndex(null);
     enumForm.resetFields();
-    enumForm.setFieldsValue({ value: '', label: '' });
+    enumForm.setFieldsValue({ value: '', label: undefined });
     setEnumExtraProps([]);
     setEnumModalOpen(true);
   };
@@ -872,7 +1050,7 @@ export function SchemaPage(): React.ReactElement {
     if (!enumVal) return;
     enumForm.setFieldsValue({
       value: enumVal.value,
-      label: enumVal.label ?? '',
+      label: enumVal.label,
     });
     const extraArray = enumVal.extra
       ? Object.entries(enumVal.extra).map(([key, val]) => ({ key, value: String(val) }))
@@ -901,9 +1079,12 @@ export function SchemaPage(): React.ReactElement {
         }
       }
 
+      // Keep keys the modal does not edit
+      const original = editingEnumIndex !== null ? currentValues[editingEnumIndex] : undefined;
       const newEnumVal: GuiEnumValue = {
+        ...original,
         value: values.value,
-        label: values.label || undefined,
+        label: values.label,
         extra: Object.keys(extra).length > 0 ? extra : undefined,
       };
 
@@ -911,11 +1092,12 @@ export function SchemaPage(): React.ReactElement {
         if (editingEnumIndex !== null) {
           const updated = [...enumValues];
           updated[editingEnumIndex] = newEnumVal;
-          setEnumValues(updated);
+          applyEdit(t('editHistory.editEnumValue', { value: newEnumVal.value }), { enumValues: updated });
         } else {
-          setEnumValues([...enumValues, newEnumVal]);
+          applyEdit(t('editHistory.addEnumValue', { value: newEnumVal.value }), {
+            enumValues: [...enumValues, newEnumVal],
+          });
         }
-        setIsDirty(true);
       } else {
         if (editingEnumIndex !== null) {
           const updated = [...inlineEnumValues];
@@ -933,13 +1115,20 @@ export function SchemaPage(): React.ReactElement {
 
   const removeEnumValue = (index: number, mode: 'shared' | 'inline' = 'shared'): void => {
     if (mode === 'shared') {
-      setEnumValues(enumValues.filter((_, i) => i !== index));
-      setIsDirty(true);
+      applyEdit(t('editHistory.removeEnumValue', { value: enumValues[index]?.value }), {
+        enumValues: enumValues.filter((_, i) => i !== index),
+      });
     } else {
       setInlineEnumValues(inlineEnumValues.filter((_, i) => i !== index));
     }
   };
 
+  const moveEnumValue = (index: number, delta: number): void => {
+    applyEdit(t('editHistory.moveEnumValue', { value: enumValues[index]?.value }), {
+      enumValues: moveItem(enumValues, index, delta),
+    });
+  };
+
   const addEnumExtraProp = (): void => {
     setEnumExtraProps([...enumExtraProps, { key: '', value: '' }]);
   };
@@ -1166,7 +1355,7 @@ export function SchemaPage(): React.ReactElement {
             <div style={{ flex: 1 }}>
               <Text strong>{propName}</Text>
               {record.displayName && (
-                <div><Text type="secondary">{record.displayName}</Text></div>
+                <div><LocalizedText value={record.displayName} type="secondary" /></div>
               )}
             </div>
             {indexInfo.length > 0 && (
@@ -1288,13 +1477,27 @@ export function SchemaPage(): React.ReactElement {
     {
       title: t('common.actions'),
       key: 'actions',
-      width: 80,
+      width: 150,
       render: (_: unknown, record: PropertyFormData & { _isVirtual?: boolean; _idx?: number }) => {
         if (record._isVirtual || record._idx === undefined || record._idx < 0) {
           return <Text type="secondary">-</Text>;
         }
         return (
-          <Space>
+          <Space size={0}>
+            <Button
+              type="text"
+              size="small"
+              icon={<ArrowUpOutlined />}
+              disabled={record._idx === 0}
+              onClick={() => moveProperty(record._idx!, -1)}
+            />
+            <Button
+              type="text"
+              size="small"
+              icon={<ArrowDownOutlined />}
+              disabled={record._idx === properties.length - 1}
+              onClick={() => moveProperty(record._idx!, 1)}
+            />
             <Button
               type="text"
               size="small"
@@ -1380,6 +1583,11 @@ export function SchemaPage(): React.ReactElement {
     },
   ];
 
+  // The file was saved elsewhere (IDE, another tab) while this form has edits
+  const changedOnDisk = Boolean(
+    isDirty && schema?.contentHash && baseSchema?.contentHash && schema.contentHash !== baseSchema.contentHash
+  );
+
   // Build options tags for display
   const optionsTags: React.ReactNode[] = [];
   if (schemaData.primaryKey && schemaData.primaryKey !== 'none') {
@@ -1405,11 +1613,40 @@ export function SchemaPage(): React.ReactElement {
           value={editorMode}
           onChange={(value) => handleModeChange(value as 'visual' | 'code')}
         />
-        <Button type="primary" size="small" icon={<SaveOutlined />} onClick={handleSave}>
-          {isNew ? 'Create Schema' : 'Save Changes'}
-        </Button>
+        <Space size="small">
+          <Space.Compact size="small">
+            <Tooltip title={undoLabel(history) !== null ? t('editHistory.undo', { label: undoLabel(history) }) : undefined}>
+              <Button
+                icon={<UndoOutlined />}
+                disabled={editorMode !== 'visual' || undoLabel(history) === null}
+                onClick={handleUndo}
+              />
+            </Tooltip>
+            <Tooltip title={redoLabel(history) !== null ? t('editHistory.redo', { label: redoLabel(history) }) : undefined}>
+              <Button
+                icon={<RedoOutlined />}
+                disabled={editorMode !== 'visual' || redoLabel(history) === null}
+                onClick={handleRedo}
+              />
+            </Tooltip>
+          </Space.Compact>
+          {!isNew && (
+            <Tooltip title={isDirty ? t('rename.saveFirst') : undefined}>
+              <Button size="small" icon={<SwapOutlined />} disabled={isDirty} onClick={() => setRenameModalOpen(true)}>
+                {t('rename.rename')}
+              </Button>
+            </Tooltip>
+          )}
+          <Button type="primary" size="small" icon={<SaveOutlined />} onClick={handleSave}>
+            {isNew ? 'Create Schema' : 'Save Changes'}
+          </Button>
+        </Space>
       </div>
 
+      {changedOnDisk && (
+        <Alert type="warning" showIcon message={t('conflict.changedOnDisk')} style={{ marginBottom: token.margin }} />
+      )}
+
       {editorMode === 'visual' ? (
         <div style={{ display: 'flex', flexDirection: 'column', gap: token.margin }}>
           {/* Schema Info Card */}
@@ -1436,6 +1673,15 @@ export function SchemaPage(): React.ReactElement {
             onEdit={openSchemaModal}
           />
 
+          {/* Findings Card (validation errors and lint findings) */}
+          {findings.length > 0 && (
+            <FindingsCard
+              findings={findings}
+              onSelect={({ property }) => setSearchParams(property ? { property } : {}, { replace: true })}
+              onFix={openFix}
+            />
+          )}
+
           {/* Enum Values Card (only for enum kind) */}
           {schemaData.kind === 'enum' && (
             <EnumValuesCard
@@ -1445,6 +1691,8 @@ export function SchemaPage(): React.ReactElement {
               onAdd={() => openAddEnumModal('shared')}
               onEdit={(index) => openEditEnumModal(index, 'shared')}
               onRemove={(index) => removeEnumValue(index, 'shared')}
+              onMove={moveEnumValue}
+              highlightedValue={highlightedValue}
             />
           )}
 
@@ -1456,6 +1704,7 @@ export function SchemaPage(): React.ReactElement {
               isPropertyNew={isPropertyNew}
               isPropertyChanged={isPropertyChanged}
               onAdd={openAddPropertyModal}
+              highlightedProperty={highlightedProperty}
             />
           )}
 
@@ -1470,6 +1719,25 @@ export function SchemaPage(): React.ReactElement {
               disableAdd={propertyNames.length === 0}
             />
           )}
+
+          {/* Used By Card (schemas referencing this one) */}
+          {!isNew && (
+            <UsedByCard
+              usages={usages}
+              onOpen={(usage) =>
+                navigate(
+                  usage.property
+                    ? `/schema/${usage.schema}?property=${encodeURIComponent(usage.property)}`
+                    : `/schema/${usage.schema}`
+                )
+              }
+            />
+          )}
+
+          {/* Code Preview Card (generated from the saved file) */}
+          {!isNew && previewPanelOpen && (
+            <CodePreviewCard schemaName={schemaData.name} version={baseSchema?.contentHash} />
+          )}
         </div>
       ) : (
         /* Code/YAML Editor Mode */
@@ -1481,6 +1749,30 @@ export function SchemaPage(): React.ReactElement {
             setYamlContent(val);
             setIsDirty(true);
           }}
+          hints={yamlHints}
+          diagnose={diagnoseYaml}
+        />
+      )}
+
+      {/* Save Conflict Modal */}
+      <SchemaConflictModal
+        open={merge !== null}
+        conflicts={merge?.result.conflicts ?? []}
+        saving={mergeSaving}
+        onResolve={handleMergeResolve}
+        onCancel={() => setMerge(null)}
+      />
+
+      {/* Rename Modal */}
+      {!isNew && name && (
+        <RenameSchemaModal
+          open={renameModalOpen}
+          name={name}
+          onCancel={() => setRenameModalOpen(false)}
+          onRenamed={(newName) => {
+            setRenameModalOpen(false);
+            navigate(`/schema/${newName}`, { replace: true });
+          }}
         />
       )}
 
@@ -1494,6 +1786,7 @@ export function SchemaPage(): React.ReactElement {
         autoTableName={autoTableName}
         propertyNames={propertyNames}
         groupOptions={groupOptions}
+        folderOptions={folderOptions}
         onOk={handleSchemaModalOk}
         onCancel={() => setSchemaModalOpen(false)}
       />
@@ -1552,10 +1845,32 @@ export function SchemaPage(): React.ReactElement {
         onCancel={() => setPivotFieldModalOpen(false)}
       />
 
+      {/* Apply Fix Modal */}
+      <ApplyFixModal
+        fix={pendingFix?.fix ?? null}
+        before={pendingFix?.before ?? {}}
+        after={pendingFix?.after ?? {}}
+        editing={schemaData.name}
+        onApply={handleApplyFix}
+        onCancel={() => setPendingFix(null)}
+      />
+
+      {/* Restore Draft Modal */}
+      <RestoreDraftModal
+        draft={draft}
+        current={schema ?? undefined}
+        onRestore={handleRestoreDraft}
+        onDiscard={discardDraft}
+        onCancel={() => setDraft(null)}
+      />
+
       {/* Unsaved Changes Blocker Modal */}
       <UnsavedChangesModal
         open={blocker.state === 'blocked'}
-        onProceed={() => blocker.proceed?.()}
+        onProceed={() => {
+          discardDraft();
+          blocker.proceed?.();
+        }}
         onReset={() => blocker.reset?.()}
       />
     </div>
@@ -6,20 +6,25 @@ import { useEffect, useState, useRef, useCallback } from 'react';
 import { Card, Typography, Descriptions, Switch, Spin, theme, Select, Tag, Empty, App, Input, Button, Space, Collapse, Form, Divider } from 'antd';
 import { SettingOutlined, SaveOutlined } from '@ant-design/icons';
 import { useTranslation } from 'react-i18next';
-import { useUiStore, type DatabaseType, type Language } from '../stores/uiStore.js';
+import { useUiStore, DATABASE_LABELS, type DatabaseType, type Language } from '../stores/uiStore.js';
 import { useWsStore } from '../stores/wsStore.js';
 import { LANGUAGE_OPTIONS } from '../i18n/index.js';
 import { api } from '../services/client.js';
-import type { GuiConfig, PluginInfo, PluginConfigField } from '../../shared/types.js';
+import { LINT_RULES, lintRuleSeverity } from '../../shared/lint.js';
+import type { GuiConfig, PluginInfo, PluginConfigField, LintSeverity } from '../../shared/types.js';
 
 const { Title, Text } = Typography;
 
-const DATABASE_OPTIONS: { value: DatabaseType; label: string }[] = [
-  { value: 'mysql', label: 'MySQL / MariaDB' },
-  { value: 'postgresql', label: 'PostgreSQL' },
-  { value: 'sqlite', label: 'SQLite' },
-  { value: 'sqlserver', label: 'SQL Server' },
-];
+const SEVERITY_COLORS: Record<LintSeverity, string> = {
+  off: 'default',
+  warning: 'warning',
+  error: 'error',
+};
+
+const DATABASE_OPTIONS = (Object.keys(DATABASE_LABELS) as DatabaseType[]).map((value) => ({
+  value,
+  label: DATABASE_LABELS[value],
+}));
 
 export function SettingsPage(): React.ReactElement {
   const { t } = useTranslation();
@@ -414,6 +419,23 @@ export function SettingsPage(): React.ReactElement {
         </Descriptions>
       </Card>
 
+      <Card title={t('settings.lintRules')} style={{ marginBottom: token.margin }}>
+        <Text type="secondary">{t('settings.lintRulesHint')}</Text>
+        <Descriptions column={1} style={{ marginTop: token.marginSM }}>
+          {LINT_RULES.map((rule) => {
+            const severity = lintRuleSeverity(rule, config?.lint);
+            return (
+              <Descriptions.Item key={rule.id} label={<Text code>{rule.id}</Text>}>
+                <Space>
+                  <Tag color={SEVERITY_COLORS[severity]}>{severity}</Tag>
+                  <Text type="secondary">{rule.description}</Text>
+                </Space>
+              </Descriptions.Item>
+            );
+          })}
+        </Descriptions>
+      </Card>
+
       <Card title={t('settings.serverConfig')}>
         <Descriptions column={1}>
           <Descriptions.Item label={t('settings.schemasDir')}>
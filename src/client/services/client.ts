@@ -6,6 +6,21 @@ import type { ApiResponse } from '../../shared/types.js';
 
 const BASE_URL = '';
 
+/**
+ * Error of a failed API request, with the server's error code and details
+ */
+export class ApiRequestError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly code?: string,
+    readonly details?: unknown
+  ) {
+    super(message);
+    this.name = 'ApiRequestError';
+  }
+}
+
 async function request<T>(url: string, options?: RequestInit): Promise<T> {
   const response = await fetch(BASE_URL + url, {
     ...options,
@@ -18,7 +33,12 @@ async function request<T>(url: string, options?: RequestInit): Promise<T> {
   const data = (await response.json()) as ApiResponse<T>;
 
   if (!data.success) {
-    throw new Error(data.error?.message ?? 'Request failed');
+    throw new ApiRequestError(
+      data.error?.message ?? 'Request failed',
+      response.status,
+      data.error?.code,
+      data.error?.details
+    );
   }
 
   return data.data as T;
@@ -0,0 +1,15 @@
+/**
+ * Diagram API operations
+ */
+
+import { api } from './client.js';
+import type { DiagramExportFormat, DiagramExportResult } from '../../shared/diagramExport.js';
+
+export const diagramApi = {
+  export: (format: DiagramExportFormat, schemas?: readonly string[]): Promise<DiagramExportResult> => {
+    const query = schemas && schemas.length > 0
+      ? `?schemas=${encodeURIComponent(schemas.join(','))}`
+      : '';
+    return api.get(`/api/diagram/export/${format}${query}`);
+  },
+};
@@ -0,0 +1,15 @@
+/**
+ * Schema draft API operations
+ */
+
+import { api } from './client.js';
+import type { SchemaDraft } from '../../shared/types.js';
+
+export const draftsApi = {
+  get: (name: string): Promise<SchemaDraft | null> => api.get(`/api/drafts/${name}`),
+
+  save: (name: string, draft: Omit<SchemaDraft, 'name' | 'updatedAt'>): Promise<SchemaDraft> =>
+    api.put(`/api/drafts/${name}`, draft),
+
+  delete: (name: string): Promise<void> => api.delete(`/api/drafts/${name}`),
+};
@@ -0,0 +1,11 @@
+/**
+ * Schema folder API operations
+ */
+
+import { api } from './client.js';
+
+export const foldersApi = {
+  list: (): Promise<string[]> => api.get('/api/folders'),
+
+  create: (path: string): Promise<string[]> => api.post('/api/folders', { path }),
+};
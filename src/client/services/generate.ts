@@ -0,0 +1,19 @@
+/**
+ * Generation API operations
+ */
+
+import { api } from './client.js';
+import type { DryRunResult, GenerationPlan, GenerationWriteResult, PlannedFile } from '../../shared/types.js';
+
+export const generateApi = {
+  // Files the configured plugins would generate, without writing them
+  dryRun: (): Promise<DryRunResult> => api.get('/api/generate/dry-run'),
+
+  // Generated files with their status against the working tree
+  plan: (): Promise<GenerationPlan> => api.get('/api/generate/plan'),
+
+  // Fails with 409 STALE when the output of a file changed since it was planned,
+  // and with 400 FILE_KEPT for existing files generation keeps
+  write: (files: readonly Pick<PlannedFile, 'path' | 'hash'>[]): Promise<GenerationWriteResult> =>
+    api.post('/api/generate/write', { files: files.map(({ path, hash }) => ({ path, hash })) }),
+};
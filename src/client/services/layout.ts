@@ -0,0 +1,12 @@
+/**
+ * Diagram layout API operations
+ */
+
+import { api } from './client.js';
+import type { DiagramLayout } from '../../shared/types.js';
+
+export const layoutApi = {
+  get: (): Promise<DiagramLayout> => api.get('/api/layout'),
+
+  save: (layout: DiagramLayout): Promise<DiagramLayout> => api.put('/api/layout', layout),
+};
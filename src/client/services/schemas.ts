@@ -3,7 +3,15 @@
  */
 
 import { api } from './client.js';
-import type { GuiSchema, PreviewResult, PreviewType } from '../../shared/types.js';
+import type {
+  GuiSchema,
+  PreviewResult,
+  PreviewType,
+  RenameFileChange,
+  RenamePreview,
+  SqlDialect,
+  ValidationError,
+} from '../../shared/types.js';
 
 export const schemasApi = {
   getAll: (): Promise<Record<string, GuiSchema>> => api.get('/api/schemas'),
@@ -15,13 +23,35 @@ export const schemasApi = {
   update: (name: string, schema: GuiSchema): Promise<GuiSchema> =>
     api.put(`/api/schemas/${name}`, schema),
 
-  delete: (name: string): Promise<void> => api.delete(`/api/schemas/${name}`),
+  // Without force, deleting a schema other schemas reference fails with 409 IN_USE
+  delete: (name: string, force = false): Promise<void> =>
+    api.delete(`/api/schemas/${name}${force ? '?force=true' : ''}`),
+
+  move: (name: string, folder: string): Promise<GuiSchema> =>
+    api.post(`/api/schemas/${name}/move`, { folder }),
+
+  previewRename: (name: string, to: string): Promise<RenamePreview> =>
+    api.post(`/api/schemas/${name}/rename/preview`, { to }),
+
+  rename: (name: string, to: string): Promise<RenamePreview> =>
+    api.post(`/api/schemas/${name}/rename`, { to }),
+
+  renameProperties: (name: string, renames: { from: string; to: string }[]): Promise<RenameFileChange[]> =>
+    api.post(`/api/schemas/${name}/properties/rename`, { renames }),
+
+  // Lint findings of all schemas on disk
+  lint: (): Promise<ValidationError[]> => api.get('/api/lint'),
 
   validate: (
     schema?: GuiSchema
-  ): Promise<{ valid: boolean; errors: { path: string; message: string }[] }> =>
+  ): Promise<{ valid: boolean; errors: ValidationError[] }> =>
     api.post('/api/validate', schema ? { schema } : {}),
 
-  preview: (type: PreviewType, name?: string): Promise<PreviewResult[]> =>
-    name ? api.get(`/api/preview/${type}/${name}`) : api.get(`/api/preview/${type}`),
+  // SQL previews are generated for `dialect` (mysql when omitted)
+  preview: (type: PreviewType, name?: string, dialect?: SqlDialect): Promise<PreviewResult[]> => {
+    const query = dialect ? `?dialect=${dialect}` : '';
+    return name
+      ? api.get<PreviewResult>(`/api/preview/${type}/${name}${query}`).then((preview) => [preview])
+      : api.get(`/api/preview/${type}${query}`);
+  },
 };
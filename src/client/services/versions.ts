@@ -4,6 +4,8 @@
 
 import { api } from './client.js';
 import type { VersionSummary, VersionFile, VersionDiff, VersionChange } from '@famgia/omnify-core';
+import type { AlterMigration } from '../../shared/alterMigration.js';
+import type { SqlDialect } from '../../shared/types.js';
 
 /**
  * Pending changes result type
@@ -45,6 +47,10 @@ export const versionsApi = {
 
   getPending: (): Promise<PendingChangesResult> => api.get('/api/versions/pending'),
 
+  // SQL up and down migration of the pending changes
+  getPendingMigration: (dialect: SqlDialect): Promise<AlterMigration> =>
+    api.get(`/api/versions/pending/migration?dialect=${dialect}`),
+
   createVersion: (description?: string): Promise<CreateVersionResult> =>
     api.post('/api/versions', { description }),
 
@@ -4,7 +4,8 @@
 
 import { create } from 'zustand';
 import { schemasApi } from '../services/schemas.js';
-import type { GuiSchema, ValidationError, PreviewResult, PreviewType } from '../../shared/types.js';
+import { foldersApi } from '../services/folders.js';
+import type { GuiSchema, ValidationError, PreviewResult, PreviewType, SqlDialect } from '../../shared/types.js';
 
 interface SchemaStore {
   // State
@@ -15,15 +16,20 @@ interface SchemaStore {
   validationErrors: ValidationError[];
   previews: PreviewResult[];
   previewType: PreviewType;
+  folders: string[];
 
   // Actions
   loadSchemas: () => Promise<void>;
   selectSchema: (name: string | null) => void;
   createSchema: (schema: GuiSchema) => Promise<void>;
-  updateSchema: (name: string, schema: GuiSchema) => Promise<void>;
-  deleteSchema: (name: string) => Promise<void>;
+  updateSchema: (name: string, schema: GuiSchema) => Promise<GuiSchema>;
+  deleteSchema: (name: string, force?: boolean) => Promise<void>;
+  renameSchema: (name: string, to: string) => Promise<void>;
+  moveSchema: (name: string, folder: string) => Promise<void>;
+  loadFolders: () => Promise<void>;
+  createFolder: (path: string) => Promise<void>;
   validateSchema: (schema?: GuiSchema) => Promise<void>;
-  loadPreview: (type: PreviewType, name?: string) => Promise<void>;
+  loadPreview: (type: PreviewType, name?: string, dialect?: SqlDialect) => Promise<void>;
   setSchemas: (schemas: Record<string, GuiSchema>) => void;
   updateSchemaInStore: (name: string, schema: GuiSchema) => void;
 }
@@ -37,6 +43,7 @@ export const useSchemaStore = create<SchemaStore>((set) => ({
   validationErrors: [],
   previews: [],
   previewType: 'laravel',
+  folders: [],
 
   // Actions
   loadSchemas: async () => {
@@ -75,16 +82,17 @@ export const useSchemaStore = create<SchemaStore>((set) => ({
         schemas: { ...state.schemas, [name]: saved },
         loading: false,
       }));
+      return saved;
     } catch (e) {
       set({ error: (e as Error).message, loading: false });
       throw e;
     }
   },
 
-  deleteSchema: async (name: string) => {
+  deleteSchema: async (name: string, force?: boolean) => {
     set({ loading: true, error: null });
     try {
-      await schemasApi.delete(name);
+      await schemasApi.delete(name, force);
       set((state) => {
         const { [name]: _, ...rest } = state.schemas;
         return {
@@ -99,15 +107,54 @@ export const useSchemaStore = create<SchemaStore>((set) => ({
     }
   },
 
+  renameSchema: async (name: string, to: string) => {
+    set({ loading: true, error: null });
+    try {
+      await schemasApi.rename(name, to);
+      // References in other schemas changed too, so reload everything
+      const schemas = await schemasApi.getAll();
+      set((state) => ({
+        schemas,
+        selectedSchema: state.selectedSchema === name ? to : state.selectedSchema,
+        loading: false,
+      }));
+    } catch (e) {
+      set({ error: (e as Error).message, loading: false });
+      throw e;
+    }
+  },
+
+  moveSchema: async (name: string, folder: string) => {
+    try {
+      const moved = await schemasApi.move(name, folder);
+      set((state) => ({
+        schemas: { ...state.schemas, [name]: moved },
+        folders: folder && !state.folders.includes(folder) ? [...state.folders, folder].sort() : state.folders,
+      }));
+    } catch (e) {
+      set({ error: (e as Error).message });
+      throw e;
+    }
+  },
+
+  loadFolders: async () => {
+    try {
+      set({ folders: await foldersApi.list() });
+    } catch (e) {
+      set({ error: (e as Error).message });
+    }
+  },
+
+  createFolder: async (path: string) => {
+    const folders = await foldersApi.create(path);
+    set({ folders });
+  },
+
   validateSchema: async (schema?: GuiSchema) => {
     try {
       const result = await schemasApi.validate(schema);
       set({
-        validationErrors: result.errors.map((e) => ({
-          path: e.path,
-          message: e.message,
-          severity: 'error' as const,
-        })),
+        validationErrors: result.errors,
       });
     } catch (e) {
       set({
@@ -122,10 +169,10 @@ export const useSchemaStore = create<SchemaStore>((set) => ({
     }
   },
 
-  loadPreview: async (type: PreviewType, name?: string) => {
+  loadPreview: async (type: PreviewType, name?: string, dialect?: SqlDialect) => {
     set({ loading: true, previewType: type });
     try {
-      const previews = await schemasApi.preview(type, name);
+      const previews = await schemasApi.preview(type, name, dialect);
       set({ previews, loading: false });
     } catch (e) {
       set({ error: (e as Error).message, loading: false });
@@ -5,18 +5,27 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import i18n from '../i18n/index.js';
+import { DEFAULT_LOCALES, DEFAULT_LOCALE } from '../../shared/constants.js';
+import type { LintConfig, SqlDialect } from '../../shared/types.js';
 
-export type DatabaseType = 'mysql' | 'postgresql' | 'sqlite' | 'sqlserver';
+export type DatabaseType = SqlDialect;
 export type Language = 'en' | 'ja' | 'vi';
+export type SidebarView = 'kind' | 'folders';
 
 interface UiStore {
   // State
   darkMode: boolean;
   sidebarCollapsed: boolean;
+  sidebarView: SidebarView;
   previewPanelOpen: boolean;
   databaseType: DatabaseType;
   language: Language;
   customTypes: string[];
+  // Project locales of localized schema text (from omnify config)
+  locales: string[];
+  defaultLocale: string;
+  // Lint rule settings (from omnify config)
+  lintConfig: LintConfig;
 
   // Actions
   toggleDarkMode: () => void;
@@ -24,10 +33,13 @@ interface UiStore {
   togglePreviewPanel: () => void;
   setDarkMode: (value: boolean) => void;
   setSidebarCollapsed: (value: boolean) => void;
+  setSidebarView: (value: SidebarView) => void;
   setPreviewPanelOpen: (value: boolean) => void;
   setDatabaseType: (value: DatabaseType) => void;
   setLanguage: (value: Language) => void;
   setCustomTypes: (value: string[]) => void;
+  setLocales: (locales: string[], defaultLocale: string) => void;
+  setLintConfig: (value: LintConfig) => void;
 }
 
 export const useUiStore = create<UiStore>()(
@@ -36,10 +48,14 @@ export const useUiStore = create<UiStore>()(
       // Initial state
       darkMode: false,
       sidebarCollapsed: false,
+      sidebarView: 'kind',
       previewPanelOpen: true,
       databaseType: 'mysql',
       language: (i18n.language as Language) || 'en',
       customTypes: [],
+      locales: [...DEFAULT_LOCALES],
+      defaultLocale: DEFAULT_LOCALE,
+      lintConfig: {},
 
       // Actions
       toggleDarkMode: () => set((state) => ({ darkMode: !state.darkMode })),
@@ -47,6 +63,7 @@ export const useUiStore = create<UiStore>()(
       togglePreviewPanel: () => set((state) => ({ previewPanelOpen: !state.previewPanelOpen })),
       setDarkMode: (value: boolean) => set({ darkMode: value }),
       setSidebarCollapsed: (value: boolean) => set({ sidebarCollapsed: value }),
+      setSidebarView: (value: SidebarView) => set({ sidebarView: value }),
       setPreviewPanelOpen: (value: boolean) => set({ previewPanelOpen: value }),
       setDatabaseType: (value: DatabaseType) => set({ databaseType: value }),
       setLanguage: (value: Language) => {
@@ -55,6 +72,8 @@ export const useUiStore = create<UiStore>()(
         set({ language: value });
       },
       setCustomTypes: (value: string[]) => set({ customTypes: value }),
+      setLocales: (locales: string[], defaultLocale: string) => set({ locales, defaultLocale }),
+      setLintConfig: (value: LintConfig) => set({ lintConfig: value }),
     }),
     {
       name: 'omnify-gui-ui',
@@ -62,6 +81,14 @@ export const useUiStore = create<UiStore>()(
   )
 );
 
+// Display names of the databases
+export const DATABASE_LABELS: Record<DatabaseType, string> = {
+  mysql: 'MySQL / MariaDB',
+  postgresql: 'PostgreSQL',
+  sqlite: 'SQLite',
+  sqlserver: 'SQL Server',
+};
+
 // Index types per database
 export const INDEX_TYPES_BY_DB: Record<DatabaseType, string[]> = {
   mysql: ['btree', 'hash', 'fulltext', 'spatial'],
@@ -0,0 +1,99 @@
+/**
+ * Schema editor form tests
+ * Saves the fixture corpus in shared/fixtures/roundtrip through the visual editor
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readdirSync, readFileSync } from 'fs';
+import { parse } from 'yaml';
+import { guiSchemaFromData, guiSchemaToData } from '../../shared/schemaSerialization.js';
+import { propertyFromForm, propertyToForm, schemaFromForm, schemaToForm } from './schemaForm.js';
+import type { GuiSchema } from '../../shared/types.js';
+
+const fixturesDir = new URL('../../shared/fixtures/roundtrip/', import.meta.url);
+const fixtures = readdirSync(fixturesDir).filter((f) => f.endsWith('.yaml')).sort();
+
+function readFixture(file: string): { raw: Record<string, unknown>; schema: GuiSchema } {
+  const raw = parse(readFileSync(new URL(file, fixturesDir), 'utf-8')) as Record<string, unknown>;
+  const schema = guiSchemaFromData(file.replace(/\.yaml$/, ''), raw, { relativePath: file });
+  return { raw, schema: JSON.parse(JSON.stringify(schema)) as GuiSchema };
+}
+
+function schemaOf(data: Record<string, unknown>): GuiSchema {
+  return guiSchemaFromData('Sample', data);
+}
+
+// ============================================================================
+// Round-trip Tests
+// ============================================================================
+
+describe('editor round-trip corpus', () => {
+  it.each(fixtures)('%s is saved back unchanged from the visual editor', (file) => {
+    const { raw, schema } = readFixture(file);
+    expect(guiSchemaToData(schemaFromForm(schemaToForm(schema)), raw)).toEqual(raw);
+  });
+});
+
+// ============================================================================
+// Option Tests
+// ============================================================================
+
+describe('schemaFromForm', () => {
+  it('keeps options that hold the default when the schema had them', () => {
+    const options = { id: true, idType: 'BigInt', timestamps: true, softDelete: false, translations: false };
+    const schema = schemaOf({ properties: { title: { type: 'String' } }, options });
+
+    expect(schemaFromForm(schemaToForm(schema)).options).toEqual(options);
+  });
+
+  it('writes only changed options for a schema without them', () => {
+    const form = schemaToForm(schemaOf({ properties: { title: { type: 'String' } } }));
+    expect(schemaFromForm(form).options).toBeUndefined();
+
+    form.schemaData = { ...form.schemaData, timestamps: false, softDelete: true };
+    expect(schemaFromForm(form).options).toEqual({ timestamps: false, softDelete: true });
+  });
+
+  it('keeps the id type of a schema without an auto id', () => {
+    const schema = schemaOf({ options: { id: false, idType: 'Uuid' } });
+    expect(schemaFromForm(schemaToForm(schema)).options).toEqual({ id: false, idType: 'Uuid' });
+  });
+
+  it('saves unique keys back to options.unique in their shape', () => {
+    const flat = schemaOf({ options: { unique: ['email', 'owner'] } });
+    const nested = schemaOf({ options: { indexes: ['email'], unique: [['email'], ['owner', 'slug']] } });
+
+    expect(schemaFromForm(schemaToForm(flat)).options).toEqual({ unique: ['email', 'owner'] });
+    expect(schemaFromForm(schemaToForm(nested)).options).toEqual({
+      indexes: [{ columns: ['email'] }],
+      unique: [['email'], ['owner', 'slug']],
+    });
+  });
+
+  it('moves a unique key given a name to the indexes', () => {
+    const form = schemaToForm(schemaOf({ options: { unique: [['email']] } }));
+    form.indexes = form.indexes.map((idx) => ({ ...idx, name: 'accounts_email_unique' }));
+
+    expect(schemaFromForm(form).options).toEqual({
+      indexes: [{ columns: ['email'], unique: true, name: 'accounts_email_unique' }],
+    });
+  });
+});
+
+// ============================================================================
+// Property Tests
+// ============================================================================
+
+describe('propertyFromForm', () => {
+  it('keeps explicit false flags', () => {
+    const prop = { type: 'String', nullable: false, unique: false, unsigned: false };
+    expect(propertyFromForm(propertyToForm('title', prop))).toEqual(prop);
+  });
+
+  it('writes only set flags for a new property', () => {
+    expect(propertyFromForm({ name: 'title', type: 'String', nullable: false, unique: true })).toEqual({
+      type: 'String',
+      unique: true,
+    });
+  });
+});
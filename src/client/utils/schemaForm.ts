@@ -0,0 +1,256 @@
+/**
+ * Conversion between schema definitions and the schema editor form state
+ *
+ * Form rows keep the definition they were loaded from, so keys the form does
+ * not edit (plugin-specific keys) are written back unchanged.
+ */
+
+import type {
+  GuiEnumValue,
+  GuiIndexDefinition,
+  GuiPropertyDefinition,
+  GuiSchema,
+  GuiSchemaOptions,
+} from '../../shared/types.js';
+import type { IndexFormData, PropertyFormData, SchemaFormData } from '../components/schema/types.js';
+
+/**
+ * Form state of a whole schema in the editor
+ */
+export interface SchemaEditorForm {
+  schemaData: SchemaFormData;
+  properties: PropertyFormData[];
+  indexes: IndexFormData[];
+  enumValues: GuiEnumValue[];
+}
+
+/**
+ * Property keys edited through PropertyFormData
+ */
+const PROPERTY_FORM_KEYS = new Set([
+  'type', 'nullable', 'unique', 'primaryKey', 'autoIncrement', 'default', 'displayName', 'description',
+  'relation', 'target', 'targets', 'morphName', 'inversedBy', 'mappedBy', 'onDelete', 'onUpdate', 'owning',
+  'joinTable', 'length', 'precision', 'scale', 'unsigned', 'enum', 'pivotFields',
+  'multiple', 'maxFiles', 'accept', 'maxSize',
+]);
+
+/**
+ * Schema option keys edited through SchemaFormData and the indexes card
+ */
+const OPTION_FORM_KEYS = new Set([
+  'id', 'idType', 'timestamps', 'softDelete', 'tableName', 'translations', 'indexes', 'unique',
+  'authenticatable', 'authenticatableLoginIdField', 'authenticatablePasswordField', 'authenticatableGuardName',
+]);
+
+function withoutKeys<T extends object>(value: T | undefined, keys: Set<string>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(value ?? {}).filter(([key]) => !keys.has(key)));
+}
+
+/**
+ * Whether a form value is written: a key the loaded definition has is kept even
+ * when it holds the default (`nullable: false`, `timestamps: true`), others
+ * only when they differ from it
+ */
+function isWritten(value: unknown, fallback: unknown, key: string, source: object | undefined): boolean {
+  if (value === undefined || value === '') return false;
+  return value !== fallback || (source !== undefined && key in source);
+}
+
+export function propertyToForm(name: string, prop: GuiPropertyDefinition): PropertyFormData {
+  return {
+    name,
+    type: prop.type,
+    nullable: prop.nullable,
+    unique: prop.unique,
+    primaryKey: prop.primaryKey,
+    autoIncrement: prop.autoIncrement,
+    default: prop.default !== undefined ? String(prop.default) : undefined,
+    displayName: prop.displayName,
+    description: prop.description,
+    relation: prop.relation,
+    target: prop.target,
+    targets: prop.targets,
+    morphName: prop.morphName,
+    inversedBy: prop.inversedBy,
+    mappedBy: prop.mappedBy,
+    onDelete: prop.onDelete,
+    onUpdate: prop.onUpdate,
+    owning: prop.owning,
+    joinTable: prop.joinTable,
+    length: prop.length,
+    precision: prop.precision,
+    scale: prop.scale,
+    unsigned: prop.unsigned,
+    enum: prop.enum as PropertyFormData['enum'],
+    pivotFields: prop.pivotFields,
+    multiple: prop.multiple,
+    maxFiles: prop.maxFiles,
+    accept: prop.accept,
+    maxSize: prop.maxSize,
+    source: prop,
+  };
+}
+
+export function propertyFromForm(prop: PropertyFormData): GuiPropertyDefinition {
+  const source = prop.source;
+  const propDef = { ...withoutKeys(source, PROPERTY_FORM_KEYS), type: prop.type } as GuiPropertyDefinition;
+
+  if (isWritten(prop.nullable, false, 'nullable', source)) propDef.nullable = prop.nullable;
+  if (isWritten(prop.unique, false, 'unique', source)) propDef.unique = prop.unique;
+  if (isWritten(prop.primaryKey, false, 'primaryKey', source)) propDef.primaryKey = prop.primaryKey;
+  if (isWritten(prop.autoIncrement, false, 'autoIncrement', source)) propDef.autoIncrement = prop.autoIncrement;
+  if (prop.default !== undefined && prop.default !== '') {
+    // The form edits defaults as text: keep the loaded value while it reads the same
+    propDef.default = source?.default !== undefined && String(source.default) === prop.default
+      ? source.default
+      : prop.default;
+  }
+  if (prop.displayName) propDef.displayName = prop.displayName;
+  if (prop.description) propDef.description = prop.description;
+  if (prop.relation) propDef.relation = prop.relation;
+  if (prop.target) propDef.target = prop.target;
+  if (prop.targets && prop.targets.length > 0) propDef.targets = prop.targets;
+  if (prop.morphName) propDef.morphName = prop.morphName;
+  if (prop.inversedBy) propDef.inversedBy = prop.inversedBy;
+  if (prop.mappedBy) propDef.mappedBy = prop.mappedBy;
+  if (prop.onDelete) propDef.onDelete = prop.onDelete;
+  if (prop.onUpdate) propDef.onUpdate = prop.onUpdate;
+  if (prop.owning !== undefined) propDef.owning = prop.owning;
+  if (prop.joinTable) propDef.joinTable = prop.joinTable;
+  if (prop.length !== undefined) propDef.length = prop.length;
+  if (prop.precision !== undefined) propDef.precision = prop.precision;
+  if (prop.scale !== undefined) propDef.scale = prop.scale;
+  if (isWritten(prop.unsigned, false, 'unsigned', source)) propDef.unsigned = prop.unsigned;
+  if (prop.enum) propDef.enum = prop.enum;
+  if (prop.pivotFields && Object.keys(prop.pivotFields).length > 0) {
+    propDef.pivotFields = prop.pivotFields;
+  }
+  if (isWritten(prop.multiple, false, 'multiple', source)) propDef.multiple = prop.multiple;
+  if (prop.maxFiles) propDef.maxFiles = prop.maxFiles;
+  if (prop.accept && prop.accept.length > 0) propDef.accept = prop.accept;
+  if (prop.maxSize) propDef.maxSize = prop.maxSize;
+
+  return propDef;
+}
+
+/**
+ * Editor form state of a loaded schema. Unique keys from `options.unique` become
+ * unique index rows marked as constraints, to be saved back there.
+ */
+export function schemaToForm(schema: GuiSchema): SchemaEditorForm {
+  const options = schema.options;
+  const hasAutoId = options?.id !== false;
+  const idType = options?.idType ?? 'BigInt';
+
+  const schemaData: SchemaFormData = {
+    name: schema.name,
+    kind: schema.kind,
+    displayName: schema.displayName,
+    singular: schema.singular,
+    plural: schema.plural,
+    titleIndex: schema.titleIndex,
+    group: schema.group,
+    primaryKey: hasAutoId ? (idType as 'BigInt' | 'Int' | 'Uuid') : 'none',
+    timestamps: options?.timestamps ?? true,
+    softDelete: options?.softDelete ?? false,
+    tableName: options?.tableName,
+    translations: options?.translations ?? false,
+    authenticatable: options?.authenticatable ?? false,
+    authenticatableLoginIdField: options?.authenticatableLoginIdField ?? 'email',
+    authenticatablePasswordField: options?.authenticatablePasswordField ?? 'password',
+    authenticatableGuardName: options?.authenticatableGuardName ?? 'web',
+    source: schema,
+  };
+
+  const indexes: IndexFormData[] = (options?.indexes ?? []).map((idx) => ({
+    name: idx.name,
+    columns: [...idx.columns],
+    unique: idx.unique,
+    type: idx.type,
+  }));
+
+  const rawUnique = options?.unique ?? [];
+  const uniqueKeys = rawUnique.length > 0 && !Array.isArray(rawUnique[0])
+    ? [rawUnique as string[]]
+    : (rawUnique as string[][]);
+  for (const columns of uniqueKeys) {
+    indexes.push({ columns: [...columns], unique: true, constraint: true });
+  }
+
+  return {
+    schemaData,
+    properties: Object.entries(schema.properties ?? {}).map(([propName, prop]) => propertyToForm(propName, prop)),
+    indexes,
+    enumValues: schema.values ? [...schema.values] : [],
+  };
+}
+
+/**
+ * Schema saved from the editor form state. Keys the form does not edit are
+ * kept from the loaded schema, and form-managed keys it had are written even
+ * when they hold the default.
+ */
+export function schemaFromForm({ schemaData, properties, indexes, enumValues }: SchemaEditorForm): GuiSchema {
+  const source = schemaData.source;
+  const schema: GuiSchema = {
+    name: schemaData.name,
+    kind: schemaData.kind,
+  };
+
+  if (schemaData.displayName) schema.displayName = schemaData.displayName;
+  if (schemaData.singular) schema.singular = schemaData.singular;
+  if (schemaData.plural) schema.plural = schemaData.plural;
+  if (schemaData.titleIndex) schema.titleIndex = schemaData.titleIndex;
+  if (schemaData.group) schema.group = schemaData.group;
+
+  if (schemaData.kind === 'enum') {
+    schema.values = enumValues;
+  } else if (properties.length > 0 || source?.properties) {
+    schema.properties = Object.fromEntries(properties.map((prop) => [prop.name, propertyFromForm(prop)]));
+  }
+  if (source?.associations) schema.associations = source.associations;
+  if (source?.extra) schema.extra = source.extra;
+
+  const sourceOptions = source?.options;
+  const options = withoutKeys(sourceOptions, OPTION_FORM_KEYS) as GuiSchemaOptions;
+  const setOption = <K extends keyof GuiSchemaOptions>(key: K, value: GuiSchemaOptions[K], fallback: unknown): void => {
+    if (isWritten(value, fallback, key, sourceOptions)) options[key] = value;
+  };
+
+  const hasAutoId = schemaData.primaryKey !== 'none';
+  setOption('id', hasAutoId, true);
+  if (hasAutoId) {
+    setOption('idType', schemaData.primaryKey as 'BigInt' | 'Int' | 'Uuid', 'BigInt');
+  } else if (sourceOptions?.idType !== undefined) {
+    // The form has no id type without an auto id: keep the loaded one
+    options.idType = sourceOptions.idType;
+  }
+  setOption('timestamps', schemaData.timestamps ?? true, true);
+  setOption('softDelete', schemaData.softDelete ?? false, false);
+  setOption('tableName', schemaData.tableName, undefined);
+  setOption('translations', schemaData.translations ?? false, false);
+  setOption('authenticatable', schemaData.authenticatable ?? false, false);
+  setOption('authenticatableLoginIdField', schemaData.authenticatableLoginIdField, 'email');
+  setOption('authenticatablePasswordField', schemaData.authenticatablePasswordField, 'password');
+  setOption('authenticatableGuardName', schemaData.authenticatableGuardName, 'web');
+
+  // Unique keys loaded from `options.unique` go back there while they stay unnamed unique keys
+  const isUniqueKey = (idx: IndexFormData): boolean => !!idx.constraint && !!idx.unique && !idx.name && !idx.type;
+  const uniqueKeys = indexes.filter(isUniqueKey).map((idx) => idx.columns);
+  const regularIndexes = indexes.filter((idx) => !isUniqueKey(idx)).map((idx) => ({
+    columns: idx.columns,
+    ...(idx.unique !== undefined && { unique: idx.unique }),
+    ...(idx.name && { name: idx.name }),
+    ...(idx.type && { type: idx.type as GuiIndexDefinition['type'] }),
+  }));
+  if (regularIndexes.length > 0 || sourceOptions?.indexes) options.indexes = regularIndexes;
+  if (uniqueKeys.length > 0) {
+    // A single key loaded in the flat form (`unique: [a, b]`) keeps it
+    const wasFlat = !!sourceOptions?.unique?.length && !Array.isArray(sourceOptions.unique[0]);
+    options.unique = wasFlat && uniqueKeys.length === 1 ? uniqueKeys[0] : uniqueKeys;
+  }
+
+  if (Object.keys(options).length > 0 || sourceOptions) schema.options = options;
+
+  return schema;
+}
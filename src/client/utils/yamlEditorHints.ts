@@ -0,0 +1,52 @@
+/**
+ * CodeMirror extensions for schema-aware completion and hover docs in the YAML editor
+ */
+
+import type { CompletionContext, CompletionResult } from '@codemirror/autocomplete';
+import { EditorState, type Extension } from '@codemirror/state';
+import { hoverTooltip } from '@codemirror/view';
+import { completeYaml, describeYamlKey, type YamlHintContext } from '../../shared/yamlCompletion.js';
+
+/**
+ * Extensions reading schema names and custom types through `getHints`,
+ * so they stay current without recreating the editor
+ */
+export function yamlSchemaHints(getHints: () => YamlHintContext): Extension {
+  const complete = (context: CompletionContext): CompletionResult | null => {
+    const result = completeYaml(context.state.doc.toString(), context.pos, getHints());
+    if (!result) return null;
+    const keys = result.options[0]?.kind === 'key';
+    return {
+      from: result.from,
+      options: result.options.map((option) => ({
+        label: option.label,
+        type: option.kind === 'key' ? 'property' : 'enum',
+        info: option.info,
+        apply: option.kind === 'key' ? `${option.label}: ` : option.label,
+      })),
+      // Values such as `SET NULL` contain spaces, keys do not
+      validFor: keys ? /^\w*$/ : /^[\w ]*$/,
+    };
+  };
+
+  const hover = hoverTooltip((view, pos) => {
+    const key = describeYamlKey(view.state.doc.toString(), pos);
+    if (!key) return null;
+    return {
+      pos: key.from,
+      end: key.to,
+      above: true,
+      create: () => {
+        const dom = document.createElement('div');
+        dom.style.padding = '4px 8px';
+        dom.style.maxWidth = '360px';
+        const title = document.createElement('strong');
+        title.textContent = key.key;
+        dom.append(title, document.createElement('br'), key.doc);
+        return { dom };
+      },
+    };
+  });
+
+  return [EditorState.languageData.of(() => [{ autocomplete: complete }]), hover];
+}
@@ -0,0 +1,30 @@
+/**
+ * CodeMirror lint extension showing YAML diagnostics in the editor and its gutter
+ */
+
+import { linter, lintGutter } from '@codemirror/lint';
+import type { Extension } from '@codemirror/state';
+import type { YamlDiagnostic } from '../../shared/yamlDiagnostics.js';
+
+// Pause in typing before the document is diagnosed again
+const LINT_DELAY_MS = 600;
+
+/**
+ * Lint markers from `diagnose`, which may validate on the server. Results for
+ * a document edited while they were computed are dropped by the linter.
+ */
+export function yamlLint(diagnose: (source: string) => Promise<YamlDiagnostic[]>): Extension {
+  return [
+    linter(
+      async (view) =>
+        (await diagnose(view.state.doc.toString())).map(({ from, to, severity, message }) => ({
+          from,
+          to,
+          severity,
+          message,
+        })),
+      { delay: LINT_DELAY_MS }
+    ),
+    lintGutter(),
+  ];
+}
@@ -5,7 +5,7 @@
 import { Router, type Request, type Response, type IRouter } from 'express';
 import type { ApiResponse, GuiConfig } from '../../shared/types.js';
 import type { AppConfig } from '../app.js';
-import { DEFAULT_PORT, DEFAULT_HOST } from '../../shared/constants.js';
+import { DEFAULT_PORT, DEFAULT_HOST, DEFAULT_LOCALES, DEFAULT_LOCALE } from '../../shared/constants.js';
 
 export const configRouter: IRouter = Router();
 
@@ -18,6 +18,9 @@ configRouter.get('/', (req: Request, res: Response) => {
     port: Number(process.env.PORT) || DEFAULT_PORT,
     host: process.env.HOST ?? DEFAULT_HOST,
     customTypes: appConfig.customTypes ?? [],
+    locales: appConfig.locales?.length ? appConfig.locales : [...DEFAULT_LOCALES],
+    defaultLocale: appConfig.defaultLocale ?? appConfig.locales?.[0] ?? DEFAULT_LOCALE,
+    lint: appConfig.lint ?? {},
     plugins: [], // Plugins are fetched via /api/plugins
   };
 
@@ -0,0 +1,71 @@
+/**
+ * ER diagram export API routes
+ */
+
+import { Router, type Request, type Response, type IRouter } from 'express';
+import { schemaService } from '../services/schemaService.js';
+import { layoutService } from '../services/layoutService.js';
+import {
+  exportDiagram,
+  isDiagramExportFormat,
+  DIAGRAM_EXPORT_FORMATS,
+  type DiagramExportResult,
+} from '../../shared/diagramExport.js';
+import type { ApiResponse } from '../../shared/types.js';
+import type { AppConfig } from '../app.js';
+
+export const diagramRouter: IRouter = Router();
+
+// GET /api/diagram/export/:format?schemas=A,B - Export the model (or a subset)
+diagramRouter.get('/export/:format', async (req: Request, res: Response) => {
+  try {
+    const config = req.app.locals.config as AppConfig;
+    const { format } = req.params;
+
+    if (!isDiagramExportFormat(format!)) {
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'INVALID_FORMAT',
+          message: `Invalid export format: ${format}. Valid formats: ${DIAGRAM_EXPORT_FORMATS.join(', ')}`,
+        },
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const only = typeof req.query.schemas === 'string' && req.query.schemas
+      ? req.query.schemas.split(',').map((s) => s.trim()).filter(Boolean)
+      : undefined;
+
+    const schemas = await schemaService.loadAll(config.schemasDir);
+    const unknown = (only ?? []).filter((name) => !schemas[name]);
+    if (unknown.length > 0) {
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: `Unknown schemas: ${unknown.join(', ')}`,
+        },
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const layout = await layoutService.load(config.schemasDir, schemas);
+    const response: ApiResponse<DiagramExportResult> = {
+      success: true,
+      data: exportDiagram(schemas, format, { layout, ...(only ? { only } : {}) }),
+    };
+    res.json(response);
+  } catch (error) {
+    const response: ApiResponse = {
+      success: false,
+      error: {
+        code: 'EXPORT_ERROR',
+        message: (error as Error).message,
+      },
+    };
+    res.status(500).json(response);
+  }
+});
@@ -0,0 +1,103 @@
+/**
+ * Schema draft API routes
+ */
+
+import { Router, type Request, type Response, type IRouter } from 'express';
+import { draftService } from '../services/draftService.js';
+import { isValidSchemaName } from '../../shared/validation.js';
+import type { ApiResponse, SchemaDraft } from '../../shared/types.js';
+import type { AppConfig } from '../app.js';
+
+export const draftsRouter: IRouter = Router();
+
+function rejectInvalidName(name: string | undefined, res: Response): boolean {
+  if (name && isValidSchemaName(name)) return false;
+  const response: ApiResponse = {
+    success: false,
+    error: {
+      code: 'VALIDATION_ERROR',
+      message: 'Invalid schema name',
+    },
+  };
+  res.status(400).json(response);
+  return true;
+}
+
+// GET /api/drafts/:name - Get the draft of a schema (null when there is none)
+draftsRouter.get('/:name', async (req: Request, res: Response) => {
+  const { name } = req.params;
+  if (rejectInvalidName(name, res)) return;
+
+  const config = req.app.locals.config as AppConfig;
+  const response: ApiResponse<SchemaDraft | null> = {
+    success: true,
+    data: await draftService.get(config.cwd, name!),
+  };
+  res.json(response);
+});
+
+// PUT /api/drafts/:name - Save the draft of a schema
+draftsRouter.put('/:name', async (req: Request, res: Response) => {
+  const { name } = req.params;
+  if (rejectInvalidName(name, res)) return;
+
+  try {
+    const config = req.app.locals.config as AppConfig;
+    const { schema, base, propertyRenames } = req.body as Partial<SchemaDraft>;
+
+    if (!schema || typeof schema !== 'object') {
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Draft must have a schema',
+        },
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const saved = await draftService.save(config.cwd, {
+      name: name!,
+      schema,
+      base,
+      propertyRenames: propertyRenames ?? [],
+    });
+    const response: ApiResponse<SchemaDraft> = {
+      success: true,
+      data: saved,
+    };
+    res.json(response);
+  } catch (error) {
+    const response: ApiResponse = {
+      success: false,
+      error: {
+        code: 'SAVE_ERROR',
+        message: (error as Error).message,
+      },
+    };
+    res.status(500).json(response);
+  }
+});
+
+// DELETE /api/drafts/:name - Discard the draft of a schema
+draftsRouter.delete('/:name', async (req: Request, res: Response) => {
+  const { name } = req.params;
+  if (rejectInvalidName(name, res)) return;
+
+  try {
+    const config = req.app.locals.config as AppConfig;
+    await draftService.delete(config.cwd, name!);
+    const response: ApiResponse = { success: true };
+    res.json(response);
+  } catch (error) {
+    const response: ApiResponse = {
+      success: false,
+      error: {
+        code: 'DELETE_ERROR',
+        message: (error as Error).message,
+      },
+    };
+    res.status(500).json(response);
+  }
+});
@@ -0,0 +1,72 @@
+/**
+ * Schema folder API routes
+ */
+
+import { Router, type Request, type Response, type IRouter } from 'express';
+import { schemaService } from '../services/schemaService.js';
+import { isValidFolderPath } from '../../shared/validation.js';
+import type { ApiResponse } from '../../shared/types.js';
+import type { AppConfig } from '../app.js';
+
+export const foldersRouter: IRouter = Router();
+
+// GET /api/folders - List folders inside the schemas directory
+foldersRouter.get('/', async (req: Request, res: Response) => {
+  try {
+    const config = req.app.locals.config as AppConfig;
+    const folders = await schemaService.listFolders(config.schemasDir);
+
+    const response: ApiResponse<string[]> = {
+      success: true,
+      data: folders,
+    };
+    res.json(response);
+  } catch (error) {
+    const response: ApiResponse = {
+      success: false,
+      error: {
+        code: 'LOAD_ERROR',
+        message: (error as Error).message,
+      },
+    };
+    res.status(500).json(response);
+  }
+});
+
+// POST /api/folders - Create a folder inside the schemas directory
+foldersRouter.post('/', async (req: Request, res: Response) => {
+  try {
+    const config = req.app.locals.config as AppConfig;
+    const { path } = req.body as { path?: string };
+
+    if (typeof path !== 'string' || !path || !isValidFolderPath(path)) {
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Folder path must be a relative path of letters, digits, "_", "-" and "."',
+        },
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    await schemaService.createFolder(config.schemasDir, path);
+    const folders = await schemaService.listFolders(config.schemasDir);
+
+    const response: ApiResponse<string[]> = {
+      success: true,
+      data: folders,
+    };
+    res.status(201).json(response);
+  } catch (error) {
+    const response: ApiResponse = {
+      success: false,
+      error: {
+        code: 'SAVE_ERROR',
+        message: (error as Error).message,
+      },
+    };
+    res.status(500).json(response);
+  }
+});
@@ -0,0 +1,120 @@
+/**
+ * Generation API routes
+ */
+
+import { Router, type Request, type Response, type IRouter } from 'express';
+import { generationService, GenerationKeptError, GenerationStaleError } from '../services/generationService.js';
+import type { ApiResponse, DryRunResult, GenerationPlan, GenerationWriteResult } from '../../shared/types.js';
+import type { AppConfig } from '../app.js';
+
+export const generateRouter: IRouter = Router();
+
+// GET /api/generate/dry-run - Files the configured plugins would generate, without writing them
+generateRouter.get('/dry-run', async (req: Request, res: Response) => {
+  try {
+    const config = req.app.locals.config as AppConfig;
+    const result = await generationService.dryRun(config.cwd, config.schemasDir);
+    const response: ApiResponse<DryRunResult> = {
+      success: true,
+      data: result,
+    };
+    res.json(response);
+  } catch (error) {
+    const response: ApiResponse = {
+      success: false,
+      error: {
+        code: 'GENERATION_ERROR',
+        message: (error as Error).message,
+      },
+    };
+    res.status(500).json(response);
+  }
+});
+
+// GET /api/generate/plan - Generated files with their status against the working tree
+generateRouter.get('/plan', async (req: Request, res: Response) => {
+  try {
+    const config = req.app.locals.config as AppConfig;
+    const plan = await generationService.plan(config.cwd, config.schemasDir);
+    const response: ApiResponse<GenerationPlan> = {
+      success: true,
+      data: plan,
+    };
+    res.json(response);
+  } catch (error) {
+    const response: ApiResponse = {
+      success: false,
+      error: {
+        code: 'GENERATION_ERROR',
+        message: (error as Error).message,
+      },
+    };
+    res.status(500).json(response);
+  }
+});
+
+// POST /api/generate/write - Write the reviewed files ({ files: [{ path, hash }] })
+// 409 STALE with the paths in error.details.paths when their output changed since the review,
+// 400 FILE_KEPT when existing skipIfExists files are selected
+generateRouter.post('/write', async (req: Request, res: Response) => {
+  try {
+    const config = req.app.locals.config as AppConfig;
+    const { files } = req.body as { files?: unknown };
+
+    const valid =
+      Array.isArray(files) &&
+      files.length > 0 &&
+      files.every((f) => typeof f?.path === 'string' && typeof f?.hash === 'string');
+    if (!valid) {
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'files must be a non-empty list of { path, hash }',
+        },
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const result = await generationService.write(config.cwd, config.schemasDir, files as { path: string; hash: string }[]);
+    const response: ApiResponse<GenerationWriteResult> = {
+      success: true,
+      data: result,
+    };
+    res.json(response);
+  } catch (error) {
+    if (error instanceof GenerationKeptError) {
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'FILE_KEPT',
+          message: error.message,
+          details: { paths: error.paths },
+        },
+      };
+      res.status(400).json(response);
+      return;
+    }
+    if (error instanceof GenerationStaleError) {
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'STALE',
+          message: error.message,
+          details: { paths: error.paths },
+        },
+      };
+      res.status(409).json(response);
+      return;
+    }
+    const response: ApiResponse = {
+      success: false,
+      error: {
+        code: 'GENERATION_ERROR',
+        message: (error as Error).message,
+      },
+    };
+    res.status(500).json(response);
+  }
+});
@@ -0,0 +1,73 @@
+/**
+ * Diagram layout API routes
+ */
+
+import { Router, type Request, type Response, type IRouter } from 'express';
+import { schemaService } from '../services/schemaService.js';
+import { layoutService } from '../services/layoutService.js';
+import type { ApiResponse, DiagramLayout } from '../../shared/types.js';
+import type { AppConfig } from '../app.js';
+
+export const layoutRouter: IRouter = Router();
+
+// GET /api/layout - Get the saved diagram layout
+layoutRouter.get('/', async (req: Request, res: Response) => {
+  try {
+    const config = req.app.locals.config as AppConfig;
+    const schemas = await schemaService.loadAll(config.schemasDir);
+    const layout = await layoutService.load(config.schemasDir, schemas);
+
+    const response: ApiResponse<DiagramLayout> = {
+      success: true,
+      data: layout,
+    };
+    res.json(response);
+  } catch (error) {
+    const response: ApiResponse = {
+      success: false,
+      error: {
+        code: 'LOAD_ERROR',
+        message: (error as Error).message,
+      },
+    };
+    res.status(500).json(response);
+  }
+});
+
+// PUT /api/layout - Save the diagram layout
+layoutRouter.put('/', async (req: Request, res: Response) => {
+  try {
+    const config = req.app.locals.config as AppConfig;
+    const layout = req.body as DiagramLayout;
+
+    if (!layout || typeof layout.nodes !== 'object' || !Array.isArray(layout.groups)) {
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Layout must have nodes and groups',
+        },
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const schemas = await schemaService.loadAll(config.schemasDir);
+    const saved = await layoutService.save(config.schemasDir, layout, schemas);
+
+    const response: ApiResponse<DiagramLayout> = {
+      success: true,
+      data: saved,
+    };
+    res.json(response);
+  } catch (error) {
+    const response: ApiResponse = {
+      success: false,
+      error: {
+        code: 'SAVE_ERROR',
+        message: (error as Error).message,
+      },
+    };
+    res.status(500).json(response);
+  }
+});
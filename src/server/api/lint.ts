@@ -0,0 +1,31 @@
+/**
+ * Schema lint API routes
+ */
+
+import { Router, type Request, type Response, type IRouter } from 'express';
+import { lintService } from '../services/lintService.js';
+import type { ApiResponse, ValidationError } from '../../shared/types.js';
+import type { AppConfig } from '../app.js';
+
+export const lintRouter: IRouter = Router();
+
+// GET /api/lint - Lint all schemas on disk with the configured rules
+lintRouter.get('/', async (req: Request, res: Response) => {
+  try {
+    const config = req.app.locals.config as AppConfig;
+    const response: ApiResponse<ValidationError[]> = {
+      success: true,
+      data: await lintService.lintFromDisk(config.schemasDir, config.lint),
+    };
+    res.json(response);
+  } catch (error) {
+    const response: ApiResponse = {
+      success: false,
+      error: {
+        code: 'LINT_ERROR',
+        message: (error as Error).message,
+      },
+    };
+    res.status(500).json(response);
+  }
+});
@@ -4,12 +4,21 @@
 
 import { Router, type Request, type Response, type IRouter } from 'express';
 import { previewService } from '../services/previewService.js';
-import type { ApiResponse, PreviewResult, PreviewType } from '../../shared/types.js';
+import { SQL_DIALECTS } from '../../shared/constants.js';
+import type { ApiResponse, PreviewResult, PreviewType, SqlDialect } from '../../shared/types.js';
 import type { AppConfig } from '../app.js';
 
 export const previewRouter: IRouter = Router();
 
-// GET /api/preview/:type - Get code preview for all schemas
+/**
+ * SQL dialect of the `dialect` query parameter (mysql when absent), or null when invalid
+ */
+function parseDialect(value: unknown): SqlDialect | null {
+  if (value === undefined) return 'mysql';
+  return SQL_DIALECTS.includes(value as SqlDialect) ? (value as SqlDialect) : null;
+}
+
+// GET /api/preview/:type?dialect= - Get code preview for all schemas (SQL in the given dialect)
 previewRouter.get('/:type', async (req: Request, res: Response) => {
   try {
     const config = req.app.locals.config as AppConfig;
@@ -27,7 +36,22 @@ previewRouter.get('/:type', async (req: Request, res: Response) => {
       return;
     }
 
-    const previews = await previewService.generateAll(config.schemasDir, type as PreviewType);
+    const dialect = parseDialect(req.query.dialect);
+    if (!dialect) {
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'INVALID_DIALECT',
+          message: `Invalid SQL dialect: ${String(req.query.dialect)}. Valid dialects: ${SQL_DIALECTS.join(', ')}`,
+        },
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const previews = await previewService.generateAll(config.schemasDir, type as PreviewType, dialect, {
+      customTypes: config.customTypeScriptTypes,
+    });
     const response: ApiResponse<PreviewResult[]> = {
       success: true,
       data: previews,
@@ -45,7 +69,7 @@ previewRouter.get('/:type', async (req: Request, res: Response) => {
   }
 });
 
-// GET /api/preview/:type/:name - Get code preview for single schema
+// GET /api/preview/:type/:name?dialect= - Get code preview for single schema
 previewRouter.get('/:type/:name', async (req: Request, res: Response) => {
   try {
     const config = req.app.locals.config as AppConfig;
@@ -63,10 +87,25 @@ previewRouter.get('/:type/:name', async (req: Request, res: Response) => {
       return;
     }
 
+    const dialect = parseDialect(req.query.dialect);
+    if (!dialect) {
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'INVALID_DIALECT',
+          message: `Invalid SQL dialect: ${String(req.query.dialect)}. Valid dialects: ${SQL_DIALECTS.join(', ')}`,
+        },
+      };
+      res.status(400).json(response);
+      return;
+    }
+
     const preview = await previewService.generateForSchema(
       config.schemasDir,
       name!,
-      type as PreviewType
+      type as PreviewType,
+      dialect,
+      { customTypes: config.customTypeScriptTypes }
     );
 
     if (!preview) {
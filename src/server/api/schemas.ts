@@ -3,8 +3,13 @@
  */
 
 import { Router, type Request, type Response, type IRouter } from 'express';
-import { schemaService } from '../services/schemaService.js';
-import type { ApiResponse, GuiSchema } from '../../shared/types.js';
+import { schemaService, SchemaConflictError } from '../services/schemaService.js';
+import { renameService } from '../services/renameService.js';
+import { draftService } from '../services/draftService.js';
+import { posix } from 'path';
+import { isValidSchemaName, isValidIdentifier, isValidFolderPath } from '../../shared/validation.js';
+import { findSchemaUsages } from '../../shared/schemaUsages.js';
+import type { ApiError, ApiResponse, GuiSchema, RenameFileChange, RenamePreview } from '../../shared/types.js';
 import type { AppConfig } from '../app.js';
 
 export const schemasRouter: IRouter = Router();
@@ -85,6 +90,20 @@ schemasRouter.post('/', async (req: Request, res: Response) => {
       return;
     }
 
+    // New schemas may target a folder through relativePath
+    const folder = schema.relativePath ? posix.dirname(schema.relativePath) : '.';
+    if (folder !== '.' && !isValidFolderPath(folder)) {
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: `Invalid folder "${folder}"`,
+        },
+      };
+      res.status(400).json(response);
+      return;
+    }
+
     const saved = await schemaService.save(config.schemasDir, schema);
     const response: ApiResponse<GuiSchema> = {
       success: true,
@@ -104,9 +123,11 @@ schemasRouter.post('/', async (req: Request, res: Response) => {
 });
 
 // PUT /api/schemas/:name - Update schema
+// A contentHash in the body is the precondition: 409 CONFLICT with the schema
+// now on disk in error.details.schema when the file changed since it was loaded
 schemasRouter.put('/:name', async (req: Request, res: Response) => {
+  const config = req.app.locals.config as AppConfig;
   try {
-    const config = req.app.locals.config as AppConfig;
     const { name } = req.params;
     const schema = req.body as GuiSchema;
 
@@ -120,6 +141,19 @@ schemasRouter.put('/:name', async (req: Request, res: Response) => {
     };
     res.json(response);
   } catch (error) {
+    if (error instanceof SchemaConflictError) {
+      const current = await schemaService.load(config.schemasDir, error.schemaName).catch(() => null);
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'CONFLICT',
+          message: error.message,
+          details: { schema: current },
+        },
+      };
+      res.status(409).json(response);
+      return;
+    }
     const response: ApiResponse = {
       success: false,
       error: {
@@ -132,12 +166,31 @@ schemasRouter.put('/:name', async (req: Request, res: Response) => {
 });
 
 // DELETE /api/schemas/:name - Delete schema
+// 409 IN_USE with the usages in error.details.usages while other schemas still
+// reference it, unless ?force=true
 schemasRouter.delete('/:name', async (req: Request, res: Response) => {
   try {
     const config = req.app.locals.config as AppConfig;
     const { name } = req.params;
 
+    if (req.query.force !== 'true') {
+      const usages = findSchemaUsages(await schemaService.loadAll(config.schemasDir), name!);
+      if (usages.length > 0) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: 'IN_USE',
+            message: `Schema "${name}" is used by ${[...new Set(usages.map((u) => u.schema))].join(', ')}`,
+            details: { usages },
+          },
+        };
+        res.status(409).json(response);
+        return;
+      }
+    }
+
     await schemaService.delete(config.schemasDir, name!);
+    await draftService.delete(config.cwd, name!);
     const response: ApiResponse = {
       success: true,
     };
@@ -153,3 +206,193 @@ schemasRouter.delete('/:name', async (req: Request, res: Response) => {
     res.status(500).json(response);
   }
 });
+
+// POST /api/schemas/:name/move - Move a schema file into another folder
+schemasRouter.post('/:name/move', async (req: Request, res: Response) => {
+  try {
+    const config = req.app.locals.config as AppConfig;
+    const { name } = req.params;
+    const { folder } = req.body as { folder?: string };
+
+    if (typeof folder !== 'string' || !isValidFolderPath(folder)) {
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: `Invalid folder "${String(folder)}"`,
+        },
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const schema = await schemaService.load(config.schemasDir, name!);
+    if (!schema) {
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: `Schema "${name}" not found`,
+        },
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const moved = await schemaService.move(config.schemasDir, name!, folder);
+    const response: ApiResponse<GuiSchema> = {
+      success: true,
+      data: moved,
+    };
+    res.json(response);
+  } catch (error) {
+    const response: ApiResponse = {
+      success: false,
+      error: {
+        code: 'MOVE_ERROR',
+        message: (error as Error).message,
+      },
+    };
+    res.status(500).json(response);
+  }
+});
+
+/**
+ * Check a rename request, sending the error response when it is invalid
+ */
+async function checkRename(req: Request, res: Response): Promise<{ from: string; to: string } | null> {
+  const config = req.app.locals.config as AppConfig;
+  const from = req.params.name!;
+  const { to } = req.body as { to?: string };
+  const schemas = await schemaService.loadAll(config.schemasDir);
+
+  let status = 0;
+  let error: ApiError | undefined;
+  if (!schemas[from]) {
+    status = 404;
+    error = { code: 'NOT_FOUND', message: `Schema "${from}" not found` };
+  } else if (!to || !isValidSchemaName(to)) {
+    status = 400;
+    error = { code: 'VALIDATION_ERROR', message: 'New name must be PascalCase (e.g., User, BlogPost)' };
+  } else if (to === from) {
+    status = 400;
+    error = { code: 'VALIDATION_ERROR', message: 'New name is the same as the current name' };
+  } else if (schemas[to]) {
+    status = 409;
+    error = { code: 'ALREADY_EXISTS', message: `Schema "${to}" already exists` };
+  }
+
+  if (error) {
+    const response: ApiResponse = { success: false, error };
+    res.status(status).json(response);
+    return null;
+  }
+  return { from, to: to! };
+}
+
+// POST /api/schemas/:name/rename/preview - Preview the files a rename touches
+schemasRouter.post('/:name/rename/preview', async (req: Request, res: Response) => {
+  try {
+    const config = req.app.locals.config as AppConfig;
+    const rename = await checkRename(req, res);
+    if (!rename) return;
+
+    const preview = await renameService.previewSchemaRename(config.schemasDir, rename.from, rename.to);
+    const response: ApiResponse<RenamePreview> = {
+      success: true,
+      data: preview,
+    };
+    res.json(response);
+  } catch (error) {
+    const response: ApiResponse = {
+      success: false,
+      error: {
+        code: 'RENAME_ERROR',
+        message: (error as Error).message,
+      },
+    };
+    res.status(500).json(response);
+  }
+});
+
+// POST /api/schemas/:name/rename - Rename schema and rewrite references to it
+schemasRouter.post('/:name/rename', async (req: Request, res: Response) => {
+  try {
+    const config = req.app.locals.config as AppConfig;
+    const rename = await checkRename(req, res);
+    if (!rename) return;
+
+    const result = await renameService.renameSchema(config.schemasDir, rename.from, rename.to);
+    const response: ApiResponse<RenamePreview> = {
+      success: true,
+      data: result,
+    };
+    res.json(response);
+  } catch (error) {
+    const response: ApiResponse = {
+      success: false,
+      error: {
+        code: 'RENAME_ERROR',
+        message: (error as Error).message,
+      },
+    };
+    res.status(500).json(response);
+  }
+});
+
+// POST /api/schemas/:name/properties/rename - Follow property renames of a saved schema
+schemasRouter.post('/:name/properties/rename', async (req: Request, res: Response) => {
+  try {
+    const config = req.app.locals.config as AppConfig;
+    const { name } = req.params;
+    const { renames } = req.body as { renames?: { from?: string; to?: string }[] };
+
+    const valid = Array.isArray(renames) && renames.length > 0 && renames.every(
+      (r) => typeof r.from === 'string' && typeof r.to === 'string' && isValidIdentifier(r.to) && r.from !== r.to
+    );
+    if (!valid) {
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'renames must be a non-empty list of { from, to } with valid property names',
+        },
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const schema = await schemaService.load(config.schemasDir, name!);
+    if (!schema) {
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: `Schema "${name}" not found`,
+        },
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const files = await renameService.renameProperties(
+      config.schemasDir,
+      name!,
+      renames as { from: string; to: string }[]
+    );
+    const response: ApiResponse<RenameFileChange[]> = {
+      success: true,
+      data: files,
+    };
+    res.json(response);
+  } catch (error) {
+    const response: ApiResponse = {
+      success: false,
+      error: {
+        code: 'RENAME_ERROR',
+        message: (error as Error).message,
+      },
+    };
+    res.status(500).json(response);
+  }
+});
@@ -3,13 +3,16 @@
  */
 
 import { Router, type Request, type Response, type Router as RouterType } from 'express';
-import type { ApiResponse } from '../../shared/types.js';
+import type { ApiResponse, SqlDialect } from '../../shared/types.js';
+import type { AlterMigration } from '../../shared/alterMigration.js';
+import { SQL_DIALECTS } from '../../shared/constants.js';
 import {
   listVersions,
   getVersion,
   getLatestVersion,
   diffVersions,
   getPendingChanges,
+  getPendingMigration,
   createVersion,
   discardChanges,
   type PendingChangesResult,
@@ -90,6 +93,42 @@ versionsRouter.get('/pending', async (_req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/versions/pending/migration?dialect= - SQL migration (up and down) of the pending changes
+ */
+versionsRouter.get('/pending/migration', async (req: Request, res: Response) => {
+  try {
+    const dialect = (req.query.dialect ?? 'mysql') as SqlDialect;
+    if (!SQL_DIALECTS.includes(dialect)) {
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'INVALID_DIALECT',
+          message: `Invalid SQL dialect: ${String(req.query.dialect)}. Valid dialects: ${SQL_DIALECTS.join(', ')}`,
+        },
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const migration = await getPendingMigration(dialect);
+    const response: ApiResponse<AlterMigration> = {
+      success: true,
+      data: migration,
+    };
+    res.json(response);
+  } catch (error) {
+    const response: ApiResponse = {
+      success: false,
+      error: {
+        code: 'PENDING_MIGRATION_ERROR',
+        message: (error as Error).message,
+      },
+    };
+    res.status(500).json(response);
+  }
+});
+
 /**
  * POST /api/versions/discard - Discard pending changes and restore from latest version
  */
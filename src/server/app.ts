@@ -11,8 +11,14 @@ import { previewRouter } from './api/preview.js';
 import { configRouter } from './api/config.js';
 import { versionsRouter } from './api/versions.js';
 import { pluginsRouter } from './api/plugins.js';
+import { diagramRouter } from './api/diagram.js';
+import { layoutRouter } from './api/layout.js';
+import { foldersRouter } from './api/folders.js';
+import { draftsRouter } from './api/drafts.js';
+import { lintRouter } from './api/lint.js';
+import { generateRouter } from './api/generate.js';
 import { initVersionStore } from './services/versionService.js';
-import type { ApiResponse } from '../shared/types.js';
+import type { ApiResponse, LintConfig } from '../shared/types.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -21,6 +27,11 @@ export interface AppConfig {
   schemasDir: string;
   cwd: string;
   customTypes?: string[];
+  // TypeScript types of plugin property types that declare one
+  customTypeScriptTypes?: Record<string, string>;
+  locales?: string[];
+  defaultLocale?: string;
+  lint?: LintConfig;
 }
 
 export function createApp(config: AppConfig): Express {
@@ -42,6 +53,12 @@ export function createApp(config: AppConfig): Express {
   app.use('/api/config', configRouter);
   app.use('/api/versions', versionsRouter);
   app.use('/api/plugins', pluginsRouter);
+  app.use('/api/diagram', diagramRouter);
+  app.use('/api/layout', layoutRouter);
+  app.use('/api/folders', foldersRouter);
+  app.use('/api/drafts', draftsRouter);
+  app.use('/api/lint', lintRouter);
+  app.use('/api/generate', generateRouter);
 
   // Serve static files (client build)
   const clientDist = join(__dirname, '../client');
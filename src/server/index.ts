@@ -13,6 +13,8 @@ import { createApp } from './app.js';
 import { createWsHandler } from './ws/handler.js';
 import { createFileWatcher } from './watcher/fileWatcher.js';
 import { DEFAULT_PORT, DEFAULT_HOST } from '../shared/constants.js';
+import { normalizeLintConfig } from '../shared/lint.js';
+import type { LintConfig } from '../shared/types.js';
 
 // fileURLToPath and dirname imported for potential future use with static files
 // Currently not needed as Vite handles static serving
@@ -40,6 +42,10 @@ async function main(): Promise<void> {
   // Resolve schemas directory and custom types from omnify config
   let schemasDir: string;
   let customTypes: string[] = [];
+  const customTypeScriptTypes: Record<string, string> = {};
+  let locales: string[] | undefined;
+  let defaultLocale: string | undefined;
+  let lint: LintConfig | undefined;
 
   if (process.env.SCHEMAS_DIR) {
     schemasDir = process.env.SCHEMAS_DIR;
@@ -48,10 +54,19 @@ async function main(): Promise<void> {
       const { config } = await loadConfig(cwd);
       schemasDir = resolve(cwd, config.schemasDir);
       // Extract custom type names from plugins
-      customTypes = (config.plugins ?? [])
+      const pluginTypes = (config.plugins ?? [])
         .flatMap((p) => p.types ?? [])
-        .filter((t) => t && typeof t === 'object' && 'name' in t)
-        .map((t) => t.name);
+        .filter((t) => t && typeof t === 'object' && 'name' in t);
+      customTypes = pluginTypes.map((t) => t.name);
+      for (const t of pluginTypes) {
+        const tsType = (t as { typescript?: unknown }).typescript;
+        if (typeof tsType === 'string') customTypeScriptTypes[t.name] = tsType;
+      }
+      // Locales edited for localized displayName, description and labels
+      locales = config.locale?.locales ? [...config.locale.locales] : undefined;
+      defaultLocale = config.locale?.defaultLocale;
+      // Lint rule severities (`lint.rules`), a GUI-only section of the config
+      lint = normalizeLintConfig((config as { lint?: unknown }).lint);
     } catch (error) {
       // Fall back to default if no config file found
       console.error('  Failed to load config:', error instanceof Error ? error.message : error);
@@ -63,7 +78,7 @@ async function main(): Promise<void> {
   console.log(`  Schemas directory: ${schemasDir}`);
 
   // Create Express app
-  const app = createApp({ schemasDir, cwd, customTypes });
+  const app = createApp({ schemasDir, cwd, customTypes, customTypeScriptTypes, locales, defaultLocale, lint });
 
   // Create HTTP server
   const server = createServer(app);
@@ -0,0 +1,42 @@
+/**
+ * Schema draft service - autosaved editor state of unsaved schema edits
+ *
+ * Drafts are kept per schema in `.omnify/drafts/<Schema>.json` of the project,
+ * outside the schemas directory so the file watcher and generators ignore them.
+ */
+
+import { readFile, writeFile, unlink, mkdir } from 'fs/promises';
+import { join } from 'path';
+import type { SchemaDraft } from '../../shared/types.js';
+
+function getDraftsDir(cwd: string): string {
+  return join(cwd, '.omnify', 'drafts');
+}
+
+class DraftService {
+  async get(cwd: string, name: string): Promise<SchemaDraft | null> {
+    try {
+      const content = await readFile(join(getDraftsDir(cwd), `${name}.json`), 'utf-8');
+      return JSON.parse(content) as SchemaDraft;
+    } catch {
+      return null;
+    }
+  }
+
+  async save(cwd: string, draft: Omit<SchemaDraft, 'updatedAt'>): Promise<SchemaDraft> {
+    const saved: SchemaDraft = { ...draft, updatedAt: new Date().toISOString() };
+    await mkdir(getDraftsDir(cwd), { recursive: true });
+    await writeFile(join(getDraftsDir(cwd), `${draft.name}.json`), JSON.stringify(saved, null, 2) + '\n', 'utf-8');
+    return saved;
+  }
+
+  async delete(cwd: string, name: string): Promise<void> {
+    try {
+      await unlink(join(getDraftsDir(cwd), `${name}.json`));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+  }
+}
+
+export const draftService = new DraftService();
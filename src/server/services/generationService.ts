@@ -0,0 +1,226 @@
+/**
+ * Generation service - runs the generators of the plugins configured in
+ * omnify.config.ts into memory, to show what `omnify generate` would write,
+ * and writes the files the user reviewed
+ */
+
+import { loadConfig } from '@famgia/omnify-cli';
+import { loadSchemas } from '@famgia/omnify-core';
+import { createHash } from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { dirname, isAbsolute, relative, resolve } from 'path';
+import { orderGenerators } from '../../shared/generation.js';
+import type {
+  DryRunResult,
+  GeneratedFile,
+  GeneratedFileStatus,
+  GenerationError,
+  GenerationPlan,
+  GenerationWriteResult,
+  PlannedFile,
+} from '../../shared/types.js';
+
+/**
+ * Thrown by write() for selected files that already exist and are only
+ * generated when missing (skipIfExists)
+ */
+export class GenerationKeptError extends Error {
+  constructor(readonly paths: string[]) {
+    super(`Existing files are kept by generation and cannot be written: ${paths.join(', ')}`);
+    this.name = 'GenerationKeptError';
+  }
+}
+
+/**
+ * Thrown by write() when the output of reviewed files changed since the review
+ */
+export class GenerationStaleError extends Error {
+  constructor(readonly paths: string[]) {
+    super(`Generated output changed since it was reviewed: ${paths.join(', ')}`);
+    this.name = 'GenerationStaleError';
+  }
+}
+
+// The parts of the plugin API a dry run relies on
+interface GeneratorOutput {
+  path: string;
+  content: string;
+  skipIfExists?: boolean;
+}
+
+interface GeneratorContext {
+  schemas: Record<string, unknown>;
+  pluginConfig: Record<string, unknown>;
+  cwd: string;
+  logger: Record<'debug' | 'info' | 'warn' | 'error', (message: string) => void>;
+  previousOutputs: ReadonlyMap<string, readonly GeneratorOutput[]>;
+}
+
+interface GeneratorDefinition {
+  name: string;
+  dependsOn?: readonly string[];
+  generate: (ctx: GeneratorContext) => Promise<readonly GeneratorOutput[]> | readonly GeneratorOutput[];
+}
+
+interface PluginDefinition {
+  name: string;
+  generators?: readonly GeneratorDefinition[];
+}
+
+/**
+ * Output path relative to the project root, with forward slashes
+ */
+function normalizePath(path: string): string {
+  return path.replace(/\\/g, '/').replace(/^\.\//, '');
+}
+
+function contentHash(content: string): string {
+  return createHash('sha256').update(content).digest('hex').slice(0, 16);
+}
+
+/**
+ * Absolute path of an output path, or null when it points outside the project
+ */
+function resolveInProject(cwd: string, path: string): string | null {
+  const absolute = resolve(cwd, path);
+  const fromRoot = relative(cwd, absolute);
+  return fromRoot && !fromRoot.startsWith('..') && !isAbsolute(fromRoot) ? absolute : null;
+}
+
+class GenerationService {
+  async dryRun(cwd: string, schemasDir: string): Promise<DryRunResult> {
+    const { config } = await loadConfig(cwd);
+    const plugins = ((config.plugins ?? []) as PluginDefinition[]).filter((p) => p && typeof p === 'object');
+    const schemas = await loadSchemas(schemasDir);
+
+    const generators = plugins.flatMap((plugin) =>
+      (plugin.generators ?? []).map((definition) => ({
+        plugin: plugin.name,
+        name: definition.name,
+        dependsOn: definition.dependsOn,
+        definition,
+      }))
+    );
+    const { ordered, cyclic } = orderGenerators(generators);
+
+    const files: GeneratedFile[] = [];
+    const errors: GenerationError[] = cyclic.map((g) => ({
+      plugin: g.plugin,
+      generator: g.name,
+      message: `Dependency cycle: depends on ${(g.dependsOn ?? []).join(', ')}`,
+    }));
+    const outputs = new Map<string, readonly GeneratorOutput[]>();
+    const writers = new Map<string, GeneratedFile>();
+
+    for (const generator of ordered) {
+      const failedDependency = (generator.dependsOn ?? []).find((dep) => !outputs.has(dep));
+      if (failedDependency) {
+        errors.push({
+          plugin: generator.plugin,
+          generator: generator.name,
+          message: `Skipped: dependency "${failedDependency}" is not configured or failed`,
+        });
+        continue;
+      }
+
+      // Plugin log output goes to the server console, as with the CLI
+      const log = (message: string): void => console.warn(`  [${generator.plugin}] ${message}`);
+      try {
+        const result = await generator.definition.generate({
+          schemas,
+          pluginConfig: {},
+          cwd,
+          logger: { debug: () => undefined, info: () => undefined, warn: log, error: log },
+          previousOutputs: outputs,
+        });
+        outputs.set(generator.name, result);
+
+        for (const output of result) {
+          const file: GeneratedFile = {
+            plugin: generator.plugin,
+            generator: generator.name,
+            path: normalizePath(output.path),
+            content: output.content,
+            skipIfExists: output.skipIfExists,
+          };
+          const previous = writers.get(file.path);
+          if (previous) {
+            errors.push({
+              plugin: file.plugin,
+              generator: file.generator,
+              message: `Overwrites ${file.path}, also written by ${previous.plugin}/${previous.generator}`,
+            });
+          }
+          writers.set(file.path, file);
+          files.push(file);
+        }
+      } catch (error) {
+        errors.push({ plugin: generator.plugin, generator: generator.name, message: (error as Error).message });
+      }
+    }
+
+    return { files, errors };
+  }
+
+  /**
+   * Dry run with each file compared to the working tree. A path written by
+   * several generators keeps the last output, as `omnify generate` would.
+   */
+  async plan(cwd: string, schemasDir: string): Promise<GenerationPlan> {
+    const { files, errors } = await this.dryRun(cwd, schemasDir);
+    const byPath = new Map(files.map((file) => [file.path, file]));
+    const planned: PlannedFile[] = [];
+
+    for (const file of byPath.values()) {
+      const absolute = resolveInProject(cwd, file.path);
+      if (!absolute) {
+        errors.push({ plugin: file.plugin, generator: file.generator, message: `${file.path} is outside the project` });
+        continue;
+      }
+      const previous = await readFile(absolute, 'utf-8').catch(() => null);
+      let status: GeneratedFileStatus;
+      if (previous === null) status = 'new';
+      else if (file.skipIfExists) status = 'kept';
+      else status = previous === file.content ? 'unchanged' : 'changed';
+      planned.push({
+        ...file,
+        status,
+        ...(previous !== null && previous !== file.content && { previous }),
+        hash: contentHash(file.content),
+      });
+    }
+
+    return { files: planned, errors };
+  }
+
+  /**
+   * Write the reviewed files, generated again. Nothing is written when the
+   * output of any of them no longer matches the hash it was reviewed with, or
+   * when any of them is an existing file generation keeps (hand-edited stubs).
+   */
+  async write(
+    cwd: string,
+    schemasDir: string,
+    selection: readonly { path: string; hash: string }[]
+  ): Promise<GenerationWriteResult> {
+    const { files } = await this.plan(cwd, schemasDir);
+    const byPath = new Map(files.map((file) => [file.path, file]));
+
+    const kept = selection.filter(({ path }) => byPath.get(path)?.status === 'kept').map(({ path }) => path);
+    if (kept.length > 0) throw new GenerationKeptError(kept);
+    const stale = selection.filter(({ path, hash }) => byPath.get(path)?.hash !== hash).map(({ path }) => path);
+    if (stale.length > 0) throw new GenerationStaleError(stale);
+
+    const written: string[] = [];
+    for (const { path } of selection) {
+      const file = byPath.get(path)!;
+      const absolute = resolveInProject(cwd, file.path)!;
+      await mkdir(dirname(absolute), { recursive: true });
+      await writeFile(absolute, file.content, 'utf-8');
+      written.push(file.path);
+    }
+    return { written };
+  }
+}
+
+export const generationService = new GenerationService();
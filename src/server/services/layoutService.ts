@@ -0,0 +1,99 @@
+/**
+ * Diagram layout service - persists the ER diagram layout in a sidecar file
+ *
+ * The layout lives next to the schemas directory (`schemas/` → `schemas.layout.json`)
+ * so it can be committed and shared by the whole team.
+ */
+
+import { readFile, writeFile } from 'fs/promises';
+import { basename, dirname, join } from 'path';
+import type { DiagramLayout, GuiSchema } from '../../shared/types.js';
+import {
+  createEmptyLayout,
+  reconcileLayout,
+  renameLayoutNode,
+} from '../../shared/diagramLayout.js';
+
+/**
+ * Path of the layout sidecar file for a schemas directory
+ */
+export function getLayoutPath(schemasDir: string): string {
+  return join(dirname(schemasDir), `${basename(schemasDir)}.layout.json`);
+}
+
+/**
+ * Sort object keys so the file diffs cleanly between teammates
+ */
+function sortKeys<T extends Record<string, unknown>>(record: T): T {
+  return Object.fromEntries(
+    Object.entries(record).sort(([a], [b]) => a.localeCompare(b))
+  ) as T;
+}
+
+class LayoutService {
+  /**
+   * Read the raw layout file (empty layout when missing or unreadable)
+   */
+  private async read(schemasDir: string): Promise<DiagramLayout> {
+    try {
+      const content = await readFile(getLayoutPath(schemasDir), 'utf-8');
+      const parsed = JSON.parse(content) as Partial<DiagramLayout>;
+      return {
+        nodes: parsed.nodes ?? {},
+        groups: parsed.groups ?? [],
+      };
+    } catch {
+      return createEmptyLayout();
+    }
+  }
+
+  private async write(schemasDir: string, layout: DiagramLayout): Promise<void> {
+    const content = JSON.stringify(
+      {
+        nodes: Object.fromEntries(
+          Object.entries(sortKeys(layout.nodes)).map(([name, node]) => [
+            name,
+            node.x !== undefined && node.y !== undefined
+              ? { ...node, x: Math.round(node.x), y: Math.round(node.y) }
+              : node,
+          ])
+        ),
+        groups: layout.groups,
+      },
+      null,
+      2
+    );
+    await writeFile(getLayoutPath(schemasDir), content + '\n', 'utf-8');
+  }
+
+  /**
+   * Load the layout matched against the current schemas
+   */
+  async load(schemasDir: string, schemas: Record<string, GuiSchema>): Promise<DiagramLayout> {
+    return reconcileLayout(await this.read(schemasDir), schemas);
+  }
+
+  /**
+   * Save a layout, dropping entries of schemas that no longer exist
+   */
+  async save(
+    schemasDir: string,
+    layout: DiagramLayout,
+    schemas: Record<string, GuiSchema>
+  ): Promise<DiagramLayout> {
+    const reconciled = reconcileLayout(layout, schemas);
+    await this.write(schemasDir, reconciled);
+    return reconciled;
+  }
+
+  /**
+   * Follow a schema rename made through the GUI
+   */
+  async renameSchema(schemasDir: string, from: string, to: string): Promise<void> {
+    const layout = await this.read(schemasDir);
+    if (!layout.nodes[from]) return;
+    await this.write(schemasDir, renameLayoutNode(layout, from, to));
+  }
+}
+
+export const layoutService = new LayoutService();
@@ -0,0 +1,19 @@
+/**
+ * Schema lint service - runs the configurable lint rules over the schemas on disk
+ */
+
+import { schemaService } from './schemaService.js';
+import { lintSchemas } from '../../shared/lint.js';
+import type { GuiSchema, LintConfig, ValidationError } from '../../shared/types.js';
+
+class LintService {
+  lint(schemas: Record<string, GuiSchema>, config?: LintConfig): ValidationError[] {
+    return lintSchemas(Object.values(schemas), config);
+  }
+
+  async lintFromDisk(schemasDir: string, config?: LintConfig): Promise<ValidationError[]> {
+    return this.lint(await schemaService.loadAll(schemasDir), config);
+  }
+}
+
+export const lintService = new LintService();
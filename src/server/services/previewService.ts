@@ -5,20 +5,17 @@
 import { loadSchemas } from '@famgia/omnify-core';
 import { generateMigrations as generateLaravelMigrations } from '@famgia/omnify-laravel';
 import { generateMigrations as generateSqlMigrations } from '@famgia/omnify-sql';
-import type { PreviewResult, PreviewType } from '../../shared/types.js';
-
-interface EnumSchema {
-  kind: 'enum';
-  values?: readonly string[];
-}
-
-interface ObjectSchema {
-  kind: 'object';
-  properties?: Record<string, { type: string; nullable?: boolean }>;
-}
+import { schemaService } from './schemaService.js';
+import { generateTypeScriptModel, type TypeScriptModelOptions } from '../../shared/typescriptModel.js';
+import type { PreviewResult, PreviewType, SqlDialect } from '../../shared/types.js';
 
 class PreviewService {
-  async generateAll(schemasDir: string, type: PreviewType): Promise<PreviewResult[]> {
+  async generateAll(
+    schemasDir: string,
+    type: PreviewType,
+    dialect: SqlDialect = 'mysql',
+    tsOptions: TypeScriptModelOptions = {}
+  ): Promise<PreviewResult[]> {
     const schemas = await loadSchemas(schemasDir);
     const previews: PreviewResult[] = [];
 
@@ -36,33 +33,26 @@ class PreviewService {
       }
 
       case 'sql': {
-        const migrations = generateSqlMigrations(schemas, { dialect: 'mysql' });
+        const migrations = generateSqlMigrations(schemas, { dialect });
         for (const migration of migrations) {
           previews.push({
             type: 'sql',
             content: migration.content,
             fileName: migration.fileName,
+            dialect,
           });
         }
         break;
       }
 
       case 'typescript': {
-        // Generate TypeScript interfaces from schemas
-        for (const [name, schema] of Object.entries(schemas)) {
-          if (schema.kind === 'enum') {
-            previews.push({
-              type: 'typescript',
-              content: this.generateEnumType(name, schema as EnumSchema),
-              fileName: `${name}.ts`,
-            });
-          } else {
-            previews.push({
-              type: 'typescript',
-              content: this.generateInterfaceType(name, schema as ObjectSchema),
-              fileName: `${name}.ts`,
-            });
-          }
+        const guiSchemas = await schemaService.loadAll(schemasDir);
+        for (const [name, schema] of Object.entries(guiSchemas)) {
+          previews.push({
+            type: 'typescript',
+            content: generateTypeScriptModel(schema, guiSchemas, tsOptions),
+            fileName: `${name}.ts`,
+          });
         }
         break;
       }
@@ -74,7 +64,9 @@ class PreviewService {
   async generateForSchema(
     schemasDir: string,
     schemaName: string,
-    type: PreviewType
+    type: PreviewType,
+    dialect: SqlDialect = 'mysql',
+    tsOptions: TypeScriptModelOptions = {}
   ): Promise<PreviewResult | null> {
     const schemas = await loadSchemas(schemasDir);
     const schema = schemas[schemaName];
@@ -97,77 +89,31 @@ class PreviewService {
       }
 
       case 'sql': {
-        const migrations = generateSqlMigrations({ [schemaName]: schema }, { dialect: 'mysql' });
+        const migrations = generateSqlMigrations({ [schemaName]: schema }, { dialect });
         const migration = migrations[0];
         return migration
           ? {
               type: 'sql',
               content: migration.content,
               fileName: migration.fileName,
+              dialect,
             }
           : null;
       }
 
       case 'typescript': {
-        if (schema.kind === 'enum') {
-          return {
-            type: 'typescript',
-            content: this.generateEnumType(schemaName, schema as EnumSchema),
-            fileName: `${schemaName}.ts`,
-          };
-        }
-        return {
-          type: 'typescript',
-          content: this.generateInterfaceType(schemaName, schema as ObjectSchema),
-          fileName: `${schemaName}.ts`,
-        };
-      }
-    }
-  }
-
-  private generateEnumType(name: string, schema: EnumSchema): string {
-    const values = schema.values ?? [];
-    return `export type ${name} = ${values.map((v) => `'${v}'`).join(' | ') || 'never'};\n`;
-  }
-
-  private generateInterfaceType(name: string, schema: ObjectSchema): string {
-    const lines: string[] = [`export interface ${name} {`];
-
-    if (schema.properties) {
-      for (const [propName, prop] of Object.entries(schema.properties)) {
-        const tsType = this.mapToTsType(prop.type);
-        const optional = prop.nullable ? '?' : '';
-        lines.push(`  ${propName}${optional}: ${tsType};`);
+        // Relation fields need the target schemas
+        const guiSchemas = await schemaService.loadAll(schemasDir);
+        const guiSchema = guiSchemas[schemaName];
+        return guiSchema
+          ? {
+              type: 'typescript',
+              content: generateTypeScriptModel(guiSchema, guiSchemas, tsOptions),
+              fileName: `${schemaName}.ts`,
+            }
+          : null;
       }
     }
-
-    lines.push('}');
-    return lines.join('\n') + '\n';
-  }
-
-  private mapToTsType(omnifyType: string): string {
-    const typeMap: Record<string, string> = {
-      String: 'string',
-      Int: 'number',
-      BigInt: 'number',
-      Float: 'number',
-      Decimal: 'number',
-      Boolean: 'boolean',
-      Text: 'string',
-      LongText: 'string',
-      Date: 'string',
-      Time: 'string',
-      Timestamp: 'string',
-      Json: 'Record<string, unknown>',
-      Email: 'string',
-      Password: 'string',
-      File: 'string',
-      MultiFile: 'string[]',
-      Point: '{ lat: number; lng: number }',
-      Coordinates: '{ latitude: number; longitude: number }',
-    };
-
-    return typeMap[omnifyType] ?? 'unknown';
   }
 }
 
@@ -0,0 +1,64 @@
+/**
+ * Rename service tests
+ * Runs schema renames against a schemas directory on a case-insensitive filesystem
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { renameService } from './renameService.js';
+
+const core = vi.hoisted(() => ({ schemas: {} as Record<string, unknown> }));
+
+vi.mock('@famgia/omnify-core', () => ({
+  loadSchemas: async () => core.schemas,
+}));
+
+// File names match whatever case the existing file has, as on macOS and Windows
+vi.mock('fs/promises', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('fs/promises')>();
+  const { readdirSync } = await import('fs');
+  const { basename, dirname, join } = await import('path');
+  const existing = (path: string): string => {
+    const name = readdirSync(dirname(path)).find((f) => f.toLowerCase() === basename(path).toLowerCase());
+    return name ? join(dirname(path), name) : path;
+  };
+  return {
+    ...actual,
+    writeFile: ((path: string, ...args: [string, BufferEncoding]) =>
+      actual.writeFile(existing(path), ...args)) as typeof actual.writeFile,
+    unlink: ((path: string) => actual.unlink(existing(path))) as typeof actual.unlink,
+  };
+});
+
+let schemasDir: string;
+
+beforeEach(() => {
+  schemasDir = mkdtempSync(join(tmpdir(), 'omnify-renames-'));
+});
+
+afterEach(() => {
+  rmSync(schemasDir, { recursive: true, force: true });
+});
+
+describe('renameSchema', () => {
+  it('keeps the file of a case-only rename', async () => {
+    const filePath = join(schemasDir, 'post.yaml');
+    writeFileSync(filePath, 'name: post\nproperties:\n  title:\n    type: String\n', 'utf-8');
+    core.schemas = {
+      post: {
+        name: 'post',
+        kind: 'object',
+        properties: { title: { type: 'String' } },
+        filePath,
+        relativePath: 'post.yaml',
+      },
+    };
+
+    await renameService.renameSchema(schemasDir, 'post', 'Post');
+
+    expect(readdirSync(schemasDir).filter((f) => f.endsWith('.yaml'))).toEqual(['Post.yaml']);
+    expect(readFileSync(join(schemasDir, 'Post.yaml'), 'utf-8')).toContain('name: Post');
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Rename service - renames schemas and properties and rewrites references to them
+ *
+ * Files are edited through the YAML document model so comments and
+ * formatting outside the rewritten values stay untouched.
+ */
+
+import { readFile, writeFile, rename } from 'fs/promises';
+import { dirname, extname, join, posix } from 'path';
+import { parseDocument } from 'yaml';
+import { schemaService } from './schemaService.js';
+import { layoutService } from './layoutService.js';
+import { recordRename } from './versionService.js';
+import {
+  findSchemaReferences,
+  findPropertyReferences,
+  renameSchemaReference,
+  type YamlPath,
+} from '../../shared/renames.js';
+import { stringifyDocument } from '../../shared/yamlDocument.js';
+import type { GuiSchema, RenameFileChange, RenamePreview } from '../../shared/types.js';
+
+interface PlannedFile {
+  change: RenameFileChange;
+  filePath: string;
+  /** Destination when the file is moved */
+  newFilePath?: string;
+}
+
+/**
+ * A reference rewritten to a new value
+ */
+interface ReferenceEdit {
+  schema: string;
+  path: YamlPath;
+  value: string;
+}
+
+class RenameService {
+  /**
+   * Apply reference edits to the YAML documents of the schemas they belong to.
+   * `move` renames one schema: its file is moved and always included.
+   */
+  private async planEdits(
+    schemas: Record<string, GuiSchema>,
+    edits: ReferenceEdit[],
+    move?: { from: string; to: string }
+  ): Promise<PlannedFile[]> {
+    const editsBySchema = new Map<string, ReferenceEdit[]>(move ? [[move.from, []]] : []);
+    for (const edit of edits) {
+      editsBySchema.set(edit.schema, [...(editsBySchema.get(edit.schema) ?? []), edit]);
+    }
+
+    const planned: PlannedFile[] = [];
+    for (const [name, schemaEdits] of editsBySchema) {
+      const schema = schemas[name];
+      if (!schema?.filePath || !schema.relativePath) continue;
+
+      const before = await readFile(schema.filePath, 'utf-8');
+      const doc = parseDocument(before);
+      let edited = false;
+      for (const edit of schemaEdits) {
+        // Values inherited from partials are not in this file
+        if (!doc.hasIn(edit.path)) continue;
+        doc.setIn(edit.path, edit.value);
+        edited = true;
+      }
+      if (name === move?.from && doc.has('name')) {
+        doc.set('name', move.to);
+        edited = true;
+      }
+      const after = edited ? stringifyDocument(doc, before) : before;
+
+      if (name !== move?.from) {
+        if (after === before) continue;
+        planned.push({
+          change: { schema: name, relativePath: schema.relativePath, before, after },
+          filePath: schema.filePath,
+        });
+        continue;
+      }
+
+      const fileName = `${move.to}${extname(schema.filePath)}`;
+      planned.push({
+        change: {
+          schema: move.to,
+          relativePath: schema.relativePath,
+          newRelativePath: posix.join(posix.dirname(schema.relativePath), fileName),
+          before,
+          after,
+        },
+        filePath: schema.filePath,
+        newFilePath: join(dirname(schema.filePath), fileName),
+      });
+    }
+
+    // Moved schema first, then the others by name
+    return planned.sort((a, b) =>
+      a.newFilePath ? -1 : b.newFilePath ? 1 : a.change.schema.localeCompare(b.change.schema)
+    );
+  }
+
+  private async writePlanned(schemasDir: string, planned: PlannedFile[]): Promise<void> {
+    for (const { change, filePath, newFilePath } of planned) {
+      // Moved before it is written: a case-only rename is the same file on case-insensitive filesystems
+      if (newFilePath && newFilePath !== filePath) {
+        await rename(filePath, newFilePath);
+      }
+      await writeFile(newFilePath ?? filePath, change.after, 'utf-8');
+    }
+    schemaService.clearCache(schemasDir);
+  }
+
+  /**
+   * Compute the new content of every file touched by renaming `from` to `to`
+   */
+  private async planSchemaRename(schemasDir: string, from: string, to: string): Promise<PlannedFile[]> {
+    const schemas = await schemaService.loadAll(schemasDir);
+    if (!schemas[from]?.filePath) {
+      throw new Error(`Schema "${from}" not found`);
+    }
+
+    const edits = findSchemaReferences(schemas, from).map((ref) => ({
+      ...ref,
+      value: renameSchemaReference(ref.value, from, to),
+    }));
+    return this.planEdits(schemas, edits, { from, to });
+  }
+
+  /**
+   * Preview all files touched by a schema rename without writing anything
+   */
+  async previewSchemaRename(schemasDir: string, from: string, to: string): Promise<RenamePreview> {
+    const planned = await this.planSchemaRename(schemasDir, from, to);
+    return { from, to, files: planned.map((p) => p.change) };
+  }
+
+  /**
+   * Move the schema file, rewrite references and record the rename
+   */
+  async renameSchema(schemasDir: string, from: string, to: string): Promise<RenamePreview> {
+    const planned = await this.planSchemaRename(schemasDir, from, to);
+    await this.writePlanned(schemasDir, planned);
+    await layoutService.renameSchema(schemasDir, from, to);
+    await recordRename({ kind: 'schema', from, to });
+
+    return { from, to, files: planned.map((p) => p.change) };
+  }
+
+  /**
+   * Follow property renames of a saved schema: rewrite references to the old
+   * names (inverse sides in other schemas included) and record the renames.
+   * All renames are resolved against the same state, so swaps work too.
+   */
+  async renameProperties(
+    schemasDir: string,
+    name: string,
+    renames: { from: string; to: string }[]
+  ): Promise<RenameFileChange[]> {
+    const schemas = await schemaService.loadAll(schemasDir);
+    if (!schemas[name]) {
+      throw new Error(`Schema "${name}" not found`);
+    }
+
+    const edits = renames.flatMap(({ from, to }) =>
+      findPropertyReferences(schemas, name, from).map((ref) => ({ ...ref, value: to }))
+    );
+    const planned = await this.planEdits(schemas, edits);
+    await this.writePlanned(schemasDir, planned);
+    for (const { from, to } of renames) {
+      await recordRename({ kind: 'property', schema: name, from, to });
+    }
+
+    return planned.map((p) => p.change);
+  }
+}
+
+export const renameService = new RenameService();
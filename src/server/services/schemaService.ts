@@ -3,55 +3,26 @@
  */
 
 import { loadSchemas } from '@famgia/omnify-core';
-import { resolveLocalizedString } from '@famgia/omnify-types';
-import { writeFile, unlink } from 'fs/promises';
-import { join } from 'path';
-import { stringify } from 'yaml';
-import type { GuiSchema, GuiEnumValue, GuiIndexDefinition } from '../../shared/types.js';
+import { createHash } from 'crypto';
+import { readFile, writeFile, unlink, mkdir, readdir, rename, access } from 'fs/promises';
+import { join, posix } from 'path';
+import { parse, stringify } from 'yaml';
+import { updateYamlSource } from '../../shared/yamlDocument.js';
+import { guiSchemaFromData, guiSchemaToData } from '../../shared/schemaSerialization.js';
+import type { GuiSchema } from '../../shared/types.js';
 
 /**
- * Convert indexes from various formats to GuiIndexDefinition[]
- * Indexes can be:
- * - string: "column_name" -> { columns: ["column_name"] }
- * - string[]: ["col1", "col2"] -> { columns: ["col1", "col2"] }
- * - object: { columns: [...], unique: true } -> as-is
+ * Thrown by save() when the file changed since the schema was loaded
  */
-function normalizeIndexes(indexes: unknown): GuiIndexDefinition[] | undefined {
-  if (!indexes || !Array.isArray(indexes)) return undefined;
-
-  return indexes.map((idx) => {
-    // Already an object with columns property
-    if (typeof idx === 'object' && idx !== null && 'columns' in idx) {
-      return idx as GuiIndexDefinition;
-    }
-    // Array of column names (composite index)
-    if (Array.isArray(idx)) {
-      return { columns: idx.map(String) };
-    }
-    // Single column name as string
-    return { columns: [String(idx)] };
-  });
+export class SchemaConflictError extends Error {
+  constructor(readonly schemaName: string) {
+    super(`Schema "${schemaName}" was changed on disk since it was loaded`);
+    this.name = 'SchemaConflictError';
+  }
 }
 
-/**
- * Convert enum values from various formats to GuiEnumValue[]
- */
-function normalizeEnumValues(values: unknown): GuiEnumValue[] | undefined {
-  if (!values || !Array.isArray(values)) return undefined;
-
-  return values.map((v) => {
-    // Already an object with value property
-    if (typeof v === 'object' && v !== null && 'value' in v) {
-      const obj = v as Record<string, unknown>;
-      return {
-        value: String(obj.value),
-        label: obj.label ? String(obj.label) : undefined,
-        extra: obj.extra as GuiEnumValue['extra'],
-      };
-    }
-    // Simple string value
-    return { value: String(v) };
-  });
+function contentHash(source: string): string {
+  return createHash('sha256').update(source).digest('hex').slice(0, 16);
 }
 
 class SchemaService {
@@ -63,24 +34,12 @@ class SchemaService {
       const guiSchemas: Record<string, GuiSchema> = {};
 
       for (const [name, schema] of Object.entries(schemas)) {
-        // Normalize options with indexes
-        const normalizedOptions = schema.options ? {
-          ...schema.options,
-          indexes: normalizeIndexes(schema.options.indexes),
-        } : undefined;
-
-        guiSchemas[name] = {
-          name: schema.name,
-          kind: schema.kind ?? 'object',
-          displayName: resolveLocalizedString(schema.displayName),
+        // Every loaded key is carried, unknown ones in `extra`
+        guiSchemas[name] = guiSchemaFromData(schema.name ?? name, schema as Record<string, unknown>, {
           filePath: schema.filePath,
           relativePath: schema.relativePath,
-          properties: schema.properties as GuiSchema['properties'],
-          options: normalizedOptions as GuiSchema['options'],
-          values: normalizeEnumValues(schema.values),
-          isDirty: false,
-          validationErrors: [],
-        };
+          contentHash: schema.filePath ? contentHash(await readFile(schema.filePath, 'utf-8')) : undefined,
+        });
       }
 
       this.cache.set(schemasDir, guiSchemas);
@@ -99,24 +58,16 @@ class SchemaService {
     return schemas[name] ?? null;
   }
 
+  /**
+   * Write a schema to its file. When the schema carries the contentHash it was
+   * loaded with, a file changed since then is not overwritten: SchemaConflictError
+   * is thrown instead.
+   */
   async save(schemasDir: string, schema: GuiSchema): Promise<GuiSchema> {
-    // Extract fields that shouldn't be saved to YAML
-    const {
-      isDirty: _isDirty,
-      validationErrors: _validationErrors,
-      filePath,
-      relativePath,
-      name,       // Derived from filename, don't save
-      kind,       // Only save if enum (object is default)
-      ...yamlData
-    } = schema;
-
-    // Build YAML data - only include kind for enums
-    const dataToSave = kind === 'enum'
-      ? { kind, ...yamlData }
-      : yamlData;
-
-    // Use existing path if available (update), otherwise create at root (new)
+    const { filePath, relativePath, name } = schema;
+
+    // Use existing path if available (update), otherwise create in the
+    // folder of relativePath, defaulting to the root (new)
     let targetPath: string;
     let targetRelativePath: string;
 
@@ -125,26 +76,42 @@ class SchemaService {
       targetPath = filePath;
       targetRelativePath = relativePath;
     } else {
-      // New schema - create at root of schemasDir
-      const fileName = `${name}.yaml`;
-      targetPath = join(schemasDir, fileName);
-      targetRelativePath = fileName;
+      // New schema - create in the requested folder of schemasDir
+      const folder = relativePath ? posix.dirname(relativePath) : '.';
+      targetRelativePath = posix.join(folder, `${name}.yaml`);
+      targetPath = join(schemasDir, targetRelativePath);
+      await mkdir(join(schemasDir, folder), { recursive: true });
     }
 
-    // Convert to YAML
-    const yamlContent = stringify(dataToSave, {
-      lineWidth: 120,
-      defaultKeyType: 'PLAIN',
-      defaultStringType: 'PLAIN',
-    });
+    // Existing files are updated in place, keeping comments and key order
+    let source: string | null = null;
+    let yamlContent: string;
+    if (filePath && relativePath) {
+      source = await readFile(targetPath, 'utf-8');
+      if (schema.contentHash && schema.contentHash !== contentHash(source)) {
+        throw new SchemaConflictError(name);
+      }
+      const raw = (parse(source) ?? {}) as Record<string, unknown>;
+      yamlContent = updateYamlSource(source, guiSchemaToData(schema, raw));
+    } else {
+      yamlContent = stringify(guiSchemaToData(schema), {
+        lineWidth: 120,
+        defaultKeyType: 'PLAIN',
+        defaultStringType: 'PLAIN',
+      });
+    }
 
-    await writeFile(targetPath, yamlContent, 'utf-8');
+    // Unchanged files are not rewritten
+    if (yamlContent !== source) {
+      await writeFile(targetPath, yamlContent, 'utf-8');
+    }
 
     // Return updated schema with file path
     return {
       ...schema,
       filePath: targetPath,
       relativePath: targetRelativePath,
+      contentHash: contentHash(yamlContent),
       isDirty: false,
       validationErrors: [],
     };
@@ -165,6 +132,67 @@ class SchemaService {
     this.cache.delete(schemasDir);
   }
 
+  /**
+   * List schema folders relative to schemasDir ("/"-separated, sorted).
+   * Hidden folders are skipped.
+   */
+  async listFolders(schemasDir: string): Promise<string[]> {
+    const folders: string[] = [];
+
+    const walk = async (relative: string): Promise<void> => {
+      const entries = await readdir(join(schemasDir, relative), { withFileTypes: true });
+      for (const entry of entries) {
+        if (!entry.isDirectory() || entry.name.startsWith('.') || entry.name === 'node_modules') continue;
+        const folder = relative ? `${relative}/${entry.name}` : entry.name;
+        folders.push(folder);
+        await walk(folder);
+      }
+    };
+
+    try {
+      await walk('');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+    return folders.sort();
+  }
+
+  async createFolder(schemasDir: string, folder: string): Promise<void> {
+    await mkdir(join(schemasDir, folder), { recursive: true });
+  }
+
+  /**
+   * Move a schema file into another folder of schemasDir ("" is the root)
+   */
+  async move(schemasDir: string, name: string, folder: string): Promise<GuiSchema> {
+    const schemas = await this.loadAll(schemasDir);
+    const schema = schemas[name];
+
+    if (!schema?.filePath || !schema.relativePath) {
+      throw new Error(`Schema "${name}" not found`);
+    }
+
+    const targetRelativePath = posix.join(folder || '.', posix.basename(schema.relativePath));
+    if (targetRelativePath === schema.relativePath) {
+      return schema;
+    }
+
+    const targetPath = join(schemasDir, targetRelativePath);
+    const exists = await access(targetPath).then(() => true, () => false);
+    if (exists) {
+      throw new Error(`File "${targetRelativePath}" already exists`);
+    }
+
+    await mkdir(join(schemasDir, folder), { recursive: true });
+    await rename(schema.filePath, targetPath);
+
+    // Clear cache
+    this.cache.delete(schemasDir);
+
+    return { ...schema, filePath: targetPath, relativePath: targetRelativePath };
+  }
+
   clearCache(schemasDir?: string): void {
     if (schemasDir) {
       this.cache.delete(schemasDir);
@@ -4,8 +4,9 @@
 
 import { loadSchemas, validateSchemas, OmnifyError } from '@famgia/omnify-core';
 import type { LoadedSchema, SchemaCollection, SchemaOptions } from '@famgia/omnify-types';
-import { resolveLocalizedString } from '@famgia/omnify-types';
-import type { GuiSchema, ValidationError } from '../../shared/types.js';
+import type { GuiSchema, LocalizedString, ValidationError } from '../../shared/types.js';
+import { checkAssociationConsistency, isSchemaFinding } from '../../shared/associationConsistency.js';
+import { guiSchemaFromData } from '../../shared/schemaSerialization.js';
 
 interface ValidateResult {
   valid: boolean;
@@ -27,7 +28,7 @@ function toLoadedSchema(schema: GuiSchema): LoadedSchema {
 
   // Only add optional fields if they're defined
   if (schema.displayName !== undefined) {
-    (result as { displayName: string }).displayName = schema.displayName;
+    (result as { displayName: LocalizedString }).displayName = schema.displayName;
   }
   if (schema.properties !== undefined) {
     (result as { properties: LoadedSchema['properties'] }).properties = schema.properties as LoadedSchema['properties'];
@@ -43,6 +44,23 @@ function toLoadedSchema(schema: GuiSchema): LoadedSchema {
   return result;
 }
 
+/**
+ * Convert a LoadedSchema from omnify-core to GuiSchema format
+ */
+function toGuiSchema(schema: LoadedSchema): GuiSchema {
+  return guiSchemaFromData(schema.name, schema as Record<string, unknown>, {
+    filePath: schema.filePath,
+    relativePath: schema.relativePath,
+  });
+}
+
+/**
+ * Only errors (not warnings) make a result invalid
+ */
+function hasErrors(errors: ValidationError[]): boolean {
+  return errors.some((e) => e.severity === 'error');
+}
+
 class ValidationService {
   async validateSchema(schema: GuiSchema, schemasDir: string): Promise<ValidateResult> {
     try {
@@ -73,8 +91,18 @@ class ValidationService {
         }
       }
 
+      // Association checks need both sides; keep the ones involving this schema
+      const guiSchemas: Record<string, GuiSchema> = {};
+      for (const [name, loaded] of Object.entries(allSchemas)) {
+        guiSchemas[name] = toGuiSchema(loaded);
+      }
+      guiSchemas[schema.name] = schema;
+      schemaErrors.push(
+        ...checkAssociationConsistency(guiSchemas).filter((e) => isSchemaFinding(e, schema.name))
+      );
+
       return {
-        valid: schemaErrors.length === 0,
+        valid: !hasErrors(schemaErrors),
         errors: schemaErrors,
       };
     } catch (error) {
@@ -112,8 +140,10 @@ class ValidationService {
         }
       }
 
+      errors.push(...checkAssociationConsistency(schemas));
+
       return {
-        valid: result.valid,
+        valid: result.valid && !hasErrors(errors),
         errors,
       };
     } catch (error) {
@@ -137,17 +167,7 @@ class ValidationService {
       // Convert to GuiSchemas
       const guiSchemas: Record<string, GuiSchema> = {};
       for (const [name, schema] of Object.entries(schemas)) {
-        guiSchemas[name] = {
-          name: schema.name,
-          kind: schema.kind ?? 'object',
-          displayName: resolveLocalizedString(schema.displayName),
-          filePath: schema.filePath,
-          relativePath: schema.relativePath,
-          properties: schema.properties as GuiSchema['properties'],
-          options: schema.options as GuiSchema['options'],
-          // Convert readonly string[] to GuiEnumValue[]
-          values: schema.values?.map((v) => ({ value: v })),
-        };
+        guiSchemas[name] = toGuiSchema(schema);
       }
 
       return this.validateAll(guiSchemas);
@@ -0,0 +1,112 @@
+/**
+ * Version service tests
+ * Checks that a version records the pending changes and migration preview shown for it
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { VersionChange, VersionSchemaSnapshot } from '@famgia/omnify-core';
+import {
+  createVersion,
+  getPendingChanges,
+  getPendingMigration,
+  initVersionStore,
+  readRenames,
+  recordRename,
+} from './versionService.js';
+
+const core = vi.hoisted(() => ({
+  schemas: {} as Record<string, unknown>,
+  latest: null as { version: number; snapshot: Record<string, VersionSchemaSnapshot> } | null,
+  recorded: [] as VersionChange[],
+}));
+
+// Schema and property level diff, as omnify-core reports it
+function computeSnapshotDiff(
+  previous: Record<string, VersionSchemaSnapshot>,
+  current: Record<string, VersionSchemaSnapshot>
+): VersionChange[] {
+  const changes: VersionChange[] = [];
+  for (const name of Object.keys(previous)) {
+    if (!current[name]) changes.push({ action: 'schema_removed', schema: name });
+  }
+  for (const [name, schema] of Object.entries(current)) {
+    const before = previous[name];
+    if (!before) {
+      changes.push({ action: 'schema_added', schema: name });
+      continue;
+    }
+    for (const property of Object.keys(before.properties ?? {})) {
+      if (!schema.properties?.[property]) changes.push({ action: 'property_removed', schema: name, property });
+    }
+    for (const property of Object.keys(schema.properties ?? {})) {
+      if (!before.properties?.[property]) changes.push({ action: 'property_added', schema: name, property });
+    }
+  }
+  return changes;
+}
+
+vi.mock('@famgia/omnify-core', () => ({
+  loadSchemas: async () => core.schemas,
+  createVersionStore: () => ({
+    readLatestVersion: async () => core.latest,
+    computeSnapshotDiff,
+    createVersion: async (_snapshot: unknown, changes: VersionChange[], options: { migration: string }) => {
+      core.recorded = changes;
+      return { version: (core.latest?.version ?? 0) + 1, migration: options.migration, changes };
+    },
+  }),
+}));
+
+let baseDir: string;
+
+beforeEach(() => {
+  baseDir = mkdtempSync(join(tmpdir(), 'omnify-versions-'));
+  initVersionStore(baseDir, join(baseDir, 'schemas'));
+});
+
+afterEach(() => {
+  rmSync(baseDir, { recursive: true, force: true });
+});
+
+describe('createVersion', () => {
+  beforeEach(async () => {
+    core.latest = {
+      version: 1,
+      snapshot: {
+        Post: { name: 'Post', kind: 'object', properties: { title: { type: 'String' } } },
+        User: { name: 'User', kind: 'object', properties: { name: { type: 'String' } } },
+      },
+    };
+    core.schemas = {
+      Article: { name: 'Article', kind: 'object', properties: { title: { type: 'String' } } },
+      User: { name: 'User', kind: 'object', properties: { fullName: { type: 'String' } } },
+    };
+    await recordRename({ kind: 'schema', from: 'Post', to: 'Article' });
+    await recordRename({ kind: 'property', schema: 'User', from: 'name', to: 'fullName' });
+  });
+
+  it('records the pending changes of a renamed schema as shown', async () => {
+    const { changes } = await getPendingChanges();
+    const migration = await getPendingMigration('mysql');
+
+    expect(changes).toEqual([
+      { action: 'schema_removed', schema: 'Post' },
+      { action: 'schema_added', schema: 'Article' },
+      { action: 'property_renamed', schema: 'User', property: 'fullName', from: 'name', to: 'fullName' },
+    ]);
+    expect(migration.up).not.toContain('RENAME TABLE');
+    expect(migration.up).toContain('RENAME COLUMN `name` TO `full_name`');
+
+    const version = await createVersion();
+    expect(core.recorded).toEqual(changes);
+    expect(version.changes).toEqual(changes);
+  });
+
+  it('clears the rename journal once the renames are recorded', async () => {
+    await createVersion();
+    expect(await readRenames()).toEqual([]);
+  });
+});
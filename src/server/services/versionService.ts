@@ -3,8 +3,8 @@
  */
 
 import { loadSchemas } from '@famgia/omnify-core';
-import { writeFile, unlink, readdir } from 'fs/promises';
-import { join } from 'path';
+import { writeFile, unlink, readFile, mkdir } from 'fs/promises';
+import { dirname, join } from 'path';
 import { stringify } from 'yaml';
 import {
   createVersionStore,
@@ -16,9 +16,14 @@ import {
   type VersionSchemaSnapshot,
   type VersionPropertySnapshot,
 } from '@famgia/omnify-core';
+import type { RenameEntry, SqlDialect } from '../../shared/types.js';
+import { generateAlterMigration, type AlterMigration } from '../../shared/alterMigration.js';
+import { collapseRenames } from '../../shared/renames.js';
+import { updateYamlSource } from '../../shared/yamlDocument.js';
 
 let store: VersionStore | null = null;
 let schemasDir: string | null = null;
+let renamesPath: string | null = null;
 
 /**
  * Initialize the version store with the project base directory.
@@ -26,6 +31,7 @@ let schemasDir: string | null = null;
 export function initVersionStore(baseDir: string, schemasDirPath: string): void {
   store = createVersionStore({ baseDir, maxVersions: 100 });
   schemasDir = schemasDirPath;
+  renamesPath = join(baseDir, '.omnify', 'renames.json');
 }
 
 /**
@@ -73,6 +79,77 @@ export function getVersionStore(): VersionStore {
   return getStore();
 }
 
+// ============================================================================
+// Rename journal
+// ============================================================================
+
+/**
+ * Read renames made through the GUI since the latest version.
+ */
+export async function readRenames(): Promise<RenameEntry[]> {
+  if (!renamesPath) return [];
+  try {
+    return JSON.parse(await readFile(renamesPath, 'utf-8')) as RenameEntry[];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Record a rename so pending changes can show it instead of a remove plus an add.
+ */
+export async function recordRename(entry: RenameEntry): Promise<void> {
+  if (!renamesPath) return;
+  const entries = collapseRenames([...(await readRenames()), entry]);
+  await mkdir(dirname(renamesPath), { recursive: true });
+  await writeFile(renamesPath, JSON.stringify(entries, null, 2) + '\n', 'utf-8');
+}
+
+async function clearRenames(): Promise<void> {
+  if (!renamesPath) return;
+  await unlink(renamesPath).catch(() => undefined);
+}
+
+/**
+ * Replace remove + add pairs of journaled property renames with a single
+ * property_renamed change, followed by a property_modified one when the
+ * definition changed too.
+ *
+ * Schema renames are journaled only so property renames follow them: version
+ * files have no action for them, so a renamed schema is published (and shown
+ * as pending) as a removal plus an addition.
+ */
+function applyRenames(
+  changes: readonly VersionChange[],
+  previous: Readonly<Record<string, VersionSchemaSnapshot>>,
+  current: Record<string, VersionSchemaSnapshot>,
+  renames: readonly RenameEntry[]
+): VersionChange[] {
+  const result = [...changes];
+
+  for (const rename of renames) {
+    if (rename.kind !== 'property') continue;
+    const { schema, from, to } = rename;
+    const before = previous[schema]?.properties?.[from];
+    const after = current[schema]?.properties?.[to];
+    const isRemoved = (c: VersionChange): boolean =>
+      c.action === 'property_removed' && c.schema === schema && c.property === from;
+    const isAdded = (c: VersionChange): boolean =>
+      c.action === 'property_added' && c.schema === schema && c.property === to;
+    if (!before || !after || !result.some(isRemoved) || !result.some(isAdded)) continue;
+
+    const renamed: VersionChange[] = [{ action: 'property_renamed', schema, property: to, from, to }];
+    if (JSON.stringify(before) !== JSON.stringify(after)) {
+      renamed.push({ action: 'property_modified', schema, property: to, from: before, to: after });
+    }
+    // Keep the rename where the removal was reported
+    result.splice(result.findIndex(isAdded), 1);
+    result.splice(result.findIndex(isRemoved), 1, ...renamed);
+  }
+
+  return result;
+}
+
 /**
  * Convert property to version snapshot format.
  */
@@ -187,30 +264,8 @@ export interface CreateVersionResult {
  * Create a new version from the current schemas.
  */
 export async function createVersion(description?: string): Promise<CreateVersionResult> {
-  if (!schemasDir) {
-    throw new Error('Schemas directory not initialized');
-  }
-
-  const storeInstance = getStore();
-
-  // Load current schemas
-  const currentSchemas = await loadSchemas(schemasDir);
-  const currentSnapshot = schemasToSnapshot(currentSchemas);
-
-  // Get latest version to compute changes
-  const latestVersion = await storeInstance.readLatestVersion();
-
-  // Compute changes
-  let changes: VersionChange[];
-  if (!latestVersion) {
-    // Initial version - all schemas are new
-    changes = Object.keys(currentSnapshot).map((name) => ({
-      action: 'schema_added' as const,
-      schema: name,
-    }));
-  } else {
-    changes = storeInstance.computeSnapshotDiff(latestVersion.snapshot, currentSnapshot);
-  }
+  // The same changes pending changes and the migration preview show
+  const { changes, current } = await computePendingChanges();
 
   if (changes.length === 0) {
     throw new Error('No changes to create version');
@@ -221,11 +276,12 @@ export async function createVersion(description?: string): Promise<CreateVersion
   const migration = `${timestamp}_omnify_migration`;
 
   // Create the version
-  const versionFile = await storeInstance.createVersion(currentSnapshot, changes, {
+  const versionFile = await getStore().createVersion(current, changes, {
     driver: 'mysql', // TODO: Get from config
     migration,
     description,
   });
+  await clearRenames();
 
   return {
     version: versionFile.version,
@@ -235,9 +291,14 @@ export async function createVersion(description?: string): Promise<CreateVersion
 }
 
 /**
- * Get pending changes (current schemas vs latest version).
+ * Changes from the latest version to the current schemas, with both snapshots.
  */
-export async function getPendingChanges(): Promise<PendingChangesResult> {
+async function computePendingChanges(): Promise<{
+  changes: VersionChange[];
+  previous: Record<string, VersionSchemaSnapshot>;
+  current: Record<string, VersionSchemaSnapshot>;
+  latestVersion: number | null;
+}> {
   if (!schemasDir) {
     throw new Error('Schemas directory not initialized');
   }
@@ -258,27 +319,43 @@ export async function getPendingChanges(): Promise<PendingChangesResult> {
       schema: name,
     }));
 
-    return {
-      hasChanges: changes.length > 0,
-      changes,
-      currentSchemaCount: Object.keys(currentSnapshot).length,
-      previousSchemaCount: 0,
-      latestVersion: null,
-    };
+    return { changes, previous: {}, current: currentSnapshot, latestVersion: null };
   }
 
   // Compute diff from latest version to current
-  const changes = storeInstance.computeSnapshotDiff(latestVersion.snapshot, currentSnapshot);
+  const changes = applyRenames(
+    storeInstance.computeSnapshotDiff(latestVersion.snapshot, currentSnapshot),
+    latestVersion.snapshot,
+    currentSnapshot,
+    await readRenames()
+  );
+
+  return { changes, previous: latestVersion.snapshot, current: currentSnapshot, latestVersion: latestVersion.version };
+}
+
+/**
+ * Get pending changes (current schemas vs latest version).
+ */
+export async function getPendingChanges(): Promise<PendingChangesResult> {
+  const { changes, previous, current, latestVersion } = await computePendingChanges();
 
   return {
     hasChanges: changes.length > 0,
     changes,
-    currentSchemaCount: Object.keys(currentSnapshot).length,
-    previousSchemaCount: Object.keys(latestVersion.snapshot).length,
-    latestVersion: latestVersion.version,
+    currentSchemaCount: Object.keys(current).length,
+    previousSchemaCount: Object.keys(previous).length,
+    latestVersion,
   };
 }
 
+/**
+ * Get the SQL migration (up and down) the pending changes imply.
+ */
+export async function getPendingMigration(dialect: SqlDialect): Promise<AlterMigration> {
+  const { changes, previous, current } = await computePendingChanges();
+  return generateAlterMigration(changes, previous, current, dialect);
+}
+
 /**
  * Result of discarding changes.
  */
@@ -394,37 +471,41 @@ export async function discardChanges(): Promise<DiscardChangesResult> {
   const snapshot = latestVersion.snapshot;
   const snapshotSchemaNames = new Set(Object.keys(snapshot));
 
-  // Get current schema files
-  const currentFiles = await readdir(schemasDir);
-  const yamlFiles = currentFiles.filter((f) => f.endsWith('.yaml') || f.endsWith('.yml'));
-  const currentSchemaNames = new Set(yamlFiles.map((f) => f.replace(/\.ya?ml$/, '')));
+  // Get current schema files, wherever they live under schemasDir
+  const currentSchemas = await loadSchemas(schemasDir);
 
   let restored = 0;
   let deleted = 0;
 
-  // Restore schemas from snapshot
+  // Restore schemas from snapshot, keeping files in their current folder
   for (const [name, schemaSnapshot] of Object.entries(snapshot)) {
     const yamlData = snapshotToYaml(schemaSnapshot);
-    const yamlContent = stringify(yamlData, {
-      lineWidth: 120,
-      defaultKeyType: 'PLAIN',
-      defaultStringType: 'PLAIN',
-    });
-
-    const filePath = join(schemasDir, `${name}.yaml`);
-    await writeFile(filePath, yamlContent, 'utf-8');
+    const existingPath = currentSchemas[name]?.filePath;
+
+    // Existing files are restored in place, keeping their comments
+    if (existingPath) {
+      const source = await readFile(existingPath, 'utf-8');
+      const yamlContent = updateYamlSource(source, yamlData);
+      if (yamlContent !== source) await writeFile(existingPath, yamlContent, 'utf-8');
+    } else {
+      const yamlContent = stringify(yamlData, {
+        lineWidth: 120,
+        defaultKeyType: 'PLAIN',
+        defaultStringType: 'PLAIN',
+      });
+      await writeFile(join(schemasDir, `${name}.yaml`), yamlContent, 'utf-8');
+    }
     restored++;
   }
 
   // Delete schemas that aren't in the snapshot
-  for (const file of yamlFiles) {
-    const name = file.replace(/\.ya?ml$/, '');
-    if (!snapshotSchemaNames.has(name)) {
-      const filePath = join(schemasDir, file);
-      await unlink(filePath);
+  for (const [name, schema] of Object.entries(currentSchemas)) {
+    if (!snapshotSchemaNames.has(name) && schema.filePath) {
+      await unlink(schema.filePath);
       deleted++;
     }
   }
+  await clearRenames();
 
   return { restored, deleted };
 }
@@ -13,7 +13,11 @@ export interface FileWatcher {
 }
 
 export function createFileWatcher(schemasDir: string, wsHandler: WsHandler): FileWatcher {
-  const watcher = chokidar.watch(`${schemasDir}/*.yaml`, {
+  // Watch the whole tree: schemas may live in nested folders
+  const watcher = chokidar.watch(schemasDir, {
+    ignored: (path, stats) =>
+      (path !== schemasDir && basename(path).startsWith('.')) ||
+      (stats?.isFile() === true && !/\.ya?ml$/.test(path)),
     persistent: true,
     ignoreInitial: true,
     awaitWriteFinish: {
@@ -47,7 +51,7 @@ export function createFileWatcher(schemasDir: string, wsHandler: WsHandler): Fil
       const schemas = await schemaService.loadAll(schemasDir);
 
       // Find the changed schema
-      const name = basename(filePath, '.yaml');
+      const name = basename(filePath).replace(/\.ya?ml$/, '');
       const schema = schemas[name];
 
       if (schema) {
@@ -0,0 +1,174 @@
+/**
+ * Incremental migration tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { generateAlterMigration, type MigrationSchemaSnapshot } from './alterMigration.js';
+
+const user: MigrationSchemaSnapshot = {
+  name: 'User',
+  kind: 'object',
+  properties: { email: { type: 'Email', unique: true } },
+};
+
+const post: MigrationSchemaSnapshot = {
+  name: 'Post',
+  kind: 'object',
+  properties: { title: { type: 'String', length: 120 } },
+};
+
+describe('generateAlterMigration', () => {
+  it('adds a column and drops it in the down migration', () => {
+    const current = { User: { ...user, properties: { ...user.properties, name: { type: 'String', default: "O'Neil" } } } };
+    const migration = generateAlterMigration(
+      [{ action: 'property_added', schema: 'User', property: 'name' }],
+      { User: user },
+      current,
+      'mysql'
+    );
+    expect(migration.up).toBe(
+      "-- property_added: User.name\nALTER TABLE `users` ADD COLUMN `name` VARCHAR(255) NOT NULL DEFAULT 'O''Neil';"
+    );
+    expect(migration.down).toBe('-- property_added: User.name\nALTER TABLE `users` DROP COLUMN `name`;');
+  });
+
+  it('adds foreign keys after their column and drops them first', () => {
+    const current = {
+      User: user,
+      Post: {
+        ...post,
+        properties: { ...post.properties, author: { type: 'Association', relation: 'ManyToOne', target: 'User', onDelete: 'CASCADE' } },
+      },
+    };
+    const migration = generateAlterMigration(
+      [{ action: 'property_added', schema: 'Post', property: 'author' }],
+      { User: user, Post: post },
+      current,
+      'postgresql'
+    );
+    expect(migration.up.split('\n').slice(1)).toEqual([
+      'ALTER TABLE "posts" ADD COLUMN "author_id" BIGINT NOT NULL;',
+      'ALTER TABLE "posts" ADD CONSTRAINT "posts_author_id_foreign" FOREIGN KEY ("author_id") REFERENCES "users" ("id") ON DELETE CASCADE;',
+    ]);
+    expect(migration.down.split('\n').slice(1)).toEqual([
+      'ALTER TABLE "posts" DROP CONSTRAINT "posts_author_id_foreign";',
+      'ALTER TABLE "posts" DROP COLUMN "author_id";',
+    ]);
+  });
+
+  it('renames columns in the dialect syntax', () => {
+    const current = { Post: { ...post, properties: { headline: { type: 'String', length: 120 } } } };
+    const migration = generateAlterMigration(
+      [{ action: 'property_renamed', schema: 'Post', property: 'headline', from: 'title', to: 'headline' }],
+      { Post: post },
+      current,
+      'sqlserver'
+    );
+    expect(migration.up).toContain("EXEC sp_rename 'posts.title', 'headline', 'COLUMN';");
+    expect(migration.down).toContain("EXEC sp_rename 'posts.headline', 'title', 'COLUMN';");
+  });
+
+  it('modifies columns and their unique index', () => {
+    const email = { type: 'Email', nullable: true, length: 191 };
+    const migration = generateAlterMigration(
+      [{ action: 'property_modified', schema: 'User', property: 'email', from: user.properties!.email, to: email }],
+      { User: user },
+      { User: { ...user, properties: { email } } },
+      'mysql'
+    );
+    expect(migration.up.split('\n').slice(1)).toEqual([
+      'DROP INDEX `users_email_unique` ON `users`;',
+      'ALTER TABLE `users` MODIFY COLUMN `email` VARCHAR(191) NULL;',
+    ]);
+    expect(migration.down.split('\n').slice(1)).toEqual([
+      'ALTER TABLE `users` MODIFY COLUMN `email` VARCHAR(255) NOT NULL;',
+      'CREATE UNIQUE INDEX `users_email_unique` ON `users` (`email`);',
+    ]);
+  });
+
+  it('notes column changes SQLite cannot make in place', () => {
+    const title = { type: 'String', length: 200 };
+    const migration = generateAlterMigration(
+      [{ action: 'property_modified', schema: 'Post', property: 'title', from: post.properties!.title, to: title }],
+      { Post: post },
+      { Post: { ...post, properties: { title } } },
+      'sqlite'
+    );
+    expect(migration.up).toContain('-- SQLite cannot alter posts.title: the table has to be rebuilt');
+  });
+
+  it('creates new tables after the tables they reference', () => {
+    const current = {
+      Post: { ...post, properties: { author: { type: 'Association', relation: 'ManyToOne', target: 'User' } } },
+      User: user,
+    };
+    const migration = generateAlterMigration(
+      [
+        { action: 'schema_added', schema: 'Post' },
+        { action: 'schema_added', schema: 'User' },
+      ],
+      {},
+      current,
+      'mysql'
+    );
+    expect(migration.up.indexOf('CREATE TABLE `users`')).toBeLessThan(migration.up.indexOf('CREATE TABLE `posts`'));
+    expect(migration.up).toContain('CREATE UNIQUE INDEX `users_email_unique` ON `users` (`email`);');
+    expect(migration.down.indexOf('DROP TABLE `posts`')).toBeLessThan(migration.down.indexOf('DROP TABLE `users`'));
+  });
+
+  it('diffs the indexes of a schema once', () => {
+    const indexed = { ...post, options: { indexes: [{ columns: ['title'], unique: true }] } };
+    const migration = generateAlterMigration(
+      [
+        { action: 'index_added', schema: 'Post' },
+        { action: 'index_modified', schema: 'Post' },
+      ],
+      { Post: post },
+      { Post: indexed },
+      'postgresql'
+    );
+    expect(migration.up).toBe('-- index_added: Post\nCREATE UNIQUE INDEX "posts_title_unique" ON "posts" ("title");');
+    expect(migration.down).toBe('-- index_added: Post\nDROP INDEX "posts_title_unique";');
+  });
+
+  it('renames the table of a changed tableName option before its other changes', () => {
+    const renamed = {
+      ...post,
+      properties: { ...post.properties, body: { type: 'Text' } },
+      options: { tableName: 'articles' },
+    };
+    const migration = generateAlterMigration(
+      [
+        { action: 'property_added', schema: 'Post', property: 'body' },
+        { action: 'option_changed', schema: 'Post', property: 'tableName', to: 'articles' },
+      ],
+      { Post: post },
+      { Post: renamed },
+      'mysql'
+    );
+    expect(migration.up).toBe(
+      [
+        '-- option_changed: Post.tableName',
+        'RENAME TABLE `posts` TO `articles`;',
+        '',
+        '-- property_added: Post.body',
+        'ALTER TABLE `articles` ADD COLUMN `body` TEXT NOT NULL;',
+      ].join('\n')
+    );
+    expect(migration.down).toContain('RENAME TABLE `articles` TO `posts`;');
+  });
+
+  it('adds and drops timestamp columns with the timestamps option', () => {
+    const migration = generateAlterMigration(
+      [{ action: 'option_changed', schema: 'User', property: 'timestamps', to: false }],
+      { User: user },
+      { User: { ...user, options: { timestamps: false } } },
+      'mysql'
+    );
+    expect(migration.up.split('\n').slice(1)).toEqual([
+      'ALTER TABLE `users` DROP COLUMN `updated_at`;',
+      'ALTER TABLE `users` DROP COLUMN `created_at`;',
+    ]);
+    expect(migration.down).toContain('ALTER TABLE `users` ADD COLUMN `created_at` TIMESTAMP NULL;');
+  });
+});
@@ -0,0 +1,669 @@
+/**
+ * Incremental SQL migration for pending version changes (browser-safe)
+ *
+ * Turns the changes between the latest version snapshot and the current schemas
+ * into the DDL of one dialect: columns added, dropped, renamed and modified,
+ * index and foreign key changes, tables created, dropped and renamed. Every step
+ * has its inverse, so the down migration reverts the up migration step by step.
+ */
+
+import { pluralize, toSnakeCase } from './naming.js';
+import type { SqlDialect } from './types.js';
+
+// Version snapshots as stored in .omnify/versions (the parts DDL depends on)
+export interface MigrationPropertySnapshot {
+  type: string;
+  nullable?: boolean;
+  unique?: boolean;
+  default?: unknown;
+  length?: number;
+  unsigned?: boolean;
+  precision?: number;
+  scale?: number;
+  enum?: string | readonly (string | { value: string })[];
+  relation?: string;
+  target?: string;
+  targets?: readonly string[];
+  onDelete?: string;
+  onUpdate?: string;
+  mappedBy?: string;
+  joinTable?: string;
+}
+
+export interface MigrationIndexSnapshot {
+  columns: readonly string[];
+  unique?: boolean;
+  name?: string;
+}
+
+export interface MigrationSchemaSnapshot {
+  name: string;
+  kind?: string;
+  properties?: Record<string, MigrationPropertySnapshot>;
+  values?: readonly (string | { value: string })[];
+  options?: {
+    id?: boolean;
+    idType?: string;
+    timestamps?: boolean;
+    softDelete?: boolean;
+    tableName?: string;
+    indexes?: readonly MigrationIndexSnapshot[];
+  };
+}
+
+export interface MigrationChange {
+  action: string;
+  schema: string;
+  property?: string | undefined;
+  from?: unknown;
+  to?: unknown;
+}
+
+export interface AlterMigration {
+  dialect: SqlDialect;
+  up: string;
+  down: string;
+}
+
+type Snapshots = Readonly<Record<string, MigrationSchemaSnapshot>>;
+
+interface Column {
+  name: string;
+  // Null when the property type has no known column type (plugin types)
+  type: string | null;
+  sourceType: string;
+  nullable: boolean;
+  default?: unknown;
+  unique: boolean;
+  references?: { table: string; onDelete?: string | undefined; onUpdate?: string | undefined } | undefined;
+}
+
+interface JoinTable {
+  name: string;
+  columns: Column[];
+}
+
+// Statements of one step and of its inverse
+interface Steps {
+  up: string[];
+  down: string[];
+}
+
+// ============================================================================
+// Column types
+// ============================================================================
+
+const DIALECT_COLUMN: Record<SqlDialect, 0 | 1 | 2 | 3> = { mysql: 0, postgresql: 1, sqlite: 2, sqlserver: 3 };
+
+const STRING_TYPES = ['VARCHAR({length})', 'VARCHAR({length})', 'VARCHAR({length})', 'NVARCHAR({length})'] as const;
+
+// Pinned to the column types @famgia/omnify-sql generates by alterMigrationTypes.test.ts
+const COLUMN_TYPES: Record<string, readonly [mysql: string, postgresql: string, sqlite: string, sqlserver: string]> = {
+  String: STRING_TYPES,
+  Email: STRING_TYPES,
+  Password: STRING_TYPES,
+  File: STRING_TYPES,
+  Int: ['INT', 'INTEGER', 'INTEGER', 'INT'],
+  BigInt: ['BIGINT', 'BIGINT', 'INTEGER', 'BIGINT'],
+  Float: ['DOUBLE', 'DOUBLE PRECISION', 'REAL', 'FLOAT'],
+  Decimal: ['DECIMAL({precision},{scale})', 'DECIMAL({precision},{scale})', 'NUMERIC({precision},{scale})', 'DECIMAL({precision},{scale})'],
+  Boolean: ['TINYINT(1)', 'BOOLEAN', 'INTEGER', 'BIT'],
+  Text: ['TEXT', 'TEXT', 'TEXT', 'NVARCHAR(MAX)'],
+  LongText: ['LONGTEXT', 'TEXT', 'TEXT', 'NVARCHAR(MAX)'],
+  Date: ['DATE', 'DATE', 'DATE', 'DATE'],
+  Time: ['TIME', 'TIME', 'TIME', 'TIME'],
+  Timestamp: ['TIMESTAMP', 'TIMESTAMP', 'DATETIME', 'DATETIME2'],
+  Json: ['JSON', 'JSONB', 'TEXT', 'NVARCHAR(MAX)'],
+  Uuid: ['CHAR(36)', 'UUID', 'VARCHAR(36)', 'UNIQUEIDENTIFIER'],
+};
+
+const INTEGER_TYPES = new Set(['Int', 'BigInt']);
+const UNSIGNED_TYPES = new Set(['Int', 'BigInt', 'Float', 'Decimal']);
+const TABLE_KINDS = new Set(['object', 'pivot']);
+
+function quote(dialect: SqlDialect, name: string): string {
+  if (dialect === 'mysql') return `\`${name}\``;
+  if (dialect === 'sqlserver') return `[${name}]`;
+  return `"${name}"`;
+}
+
+function literal(dialect: SqlDialect, value: unknown): string {
+  if (value === null) return 'NULL';
+  if (typeof value === 'number') return String(value);
+  if (typeof value === 'boolean') return dialect === 'postgresql' ? String(value).toUpperCase() : value ? '1' : '0';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return `'${text.replace(/'/g, "''")}'`;
+}
+
+function enumValues(values: readonly (string | { value: string })[] | undefined): string[] {
+  return (values ?? []).map((v) => (typeof v === 'string' ? v : v.value));
+}
+
+function columnType(dialect: SqlDialect, prop: MigrationPropertySnapshot, schemas: Snapshots): string | null {
+  if (prop.type === 'Enum' || prop.type === 'EnumRef') {
+    const values = typeof prop.enum === 'string' ? enumValues(schemas[prop.enum]?.values) : enumValues(prop.enum);
+    if (dialect === 'mysql' && values.length > 0) return `ENUM(${values.map((v) => literal(dialect, v)).join(', ')})`;
+    return STRING_TYPES[DIALECT_COLUMN[dialect]].replace('{length}', '255');
+  }
+  const types = COLUMN_TYPES[prop.type];
+  if (!types) return null;
+  const type = types[DIALECT_COLUMN[dialect]]
+    .replace('{length}', String(prop.length ?? 255))
+    .replace('{precision}', String(prop.precision ?? 8))
+    .replace('{scale}', String(prop.scale ?? 2));
+  return dialect === 'mysql' && prop.unsigned && UNSIGNED_TYPES.has(prop.type) ? `${type} UNSIGNED` : type;
+}
+
+/**
+ * Column type of a primary key or of the foreign keys that reference it
+ */
+function idColumnType(dialect: SqlDialect, schema: MigrationSchemaSnapshot | undefined): string {
+  const idType = schema?.options?.idType ?? 'BigInt';
+  return columnType(dialect, { type: idType, unsigned: true }, {}) ?? 'BIGINT';
+}
+
+function primaryKey(dialect: SqlDialect, schema: MigrationSchemaSnapshot): string {
+  const idType = schema.options?.idType ?? 'BigInt';
+  const id = quote(dialect, 'id');
+  if (!INTEGER_TYPES.has(idType)) return `${id} ${idColumnType(dialect, schema)} NOT NULL PRIMARY KEY`;
+  switch (dialect) {
+    case 'mysql':
+      return `${id} ${idColumnType(dialect, schema)} NOT NULL AUTO_INCREMENT PRIMARY KEY`;
+    case 'postgresql':
+      return `${id} ${idType === 'Int' ? 'SERIAL' : 'BIGSERIAL'} PRIMARY KEY`;
+    case 'sqlite':
+      return `${id} INTEGER PRIMARY KEY AUTOINCREMENT`;
+    case 'sqlserver':
+      return `${id} ${idColumnType(dialect, schema)} IDENTITY(1,1) PRIMARY KEY`;
+  }
+}
+
+// ============================================================================
+// Schema columns
+// ============================================================================
+
+function tableOf(schema: MigrationSchemaSnapshot): string {
+  return schema.options?.tableName ?? toSnakeCase(pluralize(schema.name));
+}
+
+function hasTable(schema: MigrationSchemaSnapshot | undefined): schema is MigrationSchemaSnapshot {
+  return !!schema && TABLE_KINDS.has(schema.kind ?? 'object');
+}
+
+function ownsForeignKey(prop: MigrationPropertySnapshot): boolean {
+  return prop.relation === 'ManyToOne' || (prop.relation === 'OneToOne' && !prop.mappedBy);
+}
+
+/**
+ * Columns a property is stored in: none for inverse and to-many associations
+ */
+function propertyColumns(
+  dialect: SqlDialect,
+  name: string,
+  prop: MigrationPropertySnapshot,
+  schemas: Snapshots
+): Column[] {
+  const nullable = prop.nullable === true;
+  if (prop.type !== 'Association') {
+    return [
+      {
+        name: toSnakeCase(name),
+        type: columnType(dialect, prop, schemas),
+        sourceType: prop.type,
+        nullable,
+        default: prop.default,
+        unique: prop.unique === true,
+      },
+    ];
+  }
+  if (prop.relation === 'MorphTo') {
+    return [
+      { name: `${toSnakeCase(name)}_type`, type: columnType(dialect, { type: 'String' }, schemas), sourceType: 'String', nullable, unique: false },
+      { name: `${toSnakeCase(name)}_id`, type: idColumnType(dialect, undefined), sourceType: 'BigInt', nullable, unique: false },
+    ];
+  }
+  if (!ownsForeignKey(prop) || !prop.target) return [];
+  const target = schemas[prop.target];
+  return [
+    {
+      name: `${toSnakeCase(name)}_id`,
+      type: idColumnType(dialect, target),
+      sourceType: 'Association',
+      nullable,
+      unique: prop.relation === 'OneToOne' || prop.unique === true,
+      references: {
+        table: target ? tableOf(target) : toSnakeCase(pluralize(prop.target)),
+        onDelete: prop.onDelete,
+        onUpdate: prop.onUpdate,
+      },
+    },
+  ];
+}
+
+/**
+ * Join table of the owning side of a ManyToMany association
+ */
+function joinTableOf(
+  dialect: SqlDialect,
+  schema: MigrationSchemaSnapshot,
+  prop: MigrationPropertySnapshot,
+  schemas: Snapshots
+): JoinTable | null {
+  if (prop.type !== 'Association' || prop.relation !== 'ManyToMany' || prop.mappedBy || !prop.target) return null;
+  const key = (s: MigrationSchemaSnapshot | undefined, name: string): Column => ({
+    name: `${toSnakeCase(name)}_id`,
+    type: idColumnType(dialect, s),
+    sourceType: 'Association',
+    nullable: false,
+    unique: false,
+    references: { table: s ? tableOf(s) : toSnakeCase(pluralize(name)), onDelete: 'CASCADE' },
+  });
+  return {
+    name: prop.joinTable ?? [toSnakeCase(schema.name), toSnakeCase(prop.target)].sort().join('_'),
+    columns: [key(schema, schema.name), key(schemas[prop.target], prop.target)],
+  };
+}
+
+function indexColumn(schema: MigrationSchemaSnapshot, name: string): string {
+  const prop = schema.properties?.[name];
+  return prop?.type === 'Association' && ownsForeignKey(prop) ? `${toSnakeCase(name)}_id` : toSnakeCase(name);
+}
+
+function indexName(table: string, index: MigrationIndexSnapshot, columns: string[]): string {
+  return index.name ?? `${table}_${columns.join('_')}_${index.unique ? 'unique' : 'index'}`;
+}
+
+// ============================================================================
+// Statements
+// ============================================================================
+
+function step(up: string | null, down: string | null): Steps {
+  return { up: up ? [up] : [], down: down ? [down] : [] };
+}
+
+function sequence(parts: Steps[]): Steps {
+  return { up: parts.flatMap((p) => p.up), down: [...parts].reverse().flatMap((p) => p.down) };
+}
+
+function inverse(steps: Steps): Steps {
+  return { up: steps.down, down: steps.up };
+}
+
+function columnSql(dialect: SqlDialect, column: Column): string {
+  const defaultSql = column.default !== undefined ? ` DEFAULT ${literal(dialect, column.default)}` : '';
+  return `${quote(dialect, column.name)} ${column.type} ${column.nullable ? 'NULL' : 'NOT NULL'}${defaultSql}`;
+}
+
+function referencesSql(dialect: SqlDialect, column: Column): string {
+  const ref = column.references!;
+  return [
+    `REFERENCES ${quote(dialect, ref.table)} (${quote(dialect, 'id')})`,
+    ref.onDelete && `ON DELETE ${ref.onDelete.toUpperCase()}`,
+    ref.onUpdate && `ON UPDATE ${ref.onUpdate.toUpperCase()}`,
+  ]
+    .filter(Boolean)
+    .join(' ');
+}
+
+function foreignKeyName(table: string, column: Column): string {
+  return `${table}_${column.name}_foreign`;
+}
+
+function createIndex(dialect: SqlDialect, table: string, name: string, columns: string[], unique: boolean): Steps {
+  const q = (n: string): string => quote(dialect, n);
+  const drop = dialect === 'mysql' || dialect === 'sqlserver' ? `DROP INDEX ${q(name)} ON ${q(table)};` : `DROP INDEX ${q(name)};`;
+  return step(`CREATE ${unique ? 'UNIQUE ' : ''}INDEX ${q(name)} ON ${q(table)} (${columns.map(q).join(', ')});`, drop);
+}
+
+function addForeignKey(dialect: SqlDialect, table: string, column: Column): Steps {
+  // SQLite declares the reference on the column itself
+  if (dialect === 'sqlite' || !column.references) return step(null, null);
+  const q = (n: string): string => quote(dialect, n);
+  const name = q(foreignKeyName(table, column));
+  return step(
+    `ALTER TABLE ${q(table)} ADD CONSTRAINT ${name} FOREIGN KEY (${q(column.name)}) ${referencesSql(dialect, column)};`,
+    `ALTER TABLE ${q(table)} DROP ${dialect === 'mysql' ? 'FOREIGN KEY' : 'CONSTRAINT'} ${name};`
+  );
+}
+
+function notPreviewed(table: string, column: Column): Steps {
+  const note = `-- ${table}.${column.name}: ${column.sourceType} columns are not previewed`;
+  return step(note, note);
+}
+
+function addColumn(dialect: SqlDialect, table: string, column: Column): Steps {
+  if (!column.type) return notPreviewed(table, column);
+  const q = (n: string): string => quote(dialect, n);
+  const reference = dialect === 'sqlite' && column.references ? ` ${referencesSql(dialect, column)}` : '';
+  return sequence([
+    step(
+      `ALTER TABLE ${q(table)} ADD${dialect === 'sqlserver' ? '' : ' COLUMN'} ${columnSql(dialect, column)}${reference};`,
+      `ALTER TABLE ${q(table)} DROP COLUMN ${q(column.name)};`
+    ),
+    addForeignKey(dialect, table, column),
+    column.unique ? createIndex(dialect, table, `${table}_${column.name}_unique`, [column.name], true) : step(null, null),
+  ]);
+}
+
+function alterColumnSql(dialect: SqlDialect, table: string, column: Column): string {
+  const q = (n: string): string => quote(dialect, n);
+  switch (dialect) {
+    case 'mysql':
+      return `ALTER TABLE ${q(table)} MODIFY COLUMN ${columnSql(dialect, column)};`;
+    case 'postgresql': {
+      const name = q(column.name);
+      return [
+        `ALTER TABLE ${q(table)}`,
+        `  ALTER COLUMN ${name} TYPE ${column.type},`,
+        `  ALTER COLUMN ${name} ${column.nullable ? 'DROP NOT NULL' : 'SET NOT NULL'},`,
+        `  ALTER COLUMN ${name} ${column.default !== undefined ? `SET DEFAULT ${literal(dialect, column.default)}` : 'DROP DEFAULT'};`,
+      ].join('\n');
+    }
+    case 'sqlite':
+      return `-- SQLite cannot alter ${table}.${column.name}: the table has to be rebuilt`;
+    case 'sqlserver':
+      return `ALTER TABLE ${q(table)} ALTER COLUMN ${q(column.name)} ${column.type} ${column.nullable ? 'NULL' : 'NOT NULL'};`;
+  }
+}
+
+function modifyColumn(dialect: SqlDialect, table: string, before: Column, after: Column): Steps {
+  if (!before.type || !after.type) return before.type === after.type ? step(null, null) : notPreviewed(table, after);
+  const shape = (c: Column): string => JSON.stringify([c.type, c.nullable, c.default]);
+  const reference = (c: Column): string => JSON.stringify(c.references ?? null);
+  const uniqueIndex = (c: Column): Steps =>
+    c.unique ? createIndex(dialect, table, `${table}_${c.name}_unique`, [c.name], true) : step(null, null);
+
+  const parts: Steps[] = [];
+  if (reference(before) !== reference(after)) parts.push(inverse(addForeignKey(dialect, table, before)));
+  if (before.unique !== after.unique) parts.push(inverse(uniqueIndex(before)));
+  if (shape(before) !== shape(after)) {
+    parts.push(step(alterColumnSql(dialect, table, after), alterColumnSql(dialect, table, before)));
+  }
+  if (before.unique !== after.unique) parts.push(uniqueIndex(after));
+  if (reference(before) !== reference(after)) parts.push(addForeignKey(dialect, table, after));
+  return sequence(parts);
+}
+
+function renameColumn(dialect: SqlDialect, table: string, from: string, to: string): Steps {
+  const q = (n: string): string => quote(dialect, n);
+  const sql = (a: string, b: string): string =>
+    dialect === 'sqlserver'
+      ? `EXEC sp_rename '${table}.${a}', '${b}', 'COLUMN';`
+      : `ALTER TABLE ${q(table)} RENAME COLUMN ${q(a)} TO ${q(b)};`;
+  return step(sql(from, to), sql(to, from));
+}
+
+function renameTable(dialect: SqlDialect, from: string, to: string): Steps {
+  if (from === to) return step(null, null);
+  const q = (n: string): string => quote(dialect, n);
+  const sql = (a: string, b: string): string => {
+    if (dialect === 'mysql') return `RENAME TABLE ${q(a)} TO ${q(b)};`;
+    if (dialect === 'sqlserver') return `EXEC sp_rename '${a}', '${b}';`;
+    return `ALTER TABLE ${q(a)} RENAME TO ${q(b)};`;
+  };
+  return step(sql(from, to), sql(to, from));
+}
+
+function createTableSql(dialect: SqlDialect, table: string, definitions: string[]): string {
+  return `CREATE TABLE ${quote(dialect, table)} (\n${definitions.map((d) => `  ${d}`).join(',\n')}\n);`;
+}
+
+function foreignKeyConstraints(dialect: SqlDialect, table: string, columns: Column[]): string[] {
+  return columns
+    .filter((c) => c.references)
+    .map(
+      (c) =>
+        `CONSTRAINT ${quote(dialect, foreignKeyName(table, c))} FOREIGN KEY (${quote(dialect, c.name)}) ${referencesSql(dialect, c)}`
+    );
+}
+
+function createJoinTable(dialect: SqlDialect, joinTable: JoinTable): Steps {
+  const { name, columns } = joinTable;
+  return step(
+    createTableSql(dialect, name, [
+      ...columns.map((c) => columnSql(dialect, c)),
+      `PRIMARY KEY (${columns.map((c) => quote(dialect, c.name)).join(', ')})`,
+      ...foreignKeyConstraints(dialect, name, columns),
+    ]),
+    `DROP TABLE ${quote(dialect, name)};`
+  );
+}
+
+/**
+ * Index steps of a schema by index identity. Indexes keep the names derived
+ * from `nameTable` when their table is renamed to `table`.
+ */
+function tableIndexes(
+  dialect: SqlDialect,
+  schema: MigrationSchemaSnapshot,
+  table = tableOf(schema),
+  nameTable = table
+): Map<string, Steps> {
+  const indexes = new Map<string, Steps>();
+  for (const index of schema.options?.indexes ?? []) {
+    const columns = index.columns.map((c) => indexColumn(schema, c));
+    indexes.set(
+      JSON.stringify([index.name, columns, index.unique === true]),
+      createIndex(dialect, table, indexName(nameTable, index, columns), columns, index.unique === true)
+    );
+  }
+  return indexes;
+}
+
+function timestampColumns(dialect: SqlDialect, names: string[]): Column[] {
+  return names.map((name) => ({
+    name,
+    type: columnType(dialect, { type: 'Timestamp' }, {}),
+    sourceType: 'Timestamp',
+    nullable: true,
+    unique: false,
+  }));
+}
+
+function createTable(dialect: SqlDialect, schema: MigrationSchemaSnapshot, schemas: Snapshots): Steps {
+  const table = tableOf(schema);
+  const properties = Object.entries(schema.properties ?? {});
+  const columns = properties.flatMap(([name, prop]) => propertyColumns(dialect, name, prop, schemas));
+  const known = columns.filter((c) => c.type);
+  if (schema.options?.timestamps !== false) known.push(...timestampColumns(dialect, ['created_at', 'updated_at']));
+  if (schema.options?.softDelete) known.push(...timestampColumns(dialect, ['deleted_at']));
+
+  return sequence([
+    ...columns.filter((c) => !c.type).map((c) => notPreviewed(table, c)),
+    step(
+      createTableSql(dialect, table, [
+        ...(schema.options?.id !== false ? [primaryKey(dialect, schema)] : []),
+        ...known.map((c) => columnSql(dialect, c)),
+        ...foreignKeyConstraints(dialect, table, known),
+      ]),
+      `DROP TABLE ${quote(dialect, table)};`
+    ),
+    ...known.filter((c) => c.unique).map((c) => createIndex(dialect, table, `${table}_${c.name}_unique`, [c.name], true)),
+    ...tableIndexes(dialect, schema).values(),
+    ...properties.flatMap(([, prop]) => {
+      const joinTable = joinTableOf(dialect, schema, prop, schemas);
+      return joinTable ? [createJoinTable(dialect, joinTable)] : [];
+    }),
+  ]);
+}
+
+// ============================================================================
+// Changes
+// ============================================================================
+
+/**
+ * Table schemas in creation order: schemas referenced by a foreign key or join
+ * table come before the schemas referencing them
+ */
+function creationOrder(names: string[], schemas: Snapshots): string[] {
+  const references = (name: string): string[] =>
+    Object.values(schemas[name]?.properties ?? {})
+      .filter((p) => p.type === 'Association' && (ownsForeignKey(p) || (p.relation === 'ManyToMany' && !p.mappedBy)))
+      .map((p) => p.target ?? '')
+      .filter((target) => target !== name && names.includes(target));
+
+  const ordered: string[] = [];
+  const visit = (name: string, path: string[]): void => {
+    if (ordered.includes(name) || path.includes(name)) return;
+    for (const target of references(name)) visit(target, [...path, name]);
+    ordered.push(name);
+  };
+  for (const name of names) visit(name, []);
+  return ordered;
+}
+
+function isTableRename(change: MigrationChange): boolean {
+  return change.action === 'option_changed' && change.property === 'tableName';
+}
+
+/**
+ * Up and down SQL for `changes` from the `previous` snapshot (latest version)
+ * to the `current` one
+ */
+export function generateAlterMigration(
+  changes: readonly MigrationChange[],
+  previous: Snapshots,
+  current: Snapshots,
+  dialect: SqlDialect
+): AlterMigration {
+  const added = creationOrder(
+    changes.filter((c) => c.action === 'schema_added').map((c) => c.schema),
+    current
+  );
+  const removed = creationOrder(
+    changes.filter((c) => c.action === 'schema_removed').map((c) => c.schema),
+    previous
+  ).reverse();
+  const byName = (action: string, names: string[]): MigrationChange[] =>
+    names.map((schema) => changes.find((c) => c.action === action && c.schema === schema)!);
+
+  // Tables are renamed first, so the other steps use the current table names
+  const ordered = [
+    ...changes.filter(isTableRename),
+    ...byName('schema_added', added),
+    ...changes.filter((c) => !isTableRename(c) && c.action !== 'schema_added' && c.action !== 'schema_removed'),
+    ...byName('schema_removed', removed),
+  ];
+
+  const indexesDone = new Set<string>();
+
+  const stepsFor = (change: MigrationChange): Steps => {
+    const { schema, property } = change;
+    const previousSchema = previous[schema];
+    const currentSchema = current[schema];
+    const table = currentSchema ? tableOf(currentSchema) : '';
+
+    switch (change.action) {
+      case 'schema_added':
+        return hasTable(currentSchema) ? createTable(dialect, currentSchema, current) : step(null, null);
+
+      case 'schema_removed':
+        return hasTable(previousSchema) ? inverse(createTable(dialect, previousSchema, previous)) : step(null, null);
+
+      case 'property_added':
+      case 'property_removed': {
+        const snapshots = change.action === 'property_added' ? current : previous;
+        const owner = change.action === 'property_added' ? currentSchema : previousSchema;
+        const prop = owner?.properties?.[property ?? ''];
+        if (!hasTable(owner) || !hasTable(currentSchema) || !prop || !property) return step(null, null);
+        const joinTable = joinTableOf(dialect, owner, prop, snapshots);
+        const steps = sequence([
+          ...propertyColumns(dialect, property, prop, snapshots).map((c) => addColumn(dialect, table, c)),
+          ...(joinTable ? [createJoinTable(dialect, joinTable)] : []),
+        ]);
+        return change.action === 'property_added' ? steps : inverse(steps);
+      }
+
+      case 'property_renamed': {
+        const from = String(change.from);
+        const prop = previousSchema?.properties?.[from];
+        if (!hasTable(currentSchema) || !prop || !property) return step(null, null);
+        const oldColumns = propertyColumns(dialect, from, prop, previous);
+        const newColumns = propertyColumns(dialect, property, prop, current);
+        return sequence(oldColumns.map((c, i) => renameColumn(dialect, table, c.name, newColumns[i]!.name)));
+      }
+
+      case 'property_modified': {
+        const from = (change.from ?? previousSchema?.properties?.[property ?? '']) as MigrationPropertySnapshot | undefined;
+        const to = (change.to ?? currentSchema?.properties?.[property ?? '']) as MigrationPropertySnapshot | undefined;
+        if (!hasTable(currentSchema) || !hasTable(previousSchema) || !from || !to || !property) return step(null, null);
+        const oldColumns = propertyColumns(dialect, property, from, previous);
+        const newColumns = propertyColumns(dialect, property, to, current);
+        const oldJoin = joinTableOf(dialect, previousSchema, from, previous);
+        const newJoin = joinTableOf(dialect, currentSchema, to, current);
+
+        const sameColumns = oldColumns.map((c) => c.name).join() === newColumns.map((c) => c.name).join();
+        const columns = sameColumns
+          ? oldColumns.map((c, i) => modifyColumn(dialect, table, c, newColumns[i]!))
+          : [
+              ...oldColumns.map((c) => inverse(addColumn(dialect, table, c))),
+              ...newColumns.map((c) => addColumn(dialect, table, c)),
+            ];
+        const joinTables =
+          JSON.stringify(oldJoin) === JSON.stringify(newJoin)
+            ? []
+            : [
+                ...(oldJoin ? [inverse(createJoinTable(dialect, oldJoin))] : []),
+                ...(newJoin ? [createJoinTable(dialect, newJoin)] : []),
+              ];
+        return sequence([...columns, ...joinTables]);
+      }
+
+      case 'index_added':
+      case 'index_removed':
+      case 'index_modified': {
+        if (!hasTable(currentSchema) || !hasTable(previousSchema) || indexesDone.has(schema)) return step(null, null);
+        indexesDone.add(schema);
+        const oldIndexes = tableIndexes(dialect, previousSchema, table, tableOf(previousSchema));
+        const newIndexes = tableIndexes(dialect, currentSchema);
+        return sequence([
+          ...[...oldIndexes].filter(([key]) => !newIndexes.has(key)).map(([, steps]) => inverse(steps)),
+          ...[...newIndexes].filter(([key]) => !oldIndexes.has(key)).map(([, steps]) => steps),
+        ]);
+      }
+
+      case 'option_changed': {
+        if (!hasTable(currentSchema) || !hasTable(previousSchema)) return step(null, null);
+        const toggle = (enabled: (s: MigrationSchemaSnapshot) => boolean, names: string[]): Steps => {
+          if (enabled(previousSchema) === enabled(currentSchema)) return step(null, null);
+          const steps = sequence(timestampColumns(dialect, names).map((c) => addColumn(dialect, table, c)));
+          return enabled(currentSchema) ? steps : inverse(steps);
+        };
+        switch (property) {
+          case 'timestamps':
+            return toggle((s) => s.options?.timestamps !== false, ['created_at', 'updated_at']);
+          case 'softDelete':
+            return toggle((s) => s.options?.softDelete === true, ['deleted_at']);
+          case 'tableName':
+            return renameTable(dialect, tableOf({ ...previousSchema, name: schema }), table);
+          case 'id':
+          case 'idType': {
+            const note = `-- ${table}: changing the "${property}" option is not previewed`;
+            return step(note, note);
+          }
+          default:
+            return step(null, null);
+        }
+      }
+
+      default:
+        return step(null, null);
+    }
+  };
+
+  const groups = ordered.map((change) => ({
+    title: `-- ${change.action}: ${change.schema}${change.property ? `.${change.property}` : ''}`,
+    steps: stepsFor(change),
+  }));
+  const render = (items: { title: string; statements: string[] }[]): string =>
+    items
+      .filter((item) => item.statements.length > 0)
+      .map((item) => [item.title, ...item.statements].join('\n'))
+      .join('\n\n');
+
+  return {
+    dialect,
+    up: render(groups.map((g) => ({ title: g.title, statements: g.steps.up }))),
+    down: render([...groups].reverse().map((g) => ({ title: g.title, statements: g.steps.down }))),
+  };
+}
@@ -0,0 +1,85 @@
+/**
+ * Column type tests
+ * Pins the column types of incremental migrations to the ones @famgia/omnify-sql
+ * generates, so the two DDL generators cannot drift apart unnoticed
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { stringify } from 'yaml';
+import { loadSchemas } from '@famgia/omnify-core';
+import { generateMigrations } from '@famgia/omnify-sql';
+import { generateAlterMigration, type MigrationPropertySnapshot } from './alterMigration.js';
+import type { SqlDialect } from './types.js';
+
+const DIALECTS: SqlDialect[] = ['mysql', 'postgresql', 'sqlite', 'sqlserver'];
+
+// One column per property type, with sizes no default would produce
+const PROBES: Record<string, MigrationPropertySnapshot> = {
+  probe_string: { type: 'String', length: 191 },
+  probe_email: { type: 'Email', length: 191 },
+  probe_password: { type: 'Password', length: 191 },
+  probe_file: { type: 'File' },
+  probe_int: { type: 'Int' },
+  probe_big_int: { type: 'BigInt' },
+  probe_float: { type: 'Float' },
+  probe_decimal: { type: 'Decimal', precision: 13, scale: 7 },
+  probe_boolean: { type: 'Boolean' },
+  probe_text: { type: 'Text' },
+  probe_long_text: { type: 'LongText' },
+  probe_date: { type: 'Date' },
+  probe_time: { type: 'Time' },
+  probe_timestamp: { type: 'Timestamp' },
+  probe_json: { type: 'Json' },
+  probe_uuid: { type: 'Uuid' },
+};
+
+const probeSchema = { name: 'Probe', kind: 'object' as const, properties: PROBES };
+
+let schemasDir: string;
+
+beforeAll(() => {
+  schemasDir = mkdtempSync(join(tmpdir(), 'omnify-column-types-'));
+  writeFileSync(join(schemasDir, 'Probe.yaml'), stringify({ properties: PROBES }), 'utf-8');
+});
+
+afterAll(() => {
+  rmSync(schemasDir, { recursive: true, force: true });
+});
+
+/**
+ * Column type of `column` in the ADD COLUMN statement of an incremental migration
+ */
+function alterColumnType(dialect: SqlDialect, column: string): string {
+  const { up } = generateAlterMigration(
+    [{ action: 'property_added', schema: 'Probe', property: column }],
+    { Probe: { ...probeSchema, properties: {} } },
+    { Probe: probeSchema },
+    dialect
+  );
+  const match = up.match(new RegExp(`ADD (?:COLUMN )?\\S*${column}\\S* (.+) NOT NULL;`));
+  return match?.[1] ?? '';
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+describe.each(DIALECTS)('column types for %s', (dialect) => {
+  let createTable = '';
+
+  beforeAll(async () => {
+    const schemas = await loadSchemas(schemasDir);
+    const migrations = generateMigrations(schemas, { dialect }) as { content: string }[];
+    createTable = migrations.map((m) => m.content).join('\n');
+  });
+
+  it.each(Object.entries(PROBES))('%s (%o) matches omnify-sql', (column) => {
+    const type = alterColumnType(dialect, column);
+    expect(type).not.toBe('');
+    // The column name in any quoting, followed by the same type
+    expect(createTable).toMatch(new RegExp(`[\`"\\[]?${column}[\`"\\]]?\\s+${escapeRegExp(type)}(?![\\w(])`, 'i'));
+  });
+});
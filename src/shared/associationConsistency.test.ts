@@ -0,0 +1,196 @@
+/**
+ * Association consistency tests
+ * Tests the bidirectional checks reported by schema validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { checkAssociationConsistency, isSchemaFinding } from './associationConsistency.js';
+import { objectSchema } from './fixtures/schemas.js';
+import type { GuiSchema } from './types.js';
+
+function collection(...schemas: GuiSchema[]): Record<string, GuiSchema> {
+  return Object.fromEntries(schemas.map((s) => [s.name, s]));
+}
+
+// ============================================================================
+// inversedBy / mappedBy Tests
+// ============================================================================
+
+describe('checkAssociationConsistency', () => {
+  it('accepts a consistent pair', () => {
+    const schemas = collection(
+      objectSchema('Post', {
+        author: { type: 'Association', relation: 'ManyToOne', target: 'User', inversedBy: 'posts' },
+      }),
+      objectSchema('User', {
+        posts: { type: 'Association', relation: 'OneToMany', target: 'Post', mappedBy: 'author' },
+      })
+    );
+    expect(checkAssociationConsistency(schemas)).toEqual([]);
+  });
+
+  it('ignores unidirectional associations', () => {
+    const schemas = collection(
+      objectSchema('Post', { author: { type: 'Association', relation: 'ManyToOne', target: 'User' } }),
+      objectSchema('User', {})
+    );
+    expect(checkAssociationConsistency(schemas)).toEqual([]);
+  });
+
+  it('reports an inversedBy pointing to a missing property', () => {
+    const schemas = collection(
+      objectSchema('Post', {
+        author: { type: 'Association', relation: 'ManyToOne', target: 'User', inversedBy: 'posts' },
+      }),
+      objectSchema('User', {})
+    );
+    expect(checkAssociationConsistency(schemas)).toEqual([
+      { path: 'Post.author', message: expect.stringContaining('User.posts'), severity: 'error' },
+    ]);
+  });
+
+  it('warns when the inverse does not point back', () => {
+    const schemas = collection(
+      objectSchema('Post', {
+        author: { type: 'Association', relation: 'ManyToOne', target: 'User', inversedBy: 'posts' },
+      }),
+      objectSchema('User', {
+        posts: { type: 'Association', relation: 'OneToMany', target: 'Post' },
+      })
+    );
+    expect(checkAssociationConsistency(schemas)).toEqual([
+      {
+        path: 'User.posts',
+        message: expect.stringContaining('mappedBy'),
+        severity: 'warning',
+        relatedPath: 'Post.author',
+        fix: {
+          title: 'Set mappedBy: author on User.posts',
+          edits: [{ op: 'set', schema: 'User', path: ['properties', 'posts', 'mappedBy'], value: 'author' }],
+        },
+      },
+    ]);
+  });
+
+  it('reports relation kinds that are not complementary', () => {
+    const schemas = collection(
+      objectSchema('Post', {
+        author: { type: 'Association', relation: 'ManyToOne', target: 'User', inversedBy: 'posts' },
+      }),
+      objectSchema('User', {
+        posts: { type: 'Association', relation: 'ManyToMany', target: 'Post', mappedBy: 'author' },
+      })
+    );
+    const errors = checkAssociationConsistency(schemas);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatchObject({ path: 'Post.author', severity: 'error' });
+    expect(errors[0]?.message).toContain('expected OneToMany');
+  });
+
+  it('finds a pair finding from the schemas on both sides', () => {
+    const schemas = collection(
+      objectSchema('Post', {
+        author: { type: 'Association', relation: 'ManyToOne', target: 'User', inversedBy: 'posts' },
+      }),
+      objectSchema('User', {
+        posts: { type: 'Association', relation: 'ManyToMany', target: 'Post', mappedBy: 'author' },
+      }),
+      objectSchema('Tag', {})
+    );
+    const [finding] = checkAssociationConsistency(schemas);
+    expect(isSchemaFinding(finding!, 'Post')).toBe(true);
+    expect(isSchemaFinding(finding!, 'User')).toBe(true);
+    expect(isSchemaFinding(finding!, 'Tag')).toBe(false);
+  });
+
+  it('reports both sides declaring inversedBy', () => {
+    const schemas = collection(
+      objectSchema('Post', {
+        tags: { type: 'Association', relation: 'ManyToMany', target: 'Tag', inversedBy: 'posts' },
+      }),
+      objectSchema('Tag', {
+        posts: { type: 'Association', relation: 'ManyToMany', target: 'Post', inversedBy: 'tags' },
+      })
+    );
+    expect(checkAssociationConsistency(schemas).map((e) => e.severity)).toEqual(['error']);
+  });
+});
+
+// ============================================================================
+// ManyToMany Tests
+// ============================================================================
+
+describe('checkAssociationConsistency ManyToMany', () => {
+  const tags = (extra: Record<string, unknown>, inverseExtra: Record<string, unknown>): Record<string, GuiSchema> =>
+    collection(
+      objectSchema('Post', {
+        tags: { type: 'Association', relation: 'ManyToMany', target: 'Tag', inversedBy: 'posts', ...extra },
+      }),
+      objectSchema('Tag', {
+        posts: { type: 'Association', relation: 'ManyToMany', target: 'Post', mappedBy: 'tags', ...inverseExtra },
+      })
+    );
+
+  it('reports different join tables', () => {
+    const errors = checkAssociationConsistency(tags({ joinTable: 'post_tag' }, { joinTable: 'tag_post' }));
+    expect(errors).toEqual([
+      { path: 'Post.tags', message: expect.stringContaining('joinTable'), severity: 'error', relatedPath: 'Tag.posts' },
+    ]);
+  });
+
+  it('warns when only one side declares the join table', () => {
+    const errors = checkAssociationConsistency(tags({ joinTable: 'post_tag' }, {}));
+    expect(errors).toEqual([
+      {
+        path: 'Tag.posts',
+        message: expect.stringContaining('Post.tags'),
+        severity: 'warning',
+        relatedPath: 'Post.tags',
+        fix: {
+          title: 'Set joinTable: post_tag on Tag.posts',
+          edits: [{ op: 'set', schema: 'Tag', path: ['properties', 'posts', 'joinTable'], value: 'post_tag' }],
+        },
+      },
+    ]);
+  });
+
+  it('reports different pivot fields', () => {
+    const errors = checkAssociationConsistency(
+      tags({ pivotFields: { order: { type: 'Int' } } }, { pivotFields: { order: { type: 'String' } } })
+    );
+    expect(errors).toEqual([
+      { path: 'Post.tags', message: expect.stringContaining('pivotFields'), severity: 'error', relatedPath: 'Tag.posts' },
+    ]);
+  });
+});
+
+// ============================================================================
+// Polymorphic Tests
+// ============================================================================
+
+describe('checkAssociationConsistency polymorphic', () => {
+  it('warns when the MorphTo does not list the owner', () => {
+    const schemas = collection(
+      objectSchema('Post', {
+        comments: { type: 'Association', relation: 'MorphMany', target: 'Comment', morphName: 'commentable' },
+      }),
+      objectSchema('Comment', {
+        commentable: { type: 'Association', relation: 'MorphTo', targets: ['Video'] },
+      })
+    );
+    expect(checkAssociationConsistency(schemas)).toEqual([
+      {
+        path: 'Comment.commentable',
+        message: expect.stringContaining('Post'),
+        severity: 'warning',
+        relatedPath: 'Post.comments',
+        fix: {
+          title: 'Set targets: [Video, Post] on Comment.commentable',
+          edits: [
+            { op: 'set', schema: 'Comment', path: ['properties', 'commentable', 'targets'], value: ['Video', 'Post'] },
+          ],
+        },
+      },
+    ]);
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Bidirectional association consistency checks
+ *
+ * Verifies that both sides of an association agree with each other:
+ * `inversedBy`/`mappedBy` point at each other, relation kinds are
+ * complementary and ManyToMany join tables and pivot fields match.
+ * Unknown targets are left to @famgia/omnify-core validation.
+ */
+
+import type { GuiSchema, GuiPropertyDefinition, SchemaFix, ValidationError } from './types.js';
+import { getAssociationTargets, getInverseRelation } from './relationships.js';
+
+type Schemas = Record<string, GuiSchema>;
+
+function error(path: string, message: string): ValidationError {
+  return { path, message, severity: 'error' };
+}
+
+function warning(path: string, message: string, fix?: SchemaFix): ValidationError {
+  return { path, message, severity: 'warning', ...(fix ? { fix } : {}) };
+}
+
+/**
+ * Fix setting one key of a property
+ */
+function setPropertyKey(schema: string, property: string, key: string, value: unknown): SchemaFix {
+  return {
+    title: `Set ${key}: ${Array.isArray(value) ? `[${value.join(', ')}]` : String(value)} on ${schema}.${property}`,
+    edits: [{ op: 'set', schema, path: ['properties', property, key], value }],
+  };
+}
+
+/**
+ * Stable comparison key for pivot field definitions
+ */
+function pivotSignature(prop: GuiPropertyDefinition): string {
+  const fields = Object.entries(prop.pivotFields ?? {})
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, field]) => [name, field.type, field.nullable === true, field.default ?? null]);
+  return JSON.stringify(fields);
+}
+
+/**
+ * Compare the relation kind, join table and pivot fields of a declared pair
+ */
+function checkPair(
+  owner: string,
+  ownerProp: string,
+  prop: GuiPropertyDefinition,
+  target: string,
+  inverseProp: string,
+  inverse: GuiPropertyDefinition
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const path = `${owner}.${ownerProp}`;
+  const inversePath = `${target}.${inverseProp}`;
+
+  const expected = prop.relation ? getInverseRelation(prop.relation) : undefined;
+  if (expected && inverse.relation !== expected) {
+    errors.push(
+      error(path, `${prop.relation} is paired with ${inversePath} (${inverse.relation ?? 'no relation'}); expected ${expected}`)
+    );
+  }
+
+  if (prop.relation === 'ManyToMany' && inverse.relation === 'ManyToMany') {
+    if (prop.joinTable && inverse.joinTable && prop.joinTable !== inverse.joinTable) {
+      errors.push(
+        error(path, `joinTable "${prop.joinTable}" differs from ${inversePath} ("${inverse.joinTable}")`)
+      );
+    } else if (!prop.joinTable !== !inverse.joinTable) {
+      const [declared, missing] = prop.joinTable ? [path, inversePath] : [inversePath, path];
+      const [missingSchema, missingProp] = prop.joinTable ? [target, inverseProp] : [owner, ownerProp];
+      const joinTable = (prop.joinTable ?? inverse.joinTable)!;
+      errors.push(
+        warning(missing, `joinTable is only declared on ${declared}`, setPropertyKey(missingSchema, missingProp, 'joinTable', joinTable))
+      );
+    }
+
+    if (pivotSignature(prop) !== pivotSignature(inverse)) {
+      errors.push(error(path, `pivotFields differ from ${inversePath}`));
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Check one side of an association that names its inverse
+ */
+function checkNamedInverse(
+  schemas: Schemas,
+  name: string,
+  propName: string,
+  prop: GuiPropertyDefinition,
+  target: string,
+  seen: Set<string>
+): ValidationError[] {
+  const path = `${name}.${propName}`;
+  const targetSchema = schemas[target];
+  if (!targetSchema) return [];
+
+  const owning = prop.inversedBy !== undefined;
+  const key = owning ? 'inversedBy' : 'mappedBy';
+  const backKey = owning ? 'mappedBy' : 'inversedBy';
+  const inverseName = (owning ? prop.inversedBy : prop.mappedBy)!;
+  const inverse = targetSchema.properties?.[inverseName];
+  const inversePath = `${target}.${inverseName}`;
+
+  if (!inverse) {
+    return [error(path, `${key} points to ${inversePath}, which does not exist`)];
+  }
+  if (inverse.type !== 'Association' || !getAssociationTargets(inverse).includes(name)) {
+    return [error(path, `${key} points to ${inversePath}, which is not an association to ${name}`)];
+  }
+
+  // Report each pair once, from whichever side is checked first
+  const pairKey = [path, inversePath].sort().join('<->');
+  if (seen.has(pairKey)) return [];
+  seen.add(pairKey);
+
+  const errors: ValidationError[] = [];
+  if (inverse[key] !== undefined) {
+    errors.push(error(path, `Both ${path} and ${inversePath} declare ${key}; one side must use ${backKey}`));
+  } else if (inverse[backKey] === undefined) {
+    errors.push(
+      warning(
+        inversePath,
+        `Missing ${backKey}: ${propName} (inverse of ${path})`,
+        setPropertyKey(target, inverseName, backKey, propName)
+      )
+    );
+  } else if (inverse[backKey] !== propName) {
+    errors.push(
+      error(inversePath, `${backKey} points to ${name}.${inverse[backKey]}, but ${path} declares ${key}: ${inverseName}`)
+    );
+  }
+
+  // Compare from the owning side so the messages read the same either way
+  errors.push(
+    ...(owning
+      ? checkPair(name, propName, prop, target, inverseName, inverse)
+      : checkPair(target, inverseName, inverse, name, propName, prop))
+  );
+  // Reported once for the pair: keep the other side so both schemas find it
+  return errors.map((e) => ({ ...e, relatedPath: e.path === path ? inversePath : path }));
+}
+
+/**
+ * MorphOne/MorphMany must name a MorphTo on the target that lists the owner
+ */
+function checkMorphInverse(
+  schemas: Schemas,
+  name: string,
+  propName: string,
+  prop: GuiPropertyDefinition,
+  target: string
+): ValidationError[] {
+  const targetSchema = schemas[target];
+  if (!targetSchema || !prop.morphName) return [];
+
+  const path = `${name}.${propName}`;
+  const morphPath = `${target}.${prop.morphName}`;
+  const morphTo = targetSchema.properties?.[prop.morphName];
+
+  if (!morphTo) {
+    return [error(path, `morphName points to ${morphPath}, which does not exist`)];
+  }
+  if (morphTo.type !== 'Association' || morphTo.relation !== 'MorphTo') {
+    return [error(path, `morphName points to ${morphPath}, which is not a MorphTo association`)];
+  }
+  const targets = getAssociationTargets(morphTo);
+  if (!targets.includes(name)) {
+    const fix = setPropertyKey(target, prop.morphName, 'targets', [...targets, name]);
+    if (morphTo.target !== undefined) fix.edits.push({ op: 'remove', schema: target, path: ['properties', prop.morphName, 'target'] });
+    return [{ ...warning(morphPath, `MorphTo targets do not include ${name} (used by ${path})`, fix), relatedPath: path }];
+  }
+  return [];
+}
+
+/**
+ * Whether a finding concerns `schema`: it is reported on the schema, or on the
+ * other side of an association pair with it
+ */
+export function isSchemaFinding(finding: ValidationError, schema: string): boolean {
+  const inSchema = (path: string | undefined): boolean => path === schema || !!path?.startsWith(`${schema}.`);
+  return inSchema(finding.path) || inSchema(finding.relatedPath);
+}
+
+/**
+ * Check every association in the collection for a consistent inverse side
+ */
+export function checkAssociationConsistency(schemas: Schemas): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const seen = new Set<string>();
+
+  for (const name of Object.keys(schemas).sort()) {
+    const properties = schemas[name]?.properties ?? {};
+    for (const [propName, prop] of Object.entries(properties)) {
+      if (prop.type !== 'Association' || !prop.relation || prop.relation === 'MorphTo') continue;
+
+      for (const target of getAssociationTargets(prop)) {
+        if (prop.relation === 'MorphOne' || prop.relation === 'MorphMany') {
+          errors.push(...checkMorphInverse(schemas, name, propName, prop, target));
+        } else if (prop.inversedBy !== undefined || prop.mappedBy !== undefined) {
+          errors.push(...checkNamedInverse(schemas, name, propName, prop, target, seen));
+        }
+      }
+    }
+  }
+
+  return errors;
+}
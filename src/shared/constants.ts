@@ -5,6 +5,10 @@
 export const DEFAULT_PORT = 3456;
 export const DEFAULT_HOST = 'localhost';
 
+// Locales edited for localized text when the omnify config declares none
+export const DEFAULT_LOCALES = ['en', 'ja', 'vi'] as const;
+export const DEFAULT_LOCALE = 'en';
+
 export const API_ROUTES = {
   SCHEMAS: '/api/schemas',
   SCHEMA: '/api/schemas/:name',
@@ -77,6 +81,9 @@ export const REFERENTIAL_ACTIONS = [
   'NO ACTION',
 ] as const;
 
+// SQL dialects of the SQL preview, in the order they are compared
+export const SQL_DIALECTS = ['mysql', 'postgresql', 'sqlite', 'sqlserver'] as const;
+
 // Types allowed for pivot fields (basic types only, no Association)
 export const PIVOT_FIELD_TYPES = [
   'String',
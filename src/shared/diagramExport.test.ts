@@ -0,0 +1,118 @@
+/**
+ * ER diagram export tests
+ * Tests subsetting, DBML references, enum output and SVG escaping
+ */
+
+import { describe, it, expect } from 'vitest';
+import { exportDiagram, toDbml, toMermaid, toPlantUml, toSvg } from './diagramExport.js';
+import { objectSchema } from './fixtures/schemas.js';
+import type { GuiSchema } from './types.js';
+
+const schemas: Record<string, GuiSchema> = {
+  Author: objectSchema('Author', {
+    name: { type: 'String' },
+    posts: { type: 'Association', relation: 'OneToMany', target: 'Post', mappedBy: 'author' },
+  }),
+  Post: objectSchema('Post', {
+    title: { type: 'String', length: 120 },
+    status: { type: 'EnumRef', enum: 'PostStatus' },
+    author: { type: 'Association', relation: 'ManyToOne', target: 'Author', inversedBy: 'posts' },
+  }),
+  Tag: objectSchema('Tag', {
+    posts: { type: 'Association', relation: 'ManyToMany', target: 'Post' },
+  }),
+  PostStatus: { name: 'PostStatus', kind: 'enum', values: [{ value: 'draft' }, { value: 'published' }] },
+};
+
+// ============================================================================
+// Subsetting Tests
+// ============================================================================
+
+describe('only', () => {
+  it('exports the listed schemas and the relationships between them', () => {
+    const mermaid = toMermaid(schemas, { only: ['Post', 'Tag'] });
+
+    expect(mermaid).toContain('    Post {');
+    expect(mermaid).toContain('    Tag {');
+    expect(mermaid).not.toContain('Author');
+    expect(mermaid).toContain('Tag }o--o{ Post : "posts"');
+  });
+
+  it('exports every schema when empty', () => {
+    expect(toDbml(schemas, { only: [] })).toBe(toDbml(schemas));
+  });
+});
+
+// ============================================================================
+// DBML Tests
+// ============================================================================
+
+describe('toDbml', () => {
+  it('points the foreign key of a bidirectional OneToMany at the one side', () => {
+    expect(toDbml(schemas)).toContain('Ref: posts.author_id > authors.id');
+  });
+
+  it('points the foreign key of a lone OneToMany at the one side', () => {
+    const lone = {
+      Author: schemas.Author!,
+      Post: objectSchema('Post', { title: { type: 'String' } }),
+    };
+    expect(toDbml(lone)).toContain('Ref: posts.author_id > authors.id');
+  });
+
+  it('puts the foreign key of a OneToOne with mappedBy on the other table', () => {
+    const oneToOne = {
+      Profile: objectSchema('Profile', {
+        owner: { type: 'Association', relation: 'OneToOne', target: 'User', mappedBy: 'profile' },
+      }),
+      User: objectSchema('User', { name: { type: 'String' } }),
+    };
+    expect(toDbml(oneToOne)).toContain('Ref: users.profile_id - profiles.id');
+  });
+
+  it('writes enums and references them from columns', () => {
+    const dbml = toDbml(schemas);
+
+    expect(dbml).toContain('Enum PostStatus {\n  "draft"\n  "published"\n}');
+    expect(dbml).toContain('  status PostStatus [not null]');
+    expect(dbml).toContain('  title varchar(120) [not null]');
+  });
+
+  it('quotes enum values', () => {
+    const dbml = toDbml({
+      Stage: { name: 'Stage', kind: 'enum', values: [{ value: 'in-progress' }, { value: '1' }, { value: 'say "hi"' }] },
+    });
+    expect(dbml).toBe('Enum Stage {\n  "in-progress"\n  "1"\n  "say \\"hi\\""\n}\n');
+  });
+});
+
+// ============================================================================
+// Enum Tests
+// ============================================================================
+
+describe('enum schemas', () => {
+  it('are entities only where the format has enums', () => {
+    expect(toMermaid(schemas)).not.toContain('PostStatus {');
+    expect(toPlantUml(schemas)).toContain('enum PostStatus {\n  draft\n  published\n}');
+  });
+});
+
+// ============================================================================
+// SVG Tests
+// ============================================================================
+
+describe('toSvg', () => {
+  it('escapes names for XML', () => {
+    const svg = toSvg({ Note: objectSchema('Note', { 'a<b&"c"': { type: 'String' } }) });
+
+    expect(svg).toContain('>a&lt;b&amp;&quot;c&quot;</text>');
+    expect(svg).not.toContain('a<b');
+  });
+
+  it('is exported as an SVG file', () => {
+    expect(exportDiagram(schemas, 'svg')).toMatchObject({
+      fileName: 'schema-diagram.svg',
+      mimeType: 'image/svg+xml',
+    });
+  });
+});
@@ -0,0 +1,433 @@
+/**
+ * ER diagram export
+ *
+ * Renders a schema collection (or a subset of it) as Mermaid erDiagram,
+ * PlantUML, DBML or a standalone SVG document.
+ */
+
+import type { GuiSchema, GuiPropertyDefinition, DiagramLayout } from './types.js';
+import { extractRelationships, type Cardinality, type Relationship } from './relationships.js';
+import {
+  layoutDiagram,
+  routeEdges,
+  getDiagramBounds,
+  getCardinalityMarker,
+  NODE_HEADER_HEIGHT,
+  NODE_ROW_HEIGHT,
+  NODE_PADDING,
+} from './diagramLayout.js';
+import { getTableName, toSnakeCase } from './naming.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const DIAGRAM_EXPORT_FORMATS = ['mermaid', 'plantuml', 'dbml', 'svg'] as const;
+
+export type DiagramExportFormat = (typeof DIAGRAM_EXPORT_FORMATS)[number];
+
+export interface DiagramExportResult {
+  format: DiagramExportFormat;
+  content: string;
+  fileName: string;
+  mimeType: string;
+}
+
+export interface DiagramExportOptions {
+  /** Restrict the export to these schemas (relationships to others are dropped) */
+  only?: readonly string[];
+  /** Saved node positions, collapsed state and groups for SVG output */
+  layout?: DiagramLayout;
+}
+
+interface ExportColumn {
+  name: string;
+  type: string;
+  sqlType: string;
+  primaryKey?: boolean;
+  foreignKey?: boolean;
+  unique?: boolean;
+  nullable?: boolean;
+}
+
+// ============================================================================
+// Column model
+// ============================================================================
+
+const SQL_TYPES: Record<string, string> = {
+  Int: 'int',
+  BigInt: 'bigint',
+  Float: 'float',
+  Boolean: 'boolean',
+  Text: 'text',
+  LongText: 'longtext',
+  Date: 'date',
+  Time: 'time',
+  DateTime: 'datetime',
+  Timestamp: 'timestamp',
+  Json: 'json',
+  Uuid: 'uuid',
+  Enum: 'enum',
+};
+
+function toSqlType(prop: GuiPropertyDefinition): string {
+  switch (prop.type) {
+    case 'String':
+    case 'Email':
+    case 'Password':
+    case 'File':
+      return `varchar(${prop.length ?? 255})`;
+    case 'Decimal':
+      return `decimal(${prop.precision ?? 8},${prop.scale ?? 2})`;
+    case 'EnumRef':
+      return typeof prop.enum === 'string' ? prop.enum : 'enum';
+    default:
+      return SQL_TYPES[prop.type] ?? prop.type.toLowerCase();
+  }
+}
+
+function idSqlType(schema: GuiSchema | undefined): string {
+  const idType = schema?.options?.idType ?? 'BigInt';
+  return idType === 'Uuid' ? 'uuid' : idType === 'Int' ? 'int' : 'bigint';
+}
+
+/**
+ * Association properties stored as a foreign key on the declaring table
+ */
+function ownsForeignKey(prop: GuiPropertyDefinition): boolean {
+  return prop.relation === 'ManyToOne' || (prop.relation === 'OneToOne' && !prop.mappedBy);
+}
+
+function getExportColumns(schema: GuiSchema, schemas: Record<string, GuiSchema>): ExportColumn[] {
+  const columns: ExportColumn[] = [];
+
+  if (schema.options?.id !== false) {
+    const idType = schema.options?.idType ?? 'BigInt';
+    columns.push({ name: 'id', type: idType, sqlType: idSqlType(schema), primaryKey: true });
+  }
+
+  for (const [name, prop] of Object.entries(schema.properties ?? {})) {
+    const column = toSnakeCase(name);
+    if (prop.type === 'Association') {
+      if (prop.relation === 'MorphTo') {
+        columns.push({ name: `${column}_type`, type: 'String', sqlType: 'varchar(255)', nullable: prop.nullable });
+        columns.push({ name: `${column}_id`, type: 'BigInt', sqlType: 'bigint', foreignKey: true, nullable: prop.nullable });
+      } else if (ownsForeignKey(prop)) {
+        const target = prop.target ? schemas[prop.target] : undefined;
+        columns.push({
+          name: `${column}_id`,
+          type: target?.options?.idType ?? 'BigInt',
+          sqlType: idSqlType(target),
+          foreignKey: true,
+          nullable: prop.nullable,
+          unique: prop.relation === 'OneToOne',
+        });
+      }
+      continue;
+    }
+    columns.push({
+      name: column,
+      type: prop.type === 'EnumRef' && typeof prop.enum === 'string' ? prop.enum : prop.type,
+      sqlType: toSqlType(prop),
+      unique: prop.unique,
+      nullable: prop.nullable,
+    });
+  }
+
+  if (schema.options?.timestamps !== false) {
+    columns.push({ name: 'created_at', type: 'Timestamp', sqlType: 'timestamp', nullable: true });
+    columns.push({ name: 'updated_at', type: 'Timestamp', sqlType: 'timestamp', nullable: true });
+  }
+  if (schema.options?.softDelete) {
+    columns.push({ name: 'deleted_at', type: 'Timestamp', sqlType: 'timestamp', nullable: true });
+  }
+
+  return columns;
+}
+
+function selectSchemas(
+  schemas: Record<string, GuiSchema>,
+  only?: readonly string[]
+): { selected: GuiSchema[]; relationships: Relationship[] } {
+  const names = new Set(only && only.length > 0 ? only : Object.keys(schemas));
+  const selected = Object.values(schemas)
+    .filter((s) => names.has(s.name))
+    .sort((a, b) => a.name.localeCompare(b.name));
+  const relationships = extractRelationships(schemas).filter(
+    (r) => names.has(r.from) && names.has(r.to)
+  );
+  return { selected, relationships };
+}
+
+// ============================================================================
+// Mermaid / PlantUML
+// ============================================================================
+
+const LEFT_MARKERS: Record<Cardinality, string> = {
+  one: '||',
+  zeroOrOne: '|o',
+  many: '}|',
+  zeroOrMany: '}o',
+};
+
+const RIGHT_MARKERS: Record<Cardinality, string> = {
+  one: '||',
+  zeroOrOne: 'o|',
+  many: '|{',
+  zeroOrMany: 'o{',
+};
+
+function relationshipConnector(rel: Relationship): string {
+  const line = rel.polymorphic ? '..' : '--';
+  return `${LEFT_MARKERS[rel.fromCardinality]}${line}${RIGHT_MARKERS[rel.toCardinality]}`;
+}
+
+export function toMermaid(
+  schemas: Record<string, GuiSchema>,
+  options: DiagramExportOptions = {}
+): string {
+  const { selected, relationships } = selectSchemas(schemas, options.only);
+  const lines = ['erDiagram'];
+
+  for (const rel of relationships) {
+    lines.push(`    ${rel.from} ${relationshipConnector(rel)} ${rel.to} : "${rel.property}"`);
+  }
+
+  for (const schema of selected) {
+    if (schema.kind === 'enum') continue;
+    lines.push(`    ${schema.name} {`);
+    for (const col of getExportColumns(schema, schemas)) {
+      const keys = [col.primaryKey && 'PK', col.foreignKey && 'FK', col.unique && 'UK'].filter(Boolean);
+      lines.push(`        ${col.type} ${col.name}${keys.length > 0 ? ` ${keys.join(',')}` : ''}`);
+    }
+    lines.push('    }');
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+export function toPlantUml(
+  schemas: Record<string, GuiSchema>,
+  options: DiagramExportOptions = {}
+): string {
+  const { selected, relationships } = selectSchemas(schemas, options.only);
+  const lines = ['@startuml', 'hide circle', 'skinparam linetype ortho', ''];
+
+  for (const schema of selected) {
+    if (schema.kind === 'enum') {
+      lines.push(`enum ${schema.name} {`);
+      for (const value of schema.values ?? []) {
+        lines.push(`  ${value.value}`);
+      }
+      lines.push('}', '');
+      continue;
+    }
+
+    const columns = getExportColumns(schema, schemas);
+    lines.push(`entity "${schema.name}" as ${schema.name} {`);
+    for (const col of columns.filter((c) => c.primaryKey)) {
+      lines.push(`  * ${col.name} : ${col.type} <<PK>>`);
+    }
+    lines.push('  --');
+    for (const col of columns.filter((c) => !c.primaryKey)) {
+      const stereotype = col.foreignKey ? ' <<FK>>' : col.unique ? ' <<UK>>' : '';
+      lines.push(`  ${col.nullable ? '' : '* '}${col.name} : ${col.type}${stereotype}`);
+    }
+    lines.push('}', '');
+  }
+
+  for (const rel of relationships) {
+    lines.push(`${rel.from} ${relationshipConnector(rel)} ${rel.to} : ${rel.property}`);
+  }
+
+  lines.push('@enduml');
+  return lines.join('\n') + '\n';
+}
+
+// ============================================================================
+// DBML
+// ============================================================================
+
+// Enum values may hold characters DBML names cannot, such as `-` or a leading digit
+function dbmlString(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+function dbmlRef(rel: Relationship, schemas: Record<string, GuiSchema>): string {
+  const from = schemas[rel.from]!;
+  const to = schemas[rel.to]!;
+  const fromTable = getTableName(from);
+  const toTable = getTableName(to);
+  const prop = from.properties?.[rel.property];
+
+  switch (rel.relation) {
+    case 'ManyToOne':
+      return `Ref: ${fromTable}.${toSnakeCase(rel.property)}_id > ${toTable}.id`;
+    case 'OneToOne':
+      return prop && !prop.mappedBy
+        ? `Ref: ${fromTable}.${toSnakeCase(rel.property)}_id - ${toTable}.id`
+        : `Ref: ${toTable}.${toSnakeCase(rel.inverseProperty ?? prop?.mappedBy ?? rel.from)}_id - ${fromTable}.id`;
+    case 'OneToMany':
+      return `Ref: ${toTable}.${toSnakeCase(rel.inverseProperty ?? prop?.mappedBy ?? rel.from)}_id > ${fromTable}.id`;
+    case 'ManyToMany':
+      return `Ref: ${fromTable}.id <> ${toTable}.id`;
+    default:
+      // DBML cannot express polymorphic associations
+      return `// ${rel.relation}: ${fromTable}.${rel.property} -> ${toTable}`;
+  }
+}
+
+export function toDbml(
+  schemas: Record<string, GuiSchema>,
+  options: DiagramExportOptions = {}
+): string {
+  const { selected, relationships } = selectSchemas(schemas, options.only);
+  const blocks: string[] = [];
+
+  for (const schema of selected.filter((s) => s.kind === 'enum')) {
+    const values = (schema.values ?? []).map((v) => `  ${dbmlString(v.value)}`);
+    blocks.push([`Enum ${schema.name} {`, ...values, '}'].join('\n'));
+  }
+
+  for (const schema of selected.filter((s) => s.kind !== 'enum')) {
+    const table = getTableName(schema);
+    const lines = [`Table ${table} {`];
+    for (const col of getExportColumns(schema, schemas)) {
+      const settings = [
+        col.primaryKey && 'pk',
+        col.primaryKey && col.type !== 'Uuid' && 'increment',
+        !col.primaryKey && !col.nullable && 'not null',
+        col.unique && 'unique',
+      ].filter(Boolean);
+      lines.push(`  ${col.name} ${col.sqlType}${settings.length > 0 ? ` [${settings.join(', ')}]` : ''}`);
+    }
+    lines.push('}');
+    blocks.push(lines.join('\n'));
+  }
+
+  const refs = relationships.map((rel) => dbmlRef(rel, schemas));
+  if (refs.length > 0) {
+    blocks.push(refs.join('\n'));
+  }
+
+  return blocks.join('\n\n') + '\n';
+}
+
+// ============================================================================
+// SVG
+// ============================================================================
+
+const SVG_COLORS = {
+  background: '#ffffff',
+  border: '#d9d9d9',
+  header: '#e6f4ff',
+  text: '#1f1f1f',
+  secondary: '#8c8c8c',
+  association: '#1677ff',
+  edge: '#8c8c8c',
+};
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export function toSvg(
+  schemas: Record<string, GuiSchema>,
+  options: DiagramExportOptions = {}
+): string {
+  const { selected, relationships } = selectSchemas(schemas, options.only);
+  const nodes = layoutDiagram(selected, options.layout);
+  const edges = routeEdges(relationships, nodes);
+
+  const margin = 40;
+  const bounds = getDiagramBounds(nodes);
+  const width = bounds.width + margin * 2;
+  const height = bounds.height + margin * 2;
+  const offsetX = margin - bounds.x;
+  const offsetY = margin - bounds.y;
+
+  const out: string[] = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="-apple-system, 'Segoe UI', Helvetica, Arial, sans-serif">`,
+    `  <rect width="100%" height="100%" fill="${SVG_COLORS.background}"/>`,
+    `  <g transform="translate(${offsetX}, ${offsetY})">`,
+  ];
+
+  for (const edge of edges) {
+    const dash = edge.relationship.polymorphic ? ' stroke-dasharray="6 4"' : '';
+    out.push(`    <path d="${edge.path}" fill="none" stroke="${SVG_COLORS.edge}" stroke-width="1.5"${dash}/>`);
+    const markers = [
+      ...getCardinalityMarker(edge.start, edge.relationship.fromCardinality),
+      ...getCardinalityMarker(edge.end, edge.relationship.toCardinality),
+    ];
+    for (const shape of markers) {
+      out.push(
+        shape.kind === 'line'
+          ? `    <line x1="${shape.x1}" y1="${shape.y1}" x2="${shape.x2}" y2="${shape.y2}" stroke="${SVG_COLORS.edge}" stroke-width="1.5"/>`
+          : `    <circle cx="${shape.cx}" cy="${shape.cy}" r="${shape.r}" fill="${SVG_COLORS.background}" stroke="${SVG_COLORS.edge}" stroke-width="1.5"/>`
+      );
+    }
+  }
+
+  for (const node of nodes) {
+    out.push(`    <g transform="translate(${node.x}, ${node.y})">`);
+    out.push(`      <rect width="${node.width}" height="${node.height}" rx="6" fill="${SVG_COLORS.background}" stroke="${SVG_COLORS.border}"/>`);
+    out.push(`      <rect width="${node.width}" height="${NODE_HEADER_HEIGHT}" rx="6" fill="${node.color ?? SVG_COLORS.header}"/>`);
+    out.push(
+      `      <text x="12" y="${NODE_HEADER_HEIGHT / 2}" dominant-baseline="central" font-size="13" font-weight="600" fill="${SVG_COLORS.text}">${escapeXml(node.name)}</text>`
+    );
+    if (!node.collapsed) {
+      node.rows.forEach((row, i) => {
+        const y = NODE_HEADER_HEIGHT + NODE_PADDING + i * NODE_ROW_HEIGHT + NODE_ROW_HEIGHT / 2;
+        const color = row.association ? SVG_COLORS.association : SVG_COLORS.text;
+        const weight = row.primaryKey ? ' font-weight="600"' : '';
+        out.push(
+          `      <text x="12" y="${y}" dominant-baseline="central" font-size="12"${weight} fill="${color}">${escapeXml(row.name)}</text>`
+        );
+        out.push(
+          `      <text x="${node.width - 12}" y="${y}" dominant-baseline="central" text-anchor="end" font-size="11" fill="${SVG_COLORS.secondary}">${escapeXml(row.type)}</text>`
+        );
+      });
+    }
+    out.push('    </g>');
+  }
+
+  out.push('  </g>', '</svg>');
+  return out.join('\n') + '\n';
+}
+
+// ============================================================================
+// Entry point
+// ============================================================================
+
+const EXPORT_FILES: Record<DiagramExportFormat, { extension: string; mimeType: string }> = {
+  mermaid: { extension: 'mmd', mimeType: 'text/plain' },
+  plantuml: { extension: 'puml', mimeType: 'text/plain' },
+  dbml: { extension: 'dbml', mimeType: 'text/plain' },
+  svg: { extension: 'svg', mimeType: 'image/svg+xml' },
+};
+
+export function isDiagramExportFormat(value: string): value is DiagramExportFormat {
+  return (DIAGRAM_EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+/**
+ * Export the schema collection in the requested format
+ */
+export function exportDiagram(
+  schemas: Record<string, GuiSchema>,
+  format: DiagramExportFormat,
+  options: DiagramExportOptions = {}
+): DiagramExportResult {
+  const renderers = { mermaid: toMermaid, plantuml: toPlantUml, dbml: toDbml, svg: toSvg };
+  const file = EXPORT_FILES[format];
+  return {
+    format,
+    content: renderers[format](schemas, options),
+    fileName: `schema-diagram.${file.extension}`,
+    mimeType: file.mimeType,
+  };
+}
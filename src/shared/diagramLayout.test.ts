@@ -0,0 +1,68 @@
+/**
+ * Diagram layout tests
+ * Tests placement and reconciliation of the persisted layout sidecar
+ */
+
+import { describe, it, expect } from 'vitest';
+import { layoutDiagram, reconcileLayout, renameLayoutNode, getSchemaSignature } from './diagramLayout.js';
+import type { GuiSchema, DiagramLayout } from './types.js';
+
+const schemas: Record<string, GuiSchema> = {
+  Post: { name: 'Post', kind: 'object', properties: { title: { type: 'String' }, body: { type: 'Text' } } },
+  User: { name: 'User', kind: 'object', properties: { email: { type: 'Email' } } },
+  Status: { name: 'Status', kind: 'enum', values: [{ value: 'draft' }] },
+};
+
+// ============================================================================
+// Placement Tests
+// ============================================================================
+
+describe('layoutDiagram', () => {
+  it('skips enum schemas', () => {
+    const nodes = layoutDiagram(Object.values(schemas));
+    expect(nodes.map((n) => n.name)).toEqual(['Post', 'User']);
+  });
+
+  it('uses saved positions, collapsed state and group colors', () => {
+    const layout: DiagramLayout = {
+      nodes: { User: { x: 500, y: 40, collapsed: true, group: 'auth' } },
+      groups: [{ id: 'auth', label: 'Auth', color: '#bae0ff' }],
+    };
+    const user = layoutDiagram(Object.values(schemas), layout).find((n) => n.name === 'User');
+    expect(user).toMatchObject({ x: 500, y: 40, collapsed: true, color: '#bae0ff' });
+  });
+});
+
+// ============================================================================
+// Reconciliation Tests
+// ============================================================================
+
+describe('reconcileLayout', () => {
+  it('drops entries of deleted schemas', () => {
+    const layout: DiagramLayout = {
+      nodes: { Post: { x: 0, y: 0 }, Comment: { x: 10, y: 10 } },
+      groups: [],
+    };
+    expect(Object.keys(reconcileLayout(layout, schemas).nodes)).toEqual(['Post']);
+  });
+
+  it('follows a schema renamed outside the GUI by its signature', () => {
+    const layout: DiagramLayout = {
+      nodes: { Article: { x: 300, y: 100, signature: getSchemaSignature(schemas.Post!) } },
+      groups: [],
+    };
+    expect(reconcileLayout(layout, schemas).nodes.Post).toMatchObject({ x: 300, y: 100 });
+  });
+
+  it('drops references to unknown groups', () => {
+    const layout: DiagramLayout = { nodes: { Post: { x: 0, y: 0, group: 'gone' } }, groups: [] };
+    expect(reconcileLayout(layout, schemas).nodes.Post?.group).toBeUndefined();
+  });
+});
+
+describe('renameLayoutNode', () => {
+  it('moves the entry to the new name', () => {
+    const layout: DiagramLayout = { nodes: { Post: { x: 1, y: 2 } }, groups: [] };
+    expect(renameLayoutNode(layout, 'Post', 'Article').nodes).toEqual({ Article: { x: 1, y: 2 } });
+  });
+});
@@ -0,0 +1,342 @@
+/**
+ * ER diagram geometry
+ *
+ * Browser-safe node sizing, automatic placement and edge routing shared by the
+ * interactive canvas and the server-side SVG export.
+ */
+
+import type { GuiSchema, DiagramLayout, DiagramLayoutNode } from './types.js';
+import type { Cardinality, Relationship } from './relationships.js';
+import { resolveLocalized } from './localized.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface DiagramPoint {
+  x: number;
+  y: number;
+}
+
+export interface DiagramRow {
+  name: string;
+  type: string;
+  primaryKey?: boolean;
+  association?: boolean;
+}
+
+export interface DiagramNode {
+  name: string;
+  displayName?: string;
+  rows: DiagramRow[];
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  collapsed: boolean;
+  /** Color of the node's group, if any */
+  color?: string;
+}
+
+export interface EdgeEnd extends DiagramPoint {
+  /** Horizontal direction pointing away from the node (-1 left, 1 right) */
+  dir: -1 | 1;
+}
+
+export interface DiagramEdge {
+  relationship: Relationship;
+  start: EdgeEnd;
+  end: EdgeEnd;
+  /** SVG path data */
+  path: string;
+}
+
+export type MarkerShape =
+  | { kind: 'line'; x1: number; y1: number; x2: number; y2: number }
+  | { kind: 'circle'; cx: number; cy: number; r: number };
+
+// ============================================================================
+// Node sizing
+// ============================================================================
+
+export const NODE_WIDTH = 240;
+export const NODE_HEADER_HEIGHT = 32;
+export const NODE_ROW_HEIGHT = 22;
+export const NODE_PADDING = 6;
+
+const GRID_GAP_X = 120;
+const GRID_GAP_Y = 80;
+
+/**
+ * Schemas drawn as diagram nodes (enums are referenced, not related)
+ */
+export function isDiagramSchema(schema: GuiSchema): boolean {
+  return schema.kind !== 'enum';
+}
+
+/**
+ * Rows listed inside a node: implicit id followed by declared properties
+ */
+export function getNodeRows(schema: GuiSchema): DiagramRow[] {
+  const rows: DiagramRow[] = [];
+  if (schema.options?.id !== false) {
+    rows.push({ name: 'id', type: schema.options?.idType ?? 'BigInt', primaryKey: true });
+  }
+  for (const [name, prop] of Object.entries(schema.properties ?? {})) {
+    const association = prop.type === 'Association';
+    rows.push({
+      name,
+      type: association ? (prop.relation ?? 'Association') : prop.type,
+      ...(association ? { association } : {}),
+    });
+  }
+  return rows;
+}
+
+export function getNodeHeight(rowCount: number, collapsed: boolean): number {
+  if (collapsed) return NODE_HEADER_HEIGHT;
+  return NODE_HEADER_HEIGHT + rowCount * NODE_ROW_HEIGHT + NODE_PADDING * 2;
+}
+
+// ============================================================================
+// Layout
+// ============================================================================
+
+/**
+ * Place nodes on a grid. Positions saved in the layout win over the automatic slot.
+ */
+export function layoutDiagram(
+  schemas: readonly GuiSchema[],
+  layout: DiagramLayout = createEmptyLayout()
+): DiagramNode[] {
+  const groupColors = new Map(layout.groups.map((g) => [g.id, g.color]));
+  const sorted = [...schemas].filter(isDiagramSchema).sort((a, b) => a.name.localeCompare(b.name));
+  const columns = Math.max(1, Math.ceil(Math.sqrt(sorted.length)));
+
+  const nodes: DiagramNode[] = [];
+  let rowTop = 0;
+  let rowHeight = 0;
+
+  sorted.forEach((schema, index) => {
+    const column = index % columns;
+    if (column === 0 && index > 0) {
+      rowTop += rowHeight + GRID_GAP_Y;
+      rowHeight = 0;
+    }
+
+    const saved = layout.nodes[schema.name];
+    const rows = getNodeRows(schema);
+    const isCollapsed = saved?.collapsed === true;
+    const height = getNodeHeight(rows.length, isCollapsed);
+    rowHeight = Math.max(rowHeight, height);
+
+    const position = saved?.x !== undefined && saved.y !== undefined
+      ? { x: saved.x, y: saved.y }
+      : { x: column * (NODE_WIDTH + GRID_GAP_X), y: rowTop };
+    const color = saved?.group ? groupColors.get(saved.group) : undefined;
+
+    nodes.push({
+      name: schema.name,
+      ...(schema.displayName !== undefined ? { displayName: resolveLocalized(schema.displayName) } : {}),
+      rows,
+      x: position.x,
+      y: position.y,
+      width: NODE_WIDTH,
+      height,
+      collapsed: isCollapsed,
+      ...(color ? { color } : {}),
+    });
+  });
+
+  return nodes;
+}
+
+/**
+ * Bounding box of all nodes, used to fit the view and size exports
+ */
+export function getDiagramBounds(
+  nodes: readonly DiagramNode[]
+): { x: number; y: number; width: number; height: number } {
+  if (nodes.length === 0) return { x: 0, y: 0, width: 0, height: 0 };
+  const minX = Math.min(...nodes.map((n) => n.x));
+  const minY = Math.min(...nodes.map((n) => n.y));
+  const maxX = Math.max(...nodes.map((n) => n.x + n.width));
+  const maxY = Math.max(...nodes.map((n) => n.y + n.height));
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+// ============================================================================
+// Edge routing
+// ============================================================================
+
+function rowAnchorY(node: DiagramNode, rowName?: string): number {
+  if (node.collapsed || !rowName) return node.y + NODE_HEADER_HEIGHT / 2;
+  const index = node.rows.findIndex((r) => r.name === rowName);
+  if (index < 0) return node.y + NODE_HEADER_HEIGHT / 2;
+  return node.y + NODE_HEADER_HEIGHT + NODE_PADDING + index * NODE_ROW_HEIGHT + NODE_ROW_HEIGHT / 2;
+}
+
+/**
+ * Route an edge between two nodes. Edges leave from the property row on the
+ * owning side and arrive at the inverse property (or the header) on the target.
+ */
+export function routeEdge(
+  relationship: Relationship,
+  from: DiagramNode,
+  to: DiagramNode
+): DiagramEdge {
+  const startY = rowAnchorY(from, relationship.property);
+  const endY = rowAnchorY(to, relationship.inverseProperty ?? 'id');
+
+  let start: EdgeEnd;
+  let end: EdgeEnd;
+  if (from.x + from.width < to.x) {
+    start = { x: from.x + from.width, y: startY, dir: 1 };
+    end = { x: to.x, y: endY, dir: -1 };
+  } else if (to.x + to.width < from.x) {
+    start = { x: from.x, y: startY, dir: -1 };
+    end = { x: to.x + to.width, y: endY, dir: 1 };
+  } else {
+    // Overlapping columns (or self-reference): loop out on the right side
+    start = { x: from.x + from.width, y: startY, dir: 1 };
+    end = { x: to.x + to.width, y: endY === startY ? endY + NODE_ROW_HEIGHT : endY, dir: 1 };
+  }
+
+  const bend = Math.max(60, Math.abs(end.x - start.x) / 3);
+  const path =
+    `M ${start.x} ${start.y} ` +
+    `C ${start.x + start.dir * bend} ${start.y}, ${end.x + end.dir * bend} ${end.y}, ${end.x} ${end.y}`;
+
+  return { relationship, start, end, path };
+}
+
+/**
+ * Route all relationships whose endpoints are present in the node list
+ */
+export function routeEdges(
+  relationships: readonly Relationship[],
+  nodes: readonly DiagramNode[]
+): DiagramEdge[] {
+  const byName = new Map(nodes.map((n) => [n.name, n]));
+  const edges: DiagramEdge[] = [];
+  for (const relationship of relationships) {
+    const from = byName.get(relationship.from);
+    const to = byName.get(relationship.to);
+    if (from && to) {
+      edges.push(routeEdge(relationship, from, to));
+    }
+  }
+  return edges;
+}
+
+// ============================================================================
+// Crow's-foot markers
+// ============================================================================
+
+/**
+ * Shapes for a crow's-foot marker drawn at an edge end
+ */
+export function getCardinalityMarker(endPoint: EdgeEnd, cardinality: Cardinality): MarkerShape[] {
+  const { x, y, dir } = endPoint;
+  const bar = (offset: number): MarkerShape => ({
+    kind: 'line',
+    x1: x + dir * offset,
+    y1: y - 6,
+    x2: x + dir * offset,
+    y2: y + 6,
+  });
+  const circle = (offset: number): MarkerShape => ({
+    kind: 'circle',
+    cx: x + dir * offset,
+    cy: y,
+    r: 4,
+  });
+  const foot: MarkerShape[] = [
+    { kind: 'line', x1: x, y1: y - 7, x2: x + dir * 10, y2: y },
+    { kind: 'line', x1: x, y1: y + 7, x2: x + dir * 10, y2: y },
+  ];
+
+  switch (cardinality) {
+    case 'one':
+      return [bar(8), bar(13)];
+    case 'zeroOrOne':
+      return [bar(8), circle(17)];
+    case 'many':
+      return [...foot, bar(14)];
+    case 'zeroOrMany':
+      return [...foot, circle(16)];
+  }
+}
+
+// ============================================================================
+// Persisted layout
+// ============================================================================
+
+export function createEmptyLayout(): DiagramLayout {
+  return { nodes: {}, groups: [] };
+}
+
+/**
+ * Fingerprint of a schema's property names, stable across schema renames
+ */
+export function getSchemaSignature(schema: GuiSchema): string {
+  return Object.keys(schema.properties ?? {}).sort().join(',');
+}
+
+/**
+ * Match a saved layout against the current schemas:
+ * - entries of existing schemas are kept
+ * - an entry whose schema disappeared is moved to a new, unplaced schema with
+ *   the same signature (a rename made outside the GUI)
+ * - remaining entries of deleted schemas are dropped, as are unknown groups
+ */
+export function reconcileLayout(
+  layout: DiagramLayout,
+  schemas: Record<string, GuiSchema>
+): DiagramLayout {
+  const nodes: Record<string, DiagramLayoutNode> = {};
+  const orphans = new Map<string, DiagramLayoutNode[]>();
+
+  for (const [name, node] of Object.entries(layout.nodes)) {
+    if (schemas[name]) {
+      nodes[name] = node;
+    } else if (node.signature) {
+      orphans.set(node.signature, [...(orphans.get(node.signature) ?? []), node]);
+    }
+  }
+
+  for (const schema of Object.values(schemas)) {
+    if (nodes[schema.name]) continue;
+    const signature = getSchemaSignature(schema);
+    const candidates = signature ? orphans.get(signature) : undefined;
+    // Only follow unambiguous renames
+    if (candidates?.length === 1) {
+      nodes[schema.name] = candidates[0]!;
+      orphans.delete(signature);
+    }
+  }
+
+  const groupIds = new Set(layout.groups.map((g) => g.id));
+  for (const [name, node] of Object.entries(nodes)) {
+    const signature = getSchemaSignature(schemas[name]!);
+    nodes[name] = {
+      ...(node.x !== undefined && node.y !== undefined ? { x: node.x, y: node.y } : {}),
+      ...(node.collapsed ? { collapsed: true } : {}),
+      ...(node.group && groupIds.has(node.group) ? { group: node.group } : {}),
+      ...(signature ? { signature } : {}),
+    };
+  }
+
+  return { nodes, groups: layout.groups };
+}
+
+/**
+ * Move a layout entry to a schema's new name
+ */
+export function renameLayoutNode(layout: DiagramLayout, from: string, to: string): DiagramLayout {
+  const node = layout.nodes[from];
+  if (!node || from === to) return layout;
+  const nodes = { ...layout.nodes, [to]: node };
+  delete nodes[from];
+  return { ...layout, nodes };
+}
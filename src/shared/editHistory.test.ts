@@ -0,0 +1,43 @@
+/**
+ * Edit history tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createHistory, recordEdit, undo, redo, undoLabel, redoLabel } from './editHistory.js';
+
+describe('edit history', () => {
+  it('undoes and redoes edits in order', () => {
+    let history = createHistory(['id']);
+    history = recordEdit(history, ['id', 'email'], 'Add email');
+    history = recordEdit(history, ['id', 'email', 'name'], 'Add name');
+
+    expect(undoLabel(history)).toBe('Add name');
+    history = undo(history);
+    expect(history.present.state).toEqual(['id', 'email']);
+    history = undo(history);
+    expect(history.present.state).toEqual(['id']);
+    expect(undoLabel(history)).toBeNull();
+    expect(undo(history)).toBe(history);
+
+    expect(redoLabel(history)).toBe('Add email');
+    history = redo(redo(history));
+    expect(history.present.state).toEqual(['id', 'email', 'name']);
+    expect(redoLabel(history)).toBeNull();
+    expect(redo(history)).toBe(history);
+  });
+
+  it('discards redo steps when a new edit is recorded', () => {
+    let history = recordEdit(createHistory(1), 2, 'two');
+    history = recordEdit(undo(history), 3, 'three');
+
+    expect(redoLabel(history)).toBeNull();
+    expect(undo(history).present.state).toBe(1);
+  });
+
+  it('keeps at most the given number of undo steps', () => {
+    let history = createHistory(0);
+    for (let i = 1; i <= 5; i++) history = recordEdit(history, i, `edit ${i}`, 3);
+
+    expect(history.past.map((e) => e.state)).toEqual([2, 3, 4]);
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Undo/redo history of editor states (browser-safe)
+ *
+ * Every edit records the complete editor state after it, labelled with what
+ * the edit did, so undo and redo restore whole states whatever the edit was.
+ */
+
+export interface HistoryEntry<T> {
+  state: T;
+  // Description of the edit that produced this state (empty for the initial state)
+  label: string;
+}
+
+export interface EditHistory<T> {
+  past: HistoryEntry<T>[];
+  present: HistoryEntry<T>;
+  future: HistoryEntry<T>[];
+}
+
+// Oldest edits are dropped beyond this many undo steps
+export const HISTORY_LIMIT = 100;
+
+export function createHistory<T>(state: T): EditHistory<T> {
+  return { past: [], present: { state, label: '' }, future: [] };
+}
+
+/**
+ * Record the state after an edit. Redo steps are discarded.
+ */
+export function recordEdit<T>(
+  history: EditHistory<T>,
+  state: T,
+  label: string,
+  limit: number = HISTORY_LIMIT
+): EditHistory<T> {
+  return {
+    past: [...history.past, history.present].slice(-limit),
+    present: { state, label },
+    future: [],
+  };
+}
+
+export function undo<T>(history: EditHistory<T>): EditHistory<T> {
+  const previous = history.past[history.past.length - 1];
+  if (!previous) return history;
+  return {
+    past: history.past.slice(0, -1),
+    present: previous,
+    future: [history.present, ...history.future],
+  };
+}
+
+export function redo<T>(history: EditHistory<T>): EditHistory<T> {
+  const [next, ...future] = history.future;
+  if (!next) return history;
+  return {
+    past: [...history.past, history.present],
+    present: next,
+    future,
+  };
+}
+
+/**
+ * Label of the edit undo would revert, or null when there is nothing to undo
+ */
+export function undoLabel<T>(history: EditHistory<T>): string | null {
+  return history.past.length > 0 ? history.present.label : null;
+}
+
+/**
+ * Label of the edit redo would reapply, or null when there is nothing to redo
+ */
+export function redoLabel<T>(history: EditHistory<T>): string | null {
+  return history.future[0]?.label ?? null;
+}
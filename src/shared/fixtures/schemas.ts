@@ -0,0 +1,9 @@
+/**
+ * Schema fixtures shared by the tests
+ */
+
+import type { GuiSchema } from '../types.js';
+
+export function objectSchema(name: string, properties: GuiSchema['properties']): GuiSchema {
+  return { name, kind: 'object', properties };
+}
@@ -0,0 +1,55 @@
+/**
+ * Dry-run generation helper tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { groupGeneratedFiles, orderGenerators } from './generation.js';
+import type { GeneratedFile } from './types.js';
+
+const names = (items: { name: string }[]): string[] => items.map((item) => item.name);
+
+describe('orderGenerators', () => {
+  it('keeps declaration order without dependencies', () => {
+    const { ordered, cyclic } = orderGenerators([{ name: 'a' }, { name: 'b' }, { name: 'c' }]);
+    expect(names(ordered)).toEqual(['a', 'b', 'c']);
+    expect(cyclic).toEqual([]);
+  });
+
+  it('runs generators after their dependencies', () => {
+    const { ordered } = orderGenerators([
+      { name: 'models', dependsOn: ['types'] },
+      { name: 'migrations' },
+      { name: 'types', dependsOn: ['migrations'] },
+    ]);
+    expect(names(ordered)).toEqual(['migrations', 'types', 'models']);
+  });
+
+  it('ignores dependencies that are not listed', () => {
+    const { ordered } = orderGenerators([{ name: 'a', dependsOn: ['missing'] }, { name: 'b' }]);
+    expect(names(ordered)).toEqual(['a', 'b']);
+  });
+
+  it('returns generators on a dependency cycle separately', () => {
+    const { ordered, cyclic } = orderGenerators([
+      { name: 'a', dependsOn: ['b'] },
+      { name: 'b', dependsOn: ['a'] },
+      { name: 'c' },
+    ]);
+    expect(names(ordered)).toEqual(['c']);
+    expect(names(cyclic)).toEqual(['a', 'b']);
+  });
+});
+
+describe('groupGeneratedFiles', () => {
+  const file = (plugin: string, path: string): GeneratedFile => ({ plugin, generator: 'gen', path, content: '' });
+
+  it('groups files by plugin in run order, sorted by path', () => {
+    const groups = groupGeneratedFiles([
+      file('laravel', 'database/migrations/b.php'),
+      file('typescript', 'resources/ts/types/User.ts'),
+      file('laravel', 'database/migrations/a.php'),
+    ]);
+    expect(groups.map((g) => g.plugin)).toEqual(['laravel', 'typescript']);
+    expect(groups[0]!.files.map((f) => f.path)).toEqual(['database/migrations/a.php', 'database/migrations/b.php']);
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Helpers for dry-run generation through the configured plugins (browser-safe)
+ */
+
+import type { GeneratedFile } from './types.js';
+
+export interface GeneratorNode {
+  name: string;
+  dependsOn?: readonly string[] | undefined;
+}
+
+export interface GeneratedFileGroup<T extends GeneratedFile = GeneratedFile> {
+  plugin: string;
+  files: T[];
+}
+
+/**
+ * Generators in run order: each after the generators it depends on, otherwise
+ * in declaration order. Dependencies that are not listed are left to the caller;
+ * generators on a dependency cycle are returned as `cyclic`.
+ */
+export function orderGenerators<T extends GeneratorNode>(generators: readonly T[]): { ordered: T[]; cyclic: T[] } {
+  const names = new Set(generators.map((g) => g.name));
+  const placed = new Set<string>();
+  const ordered: T[] = [];
+  let remaining = [...generators];
+
+  while (remaining.length > 0) {
+    const next = remaining.find((g) => (g.dependsOn ?? []).every((dep) => placed.has(dep) || !names.has(dep)));
+    if (!next) break;
+    ordered.push(next);
+    placed.add(next.name);
+    remaining = remaining.filter((g) => g !== next);
+  }
+
+  return { ordered, cyclic: remaining };
+}
+
+/**
+ * Files grouped by plugin in run order, each group sorted by output path
+ */
+export function groupGeneratedFiles<T extends GeneratedFile>(files: readonly T[]): GeneratedFileGroup<T>[] {
+  const groups = new Map<string, T[]>();
+  for (const file of files) {
+    const group = groups.get(file.plugin);
+    if (group) group.push(file);
+    else groups.set(file.plugin, [file]);
+  }
+  return [...groups].map(([plugin, group]) => ({
+    plugin,
+    files: group.sort((a, b) => a.path.localeCompare(b.path)),
+  }));
+}
@@ -0,0 +1,118 @@
+/**
+ * Lint rule tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { lintSchemas, normalizeLintConfig, resolveLintRules } from './lint.js';
+import type { GuiSchema } from './types.js';
+
+const post: GuiSchema = {
+  name: 'Post',
+  kind: 'object',
+  properties: {
+    title: { type: 'String', length: 200 },
+    subTitle: { type: 'String' },
+    author: { type: 'Association', relation: 'ManyToOne', target: 'User' },
+    editor: { type: 'Association', relation: 'ManyToOne', target: 'User' },
+    slug: { type: 'String', length: 100, unique: true, nullable: true },
+    tags: { type: 'Association', relation: 'ManyToMany', target: 'Tag', joinTable: 'PostTags' },
+  },
+  options: { indexes: [{ columns: ['editor', 'title'] }] },
+};
+
+describe('lintSchemas', () => {
+  it('reports default rules as warnings with their rule id', () => {
+    expect(lintSchemas([post])).toEqual([
+      {
+        path: 'Post.subTitle',
+        message: 'Property name "subTitle" is not snake_case',
+        severity: 'warning',
+        rule: 'property-naming',
+        fix: {
+          title: 'Rename subTitle to sub_title',
+          edits: [{ op: 'renameKey', schema: 'Post', path: ['properties'], from: 'subTitle', to: 'sub_title' }],
+        },
+      },
+      { path: 'Post.tags', message: 'Join table name "PostTags" is not snake_case', severity: 'warning', rule: 'table-naming' },
+      {
+        path: 'Post.author',
+        message: 'Foreign key of ManyToOne association "author" has no index',
+        severity: 'warning',
+        rule: 'fk-index',
+        fix: {
+          title: 'Add an index on author',
+          edits: [{ op: 'set', schema: 'Post', path: ['options', 'indexes', 1], value: { columns: ['author'] } }],
+        },
+      },
+      {
+        path: 'Post.slug',
+        message: 'Nullable column is unique: rows with NULL are not treated as duplicates',
+        severity: 'warning',
+        rule: 'nullable-unique',
+      },
+    ]);
+  });
+
+  it('applies configured severities and options', () => {
+    const findings = lintSchemas([post], {
+      rules: {
+        'property-naming': ['error', { style: 'camelCase' }],
+        'table-naming': 'off',
+        'fk-index': 'off',
+        'nullable-unique': 'off',
+        'string-length': 'warning',
+        'require-display-name': 'warning',
+      },
+    });
+    expect(findings.map((f) => [f.rule, f.path, f.severity])).toEqual([
+      ['require-display-name', 'Post', 'warning'],
+      ...['title', 'subTitle', 'author', 'editor', 'slug', 'tags'].map((p) => [
+        'require-display-name',
+        `Post.${p}`,
+        'warning',
+      ]),
+      ['string-length', 'Post.subTitle', 'warning'],
+    ]);
+  });
+
+  it('flags nullable columns of unique constraints', () => {
+    const account: GuiSchema = {
+      name: 'Account',
+      kind: 'object',
+      properties: { email: { type: 'Email' }, tenant: { type: 'String', length: 20, nullable: true } },
+      options: { unique: [['email', 'tenant']] },
+    };
+    expect(lintSchemas([account]).map((f) => f.path)).toEqual(['Account.tenant']);
+  });
+
+  it('flags columns generated by schema options', () => {
+    const account: GuiSchema = {
+      name: 'Account',
+      kind: 'object',
+      properties: { created_at: { type: 'Timestamp' }, deleted_at: { type: 'Timestamp' } },
+      options: { timestamps: true },
+    };
+    expect(lintSchemas([account]).map((f) => f.fix)).toEqual([
+      { title: 'Remove created_at', edits: [{ op: 'remove', schema: 'Account', path: ['properties', 'created_at'] }] },
+      {
+        title: 'Remove deleted_at and enable softDelete',
+        edits: [
+          { op: 'remove', schema: 'Account', path: ['properties', 'deleted_at'] },
+          { op: 'set', schema: 'Account', path: ['options', 'softDelete'], value: true },
+        ],
+      },
+    ]);
+  });
+});
+
+describe('normalizeLintConfig', () => {
+  it('drops malformed settings', () => {
+    expect(
+      normalizeLintConfig({
+        rules: { 'fk-index': 'off', 'string-length': 'loud', 'property-naming': ['error', { style: 'camelCase' }] },
+      })
+    ).toEqual({ rules: { 'fk-index': 'off', 'property-naming': ['error', { style: 'camelCase' }] } });
+    expect(normalizeLintConfig(undefined)).toEqual({});
+    expect(resolveLintRules(normalizeLintConfig('nonsense')).length).toBe(5);
+  });
+});
@@ -0,0 +1,334 @@
+/**
+ * Configurable lint rules for schemas (browser-safe)
+ *
+ * Lint findings are advice rather than validity: naming conventions and likely
+ * mistakes. Every rule has a default severity that the `lint.rules` section of
+ * the omnify config can override or turn off:
+ *
+ *   lint: { rules: { 'string-length': 'warning', 'property-naming': ['error', { style: 'camelCase' }] } }
+ */
+
+import type {
+  GuiSchema,
+  GuiPropertyDefinition,
+  LintConfig,
+  LintRuleSetting,
+  LintSeverity,
+  SchemaFix,
+  ValidationError,
+} from './types.js';
+import { renamePropertyFix } from './schemaFix.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type NamingStyle = 'camelCase' | 'snake_case';
+
+export interface LintFinding {
+  path: string;
+  message: string;
+  fix?: SchemaFix | undefined;
+}
+
+export interface LintRule {
+  id: string;
+  description: string;
+  defaultSeverity: LintSeverity;
+  defaultOptions?: Record<string, unknown>;
+  check: (schema: GuiSchema, options: Record<string, unknown>) => LintFinding[];
+}
+
+export interface ResolvedLintRule {
+  rule: LintRule;
+  severity: Exclude<LintSeverity, 'off'>;
+  options: Record<string, unknown>;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const NAMING_PATTERNS: Record<NamingStyle, RegExp> = {
+  camelCase: /^[a-z][a-zA-Z0-9]*$/,
+  snake_case: /^[a-z][a-z0-9]*(_[a-z0-9]+)*$/,
+};
+
+const LINT_SEVERITIES: readonly LintSeverity[] = ['off', 'warning', 'error'];
+
+function namingStyle(options: Record<string, unknown>): NamingStyle {
+  return options.style === 'camelCase' ? 'camelCase' : 'snake_case';
+}
+
+/**
+ * Convert a name to a naming style, or undefined when no valid name results
+ */
+function toNamingStyle(name: string, style: NamingStyle): string | undefined {
+  const words = name
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((word) => word.toLowerCase());
+  const converted =
+    style === 'snake_case'
+      ? words.join('_')
+      : words.map((word, i) => (i === 0 ? word : word.charAt(0).toUpperCase() + word.slice(1))).join('');
+  return NAMING_PATTERNS[style].test(converted) ? converted : undefined;
+}
+
+// Columns generated by schema options, which properties must not redeclare
+const GENERATED_COLUMNS: Record<string, 'id' | 'timestamps' | 'softDelete'> = {
+  id: 'id',
+  created_at: 'timestamps',
+  updated_at: 'timestamps',
+  deleted_at: 'softDelete',
+};
+
+/**
+ * Whether the property's table holds the foreign key column of the association
+ */
+function holdsForeignKey(prop: GuiPropertyDefinition): boolean {
+  if (prop.type !== 'Association') return false;
+  if (prop.relation === 'ManyToOne' || prop.relation === 'MorphTo') return true;
+  return prop.relation === 'OneToOne' && !prop.mappedBy;
+}
+
+/**
+ * Column lists of the unique constraints of a schema (`options.unique` and unique indexes)
+ */
+function uniqueColumnSets(schema: GuiSchema): string[][] {
+  const options = schema.options ?? {};
+  return [
+    ...(options.unique ?? []).map((entry) => (Array.isArray(entry) ? entry : [entry])),
+    ...(options.indexes ?? []).filter((index) => index.unique).map((index) => index.columns),
+  ];
+}
+
+// ============================================================================
+// Rules
+// ============================================================================
+
+export const LINT_RULES: LintRule[] = [
+  {
+    id: 'property-naming',
+    description: 'Property names follow the naming style (snake_case or camelCase)',
+    defaultSeverity: 'warning',
+    defaultOptions: { style: 'snake_case' },
+    check: (schema, options) => {
+      const style = namingStyle(options);
+      const properties = schema.properties ?? {};
+      return Object.keys(properties)
+        .filter((name) => !NAMING_PATTERNS[style].test(name))
+        .map((name) => {
+          const to = toNamingStyle(name, style);
+          return {
+            path: `${schema.name}.${name}`,
+            message: `Property name "${name}" is not ${style}`,
+            fix: to && !(to in properties) ? renamePropertyFix(schema, name, to) : undefined,
+          };
+        });
+    },
+  },
+  {
+    id: 'table-naming',
+    description: 'Explicit table and join table names follow the naming style',
+    defaultSeverity: 'warning',
+    defaultOptions: { style: 'snake_case' },
+    check: (schema, options) => {
+      const style = namingStyle(options);
+      const findings: LintFinding[] = [];
+      const tableName = schema.options?.tableName;
+      if (tableName && !NAMING_PATTERNS[style].test(tableName)) {
+        findings.push({ path: schema.name, message: `Table name "${tableName}" is not ${style}` });
+      }
+      for (const [name, prop] of Object.entries(schema.properties ?? {})) {
+        if (prop.joinTable && !NAMING_PATTERNS[style].test(prop.joinTable)) {
+          findings.push({ path: `${schema.name}.${name}`, message: `Join table name "${prop.joinTable}" is not ${style}` });
+        }
+      }
+      return findings;
+    },
+  },
+  {
+    id: 'require-display-name',
+    description: 'Schemas and properties have a displayName',
+    defaultSeverity: 'off',
+    check: (schema) => {
+      const findings: LintFinding[] = [];
+      if (schema.displayName === undefined) {
+        findings.push({ path: schema.name, message: 'Schema has no displayName' });
+      }
+      for (const [name, prop] of Object.entries(schema.properties ?? {})) {
+        if (prop.displayName === undefined) {
+          findings.push({ path: `${schema.name}.${name}`, message: 'Property has no displayName' });
+        }
+      }
+      return findings;
+    },
+  },
+  {
+    id: 'string-length',
+    description: 'String properties declare a length',
+    defaultSeverity: 'off',
+    check: (schema) =>
+      Object.entries(schema.properties ?? {})
+        .filter(([, prop]) => prop.type === 'String' && prop.length === undefined)
+        .map(([name]) => ({
+          path: `${schema.name}.${name}`,
+          message: 'String property has no length',
+          fix: {
+            title: 'Set length: 255',
+            edits: [{ op: 'set', schema: schema.name, path: ['properties', name, 'length'], value: 255 }],
+          },
+        })),
+  },
+  {
+    id: 'reserved-column',
+    description: 'Properties do not redeclare columns generated by the id, timestamps and softDelete options',
+    defaultSeverity: 'warning',
+    check: (schema) => {
+      const findings: LintFinding[] = [];
+      for (const name of Object.keys(schema.properties ?? {})) {
+        const option = GENERATED_COLUMNS[name.toLowerCase()];
+        // id: false means the schema declares its own primary key
+        if (!option || (option === 'id' && schema.options?.id === false)) continue;
+
+        const enabled = schema.options?.[option] ?? option !== 'softDelete';
+        findings.push({
+          path: `${schema.name}.${name}`,
+          message: `"${name}" is a column generated by the ${option} option`,
+          fix: {
+            title: enabled ? `Remove ${name}` : `Remove ${name} and enable ${option}`,
+            edits: [
+              { op: 'remove', schema: schema.name, path: ['properties', name] },
+              ...(enabled ? [] : [{ op: 'set' as const, schema: schema.name, path: ['options', option], value: true }]),
+            ],
+          },
+        });
+      }
+      return findings;
+    },
+  },
+  {
+    id: 'fk-index',
+    description: 'Foreign key columns (ManyToOne, owning OneToOne, MorphTo) lead an index',
+    defaultSeverity: 'warning',
+    check: (schema) => {
+      const leading = new Set([
+        ...(schema.options?.indexes ?? []).map((index) => index.columns[0]),
+        ...uniqueColumnSets(schema).map((columns) => columns[0]),
+      ]);
+      return Object.entries(schema.properties ?? {})
+        .filter(([name, prop]) => holdsForeignKey(prop) && !prop.unique && !leading.has(name))
+        .map(([name, prop]) => ({
+          path: `${schema.name}.${name}`,
+          message: `Foreign key of ${prop.relation} association "${name}" has no index`,
+          fix: {
+            title: `Add an index on ${name}`,
+            edits: [
+              {
+                op: 'set',
+                schema: schema.name,
+                path: ['options', 'indexes', schema.options?.indexes?.length ?? 0],
+                value: { columns: [name] },
+              },
+            ],
+          },
+        }));
+    },
+  },
+  {
+    id: 'nullable-unique',
+    description: 'Unique columns are not nullable (NULLs never collide, so duplicates slip through)',
+    defaultSeverity: 'warning',
+    check: (schema) => {
+      const properties = schema.properties ?? {};
+      const flagged = new Set(
+        Object.entries(properties)
+          .filter(([, prop]) => prop.unique && prop.nullable)
+          .map(([name]) => name)
+      );
+      for (const columns of uniqueColumnSets(schema)) {
+        for (const column of columns) {
+          if (properties[column]?.nullable) flagged.add(column);
+        }
+      }
+      return [...flagged].map((name) => ({
+        path: `${schema.name}.${name}`,
+        message: 'Nullable column is unique: rows with NULL are not treated as duplicates',
+      }));
+    },
+  },
+];
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+function isSeverity(value: unknown): value is LintSeverity {
+  return LINT_SEVERITIES.includes(value as LintSeverity);
+}
+
+/**
+ * Keep the well-formed rule settings of a user-supplied `lint` config section
+ */
+export function normalizeLintConfig(value: unknown): LintConfig {
+  const rules = (value as LintConfig | undefined)?.rules;
+  if (!rules || typeof rules !== 'object') return {};
+
+  const normalized: Record<string, LintRuleSetting> = {};
+  for (const [id, setting] of Object.entries(rules)) {
+    if (isSeverity(setting)) {
+      normalized[id] = setting;
+    } else if (Array.isArray(setting) && isSeverity(setting[0])) {
+      const options = setting[1];
+      normalized[id] = [setting[0], options && typeof options === 'object' ? { ...options } : {}];
+    }
+  }
+  return { rules: normalized };
+}
+
+/**
+ * Configured severity of a rule, or its default
+ */
+export function lintRuleSeverity(rule: LintRule, config: LintConfig = {}): LintSeverity {
+  const setting = config.rules?.[rule.id];
+  return (Array.isArray(setting) ? setting[0] : setting) ?? rule.defaultSeverity;
+}
+
+/**
+ * Enabled rules with their configured severity and options
+ */
+export function resolveLintRules(config: LintConfig = {}): ResolvedLintRule[] {
+  const resolved: ResolvedLintRule[] = [];
+  for (const rule of LINT_RULES) {
+    const severity = lintRuleSeverity(rule, config);
+    if (severity === 'off') continue;
+    const setting = config.rules?.[rule.id];
+    const options = Array.isArray(setting) ? setting[1] : {};
+    resolved.push({ rule, severity, options: { ...rule.defaultOptions, ...options } });
+  }
+  return resolved;
+}
+
+// ============================================================================
+// Linting
+// ============================================================================
+
+/**
+ * Lint schemas with the configured rules. Findings carry the rule id.
+ */
+export function lintSchemas(schemas: GuiSchema[], config?: LintConfig): ValidationError[] {
+  const rules = resolveLintRules(config);
+  const findings: ValidationError[] = [];
+
+  for (const schema of schemas) {
+    for (const { rule, severity, options } of rules) {
+      for (const finding of rule.check(schema, options)) {
+        findings.push({ ...finding, severity, rule: rule.id });
+      }
+    }
+  }
+
+  return findings;
+}
@@ -0,0 +1,73 @@
+/**
+ * Localized string helper tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  resolveLocalized,
+  localizedText,
+  setLocalizedText,
+  localizedLocales,
+  missingLocales,
+} from './localized.js';
+
+const LOCALES = ['en', 'ja', 'vi'];
+
+describe('resolveLocalized', () => {
+  it('prefers the requested locale, then English, then the first locale', () => {
+    const value = { ja: 'ユーザー', en: 'User' };
+    expect(resolveLocalized(value, 'ja')).toBe('ユーザー');
+    expect(resolveLocalized(value, 'vi')).toBe('User');
+    expect(resolveLocalized({ ja: 'ユーザー' })).toBe('ユーザー');
+    expect(resolveLocalized('User', 'ja')).toBe('User');
+  });
+});
+
+describe('localizedText', () => {
+  it('treats a plain string as the default locale text', () => {
+    expect(localizedText('User', 'en', 'en')).toBe('User');
+    expect(localizedText('User', 'ja', 'en')).toBeUndefined();
+    expect(localizedText({ ja: 'ユーザー' }, 'ja', 'en')).toBe('ユーザー');
+  });
+});
+
+describe('setLocalizedText', () => {
+  it('keeps plain strings plain for the default locale', () => {
+    expect(setLocalizedText(undefined, 'en', 'User', 'en')).toBe('User');
+    expect(setLocalizedText('User', 'en', 'Member', 'en')).toBe('Member');
+    expect(setLocalizedText('User', 'en', '', 'en')).toBeUndefined();
+  });
+
+  it('turns a plain string into a map when another locale is added', () => {
+    expect(setLocalizedText('User', 'ja', 'ユーザー', 'en')).toEqual({ en: 'User', ja: 'ユーザー' });
+    expect(setLocalizedText(undefined, 'vi', 'Người dùng', 'en')).toEqual({ vi: 'Người dùng' });
+  });
+
+  it('edits one locale of a map and keeps the others', () => {
+    const value = { en: 'User', ja: 'ユーザー' };
+    expect(setLocalizedText(value, 'en', 'Member', 'en')).toEqual({ en: 'Member', ja: 'ユーザー' });
+    expect(setLocalizedText(value, 'ja', '', 'en')).toEqual({ en: 'User' });
+    expect(setLocalizedText({ ja: 'ユーザー' }, 'ja', '', 'en')).toBeUndefined();
+    expect(value).toEqual({ en: 'User', ja: 'ユーザー' });
+  });
+});
+
+describe('localizedLocales', () => {
+  it('appends locales the value has beyond the project locales', () => {
+    expect(localizedLocales({ en: 'User', fr: 'Utilisateur' }, LOCALES)).toEqual(['en', 'ja', 'vi', 'fr']);
+    expect(localizedLocales('User', LOCALES)).toEqual(LOCALES);
+  });
+});
+
+describe('missingLocales', () => {
+  it('lists project locales without text', () => {
+    expect(missingLocales({ en: 'User', ja: '' }, LOCALES, 'en')).toEqual(['ja', 'vi']);
+    expect(missingLocales('User', LOCALES, 'en')).toEqual(['ja', 'vi']);
+    expect(missingLocales({ en: 'User', ja: 'ユーザー', vi: 'Người dùng' }, LOCALES, 'en')).toEqual([]);
+  });
+
+  it('does not report values without any text', () => {
+    expect(missingLocales(undefined, LOCALES, 'en')).toEqual([]);
+    expect(missingLocales('', LOCALES, 'en')).toEqual([]);
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Localized string helpers (browser-safe)
+ */
+
+import type { LocalizedString } from './types.js';
+
+/**
+ * Locale whose text is shown for a localized map: the requested locale, then
+ * English, then the first locale present.
+ */
+function displayLocale(value: Record<string, string>, locale?: string): string | undefined {
+  if (locale && locale in value) return locale;
+  if ('en' in value) return 'en';
+  return Object.keys(value)[0];
+}
+
+/**
+ * Text of a localized string for display
+ */
+export function resolveLocalized(value: LocalizedString | undefined, locale?: string): string | undefined {
+  if (value === undefined || typeof value === 'string') return value;
+  const key = displayLocale(value, locale);
+  return key === undefined ? undefined : value[key];
+}
+
+/**
+ * Text of a localized string in one locale. A plain string is the text of the
+ * default locale.
+ */
+export function localizedText(
+  value: LocalizedString | undefined,
+  locale: string,
+  defaultLocale: string
+): string | undefined {
+  if (value === undefined || typeof value === 'string') {
+    return locale === defaultLocale ? value : undefined;
+  }
+  return value[locale];
+}
+
+/**
+ * Set the text of one locale. A plain string stays plain while only the
+ * default locale has text; otherwise it becomes a locale map. Empty text
+ * removes the locale.
+ */
+export function setLocalizedText(
+  value: LocalizedString | undefined,
+  locale: string,
+  text: string,
+  defaultLocale: string
+): LocalizedString | undefined {
+  if ((value === undefined || typeof value === 'string') && locale === defaultLocale) {
+    return text || undefined;
+  }
+
+  const map: Record<string, string> =
+    value === undefined ? {} : typeof value === 'string' ? { [defaultLocale]: value } : { ...value };
+  if (text) {
+    map[locale] = text;
+  } else {
+    delete map[locale];
+  }
+  return Object.keys(map).length > 0 ? map : undefined;
+}
+
+/**
+ * Locales to edit for a value: the project locales, then any other locale the
+ * value already has text for
+ */
+export function localizedLocales(value: LocalizedString | undefined, projectLocales: readonly string[]): string[] {
+  const locales = [...projectLocales];
+  if (value !== undefined && typeof value !== 'string') {
+    for (const locale of Object.keys(value)) {
+      if (!locales.includes(locale)) locales.push(locale);
+    }
+  }
+  return locales;
+}
+
+/**
+ * Project locales without text. Text that was never entered is not reported:
+ * only partially translated values have missing locales.
+ */
+export function missingLocales(
+  value: LocalizedString | undefined,
+  projectLocales: readonly string[],
+  defaultLocale: string
+): string[] {
+  if (value === undefined || value === '') return [];
+  return projectLocales.filter((locale) => !localizedText(value, locale, defaultLocale));
+}
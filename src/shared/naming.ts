@@ -0,0 +1,30 @@
+/**
+ * Naming helpers shared by the editor, exports and previews
+ */
+
+import type { GuiSchema } from './types.js';
+
+/**
+ * Naive English pluralization matching the schema editor's auto plural
+ */
+export function pluralize(word: string): string {
+  if (!word) return '';
+  if (word.endsWith('y')) return word.slice(0, -1) + 'ies';
+  if (word.endsWith('s')) return word + 'es';
+  return word + 's';
+}
+
+/**
+ * Convert PascalCase or camelCase to snake_case
+ */
+export function toSnakeCase(value: string): string {
+  return value.replace(/([A-Z])/g, '_$1').toLowerCase().replace(/^_/, '');
+}
+
+/**
+ * Resolve the database table name of a schema (explicit or derived)
+ */
+export function getTableName(schema: Pick<GuiSchema, 'name' | 'plural' | 'options'>): string {
+  if (schema.options?.tableName) return schema.options.tableName;
+  return toSnakeCase(schema.plural ?? pluralize(schema.name));
+}
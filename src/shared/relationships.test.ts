@@ -0,0 +1,233 @@
+/**
+ * Relationship extraction tests
+ * Tests edge extraction and crow's-foot cardinality used by the ER diagram
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  extractRelationships,
+  createInverseAssociation,
+  getCardinality,
+  getInverseRelation,
+  getAssociationTargets,
+} from './relationships.js';
+import { objectSchema } from './fixtures/schemas.js';
+
+// ============================================================================
+// Cardinality Tests
+// ============================================================================
+
+describe('getCardinality', () => {
+  it('marks required to-one targets as exactly one', () => {
+    expect(getCardinality('ManyToOne')).toEqual({ from: 'zeroOrMany', to: 'one' });
+  });
+
+  it('marks nullable to-one targets as optional', () => {
+    expect(getCardinality('ManyToOne', true)).toEqual({ from: 'zeroOrMany', to: 'zeroOrOne' });
+  });
+
+  it('uses many on both ends for ManyToMany', () => {
+    expect(getCardinality('ManyToMany')).toEqual({ from: 'zeroOrMany', to: 'zeroOrMany' });
+  });
+
+  it('leaves the target of an inverse OneToOne optional', () => {
+    expect(getCardinality('OneToOne', false, true)).toEqual({ from: 'zeroOrOne', to: 'zeroOrOne' });
+  });
+
+  it('handles polymorphic relations', () => {
+    expect(getCardinality('MorphMany')).toEqual({ from: 'zeroOrOne', to: 'zeroOrMany' });
+    expect(getCardinality('MorphToMany')).toEqual({ from: 'zeroOrMany', to: 'zeroOrMany' });
+  });
+});
+
+describe('getInverseRelation', () => {
+  it('returns complementary relation kinds', () => {
+    expect(getInverseRelation('ManyToOne')).toBe('OneToMany');
+    expect(getInverseRelation('OneToMany')).toBe('ManyToOne');
+    expect(getInverseRelation('OneToOne')).toBe('OneToOne');
+    expect(getInverseRelation('MorphToMany')).toBe('MorphedByMany');
+  });
+
+  it('returns undefined for unknown relations', () => {
+    expect(getInverseRelation('Unknown')).toBeUndefined();
+  });
+});
+
+// ============================================================================
+// Extraction Tests
+// ============================================================================
+
+describe('getAssociationTargets', () => {
+  it('prefers targets over target for MorphTo', () => {
+    expect(
+      getAssociationTargets({ type: 'Association', relation: 'MorphTo', targets: ['Post', 'Video'] })
+    ).toEqual(['Post', 'Video']);
+  });
+
+  it('ignores non-association properties', () => {
+    expect(getAssociationTargets({ type: 'String', target: 'User' })).toEqual([]);
+  });
+});
+
+describe('extractRelationships', () => {
+  it('returns one edge per association', () => {
+    const schemas = {
+      Post: objectSchema('Post', {
+        title: { type: 'String' },
+        author: { type: 'Association', relation: 'ManyToOne', target: 'User' },
+      }),
+      User: objectSchema('User', { name: { type: 'String' } }),
+    };
+
+    const result = extractRelationships(schemas);
+    expect(result).toHaveLength(1);
+    expect(result[0]).toMatchObject({
+      from: 'Post',
+      to: 'User',
+      property: 'author',
+      relation: 'ManyToOne',
+      polymorphic: false,
+    });
+  });
+
+  it('merges both sides of a bidirectional association into one edge', () => {
+    const schemas = {
+      Post: objectSchema('Post', {
+        author: { type: 'Association', relation: 'ManyToOne', target: 'User', inversedBy: 'posts' },
+      }),
+      User: objectSchema('User', {
+        posts: { type: 'Association', relation: 'OneToMany', target: 'Post', mappedBy: 'author' },
+      }),
+    };
+
+    const result = extractRelationships(schemas);
+    expect(result).toHaveLength(1);
+    expect(result[0]?.inverseProperty).toBe('posts');
+  });
+
+  it('builds a bidirectional edge from the owning side when the inverse side sorts first', () => {
+    const schemas = {
+      Author: objectSchema('Author', {
+        posts: { type: 'Association', relation: 'OneToMany', target: 'Post', mappedBy: 'author' },
+      }),
+      Post: objectSchema('Post', {
+        author: { type: 'Association', relation: 'ManyToOne', target: 'Author' },
+      }),
+    };
+
+    expect(extractRelationships(schemas)).toEqual([
+      {
+        from: 'Post',
+        to: 'Author',
+        property: 'author',
+        inverseProperty: 'posts',
+        relation: 'ManyToOne',
+        fromCardinality: 'zeroOrMany',
+        toCardinality: 'one',
+        polymorphic: false,
+      },
+    ]);
+  });
+
+  it('builds a OneToOne edge from the side without mappedBy', () => {
+    const schemas = {
+      Passport: objectSchema('Passport', {
+        person: { type: 'Association', relation: 'OneToOne', target: 'Person', mappedBy: 'passport' },
+      }),
+      Person: objectSchema('Person', {
+        passport: { type: 'Association', relation: 'OneToOne', target: 'Passport', nullable: true },
+      }),
+    };
+
+    expect(extractRelationships(schemas)).toEqual([
+      expect.objectContaining({ from: 'Person', property: 'passport', toCardinality: 'zeroOrOne' }),
+    ]);
+  });
+
+  it('does not require the target of a lone inverse OneToOne', () => {
+    const schemas = {
+      Passport: objectSchema('Passport', {
+        person: { type: 'Association', relation: 'OneToOne', target: 'Person', mappedBy: 'passport' },
+      }),
+    };
+
+    expect(extractRelationships(schemas)[0]?.toCardinality).toBe('zeroOrOne');
+  });
+
+  it('creates an edge for each MorphTo target', () => {
+    const schemas = {
+      Comment: objectSchema('Comment', {
+        commentable: { type: 'Association', relation: 'MorphTo', targets: ['Post', 'Video'] },
+      }),
+    };
+
+    const result = extractRelationships(schemas);
+    expect(result.map((r) => r.to)).toEqual(['Post', 'Video']);
+    expect(result.every((r) => r.polymorphic)).toBe(true);
+  });
+
+  it('skips enum schemas and associations without relation', () => {
+    const schemas = {
+      Status: { name: 'Status', kind: 'enum' as const, values: [{ value: 'draft' }] },
+      Post: objectSchema('Post', {
+        broken: { type: 'Association', target: 'User' },
+      }),
+    };
+
+    expect(extractRelationships(schemas)).toEqual([]);
+  });
+});
+
+// ============================================================================
+// Inverse Creation Tests
+// ============================================================================
+
+describe('createInverseAssociation', () => {
+  it('puts inversedBy on the owning ManyToOne side', () => {
+    const result = createInverseAssociation(
+      'Post',
+      'author',
+      { type: 'Association', relation: 'ManyToOne', target: 'User' },
+      'posts'
+    );
+    expect(result?.property).toMatchObject({ inversedBy: 'posts' });
+    expect(result?.inverse).toEqual({
+      type: 'Association',
+      relation: 'OneToMany',
+      target: 'Post',
+      mappedBy: 'author',
+    });
+  });
+
+  it('puts mappedBy on the OneToMany side', () => {
+    const result = createInverseAssociation(
+      'User',
+      'posts',
+      { type: 'Association', relation: 'OneToMany', target: 'Post', inversedBy: 'stale' },
+      'author'
+    );
+    expect(result?.property).toEqual({
+      type: 'Association',
+      relation: 'OneToMany',
+      target: 'Post',
+      mappedBy: 'author',
+    });
+    expect(result?.inverse).toMatchObject({ relation: 'ManyToOne', inversedBy: 'posts' });
+  });
+
+  it('pairs MorphMany with a MorphTo by morphName', () => {
+    const result = createInverseAssociation(
+      'Post',
+      'comments',
+      { type: 'Association', relation: 'MorphMany', target: 'Comment' },
+      'commentable'
+    );
+    expect(result?.property.morphName).toBe('commentable');
+    expect(result?.inverse).toEqual({ type: 'Association', relation: 'MorphTo', targets: ['Post'] });
+  });
+
+  it('returns undefined for MorphTo', () => {
+    const prop = { type: 'Association', relation: 'MorphTo', targets: ['Post'] };
+    expect(createInverseAssociation('Comment', 'commentable', prop, 'comments')).toBeUndefined();
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * Relationship extraction for diagrams and association tooling
+ *
+ * Browser-safe helpers that turn the Association properties of a schema
+ * collection into edges with crow's-foot cardinality.
+ */
+
+import type { GuiSchema, GuiPropertyDefinition } from './types.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Crow's-foot end marker: minimum (zero/one) and maximum (one/many)
+ */
+export type Cardinality = 'one' | 'zeroOrOne' | 'many' | 'zeroOrMany';
+
+export interface Relationship {
+  /** Schema declaring the association */
+  from: string;
+  /** Target schema */
+  to: string;
+  /** Property holding the association on the `from` side */
+  property: string;
+  /** Inverse property on the `to` side, when both sides are declared */
+  inverseProperty?: string;
+  relation: string;
+  /** Cardinality at the `from` end of the edge */
+  fromCardinality: Cardinality;
+  /** Cardinality at the `to` end of the edge */
+  toCardinality: Cardinality;
+  polymorphic: boolean;
+}
+
+// ============================================================================
+// Cardinality
+// ============================================================================
+
+/**
+ * Maximum multiplicity at each end for a relation kind (owner end, target end)
+ */
+const RELATION_ENDS: Record<string, ['one' | 'many', 'one' | 'many']> = {
+  OneToOne: ['one', 'one'],
+  OneToMany: ['one', 'many'],
+  ManyToOne: ['many', 'one'],
+  ManyToMany: ['many', 'many'],
+  MorphTo: ['many', 'one'],
+  MorphOne: ['one', 'one'],
+  MorphMany: ['one', 'many'],
+  MorphToMany: ['many', 'many'],
+  MorphedByMany: ['many', 'many'],
+};
+
+/**
+ * Inverse relation kind for each relation, used when declaring the other side
+ */
+const INVERSE_RELATIONS: Record<string, string> = {
+  OneToOne: 'OneToOne',
+  OneToMany: 'ManyToOne',
+  ManyToOne: 'OneToMany',
+  ManyToMany: 'ManyToMany',
+  MorphOne: 'MorphTo',
+  MorphMany: 'MorphTo',
+  MorphToMany: 'MorphedByMany',
+  MorphedByMany: 'MorphToMany',
+};
+
+/**
+ * Relations that never hold the foreign key or the join table themselves
+ */
+const INVERSE_ONLY_RELATIONS = new Set(['OneToMany', 'MorphOne', 'MorphMany', 'MorphedByMany']);
+
+export function isPolymorphicRelation(relation: string): boolean {
+  return relation.startsWith('Morph');
+}
+
+/**
+ * Get the relation kind expected on the inverse side of an association
+ */
+export function getInverseRelation(relation: string): string | undefined {
+  return INVERSE_RELATIONS[relation];
+}
+
+/**
+ * Whether a property is the inverse side of its association: the other side
+ * holds the foreign key or the join table
+ */
+export function isInverseSide(prop: GuiPropertyDefinition): boolean {
+  return prop.mappedBy !== undefined || INVERSE_ONLY_RELATIONS.has(prop.relation ?? '');
+}
+
+/**
+ * Derive the crow's-foot markers for both ends of an association.
+ * A nullable to-one association makes the target end optional; so does the
+ * inverse side of a OneToOne, which has no foreign key to require.
+ */
+export function getCardinality(
+  relation: string,
+  nullable = false,
+  inverseSide = false
+): { from: Cardinality; to: Cardinality } {
+  const [fromMax, toMax] = RELATION_ENDS[relation] ?? ['many', 'one'];
+  const from: Cardinality = fromMax === 'one' ? 'zeroOrOne' : 'zeroOrMany';
+  let to: Cardinality;
+  if (toMax === 'many') {
+    to = 'zeroOrMany';
+  } else if (!inverseSide && (relation === 'ManyToOne' || relation === 'MorphTo' || relation === 'OneToOne')) {
+    // Owning side holds the foreign key, so the target is required unless nullable
+    to = nullable ? 'zeroOrOne' : 'one';
+  } else {
+    to = 'zeroOrOne';
+  }
+  return { from, to };
+}
+
+// ============================================================================
+// Extraction
+// ============================================================================
+
+/**
+ * Targets of an association property (MorphTo lists several)
+ */
+export function getAssociationTargets(prop: GuiPropertyDefinition): string[] {
+  if (prop.type !== 'Association') return [];
+  if (prop.targets && prop.targets.length > 0) return [...prop.targets];
+  return prop.target ? [prop.target] : [];
+}
+
+/**
+ * Find the property on `target` that declares the other side of an association
+ */
+function findInverseProperty(
+  schemas: Record<string, GuiSchema>,
+  from: string,
+  propName: string,
+  prop: GuiPropertyDefinition,
+  target: string
+): string | undefined {
+  const targetProps = schemas[target]?.properties;
+  if (!targetProps) return undefined;
+
+  const named = prop.inversedBy ?? prop.mappedBy;
+  if (named && targetProps[named]) return named;
+
+  for (const [name, candidate] of Object.entries(targetProps)) {
+    if (candidate.type !== 'Association') continue;
+    if (!getAssociationTargets(candidate).includes(from)) continue;
+    if (candidate.inversedBy === propName || candidate.mappedBy === propName) return name;
+  }
+  return undefined;
+}
+
+/**
+ * Extract relationship edges from all Association properties.
+ * When both sides of an association are declared, a single edge is returned,
+ * built from the owning side so its nullability sets the markers.
+ */
+export function extractRelationships(schemas: Record<string, GuiSchema>): Relationship[] {
+  const relationships: Relationship[] = [];
+  const seen = new Set<string>();
+
+  const names = Object.keys(schemas).sort();
+  for (const name of names) {
+    const properties = schemas[name]?.properties;
+    if (!properties) continue;
+
+    for (const [propName, prop] of Object.entries(properties)) {
+      if (prop.type !== 'Association' || !prop.relation) continue;
+
+      for (const target of getAssociationTargets(prop)) {
+        if (seen.has(`${name}.${propName}->${target}`)) continue;
+
+        const inverseProperty = findInverseProperty(schemas, name, propName, prop, target);
+        const inverse = inverseProperty ? schemas[target]?.properties?.[inverseProperty] : undefined;
+        if (inverseProperty && inverse) {
+          // Leave the edge to the owning side when it pairs back with this property
+          const ownedByOther =
+            isInverseSide(prop) &&
+            !isInverseSide(inverse) &&
+            findInverseProperty(schemas, target, inverseProperty, inverse, name) === propName;
+          if (ownedByOther) continue;
+          seen.add(`${target}.${inverseProperty}->${name}`);
+        }
+
+        const cardinality = getCardinality(prop.relation, prop.nullable === true, isInverseSide(prop));
+        relationships.push({
+          from: name,
+          to: target,
+          property: propName,
+          ...(inverseProperty ? { inverseProperty } : {}),
+          relation: prop.relation,
+          fromCardinality: cardinality.from,
+          toCardinality: cardinality.to,
+          polymorphic: isPolymorphicRelation(prop.relation),
+        });
+      }
+    }
+  }
+
+  return relationships;
+}
+
+// ============================================================================
+// Inverse creation
+// ============================================================================
+
+/**
+ * Build the inverse side of a new association and wire `inversedBy`/`mappedBy`
+ * on both properties. The owning side (the one holding the foreign key or the
+ * join table) gets `inversedBy`, the inverse side gets `mappedBy`.
+ * Returns undefined for relations without a single inverse (MorphTo).
+ */
+export function createInverseAssociation(
+  owner: string,
+  propName: string,
+  prop: GuiPropertyDefinition,
+  inverseName: string
+): { property: GuiPropertyDefinition; inverse: GuiPropertyDefinition } | undefined {
+  const relation = prop.relation;
+  const inverseRelation = relation ? getInverseRelation(relation) : undefined;
+  if (!relation || !inverseRelation) return undefined;
+
+  if (inverseRelation === 'MorphTo') {
+    // MorphOne/MorphMany are paired by morphName, not inversedBy/mappedBy
+    return {
+      property: { ...prop, morphName: inverseName },
+      inverse: { type: 'Association', relation: 'MorphTo', targets: [owner] },
+    };
+  }
+
+  const inverse: GuiPropertyDefinition = {
+    type: 'Association',
+    relation: inverseRelation,
+    target: owner,
+  };
+  if (prop.morphName) inverse.morphName = prop.morphName;
+  if (prop.joinTable) inverse.joinTable = prop.joinTable;
+  if (prop.pivotFields) inverse.pivotFields = prop.pivotFields;
+
+  const property: GuiPropertyDefinition = { ...prop };
+  delete property.inversedBy;
+  delete property.mappedBy;
+
+  const sourceOwns = relation !== 'OneToMany' && relation !== 'MorphedByMany';
+  if (sourceOwns) {
+    property.inversedBy = inverseName;
+    inverse.mappedBy = propName;
+  } else {
+    property.mappedBy = inverseName;
+    inverse.inversedBy = propName;
+  }
+  return { property, inverse };
+}
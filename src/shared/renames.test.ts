@@ -0,0 +1,153 @@
+/**
+ * Rename helper tests
+ * Tests reference discovery and rename journal collapsing
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  findSchemaReferences,
+  findPropertyReferences,
+  renameSchemaReference,
+  collapseRenames,
+} from './renames.js';
+import type { GuiSchema } from './types.js';
+
+const schemas: Record<string, GuiSchema> = {
+  Post: {
+    name: 'Post',
+    kind: 'object',
+    titleIndex: 'title',
+    properties: {
+      title: { type: 'String' },
+      author: { type: 'Association', relation: 'ManyToOne', target: 'User' },
+      status: { type: 'EnumRef', enum: 'PostStatus' },
+    },
+  },
+  Comment: {
+    name: 'Comment',
+    kind: 'object',
+    titleIndex: 'User.name',
+    properties: {
+      commentable: { type: 'Association', relation: 'MorphTo', targets: ['Post', 'User'] },
+    },
+  },
+  User: { name: 'User', kind: 'object', properties: { name: { type: 'String' } } },
+  PostStatus: { name: 'PostStatus', kind: 'enum', values: [{ value: 'draft' }] },
+};
+
+// ============================================================================
+// Reference Tests
+// ============================================================================
+
+describe('findSchemaReferences', () => {
+  it('finds target, targets and qualified titleIndex references', () => {
+    expect(findSchemaReferences(schemas, 'User')).toEqual([
+      { schema: 'Comment', path: ['titleIndex'], value: 'User.name' },
+      { schema: 'Comment', path: ['properties', 'commentable', 'targets', 1], value: 'User' },
+      { schema: 'Post', path: ['properties', 'author', 'target'], value: 'User' },
+    ]);
+  });
+
+  it('finds EnumRef references', () => {
+    expect(findSchemaReferences(schemas, 'PostStatus')).toEqual([
+      { schema: 'Post', path: ['properties', 'status', 'enum'], value: 'PostStatus' },
+    ]);
+  });
+
+  it('does not treat plain titleIndex values as references', () => {
+    expect(findSchemaReferences(schemas, 'title')).toEqual([]);
+  });
+});
+
+describe('renameSchemaReference', () => {
+  it('renames plain and qualified references', () => {
+    expect(renameSchemaReference('User', 'User', 'Member')).toBe('Member');
+    expect(renameSchemaReference('User.name', 'User', 'Member')).toBe('Member.name');
+    expect(renameSchemaReference('UserProfile', 'User', 'Member')).toBe('UserProfile');
+  });
+});
+
+describe('findPropertyReferences', () => {
+  it('finds indexes, unique, titleIndex and authenticatable fields of the schema', () => {
+    const account: GuiSchema = {
+      name: 'Account',
+      kind: 'object',
+      titleIndex: 'email',
+      properties: { email: { type: 'Email' } },
+      options: {
+        indexes: [{ columns: ['email', 'tenant'] }],
+        unique: [['email']],
+        authenticatable: true,
+        authenticatableLoginIdField: 'email',
+      },
+    };
+    expect(findPropertyReferences({ Account: account }, 'Account', 'email').map((r) => r.path)).toEqual([
+      ['titleIndex'],
+      ['options', 'indexes', 0, 'columns', 0],
+      ['options', 'unique', 0, 0],
+      ['options', 'authenticatableLoginIdField'],
+    ]);
+  });
+
+  it('finds inverse sides pointing at the property', () => {
+    const withInverse: Record<string, GuiSchema> = {
+      ...schemas,
+      User: {
+        name: 'User',
+        kind: 'object',
+        properties: {
+          posts: { type: 'Association', relation: 'OneToMany', target: 'Post', mappedBy: 'author' },
+        },
+      },
+    };
+    expect(findPropertyReferences(withInverse, 'Post', 'author')).toEqual([
+      { schema: 'User', path: ['properties', 'posts', 'mappedBy'], value: 'author' },
+    ]);
+  });
+});
+
+// ============================================================================
+// Journal Tests
+// ============================================================================
+
+describe('collapseRenames', () => {
+  it('chains consecutive renames', () => {
+    expect(
+      collapseRenames([
+        { kind: 'schema', from: 'A', to: 'B' },
+        { kind: 'schema', from: 'B', to: 'C' },
+      ])
+    ).toEqual([{ kind: 'schema', from: 'A', to: 'C' }]);
+  });
+
+  it('drops a rename back to the original name', () => {
+    expect(
+      collapseRenames([
+        { kind: 'schema', from: 'A', to: 'B' },
+        { kind: 'schema', from: 'B', to: 'A' },
+      ])
+    ).toEqual([]);
+  });
+
+  it('keeps property renames of different schemas apart', () => {
+    expect(
+      collapseRenames([
+        { kind: 'property', schema: 'Post', from: 'a', to: 'b' },
+        { kind: 'property', schema: 'User', from: 'b', to: 'c' },
+      ])
+    ).toHaveLength(2);
+  });
+
+  it('moves property renames along with their schema', () => {
+    expect(
+      collapseRenames([
+        { kind: 'property', schema: 'Post', from: 'a', to: 'b' },
+        { kind: 'schema', from: 'Post', to: 'Article' },
+        { kind: 'property', schema: 'Article', from: 'b', to: 'c' },
+      ])
+    ).toEqual([
+      { kind: 'property', schema: 'Article', from: 'a', to: 'c' },
+      { kind: 'schema', from: 'Post', to: 'Article' },
+    ]);
+  });
+});
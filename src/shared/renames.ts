@@ -0,0 +1,155 @@
+/**
+ * Rename helpers shared by the rename API and pending changes
+ *
+ * Schema files never store their own name (it comes from the file name),
+ * so renaming a schema means moving its file and rewriting every reference
+ * to it in the other schemas. Property renames are handled the same way.
+ */
+
+import type { GuiSchema, RenameEntry } from './types.js';
+import { getAssociationTargets } from './relationships.js';
+
+/**
+ * Path of a value inside a schema YAML document
+ */
+export type YamlPath = (string | number)[];
+
+export interface SchemaReference {
+  /** Schema holding the reference */
+  schema: string;
+  path: YamlPath;
+  value: string;
+}
+
+/**
+ * Find every place that refers to schema `name`: association `target` and
+ * `targets`, EnumRef `enum` and qualified `titleIndex` values (`Name.property`).
+ */
+export function findSchemaReferences(
+  schemas: Record<string, GuiSchema>,
+  name: string
+): SchemaReference[] {
+  const refs: SchemaReference[] = [];
+
+  for (const schemaName of Object.keys(schemas).sort()) {
+    const schema = schemas[schemaName]!;
+
+    if (schema.titleIndex?.startsWith(`${name}.`)) {
+      refs.push({ schema: schemaName, path: ['titleIndex'], value: schema.titleIndex });
+    }
+
+    for (const [propName, prop] of Object.entries(schema.properties ?? {})) {
+      if (prop.target === name) {
+        refs.push({ schema: schemaName, path: ['properties', propName, 'target'], value: name });
+      }
+      prop.targets?.forEach((target, i) => {
+        if (target === name) {
+          refs.push({ schema: schemaName, path: ['properties', propName, 'targets', i], value: name });
+        }
+      });
+      if (prop.type === 'EnumRef' && prop.enum === name) {
+        refs.push({ schema: schemaName, path: ['properties', propName, 'enum'], value: name });
+      }
+    }
+  }
+
+  return refs;
+}
+
+/**
+ * New value of a reference found by findSchemaReferences
+ */
+export function renameSchemaReference(value: string, from: string, to: string): string {
+  if (value === from) return to;
+  if (value.startsWith(`${from}.`)) return to + value.slice(from.length);
+  return value;
+}
+
+/**
+ * Find every place that refers to property `property` of schema `name`: index
+ * and unique columns, `titleIndex` and the authenticatable fields of the schema
+ * itself, and `inversedBy`/`mappedBy` of associations pointing at the schema.
+ */
+export function findPropertyReferences(
+  schemas: Record<string, GuiSchema>,
+  name: string,
+  property: string
+): SchemaReference[] {
+  const refs: SchemaReference[] = [];
+  const schema = schemas[name];
+
+  if (schema) {
+    const ref = (path: YamlPath): void => {
+      refs.push({ schema: name, path, value: property });
+    };
+    if (schema.titleIndex === property) ref(['titleIndex']);
+
+    const options = schema.options ?? {};
+    options.indexes?.forEach((index, i) => {
+      index.columns.forEach((column, j) => {
+        if (column === property) ref(['options', 'indexes', i, 'columns', j]);
+      });
+    });
+    options.unique?.forEach((entry, i) => {
+      if (Array.isArray(entry)) {
+        entry.forEach((column, j) => {
+          if (column === property) ref(['options', 'unique', i, j]);
+        });
+      } else if (entry === property) {
+        ref(['options', 'unique', i]);
+      }
+    });
+    if (options.authenticatableLoginIdField === property) ref(['options', 'authenticatableLoginIdField']);
+    if (options.authenticatablePasswordField === property) ref(['options', 'authenticatablePasswordField']);
+  }
+
+  for (const schemaName of Object.keys(schemas).sort()) {
+    for (const [propName, prop] of Object.entries(schemas[schemaName]!.properties ?? {})) {
+      if (!getAssociationTargets(prop).includes(name)) continue;
+      if (prop.inversedBy === property) {
+        refs.push({ schema: schemaName, path: ['properties', propName, 'inversedBy'], value: property });
+      }
+      if (prop.mappedBy === property) {
+        refs.push({ schema: schemaName, path: ['properties', propName, 'mappedBy'], value: property });
+      }
+    }
+  }
+
+  return refs;
+}
+
+/**
+ * Collapse a rename journal into net renames: A→B then B→C becomes A→C,
+ * and a rename back to the original name cancels out.
+ */
+export function collapseRenames(entries: readonly RenameEntry[]): RenameEntry[] {
+  const net: RenameEntry[] = [];
+
+  for (const entry of entries) {
+    if (entry.kind === 'schema') {
+      // Earlier property renames follow their schema
+      net.forEach((e, i) => {
+        if (e.kind === 'property' && e.schema === entry.from) net[i] = { ...e, schema: entry.to };
+      });
+    }
+
+    const previous = net.findIndex(
+      (e) =>
+        e.kind === entry.kind &&
+        e.to === entry.from &&
+        (e.kind === 'schema' || (entry.kind === 'property' && e.schema === entry.schema))
+    );
+    if (previous === -1) {
+      net.push({ ...entry });
+      continue;
+    }
+    const original = net[previous]!;
+    if (original.from === entry.to) {
+      net.splice(previous, 1);
+    } else {
+      net[previous] = { ...original, to: entry.to };
+    }
+  }
+
+  return net;
+}
@@ -0,0 +1,61 @@
+/**
+ * Schema fix tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { applyFixEdits, applySchemaFix, renamePropertyFix } from './schemaFix.js';
+import type { GuiSchema } from './types.js';
+
+const post: GuiSchema = {
+  name: 'Post',
+  kind: 'object',
+  titleIndex: 'postTitle',
+  relativePath: 'Post.yaml',
+  contentHash: 'abc',
+  properties: {
+    postTitle: { type: 'String' },
+    author: { type: 'Association', relation: 'ManyToOne', target: 'User' },
+  },
+  options: { indexes: [{ columns: ['postTitle'] }] },
+};
+
+describe('applyFixEdits', () => {
+  it('sets, removes and renames keys without touching the input', () => {
+    const data = { properties: { a: { type: 'String' }, b: { type: 'Int' } }, options: { indexes: [{ columns: ['a'] }] } };
+    const result = applyFixEdits(data, [
+      { op: 'set', schema: 'X', path: ['options', 'indexes', 1], value: { columns: ['b'] } },
+      { op: 'set', schema: 'X', path: ['options', 'softDelete'], value: true },
+      { op: 'remove', schema: 'X', path: ['properties', 'b'] },
+      { op: 'renameKey', schema: 'X', path: ['properties'], from: 'a', to: 'c' },
+    ]);
+
+    expect(result).toEqual({
+      properties: { c: { type: 'String' } },
+      options: { indexes: [{ columns: ['a'] }, { columns: ['b'] }], softDelete: true },
+    });
+    expect(data.properties).toHaveProperty('b');
+  });
+
+  it('creates missing containers', () => {
+    expect(applyFixEdits({}, [{ op: 'set', schema: 'X', path: ['options', 'indexes', 0], value: { columns: ['a'] } }])).toEqual({
+      options: { indexes: [{ columns: ['a'] }] },
+    });
+  });
+});
+
+describe('applySchemaFix', () => {
+  it('renames a property with its references and keeps its position', () => {
+    const changed = applySchemaFix({ Post: post }, renamePropertyFix(post, 'postTitle', 'post_title'));
+
+    expect(Object.keys(changed)).toEqual(['Post']);
+    expect(Object.keys(changed.Post!.properties!)).toEqual(['post_title', 'author']);
+    expect(changed.Post!.titleIndex).toBe('post_title');
+    expect(changed.Post!.options?.indexes).toEqual([{ columns: ['post_title'] }]);
+    expect(changed.Post).toMatchObject({ relativePath: 'Post.yaml', contentHash: 'abc' });
+  });
+
+  it('skips schemas that do not exist', () => {
+    const fix = { title: 'x', edits: [{ op: 'remove' as const, schema: 'Missing', path: ['properties', 'a'] }] };
+    expect(applySchemaFix({ Post: post }, fix)).toEqual({});
+  });
+});
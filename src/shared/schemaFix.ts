@@ -0,0 +1,105 @@
+/**
+ * Apply machine-applicable fixes of validation and lint findings (browser-safe)
+ *
+ * Fix edits address schema YAML data by path, so the same fix can be applied
+ * to the schema open in the editor and to other schemas on disk.
+ */
+
+import type { GuiSchema, SchemaFix, SchemaFixEdit } from './types.js';
+import { guiSchemaFromData, guiSchemaToData } from './schemaSerialization.js';
+import { findPropertyReferences } from './renames.js';
+
+type Container = Record<string, unknown> | unknown[];
+
+function isContainer(value: unknown): value is Container {
+  return typeof value === 'object' && value !== null;
+}
+
+function cloneContainer(value: unknown, nextKey: string | number): Container {
+  if (Array.isArray(value)) return [...(value as unknown[])];
+  if (isContainer(value)) return { ...value };
+  return typeof nextKey === 'number' ? [] : {};
+}
+
+/**
+ * Copy `data` with the value at `path` replaced by `update(current)`.
+ * Containers along the path are copied, missing ones are created.
+ */
+function updateAt(data: unknown, path: (string | number)[], update: (current: unknown) => unknown): unknown {
+  const [key, ...rest] = path;
+  if (key === undefined) return update(data);
+
+  const copy = cloneContainer(data, key);
+  const child = (copy as Record<string | number, unknown>)[key];
+  const next = updateAt(child, rest, update);
+  if (next === undefined && rest.length === 0) {
+    if (Array.isArray(copy)) copy.splice(key as number, 1);
+    else delete copy[key as string];
+  } else {
+    (copy as Record<string | number, unknown>)[key] = next;
+  }
+  return copy;
+}
+
+function renameKey(map: unknown, from: string, to: string): unknown {
+  if (!isContainer(map) || Array.isArray(map) || !(from in map)) return map;
+  return Object.fromEntries(Object.entries(map).map(([key, value]) => [key === from ? to : key, value]));
+}
+
+/**
+ * Apply fix edits to the YAML data of one schema
+ */
+export function applyFixEdits(data: Record<string, unknown>, edits: SchemaFixEdit[]): Record<string, unknown> {
+  let result: unknown = data;
+  for (const edit of edits) {
+    if (edit.op === 'set') {
+      result = updateAt(result, edit.path, () => edit.value);
+    } else if (edit.op === 'remove') {
+      result = updateAt(result, edit.path, () => undefined);
+    } else {
+      result = updateAt(result, edit.path, (map) => renameKey(map, edit.from, edit.to));
+    }
+  }
+  return result as Record<string, unknown>;
+}
+
+/**
+ * Schemas changed by a fix, keyed by name. Schemas the fix names but that
+ * do not exist are skipped.
+ */
+export function applySchemaFix(schemas: Record<string, GuiSchema>, fix: SchemaFix): Record<string, GuiSchema> {
+  const changed: Record<string, GuiSchema> = {};
+
+  for (const name of new Set(fix.edits.map((edit) => edit.schema))) {
+    const schema = schemas[name];
+    if (!schema) continue;
+    const data = applyFixEdits(
+      guiSchemaToData(schema),
+      fix.edits.filter((edit) => edit.schema === name)
+    );
+    changed[name] = guiSchemaFromData(name, data, {
+      filePath: schema.filePath,
+      relativePath: schema.relativePath,
+      contentHash: schema.contentHash,
+    });
+  }
+
+  return changed;
+}
+
+/**
+ * Fix renaming a property, together with the references to it inside its own
+ * schema (indexes, titleIndex, self-referencing inverses). References in other
+ * schemas follow when the schema is saved with the rename.
+ */
+export function renamePropertyFix(schema: GuiSchema, from: string, to: string): SchemaFix {
+  const refs = findPropertyReferences({ [schema.name]: schema }, schema.name, from);
+  return {
+    title: `Rename ${from} to ${to}`,
+    edits: [
+      // References first: their paths may go through the renamed property
+      ...refs.map((ref): SchemaFixEdit => ({ op: 'set', schema: schema.name, path: ref.path, value: to })),
+      { op: 'renameKey', schema: schema.name, path: ['properties'], from, to },
+    ],
+  };
+}
@@ -0,0 +1,97 @@
+/**
+ * Schema merge tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mergeSchemaData, applyMergeChoices } from './schemaMerge.js';
+
+const base = {
+  displayName: 'User',
+  group: 'auth',
+  properties: {
+    email: { type: 'Email', unique: true },
+    name: { type: 'String' },
+  },
+  options: { timestamps: true },
+};
+
+describe('mergeSchemaData', () => {
+  it('takes changes made on one side only', () => {
+    const mine = { ...base, displayName: 'Member' };
+    const theirs = { ...base, group: 'accounts' };
+
+    expect(mergeSchemaData(base, mine, theirs)).toEqual({
+      data: { ...base, displayName: 'Member', group: 'accounts' },
+      conflicts: [],
+    });
+  });
+
+  it('merges properties and options one by one', () => {
+    const mine = {
+      ...base,
+      properties: { ...base.properties, age: { type: 'Int' } },
+      options: { timestamps: true, softDelete: true },
+    };
+    const theirs = {
+      ...base,
+      properties: { email: base.properties.email, name: { type: 'String', length: 100 } },
+      options: { timestamps: false },
+    };
+
+    const { data, conflicts } = mergeSchemaData(base, mine, theirs);
+    expect(conflicts).toEqual([]);
+    expect(data.properties).toEqual({
+      email: { type: 'Email', unique: true },
+      name: { type: 'String', length: 100 },
+      age: { type: 'Int' },
+    });
+    expect(data.options).toEqual({ timestamps: false, softDelete: true });
+  });
+
+  it('keeps removals from either side', () => {
+    const { group: _group, ...mine } = base;
+    const theirs = { ...base, properties: { email: base.properties.email } };
+
+    const { data, conflicts } = mergeSchemaData(base, mine, theirs);
+    expect(conflicts).toEqual([]);
+    expect(data).not.toHaveProperty('group');
+    expect(data.properties).toEqual({ email: base.properties.email });
+  });
+
+  it('reports fields changed on both sides and keeps mine', () => {
+    const mine = { ...base, properties: { ...base.properties, name: { type: 'String', nullable: true } } };
+    const theirs = { ...base, properties: { email: base.properties.email } };
+
+    const { data, conflicts } = mergeSchemaData(base, mine, theirs);
+    expect(conflicts).toEqual([
+      {
+        path: ['properties', 'name'],
+        base: { type: 'String' },
+        mine: { type: 'String', nullable: true },
+        theirs: undefined,
+      },
+    ]);
+    expect((data.properties as Record<string, unknown>).name).toEqual({ type: 'String', nullable: true });
+  });
+
+  it('does not report identical changes', () => {
+    const mine = { ...base, displayName: 'Member' };
+    expect(mergeSchemaData(base, mine, { ...mine }).conflicts).toEqual([]);
+  });
+});
+
+describe('applyMergeChoices', () => {
+  it('applies the chosen side of each conflict', () => {
+    const mine = { ...base, displayName: 'Member', properties: { ...base.properties, name: { type: 'Text' } } };
+    const theirs = { ...base, displayName: 'Account', properties: { email: base.properties.email } };
+    const result = mergeSchemaData(base, mine, theirs);
+
+    expect(result.conflicts.map((c) => c.path.join('.'))).toEqual(['displayName', 'properties.name']);
+    expect(applyMergeChoices(result, ['theirs', 'theirs'])).toEqual({
+      ...base,
+      displayName: 'Account',
+      properties: { email: base.properties.email },
+    });
+    expect(applyMergeChoices(result, [])).toEqual(result.data);
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Three-way merge of schema YAML data
+ *
+ * Used when a save is rejected because the file changed on disk: `base` is the
+ * data the editor loaded, `mine` the edited data and `theirs` the data now on
+ * disk. Each top-level key is merged as a whole, except `properties` and
+ * `options` which are merged per property / option.
+ */
+
+import { isSameData } from './yamlDocument.js';
+
+/**
+ * Keys whose entries are merged one by one
+ */
+const NESTED_KEYS = new Set(['properties', 'options']);
+
+export type MergeSide = 'mine' | 'theirs';
+
+/**
+ * A field changed differently on both sides. `undefined` means removed.
+ */
+export interface MergeConflict {
+  path: string[];
+  base: unknown;
+  mine: unknown;
+  theirs: unknown;
+}
+
+export interface MergeResult {
+  // Merged data, conflicting fields taking the `mine` side
+  data: Record<string, unknown>;
+  conflicts: MergeConflict[];
+}
+
+type DataRecord = Record<string, unknown>;
+
+function isRecord(value: unknown): value is DataRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function unionKeys(...records: (DataRecord | undefined)[]): string[] {
+  const keys: string[] = [];
+  for (const record of records) {
+    for (const key of Object.keys(record ?? {})) {
+      if (!keys.includes(key)) keys.push(key);
+    }
+  }
+  return keys;
+}
+
+function mergeRecords(
+  base: DataRecord | undefined,
+  mine: DataRecord | undefined,
+  theirs: DataRecord | undefined,
+  path: string[],
+  conflicts: MergeConflict[]
+): DataRecord {
+  const merged: DataRecord = {};
+
+  // Key order follows my edits, keys only added on disk come last
+  for (const key of unionKeys(mine, theirs)) {
+    const b = base?.[key];
+    const m = mine?.[key];
+    const t = theirs?.[key];
+    const keyPath = [...path, key];
+    let value: unknown;
+
+    if (path.length === 0 && NESTED_KEYS.has(key) && [b, m, t].every((v) => v === undefined || isRecord(v))) {
+      const nested = mergeRecords(b as DataRecord, m as DataRecord, t as DataRecord, keyPath, conflicts);
+      value = Object.keys(nested).length > 0 || m !== undefined || t !== undefined ? nested : undefined;
+    } else if (isSameData(m, t) || isSameData(t, b)) {
+      value = m;
+    } else if (isSameData(m, b)) {
+      value = t;
+    } else {
+      conflicts.push({ path: keyPath, base: b, mine: m, theirs: t });
+      value = m;
+    }
+
+    if (value !== undefined) merged[key] = value;
+  }
+
+  return merged;
+}
+
+/**
+ * Merge my edits and the changes on disk, both made from `base`
+ */
+export function mergeSchemaData(base: DataRecord, mine: DataRecord, theirs: DataRecord): MergeResult {
+  const conflicts: MergeConflict[] = [];
+  const data = mergeRecords(base, mine, theirs, [], conflicts);
+  return { data, conflicts };
+}
+
+/**
+ * Apply the side chosen for each conflict (same order as `result.conflicts`,
+ * defaulting to `mine`)
+ */
+export function applyMergeChoices(result: MergeResult, choices: MergeSide[]): Record<string, unknown> {
+  const data = structuredClone(result.data);
+
+  result.conflicts.forEach((conflict, i) => {
+    if ((choices[i] ?? 'mine') === 'mine') return;
+
+    const parentPath = conflict.path.slice(0, -1);
+    const key = conflict.path[conflict.path.length - 1]!;
+    let parent: DataRecord = data;
+    for (const segment of parentPath) {
+      if (!isRecord(parent[segment])) parent[segment] = {};
+      parent = parent[segment] as DataRecord;
+    }
+
+    if (conflict.theirs === undefined) {
+      delete parent[key];
+    } else {
+      parent[key] = structuredClone(conflict.theirs);
+    }
+  });
+
+  return data;
+}
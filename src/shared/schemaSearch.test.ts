@@ -0,0 +1,57 @@
+/**
+ * Schema search tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { searchSchemas } from './schemaSearch.js';
+import type { GuiSchema } from './types.js';
+
+const schemas: GuiSchema[] = [
+  {
+    name: 'User',
+    kind: 'object',
+    displayName: { en: 'User', ja: 'ユーザー' },
+    properties: {
+      email: { type: 'Email', displayName: { en: 'Email address', ja: 'メール' } },
+      userName: { type: 'String' },
+    },
+    options: { indexes: [{ columns: ['email', 'userName'], name: 'users_login_idx' }] },
+  },
+  {
+    name: 'OrderStatus',
+    kind: 'enum',
+    values: [
+      { value: 'pending', label: { en: 'Pending', ja: '保留中' } },
+      { value: 'paid', label: 'Paid' },
+    ],
+  },
+];
+
+describe('searchSchemas', () => {
+  it('ranks exact and prefix matches before substrings', () => {
+    const results = searchSchemas(schemas, 'user');
+    expect(results.map((r) => [r.kind, r.schema, r.target, r.score])).toEqual([
+      ['schema', 'User', undefined, 0],
+      ['property', 'User', 'userName', 1],
+      ['index', 'User', 'users_login_idx', 1],
+    ]);
+  });
+
+  it('matches display names in any locale, types and enum labels', () => {
+    expect(searchSchemas(schemas, 'メール')).toMatchObject([
+      { kind: 'property', target: 'email', field: 'displayName', matched: 'メール' },
+    ]);
+    expect(searchSchemas(schemas, 'EMAIL')).toMatchObject([
+      { kind: 'property', target: 'email', field: 'name', score: 0 },
+      { kind: 'index', target: 'users_login_idx', field: 'columns' },
+    ]);
+    expect(searchSchemas(schemas, '保留')).toMatchObject([
+      { kind: 'enumValue', schema: 'OrderStatus', target: 'pending', field: 'label' },
+    ]);
+  });
+
+  it('returns nothing for a blank query and honours the limit', () => {
+    expect(searchSchemas(schemas, '  ')).toEqual([]);
+    expect(searchSchemas(schemas, 'a', 2)).toHaveLength(2);
+  });
+});
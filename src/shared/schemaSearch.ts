@@ -0,0 +1,110 @@
+/**
+ * Search across all schemas for the command palette (browser-safe)
+ *
+ * Matches schema names and display names, property names, display names and
+ * types, enum values and labels, and index names and columns.
+ */
+
+import type { GuiSchema, LocalizedString } from './types.js';
+
+export type SearchResultKind = 'schema' | 'property' | 'enumValue' | 'index';
+
+export type SearchField = 'name' | 'displayName' | 'type' | 'label' | 'columns';
+
+export interface SchemaSearchResult {
+  kind: SearchResultKind;
+  // Schema the match belongs to
+  schema: string;
+  // Property name, enum value or index name (absent for schema matches)
+  target?: string | undefined;
+  field: SearchField;
+  // Text that matched the query
+  matched: string;
+  // Lower is better: 0 exact, 1 prefix, 2 substring
+  score: number;
+}
+
+const KIND_ORDER: Record<SearchResultKind, number> = { schema: 0, property: 1, enumValue: 2, index: 3 };
+
+function localizedValues(value: LocalizedString | undefined): string[] {
+  if (value === undefined) return [];
+  return typeof value === 'string' ? [value] : Object.values(value);
+}
+
+function matchScore(text: string, query: string): number | null {
+  const lower = text.toLowerCase();
+  if (lower === query) return 0;
+  if (lower.startsWith(query)) return 1;
+  if (lower.includes(query)) return 2;
+  return null;
+}
+
+/**
+ * Best match among the candidate texts of one item, preferring earlier fields on ties
+ */
+function bestMatch(
+  candidates: [SearchField, string][],
+  query: string
+): { field: SearchField; matched: string; score: number } | null {
+  let best: { field: SearchField; matched: string; score: number } | null = null;
+  for (const [field, text] of candidates) {
+    const score = matchScore(text, query);
+    if (score !== null && (best === null || score < best.score)) best = { field, matched: text, score };
+  }
+  return best;
+}
+
+/**
+ * Find schemas, properties, enum values and indexes matching the query
+ * (case-insensitive). Results are ordered by match quality, then kind.
+ */
+export function searchSchemas(schemas: GuiSchema[], query: string, limit = 50): SchemaSearchResult[] {
+  const q = query.trim().toLowerCase();
+  if (!q) return [];
+
+  const results: SchemaSearchResult[] = [];
+  const add = (
+    kind: SearchResultKind,
+    schema: string,
+    target: string | undefined,
+    candidates: [SearchField, string][]
+  ): void => {
+    const match = bestMatch(candidates, q);
+    if (match) results.push({ kind, schema, target, ...match });
+  };
+
+  for (const schema of schemas) {
+    add('schema', schema.name, undefined, [
+      ['name', schema.name],
+      ...localizedValues(schema.displayName).map((text): [SearchField, string] => ['displayName', text]),
+    ]);
+
+    for (const [name, prop] of Object.entries(schema.properties ?? {})) {
+      add('property', schema.name, name, [
+        ['name', name],
+        ...localizedValues(prop.displayName).map((text): [SearchField, string] => ['displayName', text]),
+        ['type', prop.type],
+      ]);
+    }
+
+    for (const value of schema.values ?? []) {
+      add('enumValue', schema.name, value.value, [
+        ['name', value.value],
+        ...localizedValues(value.label).map((text): [SearchField, string] => ['label', text]),
+      ]);
+    }
+
+    for (const index of schema.options?.indexes ?? []) {
+      const columns = index.columns.join(', ');
+      add('index', schema.name, index.name ?? columns, [
+        ...(index.name ? [['name', index.name] as [SearchField, string]] : []),
+        ...index.columns.map((column): [SearchField, string] => ['columns', column]),
+      ]);
+    }
+  }
+
+  // Array sort is stable, so equal matches keep schema and declaration order
+  return results
+    .sort((a, b) => a.score - b.score || KIND_ORDER[a.kind] - KIND_ORDER[b.kind])
+    .slice(0, limit);
+}
@@ -0,0 +1,99 @@
+/**
+ * Schema serialization tests
+ * Round-trips the fixture corpus in fixtures/roundtrip through the GUI model
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readdirSync, readFileSync } from 'fs';
+import { parse } from 'yaml';
+import { guiSchemaFromData, guiSchemaToData } from './schemaSerialization.js';
+import { updateYamlSource } from './yamlDocument.js';
+import type { GuiSchema } from './types.js';
+
+const fixturesDir = new URL('./fixtures/roundtrip/', import.meta.url);
+const fixtures = readdirSync(fixturesDir).filter((f) => f.endsWith('.yaml')).sort();
+
+function readFixture(file: string): { source: string; raw: Record<string, unknown>; schema: GuiSchema } {
+  const source = readFileSync(new URL(file, fixturesDir), 'utf-8');
+  const raw = parse(source) as Record<string, unknown>;
+  const schema = guiSchemaFromData(file.replace(/\.yaml$/, ''), raw, { relativePath: file });
+  // Schemas reach the client and come back as JSON
+  return { source, raw, schema: JSON.parse(JSON.stringify(schema)) as GuiSchema };
+}
+
+// ============================================================================
+// Round-trip Tests
+// ============================================================================
+
+describe('round-trip corpus', () => {
+  it('has fixtures', () => {
+    expect(fixtures.length).toBeGreaterThan(0);
+  });
+
+  it.each(fixtures)('%s is saved back byte-identical', (file) => {
+    const { source, raw, schema } = readFixture(file);
+    expect(updateYamlSource(source, guiSchemaToData(schema, raw))).toBe(source);
+  });
+
+  it('keeps unknown keys and comments when a modelled field changes', () => {
+    const { source, raw, schema } = readFixture('Account.yaml');
+    const updated = updateYamlSource(source, guiSchemaToData({ ...schema, group: 'payments' }, raw));
+
+    expect(parse(updated)).toEqual({ ...raw, group: 'payments' });
+    expect(updated).toContain('# Accounts of the billing context\n');
+    expect(updated).toContain('# Options understood by the audit plugin\n');
+    expect(updated).toContain('# plugin-specific property key\n');
+  });
+});
+
+// ============================================================================
+// Model Tests
+// ============================================================================
+
+describe('guiSchemaFromData', () => {
+  it('carries localized text and unknown keys', () => {
+    const { schema } = readFixture('Account.yaml');
+
+    expect(schema.displayName).toEqual({ en: 'Account', ja: 'アカウント', vi: 'Tài khoản' });
+    expect(schema.singular).toBe('account');
+    expect(schema.titleIndex).toBe('email');
+    expect(schema.group).toBe('billing');
+    expect(schema.extra).toEqual({ searchable: { fields: ['email'] } });
+    expect(schema.properties?.balance).toMatchObject({ 'x-audit': true });
+    expect(schema.options).toMatchObject({ audit: { enabled: true, exclude: ['balance'] } });
+  });
+
+  it('normalizes index and enum value shorthands', () => {
+    expect(readFixture('Account.yaml').schema.options?.indexes).toEqual([
+      { columns: ['email'] },
+      { columns: ['owner', 'balance'] },
+    ]);
+    expect(readFixture('InvoiceStatus.yaml').schema.values).toEqual([
+      { value: 'draft' },
+      { value: 'paid', label: { en: 'Paid', ja: '支払済み' }, color: 'green' },
+      { value: 'void', extra: { icon: 'ban' } },
+    ]);
+  });
+});
+
+describe('guiSchemaToData', () => {
+  it('drops GUI state and writes kind only for non-object schemas', () => {
+    const base: GuiSchema = {
+      name: 'Tag',
+      kind: 'object',
+      filePath: '/schemas/Tag.yaml',
+      relativePath: 'Tag.yaml',
+      isDirty: true,
+      validationErrors: [],
+      properties: { name: { type: 'String' } },
+    };
+
+    expect(guiSchemaToData(base)).toEqual({ properties: { name: { type: 'String' } } });
+    expect(guiSchemaToData({ ...base, kind: 'partial' })).toMatchObject({ kind: 'partial' });
+  });
+
+  it('writes unknown keys after the modelled ones', () => {
+    const data = guiSchemaToData({ name: 'A', kind: 'object', group: 'g', extra: { searchable: true } });
+    expect(Object.keys(data)).toEqual(['group', 'searchable']);
+  });
+});
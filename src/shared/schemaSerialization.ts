@@ -0,0 +1,167 @@
+/**
+ * Conversion between schema YAML data and the GUI model
+ *
+ * Every key survives a load-then-save: keys the GUI models get their own
+ * GuiSchema fields, anything else (plugin-specific keys, fields added by newer
+ * omnify versions) is carried in `extra` and written back unchanged.
+ */
+
+import { isSameData } from './yamlDocument.js';
+import type { GuiSchema, GuiEnumValue, GuiIndexDefinition } from './types.js';
+
+/**
+ * Top-level YAML keys modelled by GuiSchema
+ */
+const SCHEMA_KEYS = [
+  'kind',
+  'displayName',
+  'singular',
+  'plural',
+  'titleIndex',
+  'group',
+  'properties',
+  'associations',
+  'options',
+  'values',
+] as const;
+
+/**
+ * Keys set by the loader or the GUI that never go to YAML
+ */
+const DERIVED_KEYS = new Set([
+  'name',
+  'filePath',
+  'relativePath',
+  'contentHash',
+  'isDirty',
+  'validationErrors',
+  'extra',
+]);
+
+/**
+ * Convert indexes from various formats to GuiIndexDefinition[]
+ * Indexes can be:
+ * - string: "column_name" -> { columns: ["column_name"] }
+ * - string[]: ["col1", "col2"] -> { columns: ["col1", "col2"] }
+ * - object: { columns: [...], unique: true } -> as-is
+ */
+export function normalizeIndexes(indexes: unknown): GuiIndexDefinition[] | undefined {
+  if (!indexes || !Array.isArray(indexes)) return undefined;
+
+  return indexes.map((idx) => {
+    // Already an object with columns property
+    if (typeof idx === 'object' && idx !== null && 'columns' in idx) {
+      return idx as GuiIndexDefinition;
+    }
+    // Array of column names (composite index)
+    if (Array.isArray(idx)) {
+      return { columns: idx.map(String) };
+    }
+    // Single column name as string
+    return { columns: [String(idx)] };
+  });
+}
+
+/**
+ * Convert enum values from various formats to GuiEnumValue[]
+ */
+export function normalizeEnumValues(values: unknown): GuiEnumValue[] | undefined {
+  if (!values || !Array.isArray(values)) return undefined;
+
+  return values.map((v) => {
+    // Already an object with value property - keep every key, labels may be localized
+    if (typeof v === 'object' && v !== null && 'value' in v) {
+      const obj = v as Record<string, unknown>;
+      return { ...obj, value: String(obj.value) } as GuiEnumValue;
+    }
+    // Simple string value
+    return { value: String(v) };
+  });
+}
+
+/**
+ * Build the GUI model of a schema from its YAML data (or a loaded schema)
+ */
+export function guiSchemaFromData(
+  name: string,
+  data: Record<string, unknown>,
+  location: { filePath?: string | undefined; relativePath?: string | undefined; contentHash?: string | undefined } = {}
+): GuiSchema {
+  // Modelled keys are taken over as they are, only the shorthands below are normalized
+  const modelled: Partial<Record<(typeof SCHEMA_KEYS)[number], unknown>> = {};
+  for (const key of SCHEMA_KEYS) {
+    if (key !== 'kind' && data[key] !== undefined) modelled[key] = data[key];
+  }
+
+  const schema: GuiSchema = {
+    name,
+    kind: (data.kind as GuiSchema['kind'] | undefined) ?? 'object',
+    filePath: location.filePath,
+    relativePath: location.relativePath,
+    contentHash: location.contentHash,
+    isDirty: false,
+    validationErrors: [],
+    ...(modelled as Partial<GuiSchema>),
+  };
+
+  const indexes = normalizeIndexes(schema.options?.indexes);
+  if (schema.options && indexes) schema.options = { ...schema.options, indexes };
+  const values = normalizeEnumValues(data.values);
+  if (values) schema.values = values;
+
+  const extra = Object.fromEntries(
+    Object.entries(data).filter(
+      ([key, value]) =>
+        value !== undefined && !DERIVED_KEYS.has(key) && !(SCHEMA_KEYS as readonly string[]).includes(key)
+    )
+  );
+  if (Object.keys(extra).length > 0) schema.extra = extra;
+
+  return schema;
+}
+
+/**
+ * YAML data of a schema: GUI state and derived keys are dropped, `kind` is only
+ * written for non-object schemas and unknown keys from `extra` are restored.
+ *
+ * Pass the data currently in the file as `raw` to keep the forms loading only
+ * normalized (index and enum value shorthands, `name`, `kind: object`).
+ */
+export function guiSchemaToData(schema: GuiSchema, raw?: Record<string, unknown>): Record<string, unknown> {
+  const data: Record<string, unknown> = {};
+
+  for (const key of SCHEMA_KEYS) {
+    const value = schema[key];
+    if (value === undefined || (key === 'kind' && value === 'object')) continue;
+    data[key] = value;
+  }
+
+  for (const [key, value] of Object.entries(schema.extra ?? {})) {
+    if (!DERIVED_KEYS.has(key) && !(key in data)) data[key] = value;
+  }
+
+  return raw ? keepRawForms(raw, data, schema) : data;
+}
+
+function keepRawForms(
+  raw: Record<string, unknown>,
+  data: Record<string, unknown>,
+  schema: GuiSchema
+): Record<string, unknown> {
+  const result = { ...data };
+
+  if ('name' in raw) result.name = schema.name;
+  if (raw.kind === schema.kind) result.kind = raw.kind;
+
+  if (isSameData(normalizeEnumValues(raw.values), data.values)) {
+    result.values = raw.values;
+  }
+
+  const rawOptions = raw.options as Record<string, unknown> | undefined;
+  const options = data.options as Record<string, unknown> | undefined;
+  if (rawOptions && options && isSameData(normalizeIndexes(rawOptions.indexes), options.indexes)) {
+    result.options = { ...options, indexes: rawOptions.indexes };
+  }
+
+  return result;
+}
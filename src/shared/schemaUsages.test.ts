@@ -0,0 +1,66 @@
+/**
+ * Schema usage tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { findSchemaUsages } from './schemaUsages.js';
+import type { GuiSchema } from './types.js';
+
+const schemas: Record<string, GuiSchema> = {
+  User: {
+    name: 'User',
+    kind: 'object',
+    properties: {
+      roles: { type: 'Association', relation: 'ManyToMany', target: 'Role', joinTable: 'role_user' },
+      manager: { type: 'Association', relation: 'ManyToOne', target: 'User' },
+    },
+  },
+  Role: { name: 'Role', kind: 'object', properties: { name: { type: 'String' } } },
+  RoleUser: { name: 'RoleUser', kind: 'pivot', options: { tableName: 'role_user' } },
+  Post: {
+    name: 'Post',
+    kind: 'object',
+    titleIndex: 'User.name',
+    properties: {
+      author: { type: 'Association', relation: 'ManyToOne', target: 'User' },
+      status: { type: 'EnumRef', enum: 'PostStatus' },
+    },
+  },
+  Comment: {
+    name: 'Comment',
+    kind: 'object',
+    properties: {
+      commentable: { type: 'Association', relation: 'MorphTo', targets: ['Post', 'User'] },
+    },
+  },
+  PostStatus: { name: 'PostStatus', kind: 'enum', values: [{ value: 'draft' }] },
+};
+
+describe('findSchemaUsages', () => {
+  it('finds associations and qualified titleIndex values, ignoring self references', () => {
+    expect(findSchemaUsages(schemas, 'User')).toEqual([
+      { kind: 'association', schema: 'Comment', property: 'commentable', relation: 'MorphTo' },
+      { kind: 'titleIndex', schema: 'Post' },
+      { kind: 'association', schema: 'Post', property: 'author', relation: 'ManyToOne' },
+    ]);
+  });
+
+  it('reports the join table of many-to-many associations', () => {
+    expect(findSchemaUsages(schemas, 'Role')).toEqual([
+      { kind: 'association', schema: 'User', property: 'roles', relation: 'ManyToMany', joinTable: 'role_user' },
+    ]);
+  });
+
+  it('finds associations using a pivot schema as join table', () => {
+    expect(findSchemaUsages(schemas, 'RoleUser')).toEqual([
+      { kind: 'joinTable', schema: 'User', property: 'roles', relation: 'ManyToMany', joinTable: 'role_user' },
+    ]);
+  });
+
+  it('finds EnumRef properties of an enum', () => {
+    expect(findSchemaUsages(schemas, 'PostStatus')).toEqual([
+      { kind: 'enumRef', schema: 'Post', property: 'status' },
+    ]);
+    expect(findSchemaUsages(schemas, 'Comment')).toEqual([]);
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Find usages of a schema or enum in the other schemas
+ *
+ * Used by the "Used by" panel of the schema editor and to refuse deleting a
+ * schema that other schemas still depend on.
+ */
+
+import type { GuiSchema } from './types.js';
+import { getAssociationTargets } from './relationships.js';
+import { getTableName } from './naming.js';
+
+export type SchemaUsageKind = 'association' | 'enumRef' | 'joinTable' | 'titleIndex';
+
+export interface SchemaUsage {
+  kind: SchemaUsageKind;
+  /** Schema that depends on the used schema */
+  schema: string;
+  /** Property holding the reference (absent for titleIndex) */
+  property?: string;
+  /** Relation kind of association and joinTable usages */
+  relation?: string;
+  /** Join table of a many-to-many association involving the used schema */
+  joinTable?: string;
+}
+
+/**
+ * Find every usage of schema `name` in the other schemas:
+ * - associations whose `target`/`targets` point at it
+ * - EnumRef properties referencing it
+ * - associations using its table as their `joinTable` (pivot schemas)
+ * - qualified `titleIndex` values (`Name.property`)
+ */
+export function findSchemaUsages(schemas: Record<string, GuiSchema>, name: string): SchemaUsage[] {
+  const usages: SchemaUsage[] = [];
+  const used = schemas[name];
+  const tableName = used && used.kind !== 'enum' ? getTableName(used) : undefined;
+
+  for (const schemaName of Object.keys(schemas).sort()) {
+    if (schemaName === name) continue;
+    const schema = schemas[schemaName]!;
+
+    if (schema.titleIndex?.startsWith(`${name}.`)) {
+      usages.push({ kind: 'titleIndex', schema: schemaName });
+    }
+
+    for (const [propName, prop] of Object.entries(schema.properties ?? {})) {
+      if (getAssociationTargets(prop).includes(name)) {
+        usages.push({
+          kind: 'association',
+          schema: schemaName,
+          property: propName,
+          ...(prop.relation ? { relation: prop.relation } : {}),
+          ...(prop.joinTable ? { joinTable: prop.joinTable } : {}),
+        });
+      } else if (prop.type === 'Association' && tableName && prop.joinTable === tableName) {
+        usages.push({
+          kind: 'joinTable',
+          schema: schemaName,
+          property: propName,
+          ...(prop.relation ? { relation: prop.relation } : {}),
+          joinTable: prop.joinTable,
+        });
+      }
+      if (prop.type === 'EnumRef' && prop.enum === name) {
+        usages.push({ kind: 'enumRef', schema: schemaName, property: propName });
+      }
+    }
+  }
+
+  return usages;
+}
+
+/**
+ * Short location of a usage, e.g. `Post.author` or `Post.titleIndex`
+ */
+export function usageLocation(usage: SchemaUsage): string {
+  return `${usage.schema}.${usage.property ?? 'titleIndex'}`;
+}
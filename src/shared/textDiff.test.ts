@@ -0,0 +1,28 @@
+/**
+ * Text diff tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { diffLines, hasDiffChanges } from './textDiff.js';
+
+describe('diffLines', () => {
+  it('marks unchanged lines as equal', () => {
+    const lines = diffLines('a\nb\n', 'a\nb\n');
+    expect(lines.map((l) => l.type)).toEqual(['equal', 'equal']);
+    expect(hasDiffChanges(lines)).toBe(false);
+  });
+
+  it('shows a changed line as remove then add', () => {
+    expect(diffLines('a\nb\nc\n', 'a\nB\nc\n')).toEqual([
+      { type: 'equal', text: 'a', oldLine: 1, newLine: 1 },
+      { type: 'remove', text: 'b', oldLine: 2 },
+      { type: 'add', text: 'B', newLine: 2 },
+      { type: 'equal', text: 'c', oldLine: 3, newLine: 3 },
+    ]);
+  });
+
+  it('handles new and deleted files', () => {
+    expect(diffLines('', 'a\n')).toEqual([{ type: 'add', text: 'a', newLine: 1 }]);
+    expect(diffLines('a\n', '')).toEqual([{ type: 'remove', text: 'a', oldLine: 1 }]);
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Line-based text diff for file previews
+ *
+ * Longest-common-subsequence diff; schema files are small enough that the
+ * quadratic table is not a concern.
+ */
+
+export interface DiffLine {
+  type: 'equal' | 'add' | 'remove';
+  text: string;
+  /** 1-based line number in the old text (equal/remove) */
+  oldLine?: number;
+  /** 1-based line number in the new text (equal/add) */
+  newLine?: number;
+}
+
+function splitLines(text: string): string[] {
+  if (!text) return [];
+  const lines = text.split('\n');
+  // A trailing newline does not start another line
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+/**
+ * Diff two texts line by line
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = splitLines(before);
+  const b = splitLines(after);
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i]![j] = a[i] === b[j] ? lcs[i + 1]![j + 1]! + 1 : Math.max(lcs[i + 1]![j]!, lcs[i]![j + 1]!);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push({ type: 'equal', text: a[i]!, oldLine: i + 1, newLine: j + 1 });
+      i++;
+      j++;
+    } else if (i < a.length && (j >= b.length || lcs[i + 1]![j]! >= lcs[i]![j + 1]!)) {
+      // Removals first, like unified diffs
+      lines.push({ type: 'remove', text: a[i]!, oldLine: i + 1 });
+      i++;
+    } else {
+      lines.push({ type: 'add', text: b[j]!, newLine: j + 1 });
+      j++;
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Whether a diff has any added or removed line
+ */
+export function hasDiffChanges(lines: readonly DiffLine[]): boolean {
+  return lines.some((line) => line.type !== 'equal');
+}
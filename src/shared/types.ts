@@ -15,10 +15,13 @@ export interface ApiError {
   details?: unknown;
 }
 
+// Localized text: a plain string or a map of locale to text (e.g. { en: 'User', ja: 'ユーザー' })
+export type LocalizedString = string | Record<string, string>;
+
 // Enum value with optional label and extra properties for form components
 export interface GuiEnumValue {
   value: string;
-  label?: string | undefined;
+  label?: LocalizedString | undefined;
   // Extra properties for customization (e.g., bgColor, textColor, icon, etc.)
   extra?: Record<string, string | number | boolean> | undefined;
 }
@@ -27,7 +30,7 @@ export interface GuiEnumValue {
 export interface GuiSchema {
   name: string;
   kind: 'object' | 'enum' | 'partial' | 'pivot';
-  displayName?: string | undefined;
+  displayName?: LocalizedString | undefined;
   singular?: string | undefined;
   plural?: string | undefined;
   titleIndex?: string | undefined;
@@ -38,6 +41,10 @@ export interface GuiSchema {
   associations?: Record<string, unknown> | undefined;
   options?: GuiSchemaOptions | undefined;
   values?: GuiEnumValue[] | undefined;
+  // Keys the GUI does not model (plugin-specific keys etc.), written back unchanged
+  extra?: Record<string, unknown> | undefined;
+  // Hash of the file content the schema was loaded from, sent back as the save precondition
+  contentHash?: string | undefined;
   // GUI-specific fields
   isDirty?: boolean | undefined;
   validationErrors?: ValidationError[] | undefined;
@@ -48,8 +55,8 @@ export interface GuiPropertyDefinition {
   nullable?: boolean | undefined;
   unique?: boolean | undefined;
   default?: unknown;
-  displayName?: string | undefined;
-  description?: string | undefined;
+  displayName?: LocalizedString | undefined;
+  description?: LocalizedString | undefined;
   // Association fields
   relation?: string | undefined;
   target?: string | undefined;
@@ -109,15 +116,147 @@ export interface ValidationError {
   path: string;
   message: string;
   severity: 'error' | 'warning';
+  // Lint rule that produced the finding (absent for validation errors)
+  rule?: string | undefined;
+  // Machine-applicable fix, when the finding has an obvious one
+  fix?: SchemaFix | undefined;
+  // Other side of the association pair the finding is about
+  relatedPath?: string | undefined;
+}
+
+// One change of a fix, at a path of a schema's YAML data
+export type SchemaFixEdit =
+  | { op: 'set'; schema: string; path: (string | number)[]; value: unknown }
+  | { op: 'remove'; schema: string; path: (string | number)[] }
+  // Rename a key of the map at `path`, keeping its position (property renames)
+  | { op: 'renameKey'; schema: string; path: (string | number)[]; from: string; to: string };
+
+export interface SchemaFix {
+  // What applying the fix does, e.g. 'Add an index on author'
+  title: string;
+  edits: SchemaFixEdit[];
+}
+
+// Lint types
+export type LintSeverity = 'off' | 'warning' | 'error';
+
+// A severity, or a severity with rule options: ['warning', { style: 'snake_case' }]
+export type LintRuleSetting = LintSeverity | [LintSeverity, Record<string, unknown>];
+
+export interface LintConfig {
+  rules?: Record<string, LintRuleSetting> | undefined;
 }
 
 // Preview types
 export type PreviewType = 'laravel' | 'typescript' | 'sql';
 
+export type SqlDialect = 'mysql' | 'postgresql' | 'sqlite' | 'sqlserver';
+
 export interface PreviewResult {
   type: PreviewType;
   content: string;
   fileName: string;
+  // SQL previews: dialect the SQL was generated for
+  dialect?: SqlDialect | undefined;
+}
+
+// Dry-run generation types
+export interface GeneratedFile {
+  plugin: string;
+  generator: string;
+  /** Output path relative to the project root */
+  path: string;
+  content: string;
+  /** Left untouched by `omnify generate` when the file already exists */
+  skipIfExists?: boolean | undefined;
+}
+
+export interface GenerationError {
+  plugin: string;
+  generator?: string | undefined;
+  message: string;
+}
+
+export interface DryRunResult {
+  files: GeneratedFile[];
+  errors: GenerationError[];
+}
+
+// `kept`: a skipIfExists file already on disk, which generation never overwrites
+export type GeneratedFileStatus = 'new' | 'changed' | 'unchanged' | 'kept';
+
+export interface PlannedFile extends GeneratedFile {
+  status: GeneratedFileStatus;
+  /** Content in the working tree, for changed and kept files that differ from it */
+  previous?: string | undefined;
+  /** Hash of the generated content, sent back to write the reviewed output */
+  hash: string;
+}
+
+export interface GenerationPlan {
+  files: PlannedFile[];
+  errors: GenerationError[];
+}
+
+export interface GenerationWriteResult {
+  written: string[];
+}
+
+// Diagram layout types
+export interface DiagramLayoutNode {
+  /** Position, absent while the node is auto-placed */
+  x?: number;
+  y?: number;
+  collapsed?: boolean;
+  /** Color group id */
+  group?: string;
+  /** Property-name fingerprint used to follow schemas renamed outside the GUI */
+  signature?: string;
+}
+
+export interface DiagramLayoutGroup {
+  id: string;
+  label: string;
+  color: string;
+}
+
+export interface DiagramLayout {
+  nodes: Record<string, DiagramLayoutNode>;
+  groups: DiagramLayoutGroup[];
+}
+
+// Rename types
+export type RenameEntry =
+  | { kind: 'schema'; from: string; to: string }
+  | { kind: 'property'; schema: string; from: string; to: string };
+
+export interface RenameFileChange {
+  /** Schema stored in the file (its new name for the renamed schema) */
+  schema: string;
+  relativePath: string;
+  /** Set when the file itself is moved */
+  newRelativePath?: string;
+  before: string;
+  after: string;
+}
+
+export interface RenamePreview {
+  from: string;
+  to: string;
+  files: RenameFileChange[];
+}
+
+// Draft types
+// Unsaved schema editor state, autosaved so edits survive a closed tab or a server restart
+export interface SchemaDraft {
+  name: string;
+  // Schema as edited
+  schema: GuiSchema;
+  // Schema on disk the edits were made from
+  base?: GuiSchema | undefined;
+  // Property renames pending for the next save
+  propertyRenames: { from: string; to: string }[];
+  updatedAt: string;
 }
 
 // Config types
@@ -126,6 +265,11 @@ export interface GuiConfig {
   port: number;
   host: string;
   customTypes: string[];
+  // Locales of localized text (displayName, description, enum labels)
+  locales: string[];
+  defaultLocale: string;
+  // Lint rule settings from the `lint` section of the omnify config
+  lint: LintConfig;
   plugins: PluginInfo[];
 }
 
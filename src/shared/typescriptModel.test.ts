@@ -0,0 +1,91 @@
+/**
+ * TypeScript model generation tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { generateTypeScriptModel } from './typescriptModel.js';
+import type { GuiSchema } from './types.js';
+
+const user: GuiSchema = { name: 'User', kind: 'object', options: { idType: 'Uuid' } };
+const status: GuiSchema = { name: 'PostStatus', kind: 'enum', values: [{ value: 'draft' }, { value: "it's live" }] };
+const post: GuiSchema = {
+  name: 'Post',
+  kind: 'object',
+  properties: {
+    title: { type: 'String' },
+    summary: { type: 'Text', nullable: true },
+    views: { type: 'Int', default: 0 },
+    status: { type: 'EnumRef', enum: 'PostStatus' },
+    visibility: { type: 'Enum', enum: ['public', { value: 'private', label: 'Private' }] },
+    images: { type: 'File', multiple: true },
+    price: { type: 'Money' },
+    author: { type: 'Association', relation: 'ManyToOne', target: 'User', nullable: true },
+    comments: { type: 'Association', relation: 'OneToMany', target: 'Comment', mappedBy: 'post' },
+  },
+  options: { softDelete: true },
+};
+const schemas = { User: user, PostStatus: status, Post: post };
+
+describe('generateTypeScriptModel', () => {
+  it('generates the model with implicit columns, relations and DTOs', () => {
+    expect(generateTypeScriptModel(post, schemas, { customTypes: { Money: '{ amount: number; currency: string }' } }))
+      .toBe(`import type { PostStatus } from './PostStatus';
+import type { User } from './User';
+
+export interface Post {
+  id: number;
+  title: string;
+  summary: string | null;
+  views: number;
+  status: PostStatus;
+  visibility: 'public' | 'private';
+  images: string[];
+  price: { amount: number; currency: string };
+  author_id: string | null;
+  author?: User | null;
+  comments?: unknown[];
+  created_at: string | null;
+  updated_at: string | null;
+  deleted_at: string | null;
+}
+
+export interface PostCreate {
+  title: string;
+  summary?: string | null;
+  views?: number;
+  status: PostStatus;
+  visibility: 'public' | 'private';
+  images: string[];
+  price: { amount: number; currency: string };
+  author_id?: string | null;
+}
+
+export type PostUpdate = Partial<PostCreate>;
+`);
+  });
+
+  it('generates enum unions with escaped literals', () => {
+    expect(generateTypeScriptModel(status, schemas)).toBe(`export type PostStatus = 'draft' | 'it\\'s live';\n`);
+  });
+
+  it('types MorphTo columns from their targets and skips implicit columns when disabled', () => {
+    const comment: GuiSchema = {
+      name: 'Comment',
+      kind: 'object',
+      properties: {
+        commentable: { type: 'Association', relation: 'MorphTo', targets: ['Post', 'User'] },
+        replies: { type: 'Association', relation: 'OneToMany', target: 'Comment' },
+      },
+      options: { id: false, timestamps: false },
+    };
+    const source = generateTypeScriptModel(comment, { ...schemas, Comment: comment });
+
+    expect(source).toContain(`export interface Comment {
+  commentable_type: 'Post' | 'User';
+  commentable_id: number | string;
+  commentable?: Post | User;
+  replies?: Comment[];
+}`);
+    expect(source).not.toContain("from './Comment'");
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * TypeScript model generation for the code preview (browser-safe)
+ *
+ * Produces the types the frontend consumes for a schema: the model interface
+ * (implicit id/timestamps/softDelete columns, foreign keys, relations typed to
+ * their target interfaces, enum unions) and the create/update DTOs.
+ */
+
+import { toSnakeCase } from './naming.js';
+import type { GuiPropertyDefinition, GuiSchema } from './types.js';
+
+export interface TypeScriptModelOptions {
+  // TypeScript types of property types contributed by plugins, by type name
+  customTypes?: Record<string, string> | undefined;
+}
+
+interface Field {
+  name: string;
+  type: string;
+  // May be absent from the payload (relations are only present when loaded)
+  optional: boolean;
+  nullable: boolean;
+  // Part of the create/update DTOs, and optional there
+  writable: boolean;
+  optionalOnCreate: boolean;
+}
+
+const SCALAR_TYPES: Record<string, string> = {
+  Id: 'number',
+  Uuid: 'string',
+  String: 'string',
+  Int: 'number',
+  BigInt: 'number',
+  Float: 'number',
+  Decimal: 'number',
+  Boolean: 'boolean',
+  Text: 'string',
+  LongText: 'string',
+  Date: 'string',
+  Time: 'string',
+  Timestamp: 'string',
+  Json: 'Record<string, unknown>',
+  Email: 'string',
+  Password: 'string',
+  File: 'string',
+  Point: '{ lat: number; lng: number }',
+  Coordinates: '{ latitude: number; longitude: number }',
+};
+
+const TO_MANY_RELATIONS = new Set(['OneToMany', 'ManyToMany', 'MorphMany', 'MorphToMany', 'MorphedByMany']);
+
+function literal(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+function fieldName(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : literal(name);
+}
+
+function idType(schema: GuiSchema | undefined): string {
+  const type = schema?.options?.idType;
+  return type === 'Uuid' || type === 'String' ? 'string' : 'number';
+}
+
+function enumUnion(values: string[]): string {
+  return values.map(literal).join(' | ') || 'never';
+}
+
+/**
+ * Fields of a schema's model in column order, and the schemas they reference
+ */
+function collectFields(
+  schema: GuiSchema,
+  schemas: Record<string, GuiSchema>,
+  customTypes: Record<string, string>
+): { fields: Field[]; imports: Set<string> } {
+  const fields: Field[] = [];
+  const imports = new Set<string>();
+
+  // Type of a referenced schema, imported unless it is this one
+  const ref = (name: string): string => {
+    if (!schemas[name]) return 'unknown';
+    if (name !== schema.name) imports.add(name);
+    return name;
+  };
+
+  const column = (name: string, type: string, prop: Pick<GuiPropertyDefinition, 'nullable' | 'default'>): void => {
+    const nullable = prop.nullable === true;
+    fields.push({
+      name,
+      type,
+      optional: false,
+      nullable,
+      writable: true,
+      optionalOnCreate: nullable || prop.default !== undefined,
+    });
+  };
+
+  const relation = (name: string, type: string, nullable: boolean): void => {
+    fields.push({ name, type, optional: true, nullable, writable: false, optionalOnCreate: true });
+  };
+
+  const generated = (name: string, type: string, nullable: boolean): void => {
+    fields.push({ name, type, optional: false, nullable, writable: false, optionalOnCreate: true });
+  };
+
+  const scalarType = (prop: GuiPropertyDefinition): string => {
+    if (prop.type === 'Enum' || prop.type === 'EnumRef') {
+      if (typeof prop.enum === 'string') return ref(prop.enum);
+      if (Array.isArray(prop.enum)) return enumUnion(prop.enum.map((v) => (typeof v === 'string' ? v : v.value)));
+      return 'string';
+    }
+    const type = SCALAR_TYPES[prop.type] ?? customTypes[prop.type] ?? 'unknown';
+    return prop.type === 'File' && prop.multiple ? `${type}[]` : type;
+  };
+
+  const association = (name: string, prop: GuiPropertyDefinition): void => {
+    const target = prop.target ?? '';
+
+    if (prop.relation === 'MorphTo') {
+      const targets = prop.targets ?? [];
+      column(`${toSnakeCase(name)}_type`, enumUnion(targets), prop);
+      const ids = [...new Set(targets.map((t) => idType(schemas[t])))];
+      column(`${toSnakeCase(name)}_id`, ids.join(' | ') || 'number', prop);
+      relation(name, targets.map(ref).join(' | ') || 'unknown', prop.nullable === true);
+      return;
+    }
+    if (prop.relation && TO_MANY_RELATIONS.has(prop.relation)) {
+      relation(name, `${ref(target)}[]`, false);
+      return;
+    }
+    // ManyToOne and the owning side of OneToOne hold the foreign key
+    if (prop.relation === 'ManyToOne' || (prop.relation === 'OneToOne' && !prop.mappedBy)) {
+      column(`${toSnakeCase(name)}_id`, idType(schemas[target]), prop);
+    }
+    relation(name, ref(target), prop.relation === 'ManyToOne' ? prop.nullable === true : true);
+  };
+
+  const options = schema.options ?? {};
+  const implicitColumns = schema.kind === 'object' || schema.kind === 'pivot';
+
+  if (implicitColumns && options.id !== false) generated('id', idType(schema), false);
+  for (const [name, prop] of Object.entries(schema.properties ?? {})) {
+    if (prop.type === 'Association') association(name, prop);
+    else column(name, scalarType(prop), prop);
+  }
+  if (implicitColumns && options.timestamps !== false) {
+    generated('created_at', 'string', true);
+    generated('updated_at', 'string', true);
+  }
+  if (implicitColumns && options.softDelete) generated('deleted_at', 'string', true);
+
+  return { fields, imports };
+}
+
+function renderFields(fields: Field[], optional: (field: Field) => boolean): string[] {
+  return fields.map(
+    (field) => `  ${fieldName(field.name)}${optional(field) ? '?' : ''}: ${field.type}${field.nullable ? ' | null' : ''};`
+  );
+}
+
+/**
+ * TypeScript source of a schema's model types. Referenced schemas are
+ * imported from sibling files named after them.
+ */
+export function generateTypeScriptModel(
+  schema: GuiSchema,
+  schemas: Record<string, GuiSchema>,
+  options: TypeScriptModelOptions = {}
+): string {
+  if (schema.kind === 'enum') {
+    return `export type ${schema.name} = ${enumUnion((schema.values ?? []).map((v) => v.value))};\n`;
+  }
+
+  const { fields, imports } = collectFields(schema, schemas, options.customTypes ?? {});
+  const writable = fields.filter((field) => field.writable);
+
+  const sections: string[] = [];
+  if (imports.size > 0) {
+    sections.push(
+      [...imports]
+        .sort()
+        .map((name) => `import type { ${name} } from './${name}';`)
+        .join('\n')
+    );
+  }
+  sections.push([`export interface ${schema.name} {`, ...renderFields(fields, (f) => f.optional), '}'].join('\n'));
+
+  if (schema.kind !== 'partial') {
+    sections.push(
+      [`export interface ${schema.name}Create {`, ...renderFields(writable, (f) => f.optionalOnCreate), '}'].join('\n'),
+      `export type ${schema.name}Update = Partial<${schema.name}Create>;`
+    );
+  }
+
+  return sections.join('\n\n') + '\n';
+}
@@ -8,6 +8,7 @@ import {
   validateDefaultValueUI,
   isValidIdentifier,
   isValidSchemaName,
+  isValidFolderPath,
   hasDuplicate,
   validateEnumValueUI,
   validatePropertyNameUI,
@@ -359,6 +360,24 @@ describe('isValidSchemaName', () => {
   });
 });
 
+describe('isValidFolderPath', () => {
+  it('accepts the root and nested folders', () => {
+    expect(isValidFolderPath('')).toBe(true);
+    expect(isValidFolderPath('billing')).toBe(true);
+    expect(isValidFolderPath('contexts/billing-v2')).toBe(true);
+    expect(isValidFolderPath('auth/users.core')).toBe(true);
+  });
+
+  it('rejects paths that escape or hide the folder', () => {
+    expect(isValidFolderPath('..')).toBe(false);
+    expect(isValidFolderPath('auth/../..')).toBe(false);
+    expect(isValidFolderPath('/etc')).toBe(false);
+    expect(isValidFolderPath('auth/')).toBe(false);
+    expect(isValidFolderPath('.omnify')).toBe(false);
+    expect(isValidFolderPath('auth\\users')).toBe(false);
+  });
+});
+
 describe('hasDuplicate', () => {
   it('detects duplicates', () => {
     expect(hasDuplicate(['a', 'b', 'c'], 'a')).toBe(true);
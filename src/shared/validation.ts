@@ -144,6 +144,17 @@ export function isValidSchemaName(value: string): boolean {
   return /^[A-Z][a-zA-Z0-9]*$/.test(value.trim());
 }
 
+/**
+ * Check if a value is a valid schema folder, relative to the schemas directory
+ * Valid: "/"-separated segments of letters, digits, "_", "-" and "." that don't
+ * start with a dot (so "..", hidden folders and absolute paths are rejected).
+ * An empty string is the schemas directory itself.
+ */
+export function isValidFolderPath(value: string): boolean {
+  if (value === '') return true;
+  return value.split('/').every((segment) => /^[a-zA-Z0-9_-][a-zA-Z0-9_.-]*$/.test(segment));
+}
+
 /**
  * Check for duplicate in array
  */
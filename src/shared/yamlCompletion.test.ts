@@ -0,0 +1,70 @@
+/**
+ * YAML completion tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { completeYaml, describeYamlKey, yamlKeysAt } from './yamlCompletion.js';
+
+const hints = { schemaNames: ['Post', 'User'], customTypes: ['Money'] };
+
+/**
+ * Complete at the `|` marker of a document
+ */
+function complete(doc: string) {
+  const pos = doc.indexOf('|');
+  const result = completeYaml(doc.replace('|', ''), pos, hints);
+  return result && { from: result.from, labels: result.options.map((o) => o.label) };
+}
+
+describe('completeYaml', () => {
+  it('offers keys of the enclosing map', () => {
+    expect(complete('kind: object\nopt|')?.labels).toContain('options');
+    expect(complete('options:\n  soft|')).toEqual({ from: 11, labels: expect.arrayContaining(['softDelete', 'idType']) });
+    expect(complete('properties:\n  title:\n    type: String\n    |')?.labels).toContain('length');
+  });
+
+  it('resolves keys inside sequence items', () => {
+    const indexes = 'options:\n  indexes:\n    - columns: [a]\n      |';
+    expect(complete(indexes)?.labels).toEqual(yamlKeysAt(['options', 'indexes', '-'])!.map((s) => s.key));
+    expect(complete('values:\n- value: a\n  |')?.labels).toEqual(['value', 'label', 'extra']);
+    expect(complete('options:\n  indexes:\n    - |')?.labels).toContain('columns');
+  });
+
+  it('offers nothing where keys are free-form', () => {
+    expect(complete('properties:\n  |')).toBeNull();
+    expect(complete('displayName:\n  |')).toBeNull();
+  });
+
+  it('offers values of the key under the cursor', () => {
+    const author = 'properties:\n  author:\n    type: Association\n';
+    expect(complete(`${author}    relation: Many|`)?.labels).toContain('MorphToMany');
+    expect(complete(`${author}    target: |`)?.labels).toEqual(['Post', 'User']);
+    expect(complete(`${author}    targets: [Post, U|`)).toEqual({ from: author.length + 20, labels: ['Post', 'User'] });
+    expect(complete(`${author}    onDelete: SET N|`)).toMatchObject({ from: author.length + 14 });
+    expect(complete('properties:\n  price:\n    type: |')?.labels).toEqual(
+      expect.arrayContaining(['Id', 'String', 'Association', 'Money'])
+    );
+    expect(complete('properties:\n  tags:\n    pivotFields:\n      note:\n        type: |')?.labels).not.toContain('Email');
+  });
+});
+
+describe('describeYamlKey', () => {
+  it('documents the key under the cursor with its range', () => {
+    const doc = 'options:\n  indexes:\n    - columns: [a]\n      unique: true\n';
+    const pos = doc.indexOf('unique') + 2;
+    expect(describeYamlKey(doc, pos)).toEqual({
+      from: doc.indexOf('unique'),
+      to: doc.indexOf('unique') + 6,
+      key: 'unique',
+      doc: 'Reject duplicate values.',
+    });
+    expect(describeYamlKey(doc, doc.indexOf('columns'))?.key).toBe('columns');
+    expect(describeYamlKey(doc, doc.indexOf('[a]'))).toBeNull();
+  });
+
+  it('ignores keys with no documentation', () => {
+    const doc = 'properties:\n  title:\n    type: String\n';
+    expect(describeYamlKey(doc, doc.indexOf('title'))).toBeNull();
+    expect(describeYamlKey(doc, doc.indexOf('type'))?.key).toBe('type');
+  });
+});
@@ -0,0 +1,290 @@
+/**
+ * Schema-aware completion and key documentation for schema YAML (browser-safe)
+ *
+ * The cursor context is resolved from indentation rather than a YAML parse, so
+ * it works on the half-typed documents an editor sees while the user types.
+ */
+
+import {
+  ALL_PROPERTY_TYPES,
+  PIVOT_FIELD_TYPES,
+  POLYMORPHIC_RELATION_TYPES,
+  REFERENTIAL_ACTIONS,
+  RELATION_TYPES,
+} from './constants.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface YamlKeySpec {
+  key: string;
+  doc: string;
+  // Values offered for the key: a fixed list, or one supplied by the editor
+  values?: readonly string[] | 'propertyTypes' | 'schemaNames';
+}
+
+export interface YamlHintContext {
+  schemaNames: string[];
+  // Property types contributed by plugins
+  customTypes: string[];
+}
+
+export interface YamlCompletionOption {
+  label: string;
+  kind: 'key' | 'value';
+  info?: string | undefined;
+}
+
+export interface YamlCompletion {
+  // Start of the text the options replace
+  from: number;
+  options: YamlCompletionOption[];
+}
+
+export interface YamlKeyHover {
+  from: number;
+  to: number;
+  key: string;
+  doc: string;
+}
+
+// ============================================================================
+// Key catalog
+// ============================================================================
+
+const BOOLEAN = ['true', 'false'] as const;
+
+const SCHEMA_KEYS: YamlKeySpec[] = [
+  { key: 'kind', doc: 'Schema kind: object (a table), enum, partial (properties merged into other schemas) or pivot.', values: ['object', 'enum', 'partial', 'pivot'] },
+  { key: 'displayName', doc: 'Human-readable name, a string or a map of locale to string.' },
+  { key: 'singular', doc: 'Singular name used by generators. Defaults to the schema name.' },
+  { key: 'plural', doc: 'Plural name used by generators and for the default table name.' },
+  { key: 'titleIndex', doc: 'Property used as the title of a record.' },
+  { key: 'group', doc: 'Group the schema is listed under.' },
+  { key: 'properties', doc: 'Columns and associations of the schema, keyed by property name.' },
+  { key: 'options', doc: 'Table options: primary key, timestamps, soft deletes, indexes.' },
+  { key: 'values', doc: 'Values of an enum schema: strings, or maps with value, label and extra.' },
+];
+
+const OPTION_KEYS: YamlKeySpec[] = [
+  { key: 'id', doc: 'Generate an auto primary key column `id`. Set false to declare the primary key yourself.', values: BOOLEAN },
+  { key: 'idType', doc: 'Type of the generated primary key.', values: ['BigInt', 'Int', 'Uuid', 'String'] },
+  { key: 'timestamps', doc: 'Generate created_at and updated_at columns. Defaults to true.', values: BOOLEAN },
+  { key: 'softDelete', doc: 'Generate a deleted_at column and soft-delete records. Defaults to false.', values: BOOLEAN },
+  { key: 'tableName', doc: 'Table name. Defaults to the snake_case plural of the schema name.' },
+  { key: 'indexes', doc: 'Indexes, each with columns and optionally unique, name and type.' },
+  { key: 'unique', doc: 'Unique constraints: a list of columns, or a list of column lists.' },
+  { key: 'translations', doc: 'Store localized properties in a translations table.', values: BOOLEAN },
+  { key: 'authenticatable', doc: 'Records can log in (generates an authenticatable model).', values: BOOLEAN },
+  { key: 'authenticatableLoginIdField', doc: 'Property holding the login id. Defaults to email.' },
+  { key: 'authenticatablePasswordField', doc: 'Property holding the password hash. Defaults to password.' },
+  { key: 'authenticatableGuardName', doc: 'Authentication guard. Defaults to web.' },
+];
+
+const INDEX_KEYS: YamlKeySpec[] = [
+  { key: 'columns', doc: 'Properties the index covers, in order.' },
+  { key: 'unique', doc: 'Reject duplicate values.', values: BOOLEAN },
+  { key: 'name', doc: 'Index name. Generated from the table and columns when omitted.' },
+  { key: 'type', doc: 'Index method. Availability depends on the database.', values: ['btree', 'hash', 'fulltext', 'spatial', 'gin', 'gist'] },
+];
+
+const PROPERTY_KEYS: YamlKeySpec[] = [
+  { key: 'type', doc: 'Property type: a column type, Association, or a type contributed by a plugin.', values: 'propertyTypes' },
+  { key: 'displayName', doc: 'Human-readable name, a string or a map of locale to string.' },
+  { key: 'description', doc: 'Description, a string or a map of locale to string.' },
+  { key: 'nullable', doc: 'Column accepts NULL.', values: BOOLEAN },
+  { key: 'unique', doc: 'Column values are unique.', values: BOOLEAN },
+  { key: 'default', doc: 'Default value of the column.' },
+  { key: 'length', doc: 'Maximum length of a String column.' },
+  { key: 'precision', doc: 'Total number of digits of a Decimal column.' },
+  { key: 'scale', doc: 'Digits after the decimal point of a Decimal column.' },
+  { key: 'unsigned', doc: 'Numeric column rejects negative values.', values: BOOLEAN },
+  { key: 'primaryKey', doc: 'Column is (part of) the primary key. Used with options.id: false.', values: BOOLEAN },
+  { key: 'autoIncrement', doc: 'Integer primary key column is auto-incremented.', values: BOOLEAN },
+  { key: 'enum', doc: 'Enum: the inline values. EnumRef: the name of the enum schema.' },
+  { key: 'relation', doc: 'Association kind.', values: [...RELATION_TYPES, ...POLYMORPHIC_RELATION_TYPES] },
+  { key: 'target', doc: 'Schema the association points to.', values: 'schemaNames' },
+  { key: 'targets', doc: 'Schemas a MorphTo association can point to.', values: 'schemaNames' },
+  { key: 'morphName', doc: 'Name of the MorphTo association on the target (MorphOne, MorphMany, MorphedByMany).' },
+  { key: 'inversedBy', doc: 'Property of the target holding the inverse side, on the owning side.' },
+  { key: 'mappedBy', doc: 'Property of the target owning the association, on the inverse side.' },
+  { key: 'onDelete', doc: 'Referential action when the referenced row is deleted.', values: REFERENTIAL_ACTIONS },
+  { key: 'onUpdate', doc: 'Referential action when the referenced key is updated.', values: REFERENTIAL_ACTIONS },
+  { key: 'owning', doc: 'This side of a OneToOne holds the foreign key.', values: BOOLEAN },
+  { key: 'joinTable', doc: 'Join table of a ManyToMany or MorphToMany association.' },
+  { key: 'pivotFields', doc: 'Extra columns of the join table, keyed by column name.' },
+  { key: 'multiple', doc: 'File property holds several files.', values: BOOLEAN },
+  { key: 'maxFiles', doc: 'Maximum number of files of a multiple File property.' },
+  { key: 'accept', doc: 'Accepted file extensions or MIME types.' },
+  { key: 'maxSize', doc: 'Maximum file size in kilobytes.' },
+];
+
+const PIVOT_FIELD_KEYS: YamlKeySpec[] = [
+  { key: 'type', doc: 'Column type of the pivot field.', values: PIVOT_FIELD_TYPES },
+  { key: 'nullable', doc: 'Column accepts NULL.', values: BOOLEAN },
+  { key: 'default', doc: 'Default value of the column.' },
+];
+
+const ENUM_VALUE_KEYS: YamlKeySpec[] = [
+  { key: 'value', doc: 'Stored value.' },
+  { key: 'label', doc: 'Human-readable label, a string or a map of locale to string.' },
+  { key: 'extra', doc: 'Additional attributes of the value (strings, numbers or booleans).' },
+];
+
+/**
+ * Keys valid in the map at `path` ('-' for sequence items), or undefined
+ * where keys are free-form (property names, locales)
+ */
+export function yamlKeysAt(path: string[]): YamlKeySpec[] | undefined {
+  const [first, second, third, fourth] = path;
+  switch (path.length) {
+    case 0:
+      return SCHEMA_KEYS;
+    case 1:
+      return first === 'options' ? OPTION_KEYS : undefined;
+    case 2:
+      if (first === 'properties') return PROPERTY_KEYS;
+      return first === 'values' && second === '-' ? ENUM_VALUE_KEYS : undefined;
+    case 3:
+      return first === 'options' && second === 'indexes' && third === '-' ? INDEX_KEYS : undefined;
+    case 4:
+      if (first !== 'properties') return undefined;
+      if (third === 'pivotFields') return PIVOT_FIELD_KEYS;
+      return third === 'enum' && fourth === '-' ? ENUM_VALUE_KEYS : undefined;
+    default:
+      return undefined;
+  }
+}
+
+// ============================================================================
+// Cursor context
+// ============================================================================
+
+interface YamlLine {
+  indent: number;
+  // Column of the first key (after `- ` on sequence item lines)
+  keyColumn: number;
+  dash: boolean;
+  key?: string | undefined;
+}
+
+const LINE_PATTERN = /^( *)(- +)?(?:([A-Za-z_][\w.-]*|"[^"]*"|'[^']*') *:(?= |$))?/;
+
+function parseLine(text: string): YamlLine | null {
+  if (text.trim() === '' || text.trimStart().startsWith('#')) return null;
+  const match = LINE_PATTERN.exec(text)!;
+  const indent = match[1]!.length;
+  const key = match[3]?.replace(/^["']|["']$/g, '');
+  return { indent, keyColumn: indent + (match[2]?.length ?? 0), dash: match[2] !== undefined, key };
+}
+
+/**
+ * Keys of the maps enclosing an entry at `column` of line `lineIndex`
+ * ('-' for sequence items), found by walking up to less indented lines
+ */
+function enclosingPath(lines: string[], lineIndex: number, column: number, dash: boolean): string[] {
+  const path: string[] = [];
+  let col = column;
+  // The last step entered a sequence item: its key may sit at the same column
+  let inItem = false;
+  if (dash) {
+    path.unshift('-');
+    inItem = true;
+  }
+
+  for (let i = lineIndex - 1; i >= 0 && (col > 0 || inItem); i--) {
+    const line = parseLine(lines[i]!);
+    if (!line) continue;
+
+    if (line.dash) {
+      if (inItem) {
+        if (line.indent < col) {
+          // Sequence item nested directly in a sequence item
+          path.unshift('-');
+          col = line.indent;
+        }
+        continue;
+      }
+      if (line.keyColumn === col || (line.keyColumn < col && line.key)) {
+        // Sibling key in the same item, or our parent key inside the item
+        if (line.keyColumn < col) path.unshift(line.key!);
+        path.unshift('-');
+        col = line.indent;
+        inItem = true;
+      }
+      continue;
+    }
+
+    if (line.key && (line.indent < col || (inItem && line.indent === col))) {
+      path.unshift(line.key);
+      col = line.indent;
+      inItem = false;
+    }
+  }
+
+  return path;
+}
+
+function valuesOf(spec: YamlKeySpec, hints: YamlHintContext): readonly string[] {
+  if (spec.values === 'propertyTypes') return [...ALL_PROPERTY_TYPES, 'Association', ...hints.customTypes];
+  if (spec.values === 'schemaNames') return hints.schemaNames;
+  return spec.values ?? [];
+}
+
+/**
+ * Completion at `pos`: keys valid at the cursor, or values of the key the cursor is on
+ */
+export function completeYaml(source: string, pos: number, hints: YamlHintContext): YamlCompletion | null {
+  const lines = source.slice(0, pos).split('\n');
+  const lineIndex = lines.length - 1;
+  const before = lines[lineIndex]!;
+
+  // Key position: `  ke|` or `  - ke|`
+  const keyMatch = /^( *)(- +)?([A-Za-z_][\w]*)?$/.exec(before);
+  if (keyMatch) {
+    const word = keyMatch[3] ?? '';
+    const column = keyMatch[1]!.length + (keyMatch[2]?.length ?? 0);
+    const path = enclosingPath(lines, lineIndex, keyMatch[2] ? keyMatch[1]!.length : column, keyMatch[2] !== undefined);
+    const keys = yamlKeysAt(path);
+    if (!keys) return null;
+    return {
+      from: pos - word.length,
+      options: keys.map((spec) => ({ label: spec.key, kind: 'key', info: spec.doc })),
+    };
+  }
+
+  // Value position: `  key: val|` or `  targets: [A, B|`
+  const valueMatch = /^( *)(- +)?([A-Za-z_][\w]*) *: *(.*)$/.exec(before);
+  if (!valueMatch) return null;
+  const path = enclosingPath(lines, lineIndex, valueMatch[1]!.length, valueMatch[2] !== undefined);
+  const spec = yamlKeysAt(path)?.find((s) => s.key === valueMatch[3]);
+  if (!spec) return null;
+  const values = valuesOf(spec, hints);
+  if (values.length === 0) return null;
+  const word = /[^[,]*$/.exec(valueMatch[4]!)![0].trimStart();
+  return {
+    from: pos - word.length,
+    options: values.map((value) => ({ label: value, kind: 'value' })),
+  };
+}
+
+/**
+ * Documentation of the key under `pos`, with its source range
+ */
+export function describeYamlKey(source: string, pos: number): YamlKeyHover | null {
+  const lineStart = source.lastIndexOf('\n', pos - 1) + 1;
+  const lineEnd = source.indexOf('\n', pos);
+  const text = source.slice(lineStart, lineEnd === -1 ? undefined : lineEnd);
+  const line = parseLine(text);
+  if (!line?.key) return null;
+
+  const from = lineStart + line.keyColumn;
+  const to = from + line.key.length;
+  if (pos < from || pos > to) return null;
+
+  const lines = source.slice(0, lineStart).split('\n');
+  const path = enclosingPath(lines, lines.length - 1, line.dash ? line.indent : line.keyColumn, line.dash);
+  const spec = yamlKeysAt(path)?.find((s) => s.key === line.key);
+  return spec ? { from, to, key: spec.key, doc: spec.doc } : null;
+}
@@ -0,0 +1,55 @@
+/**
+ * YAML diagnostics tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { findingDiagnostics, yamlSyntaxDiagnostics } from './yamlDiagnostics.js';
+
+const source = 'kind: object\nproperties:\n  title:\n    type: String\n  author:\n    type: Association\n';
+
+describe('yamlSyntaxDiagnostics', () => {
+  it('reports nothing for valid YAML', () => {
+    expect(yamlSyntaxDiagnostics(source)).toEqual([]);
+  });
+
+  it('locates syntax errors by line and column', () => {
+    const [error] = yamlSyntaxDiagnostics('kind: object\nproperties: {}\nkind: enum\n');
+    expect(error).toMatchObject({ from: 28, line: 3, column: 1, severity: 'error' });
+    expect(error!.message).not.toContain('\n');
+  });
+});
+
+describe('findingDiagnostics', () => {
+  it('places property findings on the property key', () => {
+    const [diagnostic] = findingDiagnostics(source, 'Post', [
+      { path: 'Post.author', message: 'Target not found', severity: 'error' },
+    ]);
+    expect(diagnostic).toEqual({
+      from: source.indexOf('author'),
+      to: source.indexOf('author') + 6,
+      line: 5,
+      column: 3,
+      severity: 'error',
+      message: 'Target not found',
+    });
+  });
+
+  it('places schema findings and unknown properties on the first line', () => {
+    const diagnostics = findingDiagnostics(source, 'Post', [
+      { path: 'Post', message: 'Schema problem', severity: 'error' },
+      { path: 'Post.missing', message: 'Gone', severity: 'warning' },
+    ]);
+    expect(diagnostics.map((d) => [d.from, d.to, d.line])).toEqual([
+      [0, 12, 1],
+      [0, 12, 1],
+    ]);
+  });
+
+  it('keeps only findings of the schema', () => {
+    const findings = [
+      { path: 'User.posts', message: 'Other schema', severity: 'warning' as const },
+      { path: 'PostTag', message: 'Other schema', severity: 'warning' as const },
+    ];
+    expect(findingDiagnostics(source, 'Post', findings)).toEqual([]);
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Map YAML syntax errors and validation findings to source ranges (browser-safe)
+ */
+
+import { LineCounter, isMap, isScalar, parseDocument } from 'yaml';
+import type { ValidationError } from './types.js';
+
+export interface YamlDiagnostic {
+  from: number;
+  to: number;
+  // 1-based position of `from`
+  line: number;
+  column: number;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+function diagnostic(
+  lineCounter: LineCounter,
+  from: number,
+  to: number,
+  severity: YamlDiagnostic['severity'],
+  message: string
+): YamlDiagnostic {
+  const { line, col } = lineCounter.linePos(from);
+  return { from, to: Math.max(from, to), line, column: col, severity, message };
+}
+
+/**
+ * Syntax errors and warnings of a YAML document
+ */
+export function yamlSyntaxDiagnostics(source: string): YamlDiagnostic[] {
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(source, { lineCounter, prettyErrors: false });
+  return [
+    ...doc.errors.map((e) => diagnostic(lineCounter, e.pos[0], e.pos[1], 'error', e.message)),
+    ...doc.warnings.map((w) => diagnostic(lineCounter, w.pos[0], w.pos[1], 'warning', w.message)),
+  ];
+}
+
+/**
+ * Findings of `schemaName` placed on the YAML of that schema: property findings
+ * (`Schema.property`) on the property key, the others on the first line
+ */
+export function findingDiagnostics(source: string, schemaName: string, findings: ValidationError[]): YamlDiagnostic[] {
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(source, { lineCounter });
+  const properties = doc.errors.length === 0 ? doc.get('properties', true) : undefined;
+
+  const firstLineEnd = source.indexOf('\n');
+  const firstLine: [number, number] = [0, firstLineEnd === -1 ? source.length : firstLineEnd];
+
+  const rangeOf = (property: string | undefined): [number, number] => {
+    if (!property || !isMap(properties)) return firstLine;
+    const pair = properties.items.find((item) => isScalar(item.key) && String(item.key.value) === property);
+    const range = isScalar(pair?.key) ? pair.key.range : undefined;
+    return range ? [range[0], range[1]] : firstLine;
+  };
+
+  return findings
+    .filter((f) => f.path === schemaName || f.path.startsWith(`${schemaName}.`))
+    .map((f) => {
+      const [from, to] = rangeOf(f.path.slice(schemaName.length + 1) || undefined);
+      return diagnostic(lineCounter, from, to, f.severity, f.message);
+    });
+}
@@ -0,0 +1,108 @@
+/**
+ * Lossless YAML update tests
+ * Tests that edits keep comments, key order and formatting of untouched nodes
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parse } from 'yaml';
+import { updateYamlSource, detectYamlFormat, isSameData } from './yamlDocument.js';
+
+const source = `# User accounts
+displayName: User   # shown in the admin
+
+properties:
+  # Login
+  email:
+    type: Email
+    unique: true
+
+  name: { type: String, length: 100 }
+
+options:
+  timestamps: true
+`;
+
+// ============================================================================
+// Update Tests
+// ============================================================================
+
+describe('updateYamlSource', () => {
+  it('returns the source byte-identical when the data did not change', () => {
+    expect(updateYamlSource(source, parse(source) as Record<string, unknown>)).toBe(source);
+  });
+
+  it('ignores key order and undefined values when comparing', () => {
+    const data = parse(source) as Record<string, unknown>;
+    expect(updateYamlSource(source, { options: data.options, extra: undefined, ...data })).toBe(source);
+  });
+
+  it('keeps comments, blank lines and key order around an edit', () => {
+    const data = parse(source) as Record<string, unknown> & { properties: { email: { unique: boolean } } };
+    data.properties.email.unique = false;
+
+    expect(updateYamlSource(source, data)).toBe(
+      source.replace('unique: true', 'unique: false').replace('User   #', 'User #')
+    );
+  });
+
+  it('updates scalars in place, keeping their comment', () => {
+    const data = { ...(parse(source) as Record<string, unknown>), displayName: 'Member: account' };
+    expect(updateYamlSource(source, data)).toContain('displayName: "Member: account" # shown in the admin');
+  });
+
+  it('appends new keys and removes missing ones', () => {
+    const data = parse(source) as Record<string, unknown>;
+    const { options: _options, ...rest } = data;
+    const updated = updateYamlSource(source, { ...rest, group: 'auth' });
+
+    expect(updated).not.toContain('options:');
+    expect(updated.trimEnd().endsWith('group: auth')).toBe(true);
+    expect(updated).toContain('# Login');
+  });
+
+  it('keeps flow collections in flow style', () => {
+    const data = parse(source) as Record<string, unknown> & { properties: { name: { length: number } } };
+    data.properties.name.length = 200;
+    expect(updateYamlSource(source, data)).toContain('name: { type: String, length: 200 }');
+  });
+
+  it('quotes strings that would otherwise change type', () => {
+    const updated = updateYamlSource('tableName: users\n', { tableName: '123' });
+    expect(parse(updated)).toEqual({ tableName: '123' });
+  });
+
+  it('writes data into an empty file', () => {
+    expect(updateYamlSource('', { kind: 'enum' })).toBe('kind: enum\n');
+  });
+
+  it('rejects invalid YAML', () => {
+    expect(() => updateYamlSource('a: [1, 2', {})).toThrow(/invalid YAML/);
+  });
+});
+
+// ============================================================================
+// Format Detection Tests
+// ============================================================================
+
+describe('detectYamlFormat', () => {
+  it('detects indentation and sequence style', () => {
+    expect(detectYamlFormat('values:\n- a\n- b\nproperties:\n    name:\n        type: String\n')).toEqual({
+      indent: 4,
+      indentSeq: false,
+      flowCollectionPadding: true,
+    });
+  });
+
+  it('detects flow collection padding', () => {
+    expect(detectYamlFormat('columns: [a, b]\n').flowCollectionPadding).toBe(false);
+    expect(detectYamlFormat('columns: [ a, b ]\n').flowCollectionPadding).toBe(true);
+  });
+});
+
+describe('isSameData', () => {
+  it('treats undefined properties as absent', () => {
+    expect(isSameData({ a: 1, b: undefined }, { a: 1 })).toBe(true);
+    expect(isSameData([{ a: 1 }], [{ a: 2 }])).toBe(false);
+    expect(isSameData({ a: null }, {})).toBe(false);
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Lossless YAML updates
+ *
+ * Instead of re-serialising data with `stringify`, new data is merged into the
+ * parsed Document so comments, blank lines, key order and scalar styles of
+ * untouched nodes survive. A file whose data did not change is returned as-is.
+ */
+
+import {
+  parseDocument,
+  isMap,
+  isSeq,
+  isScalar,
+  isNode,
+  type Document,
+  type ToStringOptions,
+} from 'yaml';
+
+/**
+ * Formatting options detected from existing YAML source
+ */
+export type YamlFormat = Pick<ToStringOptions, 'indent' | 'indentSeq' | 'flowCollectionPadding'>;
+
+/**
+ * Guess indentation and flow collection padding from existing source, so
+ * re-serialised files keep the style they were written in.
+ */
+export function detectYamlFormat(source: string): YamlFormat {
+  const format: YamlFormat = { indent: 2, indentSeq: true, flowCollectionPadding: true };
+  const lines = source.split(/\r?\n/);
+
+  for (let i = 1; i < lines.length; i++) {
+    const parent = /^( *)[^\s#-][^#]*:\s*(#.*)?$/.exec(lines[i - 1]!);
+    const child = /^( *)(-\s|[^\s#])/.exec(lines[i]!);
+    if (!parent || !child) continue;
+    const depth = child[1]!.length - parent[1]!.length;
+    if (child[2]!.startsWith('-') && depth === 0) {
+      format.indentSeq = false;
+      continue;
+    }
+    if (depth > 0) {
+      format.indent = depth;
+      break;
+    }
+  }
+
+  const flow = /(?:^|:\s|-\s)[[{]( ?)[^\s\]}]/m.exec(source.replace(/#.*$/gm, ''));
+  if (flow) format.flowCollectionPadding = flow[1] === ' ';
+
+  return format;
+}
+
+/**
+ * Deep equality for plain data, treating undefined properties as absent
+ */
+export function isSameData(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return (
+      Array.isArray(a) &&
+      Array.isArray(b) &&
+      a.length === b.length &&
+      a.every((item, i) => isSameData(item, b[i]))
+    );
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    return [...keys].every((key) => isSameData(a[key], b[key]));
+  }
+  return false;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Merge `value` into `node`, mutating it where possible.
+ * Returns the node to keep (the same one, or a replacement) and whether it changed.
+ */
+function mergeNode(doc: Document, node: unknown, value: unknown): { node: unknown; changed: boolean } {
+  if (isNode(node) && isSameData(node.toJS(doc), value)) {
+    return { node, changed: false };
+  }
+
+  if (isMap(node) && isPlainObject(value)) {
+    const entries = Object.entries(value).filter(([, v]) => v !== undefined);
+    const wanted = new Set(entries.map(([key]) => key));
+    const keyOf = (item: (typeof node.items)[number]): string =>
+      String(isScalar(item.key) ? item.key.value : item.key);
+
+    node.items = node.items.filter((item) => wanted.has(keyOf(item)));
+    for (const [key, v] of entries) {
+      const pair = node.items.find((item) => keyOf(item) === key);
+      if (!pair) {
+        node.add(doc.createPair(key, v));
+        continue;
+      }
+      const merged = mergeNode(doc, pair.value, v);
+      if (merged.changed) pair.value = merged.node;
+    }
+    return { node, changed: true };
+  }
+
+  if (isSeq(node) && Array.isArray(value)) {
+    node.items = node.items.slice(0, value.length);
+    value.forEach((v, i) => {
+      if (i >= node.items.length) {
+        node.items.push(doc.createNode(v));
+        return;
+      }
+      const merged = mergeNode(doc, node.items[i], v);
+      if (merged.changed) node.items[i] = merged.node;
+    });
+    return { node, changed: true };
+  }
+
+  // Scalar of the same type: update in place to keep its comment and style
+  if (isScalar(node) && typeof node.value === typeof value && !isPlainObject(value) && !Array.isArray(value)) {
+    node.value = value;
+    return { node, changed: true };
+  }
+
+  const created = doc.createNode(value);
+  if (isNode(node)) {
+    created.comment = node.comment;
+    created.commentBefore = node.commentBefore;
+    created.spaceBefore = node.spaceBefore;
+  }
+  return { node: created, changed: true };
+}
+
+/**
+ * Apply `data` to existing YAML source, touching only the nodes that changed.
+ * Returns the source unchanged when it already holds the same data.
+ */
+export function updateYamlSource(source: string, data: Record<string, unknown>): string {
+  const doc = parseDocument(source);
+  if (doc.errors.length > 0) {
+    throw new Error(`Cannot update invalid YAML: ${doc.errors[0]!.message}`);
+  }
+
+  const merged = mergeNode(doc, doc.contents, data);
+  if (!merged.changed) return source;
+
+  doc.contents = merged.node as typeof doc.contents;
+  return stringifyDocument(doc, source);
+}
+
+/**
+ * Serialise an edited Document in the style of its original source
+ */
+export function stringifyDocument(doc: Document, source: string): string {
+  return doc.toString({ lineWidth: 0, ...detectYamlFormat(source) });
+}